@@ -2,19 +2,22 @@
 // Performance leaderboard and advanced analytics for all bots
 
 import { BotInstance } from '../types/index.js';
+import { QuoteCurrency } from '../api/QuoteCurrency.js';
 import { TradeRecord } from './PnLTracker.js';
+import { QuoteValuation, QuoteRates } from './QuoteValuation.js';
 
 export interface BotPerformance {
   botId: string;
   botName: string;
   tokenSymbol: string;
+  quoteSymbol: string;     // Asset the bot trades against ('ETH' unless quoted in an ERC-20)
   
   // Basic stats
   totalTrades: number;
   totalBuys: number;
   totalSells: number;
   
-  // P&L
+  // P&L (in ETH - quote-token bots converted at the loaded rates, 0 without one)
   totalProfitEth: string;
   totalProfitUsd: number;
   avgProfitPerTrade: number;
@@ -64,12 +67,15 @@ export interface LeaderboardSummary {
 export class BotLeaderboard {
   private performances: Map<string, BotPerformance> = new Map();
   private trades: TradeRecord[] = [];
+  private rates: QuoteRates = {};
 
   /**
    * Load trade history and calculate performance
+   * @param rates - ETH rates for the bots' quote tokens (see QuoteValuation.fetchRates)
    */
-  loadData(bots: BotInstance[], trades: TradeRecord[]): void {
+  loadData(bots: BotInstance[], trades: TradeRecord[], rates: QuoteRates = {}): void {
     this.trades = trades;
+    this.rates = rates;
     this.performances.clear();
 
     for (const bot of bots) {
@@ -132,8 +138,9 @@ export class BotLeaderboard {
       ? Number(grossProfit) / Number(grossLoss) 
       : grossProfit > BigInt(0) ? Infinity : 0;
 
+    const netProfitEth = QuoteValuation.toEthWei(grossProfit - grossLoss, bot.quoteToken, this.rates) ?? BigInt(0);
     const avgProfitPerTrade = totalTrades > 0 
-      ? Number(grossProfit - grossLoss) / totalTrades / 1e18 
+      ? Number(netProfitEth) / totalTrades / 1e18 
       : 0;
 
     const expectancy = totalTrades > 0
@@ -150,10 +157,11 @@ export class BotLeaderboard {
       botId: bot.id,
       botName: bot.name,
       tokenSymbol: bot.tokenSymbol,
+      quoteSymbol: QuoteCurrency.symbol(bot.quoteToken),
       totalTrades,
       totalBuys: buys.length,
       totalSells: sells.length,
-      totalProfitEth: bot.totalProfitEth,
+      totalProfitEth: (QuoteValuation.toEthWei(BigInt(bot.totalProfitEth), bot.quoteToken, this.rates) ?? BigInt(0)).toString(),
       totalProfitUsd: bot.totalProfitUsd,
       avgProfitPerTrade,
       winningTrades,
@@ -380,7 +388,10 @@ export class BotLeaderboard {
       const dayEnd = dayStart + 24 * 60 * 60 * 1000;
 
       const dayTrades = botTrades.filter(t => t.timestamp >= dayStart && t.timestamp < dayEnd);
-      const profit = dayTrades.reduce((sum, t) => sum + Number(BigInt(t.profit || '0')), 0) / 1e18;
+      const profit = dayTrades.reduce(
+        (sum, t) => sum + Number(QuoteValuation.toEthWei(BigInt(t.profit || '0'), t.quote, this.rates) ?? BigInt(0)),
+        0
+      ) / 1e18;
 
       trends.push({
         date: dateStr,
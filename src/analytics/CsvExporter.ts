@@ -29,6 +29,10 @@ export class CsvExporter {
     'Profit %',
     'Position ID',
     'Transaction Hash',
+    'Exit Reason',
+    'Simulated',
+    'TP Tier',
+    'Partial',
   ];
 
   /**
@@ -79,6 +83,10 @@ export class CsvExporter {
         trade.profitPercent ? trade.profitPercent.toFixed(2) : '0',
         trade.positionId?.toString() || '',
         trade.txHash,
+        trade.exitReason || '',
+        trade.simulated ? 'yes' : '',
+        trade.tier?.toString() || '',
+        trade.partial ? 'yes' : '',
       ];
 
       lines.push(row.join(','));
@@ -1,7 +1,8 @@
 // src/analytics/PnLTracker.ts
 
-import { BotInstance } from '../types/index.js';
+import { BotInstance, ExitReason, QuoteToken } from '../types/index.js';
 import { TradeStorage } from './TradeStorage.js';
+import { QuoteValuation, QuoteRates } from './QuoteValuation.js';
 
 export interface TradeRecord {
   id: string;
@@ -19,6 +20,11 @@ export interface TradeRecord {
   timestamp: number;
   txHash: string;
   positionId?: number;
+  exitReason?: ExitReason; // Why the position was sold (for sells)
+  simulated?: boolean;     // Filled by a paper-trading ledger, not on-chain
+  tier?: number;           // Take-profit tier number for a scale-out sell (1 = first)
+  partial?: boolean;       // Position still holds tokens after this sell
+  quote?: QuoteToken;      // Quote asset when not ETH (price, ethValue, gasCost and profit are in its units)
 }
 
 export interface DailyPnL {
@@ -28,6 +34,7 @@ export interface DailyPnL {
   sells: number;
   profitEth: string;       // Total profit in wei
   volumeEth: string;       // Total volume in wei
+  unpricedTrades?: number; // Quote-token trades left out for lack of an ETH rate
 }
 
 export interface CumulativePnL {
@@ -36,6 +43,7 @@ export interface CumulativePnL {
   totalSells: number;
   totalProfitEth: string;
   totalVolumeEth: string;
+  unpricedTrades?: number; // Quote-token trades left out for lack of an ETH rate
   startDate: string;
   endDate: string;
 }
@@ -76,7 +84,8 @@ export class PnLTracker {
     price: number,
     ethCost: string,
     gasCost: string,
-    txHash: string
+    txHash: string,
+    simulated: boolean = false
   ): Promise<void> {
     await this.recordTrade({
       id: `${bot.id}-${Date.now()}`,
@@ -92,11 +101,15 @@ export class PnLTracker {
       timestamp: Date.now(),
       txHash,
       positionId,
+      ...(simulated ? { simulated: true } : {}),
+      ...(bot.quoteToken ? { quote: bot.quoteToken } : {}),
     });
   }
 
   /**
    * Record a sell trade
+   * @description Scale-out positions record one sell per tier fill; profit is each
+   * fill's share, so the fills of a position sum to its blended profit.
    */
   async recordSell(
     bot: BotInstance,
@@ -107,7 +120,11 @@ export class PnLTracker {
     gasCost: string,
     profit: string,
     profitPercent: number,
-    txHash: string
+    txHash: string,
+    exitReason?: ExitReason,
+    simulated: boolean = false,
+    tier?: number,
+    partial: boolean = false
   ): Promise<void> {
     await this.recordTrade({
       id: `${bot.id}-${Date.now()}`,
@@ -125,6 +142,11 @@ export class PnLTracker {
       timestamp: Date.now(),
       txHash,
       positionId,
+      exitReason,
+      ...(simulated ? { simulated: true } : {}),
+      ...(tier !== undefined ? { tier } : {}),
+      ...(partial ? { partial: true } : {}),
+      ...(bot.quoteToken ? { quote: bot.quoteToken } : {}),
     });
   }
 
@@ -145,14 +167,15 @@ export class PnLTracker {
   }
 
   /**
-   * Get daily P&L summary
+   * Get daily P&L summary (paper trades are excluded unless includeSimulated)
+   * @param rates - ETH rates for quote tokens; trades in a quote token without one are skipped
    */
-  getDailyPnL(date: Date): DailyPnL[] {
+  getDailyPnL(date: Date, includeSimulated: boolean = false, rates: QuoteRates = {}): DailyPnL[] {
     const dateStr = date.toISOString().split('T')[0];
     const dayStart = new Date(dateStr).getTime();
     const dayEnd = dayStart + 24 * 60 * 60 * 1000;
 
-    const dayTrades = this.trades.filter(
+    const dayTrades = this.getTrades(includeSimulated).filter(
       t => t.timestamp >= dayStart && t.timestamp < dayEnd
     );
 
@@ -166,8 +189,7 @@ export class PnLTracker {
     return Array.from(byBot.entries()).map(([botId, trades]) => {
       const buys = trades.filter(t => t.action === 'buy');
       const sells = trades.filter(t => t.action === 'sell');
-      const profit = sells.reduce((sum, t) => sum + BigInt(t.profit || '0'), BigInt(0));
-      const volume = trades.reduce((sum, t) => sum + BigInt(t.ethValue), BigInt(0));
+      const { profit, volume, unpriced } = this.sumInEth(trades, rates);
 
       return {
         date: dateStr,
@@ -176,32 +198,65 @@ export class PnLTracker {
         sells: sells.length,
         profitEth: profit.toString(),
         volumeEth: volume.toString(),
+        ...(unpriced > 0 ? { unpricedTrades: unpriced } : {}),
       };
     });
   }
 
   /**
-   * Get cumulative P&L across all time
+   * Get cumulative P&L across all time (paper trades are excluded unless includeSimulated)
+   * @param rates - ETH rates for quote tokens; trades in a quote token without one are skipped
    */
-  getCumulativePnL(): CumulativePnL {
-    const buys = this.trades.filter(t => t.action === 'buy');
-    const sells = this.trades.filter(t => t.action === 'sell');
-    const profit = sells.reduce((sum, t) => sum + BigInt(t.profit || '0'), BigInt(0));
-    const volume = this.trades.reduce((sum, t) => sum + BigInt(t.ethValue), BigInt(0));
+  getCumulativePnL(includeSimulated: boolean = false, rates: QuoteRates = {}): CumulativePnL {
+    const trades = this.getTrades(includeSimulated);
+    const buys = trades.filter(t => t.action === 'buy');
+    const sells = trades.filter(t => t.action === 'sell');
+    const { profit, volume, unpriced } = this.sumInEth(trades, rates);
 
-    const timestamps = this.trades.map(t => t.timestamp);
+    const timestamps = trades.map(t => t.timestamp);
 
     return {
-      totalTrades: this.trades.length,
+      totalTrades: trades.length,
       totalBuys: buys.length,
       totalSells: sells.length,
       totalProfitEth: profit.toString(),
       totalVolumeEth: volume.toString(),
+      ...(unpriced > 0 ? { unpricedTrades: unpriced } : {}),
       startDate: timestamps.length > 0 ? new Date(Math.min(...timestamps)).toISOString() : new Date().toISOString(),
       endDate: timestamps.length > 0 ? new Date(Math.max(...timestamps)).toISOString() : new Date().toISOString(),
     };
   }
 
+  /**
+   * Sum sell profit and trade volume in wei, converting quote-token trades at the given rates
+   */
+  private sumInEth(trades: TradeRecord[], rates: QuoteRates): { profit: bigint; volume: bigint; unpriced: number } {
+    let profit = BigInt(0);
+    let volume = BigInt(0);
+    let unpriced = 0;
+
+    for (const trade of trades) {
+      const value = QuoteValuation.toEthWei(BigInt(trade.ethValue), trade.quote, rates);
+      if (value === null) {
+        unpriced++;
+        continue;
+      }
+      volume += value;
+      if (trade.action === 'sell') {
+        profit += QuoteValuation.toEthWei(BigInt(trade.profit || '0'), trade.quote, rates)!;
+      }
+    }
+
+    return { profit, volume, unpriced };
+  }
+
+  /**
+   * Live trades, plus paper trades if requested
+   */
+  private getTrades(includeSimulated: boolean): TradeRecord[] {
+    return includeSimulated ? this.trades : this.trades.filter(t => !t.simulated);
+  }
+
   /**
    * Get all trade history
    */
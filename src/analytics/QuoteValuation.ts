@@ -0,0 +1,45 @@
+// src/analytics/QuoteValuation.ts
+// Values amounts kept in a bot's quote token (USDC, DAI, ...) in ETH so bots can be summed
+
+import { QuoteToken } from '../types/index.js';
+import { PriceOracle } from '../oracle/PriceOracle.js';
+
+/**
+ * ETH per whole quote token, keyed by lowercase token address
+ */
+export type QuoteRates = Record<string, number>;
+
+/**
+ * Converts quote-token amounts to ETH for cross-bot totals
+ */
+export class QuoteValuation {
+  /**
+   * Read the ETH price of every distinct quote token (tokens without a price are left out)
+   */
+  static async fetchRates(oracle: PriceOracle, quotes: (QuoteToken | undefined)[]): Promise<QuoteRates> {
+    const unique = new Map<string, QuoteToken>();
+    for (const quote of quotes) {
+      if (quote) unique.set(quote.address.toLowerCase(), quote);
+    }
+
+    const rates: QuoteRates = {};
+    for (const [address, quote] of unique) {
+      const rate = await oracle.getQuoteTokenPriceEth(quote.address, quote.decimals);
+      if (rate && rate > 0) rates[address] = rate;
+    }
+    return rates;
+  }
+
+  /**
+   * Convert an amount in the quote's smallest units to wei
+   * @returns The amount unchanged for ETH, or null when the quote token has no rate
+   */
+  static toEthWei(amount: bigint, quote: QuoteToken | undefined, rates: QuoteRates): bigint | null {
+    if (!quote) return amount;
+    const rate = rates[quote.address.toLowerCase()];
+    if (!rate) return null;
+
+    const weiPerToken = BigInt(Math.round(rate * 1e18));
+    return (amount * weiPerToken) / BigInt(10) ** BigInt(quote.decimals);
+  }
+}
@@ -3,3 +3,4 @@ export { TradeHistory } from './TradeHistory.js';
 export { CsvExporter, CsvExportOptions } from './CsvExporter.js';
 export { TradeStorage } from './TradeStorage.js';
 export { BotLeaderboard, BotPerformance, LeaderboardSummary } from './BotLeaderboard.js';
+export { QuoteValuation, QuoteRates } from './QuoteValuation.js';
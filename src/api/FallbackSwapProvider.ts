@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Ordered fallback chain of swap providers
+ * @module api/FallbackSwapProvider
+ * @version 1.0.0
+ */
+
+import chalk from 'chalk';
+import { ZeroXQuote, Chain, SwapProviderName, QuoteToken } from '../types/index.js';
+import { SwapProvider, ProfitCheckResult } from './SwapProvider.js';
+import { ZeroXApi } from './ZeroXApi.js';
+import { UniswapV3Provider } from './UniswapV3Provider.js';
+
+/**
+ * Swap provider that tries several providers in order
+ * @class FallbackSwapProvider
+ * @description Each call goes to the first provider and falls through to the next one
+ * only when it has no quote/price (null). An unprofitable-but-quoted sell is a real answer
+ * and is returned as-is, so a worse route never overrides a "hold" decision.
+ */
+export class FallbackSwapProvider implements SwapProvider {
+  readonly name: string;
+  private providers: SwapProvider[];
+
+  /**
+   * Creates a fallback chain
+   * @constructor
+   * @param {SwapProvider[]} providers - Providers in priority order (at least one)
+   */
+  constructor(providers: SwapProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('FallbackSwapProvider needs at least one provider');
+    }
+    this.providers = providers;
+    this.name = providers.map(p => p.name).join(' → ');
+  }
+
+  /**
+   * Build the provider for a bot's configured chain of provider names
+   * @param {SwapProviderName[] | undefined} names - Configured providers (default: ['0x'])
+   * @param {ZeroXApi} zeroXApi - Shared 0x client used for '0x'
+   * @param {any} publicClient - viem public client for on-chain providers
+   * @param {Chain} chain - Chain the bot trades on
+   * @returns {SwapProvider} The single provider, or a fallback chain over several
+   */
+  static create(
+    names: SwapProviderName[] | undefined,
+    zeroXApi: ZeroXApi,
+    publicClient: any,
+    chain: Chain
+  ): SwapProvider {
+    const unique = [...new Set(names && names.length > 0 ? names : ['0x' as SwapProviderName])];
+    const providers = unique.map((name): SwapProvider =>
+      name === 'uniswap-v3' ? new UniswapV3Provider(publicClient, chain) : zeroXApi
+    );
+    return providers.length === 1 ? providers[0] : new FallbackSwapProvider(providers);
+  }
+
+  /**
+   * Switch every provider to a chain
+   * @param {Chain} chain - Chain to use
+   */
+  setChain(chain: Chain): void {
+    for (const provider of this.providers) {
+      provider.setChain(chain);
+    }
+  }
+
+  /**
+   * Get a buy quote from the first provider that has one
+   */
+  async getBuyQuote(
+    tokenAddress: string,
+    ethAmount: string,
+    takerAddress: string,
+    slippageBps?: number,
+    quoteToken?: QuoteToken
+  ): Promise<ZeroXQuote | null> {
+    return this.firstResult('buy quote', p => p.getBuyQuote(tokenAddress, ethAmount, takerAddress, slippageBps, quoteToken));
+  }
+
+  /**
+   * Get a sell quote from the first provider that has one
+   */
+  async getSellQuote(
+    tokenAddress: string,
+    tokenAmount: string,
+    takerAddress: string,
+    slippageBps?: number,
+    quoteToken?: QuoteToken
+  ): Promise<ZeroXQuote | null> {
+    return this.firstResult('sell quote', p => p.getSellQuote(tokenAddress, tokenAmount, takerAddress, slippageBps, quoteToken));
+  }
+
+  /**
+   * Get the price from the first provider that has one
+   */
+  async getTokenPrice(tokenAddress: string, takerAddress: string, quoteToken?: QuoteToken): Promise<number | null> {
+    return this.firstResult('price', p => p.getTokenPrice(tokenAddress, takerAddress, quoteToken));
+  }
+
+  /**
+   * Check profitability with the first provider that can quote the sell
+   * @returns {Promise<ProfitCheckResult>} First quoted result, or the last provider's empty result
+   */
+  async isProfitable(
+    tokenAddress: string,
+    tokenAmount: string,
+    ethCostBasis: string,
+    minProfitPercent: number,
+    takerAddress: string,
+    strictMode?: boolean,
+    fallbackGasEth?: number,
+    strictProfitPercent?: number,
+    logFallback?: boolean,
+    quoteToken?: QuoteToken
+  ): Promise<ProfitCheckResult> {
+    let result: ProfitCheckResult = { profitable: false, quote: null, actualProfit: 0 };
+
+    for (const [i, provider] of this.providers.entries()) {
+      result = await provider.isProfitable(
+        tokenAddress, tokenAmount, ethCostBasis, minProfitPercent, takerAddress,
+        strictMode, fallbackGasEth, strictProfitPercent, logFallback, quoteToken
+      );
+      if (result.quote) return result;
+      this.logFallthrough(i, 'sell quote');
+    }
+
+    return result;
+  }
+
+  /**
+   * Run a call against each provider until one returns a non-null result
+   * @private
+   */
+  private async firstResult<T>(what: string, call: (provider: SwapProvider) => Promise<T | null>): Promise<T | null> {
+    for (const [i, provider] of this.providers.entries()) {
+      try {
+        const result = await call(provider);
+        if (result !== null) return result;
+      } catch {
+        // Treat a throwing provider like one without a quote
+      }
+      this.logFallthrough(i, what);
+    }
+    return null;
+  }
+
+  /**
+   * Log that a provider had nothing and the next one is being tried
+   * @private
+   */
+  private logFallthrough(index: number, what: string): void {
+    const next = this.providers[index + 1];
+    if (next) {
+      console.log(chalk.dim(`  ↪ No ${what} from ${this.providers[index].name}, trying ${next.name}`));
+    }
+  }
+}
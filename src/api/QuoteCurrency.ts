@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Quote asset helpers - native ETH or an ERC-20 such as USDC
+ * @module api/QuoteCurrency
+ * @version 1.0.0
+ */
+
+import { erc20Abi, formatUnits, parseEther, parseUnits } from 'viem';
+import { Chain, QuoteToken } from '../types/index.js';
+
+/**
+ * Placeholder address 0x and most aggregators use for native ETH
+ * @constant {string}
+ */
+export const NATIVE_TOKEN_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+/**
+ * Well-known quote tokens offered when creating a bot
+ * @constant {Record<Chain, QuoteToken[]>}
+ */
+export const KNOWN_QUOTE_TOKENS: Record<Chain, QuoteToken[]> = {
+  base: [
+    { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC', decimals: 6 },
+    { address: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb', symbol: 'DAI', decimals: 18 },
+  ],
+  ethereum: [
+    { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', decimals: 6 },
+    { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', decimals: 6 },
+    { address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', symbol: 'DAI', decimals: 18 },
+  ],
+};
+
+// Price probe for native ETH (0.001 ETH, as before quote tokens existed)
+const NATIVE_PRICE_PROBE = parseEther('0.001');
+
+/**
+ * Units and addresses of a bot's quote asset
+ * @class QuoteCurrency
+ * @description Every helper takes the bot's optional quoteToken - undefined means native
+ * ETH - so call sites never branch on the asset themselves. Amounts are integer strings
+ * in the asset's smallest unit (wei for ETH, 10^-6 for USDC). Token amounts are assumed
+ * to have 18 decimals, as everywhere else in the bot.
+ */
+export class QuoteCurrency {
+  /**
+   * Whether the quote asset is native ETH
+   */
+  static isNative(quote?: QuoteToken): boolean {
+    return !quote;
+  }
+
+  /**
+   * Address to put in a swap request (the native placeholder for ETH)
+   */
+  static address(quote?: QuoteToken): string {
+    return quote?.address ?? NATIVE_TOKEN_ADDRESS;
+  }
+
+  /**
+   * Display symbol ('ETH' for native)
+   */
+  static symbol(quote?: QuoteToken): string {
+    return quote?.symbol ?? 'ETH';
+  }
+
+  /**
+   * Decimals of the quote asset (18 for ETH)
+   */
+  static decimals(quote?: QuoteToken): number {
+    return quote?.decimals ?? 18;
+  }
+
+  /**
+   * Parse a human amount (e.g. '25.5') into smallest units
+   */
+  static parse(amount: string | number, quote?: QuoteToken): bigint {
+    return parseUnits(amount.toString(), QuoteCurrency.decimals(quote));
+  }
+
+  /**
+   * Format smallest units as a human amount (no symbol)
+   */
+  static format(amount: bigint, quote?: QuoteToken): string {
+    return formatUnits(amount, QuoteCurrency.decimals(quote));
+  }
+
+  /**
+   * Format smallest units with the symbol, e.g. '25.5 USDC'
+   */
+  static label(amount: bigint, quote?: QuoteToken): string {
+    return `${QuoteCurrency.format(amount, quote)} ${QuoteCurrency.symbol(quote)}`;
+  }
+
+  /**
+   * Amount spent by the price probe: 0.001 ETH, or one whole quote token
+   */
+  static priceProbe(quote?: QuoteToken): bigint {
+    return quote ? parseUnits('1', quote.decimals) : NATIVE_PRICE_PROBE;
+  }
+
+  /**
+   * Token price in quote units per whole token from a probe buy
+   * @param {bigint} spent - Quote amount spent in smallest units
+   * @param {bigint} tokensOut - Tokens received in wei
+   */
+  static price(spent: bigint, tokensOut: bigint, quote?: QuoteToken): number {
+    return Number(QuoteCurrency.format(spent, quote)) / Number(formatUnits(tokensOut, 18));
+  }
+
+  /**
+   * Value of a token amount at a price, in quote smallest units
+   * @param {bigint} tokens - Tokens in wei
+   * @param {number} price - Quote units per whole token
+   */
+  static value(tokens: bigint, price: number, quote?: QuoteToken): bigint {
+    const scaled = BigInt(Math.floor(price * 1e18));
+    return (tokens * scaled) / BigInt(10) ** BigInt(36 - QuoteCurrency.decimals(quote));
+  }
+
+  /**
+   * Convert a gas cost in wei into quote units
+   * @param {bigint} gasWei - Gas cost in wei
+   * @param {number} quotePriceEth - Quote token price from a swap provider's getTokenPrice
+   * (priced in ETH, i.e. wei per smallest quote unit when the quote token has 18 decimals)
+   * @param {QuoteToken} [quote] - Quote asset (native: returned unchanged)
+   * @description getTokenPrice reads every token as if it had 18 decimals, so for the
+   * quote token its result is wei per smallest unit regardless of the real decimals.
+   */
+  static gasInQuote(gasWei: bigint, quotePriceEth: number, quote?: QuoteToken): bigint {
+    if (!quote) return gasWei;
+    if (!(quotePriceEth > 0)) {
+      throw new Error(`No ${quote.symbol} price to convert gas with`);
+    }
+    return BigInt(Math.ceil(Number(gasWei) / quotePriceEth));
+  }
+
+  /**
+   * Read symbol and decimals of an ERC-20 to use as a quote token
+   * @param {any} publicClient - viem public client
+   * @param {string} address - Token contract
+   */
+  static async fetch(publicClient: any, address: string): Promise<QuoteToken> {
+    const token = address as `0x${string}`;
+    const [symbol, decimals] = await Promise.all([
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }),
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }),
+    ]);
+    return { address, symbol: String(symbol), decimals: Number(decimals) };
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Process-wide request budget, per-endpoint token buckets and 429 backoff
+ * @module api/RateLimiter
+ * @version 1.0.0
+ */
+
+import chalk from 'chalk';
+
+/**
+ * Rate of one token bucket
+ * @interface BucketConfig
+ */
+export interface BucketConfig {
+  /** Burst size */
+  capacity: number;
+  /** Sustained requests per second */
+  perSecond: number;
+}
+
+/**
+ * Rate limiter configuration
+ * @interface RateLimiterConfig
+ */
+export interface RateLimiterConfig {
+  /** Budget shared by every endpoint */
+  global: BucketConfig;
+  /** Extra per-endpoint limits (endpoints without one only use the global budget) */
+  endpoints: Record<string, BucketConfig>;
+  /** First backoff after a 429 when the API sends no Retry-After (doubles per 429 in a row) */
+  baseBackoffMs: number;
+  /** Longest backoff */
+  maxBackoffMs: number;
+}
+
+/**
+ * Rate limit state, as reported by HeartbeatManager.getStatus
+ * @interface RateLimitStatus
+ */
+export interface RateLimitStatus {
+  /** Backing off after a 429 - requests are skipped until throttledUntil */
+  throttled: boolean;
+  throttledUntil: number | null;
+  /** 429s in a row (reset by the next success) */
+  consecutiveThrottles: number;
+  /** 429s since start */
+  totalThrottles: number;
+  /** Requests waiting for a bucket token */
+  waiting: number;
+  /** Requests sent since start, by endpoint */
+  requests: Record<string, number>;
+  /** Requests that failed with anything other than a 429, since start */
+  failures: number;
+}
+
+/**
+ * Default budget: 0x's free tier allows about 10 requests per second
+ * @constant {RateLimiterConfig}
+ */
+export const DEFAULT_RATE_LIMITER_CONFIG: RateLimiterConfig = {
+  global: { capacity: 10, perSecond: 5 },
+  endpoints: {
+    price: { capacity: 6, perSecond: 3 },
+    quote: { capacity: 4, perSecond: 2 },
+  },
+  baseBackoffMs: 2000,
+  maxBackoffMs: 60000,
+};
+
+/**
+ * Classic token bucket: `capacity` tokens, refilled continuously at `perSecond`
+ * @class TokenBucket
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(private readonly config: BucketConfig) {
+    this.tokens = config.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Milliseconds until a token is available (0 = now)
+   */
+  waitTime(): number {
+    this.refill();
+    if (this.tokens >= 1) return 0;
+    return Math.ceil(((1 - this.tokens) / this.config.perSecond) * 1000);
+  }
+
+  /**
+   * Take a token (call after waitTime() returned 0)
+   */
+  take(): void {
+    this.refill();
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.config.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.config.perSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Shared request budget for an HTTP API
+ * @class RateLimiter
+ * @description Every request takes a token from the global bucket and from its endpoint's
+ * bucket, waiting in line when they are empty. A 429 puts the limiter in a throttled state
+ * for Retry-After (or an exponential backoff); callers skip requests while it lasts and the
+ * state is logged once on entry and once on recovery instead of per failed request.
+ */
+export class RateLimiter {
+  private static instance: RateLimiter;
+  private config: RateLimiterConfig;
+  private global: TokenBucket;
+  private endpoints: Map<string, TokenBucket> = new Map();
+  private queue: Promise<void> = Promise.resolve();
+  private waiting: number = 0;
+  private throttledUntil: number = 0;
+  private consecutiveThrottles: number = 0;
+  private totalThrottles: number = 0;
+  private requests: Record<string, number> = {};
+  private failures: number = 0;
+
+  /**
+   * Get the process-wide limiter shared by every 0x client
+   */
+  static getInstance(): RateLimiter {
+    if (!RateLimiter.instance) {
+      RateLimiter.instance = new RateLimiter();
+    }
+    return RateLimiter.instance;
+  }
+
+  constructor(config: Partial<RateLimiterConfig> = {}) {
+    this.config = { ...DEFAULT_RATE_LIMITER_CONFIG, ...config };
+    this.global = new TokenBucket(this.config.global);
+    for (const [endpoint, bucket] of Object.entries(this.config.endpoints)) {
+      this.endpoints.set(endpoint, new TokenBucket(bucket));
+    }
+  }
+
+  /**
+   * Wait for budget on an endpoint (first come, first served)
+   * @param {string} endpoint - Endpoint bucket name
+   */
+  async acquire(endpoint: string): Promise<void> {
+    const bucket = this.endpoints.get(endpoint);
+    this.waiting++;
+
+    const turn = this.queue.then(async () => {
+      for (;;) {
+        const wait = Math.max(this.global.waitTime(), bucket?.waitTime() ?? 0);
+        if (wait === 0) break;
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      this.global.take();
+      bucket?.take();
+      this.requests[endpoint] = (this.requests[endpoint] ?? 0) + 1;
+    });
+    this.queue = turn;
+
+    try {
+      await turn;
+    } finally {
+      this.waiting--;
+    }
+  }
+
+  /**
+   * Whether requests should be skipped (backing off after a 429)
+   */
+  isThrottled(): boolean {
+    return Date.now() < this.throttledUntil;
+  }
+
+  /**
+   * Record a 429 and back off
+   * @param {number} [retryAfterMs] - Server's Retry-After, if it sent one
+   */
+  recordThrottle(retryAfterMs?: number): void {
+    const backoff = Math.min(
+      this.config.maxBackoffMs,
+      this.config.baseBackoffMs * Math.pow(2, this.consecutiveThrottles)
+    );
+    const wasThrottled = this.isThrottled() || this.consecutiveThrottles > 0;
+    this.consecutiveThrottles++;
+    this.totalThrottles++;
+    this.throttledUntil = Math.max(this.throttledUntil, Date.now() + Math.max(retryAfterMs ?? 0, backoff));
+
+    if (!wasThrottled) {
+      console.log(chalk.yellow(`⏳ 0x API rate limit hit - backing off ${Math.ceil((this.throttledUntil - Date.now()) / 1000)}s`));
+    }
+  }
+
+  /**
+   * Record a successful request (ends the backoff streak)
+   */
+  recordSuccess(): void {
+    if (this.consecutiveThrottles > 0) {
+      console.log(chalk.green('✓ 0x API rate limit cleared'));
+      this.consecutiveThrottles = 0;
+    }
+  }
+
+  /**
+   * Record a request that failed for a reason other than rate limiting
+   */
+  recordFailure(): void {
+    this.failures++;
+  }
+
+  /**
+   * Current throttle state
+   */
+  getStatus(): RateLimitStatus {
+    const throttled = this.isThrottled();
+    return {
+      throttled,
+      throttledUntil: throttled ? this.throttledUntil : null,
+      consecutiveThrottles: this.consecutiveThrottles,
+      totalThrottles: this.totalThrottles,
+      waiting: this.waiting,
+      requests: { ...this.requests },
+      failures: this.failures,
+    };
+  }
+
+  /**
+   * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+   * @static
+   */
+  static parseRetryAfter(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * @fileoverview Per-chain RPC endpoint pools with health scoring, latency tracking and failover
+ * @module api/RpcPool
+ * @version 1.0.0
+ */
+
+import chalk from 'chalk';
+import { createPublicClient, custom, http, Transport } from 'viem';
+import { base, mainnet } from 'viem/chains';
+import { Chain } from '../types/index.js';
+import { PrivateRelay, SUBMIT_METHODS } from '../wallet/PrivateRelay.js';
+
+const CHAIN_CONFIG: Record<Chain, typeof base | typeof mainnet> = {
+  base,
+  ethereum: mainnet,
+};
+
+/**
+ * Public endpoints tried after the configured ones, by chain
+ * @constant {Record<Chain, string[]>}
+ */
+export const DEFAULT_RPC_ENDPOINTS: Record<Chain, string[]> = {
+  base: [
+    'https://base.llamarpc.com',
+    'https://mainnet.base.org',
+    'https://base.publicnode.com',
+    'https://base.drpc.org',
+    'https://1rpc.io/base',
+  ],
+  ethereum: [
+    'https://eth.llamarpc.com',
+    'https://eth.drpc.org',
+    'https://rpc.ankr.com/eth',
+    'https://ethereum.publicnode.com',
+    'https://1rpc.io/eth',
+  ],
+};
+
+// Preferred endpoints (comma separated), ahead of the defaults
+const RPC_ENV: Record<Chain, string> = {
+  base: 'BASE_RPC_URL',
+  ethereum: 'ETH_RPC_URL',
+};
+
+/**
+ * Health of one endpoint, as reported by getStatus
+ * @interface RpcEndpointStatus
+ */
+export interface RpcEndpointStatus {
+  url: string;
+  /** Requests are sent here first */
+  current: boolean;
+  /** Not cooling down after failures */
+  healthy: boolean;
+  /** Moving average latency in ms (null until first answer) */
+  latencyMs: number | null;
+  /** Moving average share of failed requests, 0..1 */
+  errorRate: number;
+  requests: number;
+  failures: number;
+  lastError?: string;
+}
+
+interface EndpointState {
+  url: string;
+  avgLatencyMs: number | null;
+  errorRate: number;
+  consecutiveFailures: number;
+  /** Skipped until this time unless every endpoint is down */
+  downUntil: number;
+  requests: number;
+  failures: number;
+  lastError?: string;
+  transport: ReturnType<Transport> | null;
+}
+
+interface ChainPool {
+  endpoints: EndpointState[];
+  current: number;
+  checkedAt: number;
+}
+
+/**
+ * RPC endpoints for every chain, shared by the CLI, the daemon and all bots
+ * @class RpcPool
+ * @description Requests go to the current endpoint. An endpoint that times out, errors at
+ * the HTTP level or rate-limits is cooled down (2s, doubling up to a minute) and the request
+ * fails over to the next best one; errors the node answers with (reverts, bad params) pass
+ * straight through. Transaction submissions are never resent: a send that timed out may still
+ * have reached the node, and a second broadcast elsewhere could trade twice. Endpoints are scored by latency and recent error rate, and the current
+ * one is only replaced by one scoring clearly better, so requests don't flap between them.
+ */
+export class RpcPool {
+  private static instance: RpcPool;
+  // Tries per request, across endpoints (one endpoint is retried)
+  static readonly MAX_ATTEMPTS = 3;
+  static readonly REQUEST_TIMEOUT_MS = 10000;
+  static readonly PROBE_TIMEOUT_MS = 3000;
+  // check() results are reused for this long
+  static readonly CHECK_TTL_MS = 60000;
+  private static readonly BASE_COOLDOWN_MS = 2000;
+  private static readonly MAX_COOLDOWN_MS = 60000;
+  // Score given to endpoints that haven't answered yet
+  private static readonly UNTESTED_LATENCY_MS = 1000;
+  // A healthy current endpoint is kept unless it scores this much worse than the best
+  private static readonly SWITCH_RATIO = 1.5;
+
+  private pools: Record<Chain, ChainPool>;
+
+  /**
+   * Get the process-wide pool (endpoints from BASE_RPC_URL / ETH_RPC_URL, then the defaults)
+   */
+  static getInstance(): RpcPool {
+    if (!RpcPool.instance) {
+      RpcPool.instance = new RpcPool();
+    }
+    return RpcPool.instance;
+  }
+
+  /**
+   * @param {Partial<Record<Chain, string[]>>} [endpoints] - Endpoints per chain, in order of
+   * preference (chains left out use the environment and DEFAULT_RPC_ENDPOINTS)
+   */
+  constructor(endpoints: Partial<Record<Chain, string[]>> = {}) {
+    const build = (chain: Chain): ChainPool => {
+      const urls = endpoints[chain] ?? [
+        ...(process.env[RPC_ENV[chain]] || '').split(',').map(u => u.trim()).filter(u => u.length > 0),
+        ...DEFAULT_RPC_ENDPOINTS[chain],
+      ];
+      return { endpoints: Array.from(new Set(urls)).map(RpcPool.newEndpoint), current: 0, checkedAt: 0 };
+    };
+    this.pools = { base: build('base'), ethereum: build('ethereum') };
+  }
+
+  /**
+   * Transport for a chain that fails over between its endpoints
+   * @description Calls aren't counted here - wrap with RpcStats.track where they should be.
+   */
+  transport(chain: Chain): Transport {
+    return custom(
+      { request: (args: any) => this.request(chain, args) },
+      { key: 'rpcPool', name: `${chain} RPC pool`, retryCount: 0 }
+    );
+  }
+
+  /**
+   * Endpoint requests currently go to first
+   */
+  getUrl(chain: Chain): string {
+    return this.ranked(chain)[0].url;
+  }
+
+  /**
+   * Find an endpoint that answers, best first, and make it current
+   * @param {boolean} [force] - Probe even if the last check is recent
+   * @returns The working URL, or the current one if none answered (callers fail with its error)
+   */
+  async check(chain: Chain, force: boolean = false): Promise<string> {
+    const pool = this.pools[chain];
+    if (!force && pool.checkedAt > 0 && Date.now() - pool.checkedAt < RpcPool.CHECK_TTL_MS) {
+      return this.getUrl(chain);
+    }
+
+    const result = await this.probe(chain);
+    if (result) {
+      pool.checkedAt = Date.now();
+      return result.url;
+    }
+    if (force) {
+      console.log(chalk.red(`✗ All ${chain} RPC endpoints failed`));
+    }
+    return this.getUrl(chain);
+  }
+
+  /**
+   * Ask endpoints for the block number, best first, until one answers
+   * @returns The endpoint that answered and its block number, or null if none did
+   */
+  async probe(chain: Chain): Promise<{ url: string; blockNumber: bigint } | null> {
+    for (const endpoint of this.ranked(chain)) {
+      const started = Date.now();
+      try {
+        const client = createPublicClient({
+          chain: CHAIN_CONFIG[chain],
+          transport: http(endpoint.url, { timeout: RpcPool.PROBE_TIMEOUT_MS, retryCount: 0 }),
+        });
+        const blockNumber = await client.getBlockNumber({ cacheTime: 0 });
+        this.recordSuccess(endpoint, Date.now() - started);
+        this.makeCurrent(chain, endpoint);
+        return { url: endpoint.url, blockNumber };
+      } catch (error: any) {
+        this.recordFailure(endpoint, error);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Health of a chain's endpoints, in order of preference
+   */
+  getStatus(chain: Chain): RpcEndpointStatus[] {
+    const now = Date.now();
+    return this.ranked(chain).map((e, i) => ({
+      url: e.url,
+      current: i === 0,
+      healthy: e.downUntil <= now,
+      latencyMs: e.avgLatencyMs,
+      errorRate: e.errorRate,
+      requests: e.requests,
+      failures: e.failures,
+      lastError: e.lastError,
+    }));
+  }
+
+  /**
+   * Whether an error means the endpoint failed (rather than the node rejecting the call)
+   */
+  static isEndpointError(error: any): boolean {
+    if (error?.name === 'HttpRequestError' || error?.name === 'TimeoutError') return true;
+    // Provider rate limit
+    return error?.code === -32005 || error?.status === 429;
+  }
+
+  /**
+   * Send one call, failing over to the next endpoint on endpoint errors (reads only)
+   */
+  private async request(chain: Chain, args: any): Promise<any> {
+    const ranked = this.ranked(chain);
+    const attempts = SUBMIT_METHODS.includes(args.method) ? 1 : RpcPool.MAX_ATTEMPTS;
+    let lastError: any;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const endpoint = ranked[attempt % ranked.length];
+      const started = Date.now();
+      try {
+        const result = await this.endpointTransport(chain, endpoint).request(args);
+        this.recordSuccess(endpoint, Date.now() - started);
+        return result;
+      } catch (error: any) {
+        if (!RpcPool.isEndpointError(error)) {
+          // The node answered - a revert or bad request isn't the endpoint's fault
+          this.recordSuccess(endpoint, Date.now() - started);
+          throw error;
+        }
+        this.recordFailure(endpoint, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Endpoints best first: the current one (unless down or clearly beaten), the other
+   * healthy ones by score, then those cooling down, soonest back first
+   */
+  private ranked(chain: Chain): EndpointState[] {
+    const pool = this.pools[chain];
+    const now = Date.now();
+    const up = pool.endpoints.filter(e => e.downUntil <= now).sort((a, b) => RpcPool.score(a) - RpcPool.score(b));
+    const down = pool.endpoints.filter(e => e.downUntil > now).sort((a, b) => a.downUntil - b.downUntil);
+    if (up.length === 0) return down;
+
+    const current = pool.endpoints[pool.current];
+    const keep = current.downUntil <= now && RpcPool.score(current) <= RpcPool.score(up[0]) * RpcPool.SWITCH_RATIO;
+    const first = keep ? current : up[0];
+    this.makeCurrent(chain, first);
+    return [first, ...up.filter(e => e !== first), ...down];
+  }
+
+  private makeCurrent(chain: Chain, endpoint: EndpointState): void {
+    const pool = this.pools[chain];
+    const index = pool.endpoints.indexOf(endpoint);
+    if (index === pool.current) return;
+
+    const previous = pool.endpoints[pool.current];
+    pool.current = index;
+    console.log(chalk.yellow(`⚠️  ${chain} RPC: ${PrivateRelay.label(previous.url)} → ${PrivateRelay.label(endpoint.url)}${previous.lastError ? ` (${previous.lastError})` : ''}`));
+  }
+
+  private endpointTransport(chain: Chain, endpoint: EndpointState): ReturnType<Transport> {
+    if (!endpoint.transport) {
+      endpoint.transport = http(endpoint.url, { timeout: RpcPool.REQUEST_TIMEOUT_MS, retryCount: 0 })({
+        chain: CHAIN_CONFIG[chain],
+        retryCount: 0,
+      });
+    }
+    return endpoint.transport;
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number): void {
+    endpoint.requests++;
+    // Exponential moving averages over roughly the last ten requests
+    endpoint.avgLatencyMs = endpoint.avgLatencyMs === null ? latencyMs : Math.round(endpoint.avgLatencyMs * 0.9 + latencyMs * 0.1);
+    endpoint.errorRate = endpoint.errorRate * 0.9;
+    endpoint.consecutiveFailures = 0;
+    endpoint.downUntil = 0;
+  }
+
+  private recordFailure(endpoint: EndpointState, error: any): void {
+    endpoint.requests++;
+    endpoint.failures++;
+    endpoint.errorRate = endpoint.errorRate * 0.9 + 0.1;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error?.shortMessage || error?.message || 'unknown error';
+    const cooldown = Math.min(RpcPool.MAX_COOLDOWN_MS, RpcPool.BASE_COOLDOWN_MS * Math.pow(2, endpoint.consecutiveFailures - 1));
+    endpoint.downUntil = Date.now() + cooldown;
+  }
+
+  private static score(endpoint: EndpointState): number {
+    return (endpoint.avgLatencyMs ?? RpcPool.UNTESTED_LATENCY_MS) * (1 + 10 * endpoint.errorRate);
+  }
+
+  private static newEndpoint(url: string): EndpointState {
+    return {
+      url,
+      avgLatencyMs: null,
+      errorRate: 0,
+      consecutiveFailures: 0,
+      downUntil: 0,
+      requests: 0,
+      failures: 0,
+      transport: null,
+    };
+  }
+}
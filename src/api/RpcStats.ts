@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Process-wide count of JSON-RPC calls, for the daemon's metrics
+ * @module api/RpcStats
+ * @version 1.0.0
+ */
+
+import { custom, Transport } from 'viem';
+
+/**
+ * RPC call counts since start
+ * @interface RpcStatus
+ */
+export interface RpcStatus {
+  /** Calls by JSON-RPC method */
+  requests: Record<string, number>;
+  /** Calls that failed after the transport's own retries */
+  failures: number;
+}
+
+/**
+ * Counts the JSON-RPC calls made through tracked transports
+ * @class RpcStats
+ * @description A call is counted once however many times the transport retried it.
+ */
+export class RpcStats {
+  private static instance: RpcStats;
+  private requests: Record<string, number> = {};
+  private failures: number = 0;
+
+  /**
+   * Get the process-wide counter
+   */
+  static getInstance(): RpcStats {
+    if (!RpcStats.instance) {
+      RpcStats.instance = new RpcStats();
+    }
+    return RpcStats.instance;
+  }
+
+  /**
+   * Wrap a transport so its calls are counted
+   * @param {Transport} transport - Transport doing the actual requests (keeps its retries)
+   * @param {RpcStats} [stats] - Counter (default: the process-wide one)
+   */
+  static track(transport: Transport, stats: RpcStats = RpcStats.getInstance()): Transport {
+    return (options) => {
+      const inner = transport(options);
+      return custom(
+        {
+          request: async (args: any) => {
+            stats.requests[args.method] = (stats.requests[args.method] ?? 0) + 1;
+            try {
+              return await inner.request(args);
+            } catch (error) {
+              stats.failures++;
+              throw error;
+            }
+          },
+        },
+        { key: inner.config.key, name: inner.config.name, retryCount: 0 }
+      )(options);
+    };
+  }
+
+  /**
+   * Counts so far
+   */
+  getStatus(): RpcStatus {
+    return { requests: { ...this.requests }, failures: this.failures };
+  }
+}
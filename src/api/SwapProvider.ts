@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Swap provider contract shared by every quote/trade backend
+ * @module api/SwapProvider
+ * @version 1.0.0
+ */
+
+import { ZeroXQuote, Chain, QuoteToken } from '../types/index.js';
+
+/**
+ * Outcome of a sell profitability check
+ * @interface ProfitCheckResult
+ */
+export interface ProfitCheckResult {
+  /** Whether the sell meets the profit requirement */
+  profitable: boolean;
+  /** Quote the check was priced from (null if none was available) */
+  quote: ZeroXQuote | null;
+  /** Profit percentage after gas */
+  actualProfit: number;
+  /** Strict minimum result (strict mode only) */
+  strictCheck?: boolean;
+  /** True if the quote had no gas estimate and the fallback was used */
+  usedFallbackGas?: boolean;
+}
+
+/**
+ * Source of prices, swap quotes and sell profitability checks for a bot
+ * @interface SwapProvider
+ * @description Quotes come back in the ZeroXQuote shape (to/data/value/gas/gasPrice,
+ * allowanceTarget for sells) so TradingBot executes them without knowing the backend.
+ * Methods return null / an unprofitable result instead of throwing when no quote is
+ * available, which is what lets FallbackSwapProvider move on to the next provider.
+ * The optional quoteToken swaps the native ETH side of every call for an ERC-20; amounts
+ * and prices on that side are then in its units.
+ */
+export interface SwapProvider {
+  /** Provider label for logs - a SwapProviderName, or the joined chain for a fallback provider */
+  readonly name: string;
+
+  /**
+   * Switch the chain subsequent calls are made on
+   * @param {Chain} chain - Chain to use
+   */
+  setChain(chain: Chain): void;
+
+  /**
+   * Quote a buy of tokens with ETH (or the quote token)
+   * @param {string} tokenAddress - Token to buy
+   * @param {string} ethAmount - ETH to spend in wei (quote token: smallest units)
+   * @param {string} takerAddress - Address executing the swap
+   * @param {number} [slippageBps] - Slippage tolerance in basis points
+   * @param {QuoteToken} [quoteToken] - Pay with this ERC-20 instead of ETH
+   * @returns {Promise<ZeroXQuote | null>} Executable quote or null
+   */
+  getBuyQuote(tokenAddress: string, ethAmount: string, takerAddress: string, slippageBps?: number, quoteToken?: QuoteToken): Promise<ZeroXQuote | null>;
+
+  /**
+   * Quote a sell of tokens for ETH (or the quote token)
+   * @param {string} tokenAddress - Token to sell
+   * @param {string} tokenAmount - Tokens to sell in wei
+   * @param {string} takerAddress - Address executing the swap
+   * @param {number} [slippageBps] - Slippage tolerance in basis points
+   * @param {QuoteToken} [quoteToken] - Receive this ERC-20 instead of ETH
+   * @returns {Promise<ZeroXQuote | null>} Executable quote or null
+   */
+  getSellQuote(tokenAddress: string, tokenAmount: string, takerAddress: string, slippageBps?: number, quoteToken?: QuoteToken): Promise<ZeroXQuote | null>;
+
+  /**
+   * Get the token price in ETH (or quote token) per token
+   * @param {string} tokenAddress - Token to price
+   * @param {string} takerAddress - Taker address for the quote
+   * @param {QuoteToken} [quoteToken] - Price in this ERC-20 instead of ETH
+   * @returns {Promise<number | null>} Price or null if unavailable
+   */
+  getTokenPrice(tokenAddress: string, takerAddress: string, quoteToken?: QuoteToken): Promise<number | null>;
+
+  /**
+   * Check whether selling tokens clears the profit requirement after gas
+   * @returns {Promise<ProfitCheckResult>} Result with the quote it was priced from
+   * @description Same parameters and decision as ZeroXApi.isProfitable (see ZeroXApi.evaluateProfit).
+   * With a quoteToken the cost basis is in its units and gas is converted into them.
+   */
+  isProfitable(
+    tokenAddress: string,
+    tokenAmount: string,
+    ethCostBasis: string,
+    minProfitPercent: number,
+    takerAddress: string,
+    strictMode?: boolean,
+    fallbackGasEth?: number,
+    strictProfitPercent?: number,
+    logFallback?: boolean,
+    quoteToken?: QuoteToken
+  ): Promise<ProfitCheckResult>;
+}
@@ -0,0 +1,394 @@
+/**
+ * @fileoverview Direct Uniswap V3 swap provider (SwapRouter02 + QuoterV2)
+ * @module api/UniswapV3Provider
+ * @version 1.0.0
+ */
+
+import { encodeFunctionData, parseAbi } from 'viem';
+import { ZeroXQuote, Chain, QuoteToken } from '../types/index.js';
+import { UniswapV3TWAP } from '../oracle/UniswapV3TWAP.js';
+import { ZeroXApi } from './ZeroXApi.js';
+import { SwapProvider, ProfitCheckResult } from './SwapProvider.js';
+import { QuoteCurrency } from './QuoteCurrency.js';
+
+/**
+ * Uniswap SwapRouter02 addresses by chain
+ * @constant {Record<Chain, string>}
+ */
+export const SWAP_ROUTER_02: Record<Chain, string> = {
+  base: '0x2626664c2603336E57B271c5C0b26F421741e481',
+  ethereum: '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45',
+};
+
+/**
+ * Uniswap QuoterV2 addresses by chain
+ * @constant {Record<Chain, string>}
+ */
+const QUOTER_V2: Record<Chain, string> = {
+  base: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a',
+  ethereum: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+};
+
+// SwapRouter02 recipient sentinel: keep the output in the router (for unwrapWETH9)
+const ADDRESS_THIS = '0x0000000000000000000000000000000000000002';
+
+// Gas on top of QuoterV2's swap estimate: router entry, WETH wrap/unwrap and transfers
+const ROUTER_GAS_OVERHEAD = BigInt(80000);
+
+// QuoterV2 is non-view on-chain but is meant to be eth_call'ed
+const QUOTER_ABI = parseAbi([
+  'function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) external view returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+]);
+
+const ROUTER_ABI = parseAbi([
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) external payable returns (uint256 amountOut)',
+  'function unwrapWETH9(uint256 amountMinimum, address recipient) external payable',
+  'function multicall(bytes[] data) external payable returns (bytes[] results)',
+]);
+
+const POOL_FEE_ABI = parseAbi([
+  'function fee() external view returns (uint24)',
+]);
+
+/**
+ * Best pool found for a token against its quote asset
+ * @interface PoolRoute
+ */
+interface PoolRoute {
+  /** Pool address */
+  address: string;
+  /** Pool fee tier in hundredths of a bip (3000 = 0.3%) */
+  fee: number;
+}
+
+/**
+ * Swap provider that trades directly against Uniswap V3
+ * @class UniswapV3Provider
+ * @description Finds the deepest token/WETH pool with UniswapV3TWAP.findBestPool, prices
+ * swaps with QuoterV2 and builds SwapRouter02 calldata. Buys send ETH (the router wraps it);
+ * sells swap into the router and unwrap to the taker, so they need an allowance for the
+ * router. With an ERC-20 quote token the token/quote pool is used instead and both sides
+ * are plain token-for-token swaps that need an allowance. Works without an API key, so it
+ * keeps bots trading through a 0x outage.
+ */
+export class UniswapV3Provider implements SwapProvider {
+  readonly name = 'uniswap-v3';
+  private publicClient: any;
+  private chain: Chain;
+  private twap: UniswapV3TWAP;
+  private routes: Map<string, PoolRoute> = new Map();
+
+  /**
+   * Creates a Uniswap V3 provider
+   * @constructor
+   * @param {any} publicClient - viem public client for the chain
+   * @param {Chain} [chain='base'] - Blockchain to use
+   */
+  constructor(publicClient: any, chain: Chain = 'base') {
+    this.publicClient = publicClient;
+    this.chain = chain;
+    this.twap = new UniswapV3TWAP(publicClient, { chain });
+  }
+
+  /**
+   * Update the chain for pool lookups and swaps
+   * @param {Chain} chain - New chain
+   */
+  setChain(chain: Chain): void {
+    if (chain === this.chain) return;
+    this.chain = chain;
+    this.twap.setChain(chain);
+    this.routes.clear();
+  }
+
+  /**
+   * Get quote for buying tokens with ETH
+   * @param {string} tokenAddress - Token contract address to buy
+   * @param {string} ethAmount - ETH amount in wei (quote token: smallest units)
+   * @param {string} takerAddress - Address receiving the tokens
+   * @param {number} [slippageBps=100] - Slippage tolerance in basis points
+   * @param {QuoteToken} [quoteToken] - Pay with this ERC-20 instead of ETH
+   * @returns {Promise<ZeroXQuote | null>} Executable quote or null if there is no pool
+   */
+  async getBuyQuote(
+    tokenAddress: string,
+    ethAmount: string,
+    takerAddress: string,
+    slippageBps: number = 100,
+    quoteToken?: QuoteToken
+  ): Promise<ZeroXQuote | null> {
+    const base = this.baseToken(quoteToken);
+    const swap = await this.quote(base, tokenAddress, BigInt(ethAmount), base);
+    if (!swap) return null;
+
+    const data = encodeFunctionData({
+      abi: ROUTER_ABI,
+      functionName: 'exactInputSingle',
+      args: [{
+        tokenIn: base as `0x${string}`,
+        tokenOut: tokenAddress as `0x${string}`,
+        fee: swap.fee,
+        recipient: takerAddress as `0x${string}`,
+        amountIn: BigInt(ethAmount),
+        amountOutMinimum: this.minOut(swap.amountOut, slippageBps),
+        sqrtPriceLimitX96: BigInt(0),
+      }],
+    });
+
+    if (quoteToken) {
+      return {
+        ...this.toQuote(base, tokenAddress, ethAmount, swap, data, '0'),
+        allowanceTarget: SWAP_ROUTER_02[this.chain],
+      };
+    }
+    return this.toQuote(base, tokenAddress, ethAmount, swap, data, ethAmount);
+  }
+
+  /**
+   * Get quote for selling tokens for ETH
+   * @param {string} tokenAddress - Token contract address to sell
+   * @param {string} tokenAmount - Token amount in wei
+   * @param {string} takerAddress - Address receiving the ETH
+   * @param {number} [slippageBps=100] - Slippage tolerance in basis points
+   * @param {QuoteToken} [quoteToken] - Receive this ERC-20 instead of ETH
+   * @returns {Promise<ZeroXQuote | null>} Executable quote or null if there is no pool
+   */
+  async getSellQuote(
+    tokenAddress: string,
+    tokenAmount: string,
+    takerAddress: string,
+    slippageBps: number = 100,
+    quoteToken?: QuoteToken
+  ): Promise<ZeroXQuote | null> {
+    const base = this.baseToken(quoteToken);
+    const swap = await this.quote(tokenAddress, base, BigInt(tokenAmount), base);
+    if (!swap) return null;
+
+    const minOut = this.minOut(swap.amountOut, slippageBps);
+
+    // ERC-20 quote: swap straight to the taker, nothing to unwrap
+    if (quoteToken) {
+      const direct = encodeFunctionData({
+        abi: ROUTER_ABI,
+        functionName: 'exactInputSingle',
+        args: [{
+          tokenIn: tokenAddress as `0x${string}`,
+          tokenOut: base as `0x${string}`,
+          fee: swap.fee,
+          recipient: takerAddress as `0x${string}`,
+          amountIn: BigInt(tokenAmount),
+          amountOutMinimum: minOut,
+          sqrtPriceLimitX96: BigInt(0),
+        }],
+      });
+      return {
+        ...this.toQuote(tokenAddress, base, tokenAmount, swap, direct, '0'),
+        allowanceTarget: SWAP_ROUTER_02[this.chain],
+      };
+    }
+
+    const swapCall = encodeFunctionData({
+      abi: ROUTER_ABI,
+      functionName: 'exactInputSingle',
+      args: [{
+        tokenIn: tokenAddress as `0x${string}`,
+        tokenOut: base as `0x${string}`,
+        fee: swap.fee,
+        recipient: ADDRESS_THIS,
+        amountIn: BigInt(tokenAmount),
+        amountOutMinimum: minOut,
+        sqrtPriceLimitX96: BigInt(0),
+      }],
+    });
+    const unwrapCall = encodeFunctionData({
+      abi: ROUTER_ABI,
+      functionName: 'unwrapWETH9',
+      args: [minOut, takerAddress as `0x${string}`],
+    });
+    const data = encodeFunctionData({
+      abi: ROUTER_ABI,
+      functionName: 'multicall',
+      args: [[swapCall, unwrapCall]],
+    });
+
+    return {
+      ...this.toQuote(tokenAddress, base, tokenAmount, swap, data, '0'),
+      allowanceTarget: SWAP_ROUTER_02[this.chain],
+    };
+  }
+
+  /**
+   * Get current token price in ETH per token
+   * @param {string} tokenAddress - Token contract address
+   * @param {string} _takerAddress - Unused (on-chain quotes need no taker)
+   * @param {QuoteToken} [quoteToken] - Price in this ERC-20 instead of ETH
+   * @returns {Promise<number | null>} Price from a 0.001 ETH (or one quote token) QuoterV2 buy, or null
+   */
+  async getTokenPrice(tokenAddress: string, _takerAddress: string, quoteToken?: QuoteToken): Promise<number | null> {
+    const base = this.baseToken(quoteToken);
+    const probe = QuoteCurrency.priceProbe(quoteToken);
+    const swap = await this.quote(base, tokenAddress, probe, base);
+    if (!swap || swap.amountOut === BigInt(0)) return null;
+    return QuoteCurrency.price(probe, swap.amountOut, quoteToken);
+  }
+
+  /**
+   * Check if selling would be profitable after gas costs
+   * @returns {Promise<ProfitCheckResult>} Result with the QuoterV2-priced sell quote
+   * @description Gas always comes from QuoterV2 plus router overhead, so the fallback gas
+   * estimate is never needed. With a quote token it is converted at the quote's WETH price.
+   */
+  async isProfitable(
+    tokenAddress: string,
+    tokenAmount: string,
+    ethCostBasis: string,
+    minProfitPercent: number,
+    takerAddress: string,
+    strictMode: boolean = true,
+    _fallbackGasEth: number = 0.00001,
+    strictProfitPercent: number = 2,
+    _logFallback: boolean = true,
+    quoteToken?: QuoteToken
+  ): Promise<ProfitCheckResult> {
+    const quote = await this.getSellQuote(tokenAddress, tokenAmount, takerAddress, undefined, quoteToken);
+    if (!quote) {
+      return { profitable: false, quote: null, actualProfit: 0 };
+    }
+
+    let gasCost = BigInt(quote.gas) * BigInt(quote.gasPrice);
+    if (quoteToken) {
+      const quotePrice = await this.getTokenPrice(quoteToken.address, takerAddress);
+      if (!quotePrice) {
+        return { profitable: false, quote: null, actualProfit: 0 };
+      }
+      gasCost = QuoteCurrency.gasInQuote(gasCost, quotePrice, quoteToken);
+    }
+
+    const evaluation = ZeroXApi.evaluateProfit(
+      BigInt(quote.buyAmount),
+      BigInt(ethCostBasis),
+      gasCost,
+      minProfitPercent,
+      strictMode,
+      strictProfitPercent
+    );
+
+    return { ...evaluation, quote, usedFallbackGas: false };
+  }
+
+  /**
+   * Token the bot's trades are routed against: WETH, or the ERC-20 quote token
+   * @private
+   */
+  private baseToken(quoteToken?: QuoteToken): string {
+    return quoteToken?.address ?? this.twap.getWethAddress();
+  }
+
+  /**
+   * Find (and cache) the deepest pool between a token and the base token
+   * @private
+   */
+  private async findRoute(tokenAddress: string, base: string): Promise<PoolRoute | null> {
+    const key = `${tokenAddress.toLowerCase()}:${base.toLowerCase()}`;
+    const cached = this.routes.get(key);
+    if (cached) return cached;
+
+    let route: PoolRoute | null = null;
+    const address = await this.twap.findBestPool(tokenAddress, base);
+    if (address) {
+      try {
+        const fee = await this.publicClient.readContract({
+          address: address as `0x${string}`,
+          abi: POOL_FEE_ABI,
+          functionName: 'fee',
+        });
+        route = { address, fee: Number(fee) };
+      } catch {
+        route = null;
+      }
+    }
+
+    // Only cache hits - a missing pool may be created later
+    if (route) this.routes.set(key, route);
+    return route;
+  }
+
+  /**
+   * Price an exact-input swap through the token's pool against the base token with QuoterV2
+   * @private
+   */
+  private async quote(
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    base: string
+  ): Promise<{ amountOut: bigint; gas: bigint; gasPrice: bigint; fee: number } | null> {
+    const token = tokenIn.toLowerCase() === base.toLowerCase() ? tokenOut : tokenIn;
+
+    try {
+      const route = await this.findRoute(token, base);
+      if (!route) return null;
+
+      const [[amountOut, , , gasEstimate], gasPrice] = await Promise.all([
+        this.publicClient.readContract({
+          address: QUOTER_V2[this.chain] as `0x${string}`,
+          abi: QUOTER_ABI,
+          functionName: 'quoteExactInputSingle',
+          args: [{
+            tokenIn: tokenIn as `0x${string}`,
+            tokenOut: tokenOut as `0x${string}`,
+            amountIn,
+            fee: route.fee,
+            sqrtPriceLimitX96: BigInt(0),
+          }],
+        }),
+        this.publicClient.getGasPrice(),
+      ]);
+
+      return {
+        amountOut: BigInt(amountOut),
+        gas: BigInt(gasEstimate) + ROUTER_GAS_OVERHEAD,
+        gasPrice: BigInt(gasPrice),
+        fee: route.fee,
+      };
+    } catch (error: any) {
+      console.error('Uniswap V3 quote error:', error.shortMessage || error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Minimum output after slippage
+   * @private
+   */
+  private minOut(amountOut: bigint, slippageBps: number): bigint {
+    return (amountOut * BigInt(10000 - slippageBps)) / BigInt(10000);
+  }
+
+  /**
+   * Assemble a quote in the shared ZeroXQuote shape
+   * @private
+   */
+  private toQuote(
+    sellToken: string,
+    buyToken: string,
+    sellAmount: string,
+    swap: { amountOut: bigint; gas: bigint; gasPrice: bigint },
+    data: string,
+    value: string
+  ): ZeroXQuote {
+    return {
+      buyToken,
+      sellToken,
+      buyAmount: swap.amountOut.toString(),
+      sellAmount,
+      price: (Number(swap.amountOut) / Number(sellAmount)).toString(),
+      gas: swap.gas.toString(),
+      gasPrice: swap.gasPrice.toString(),
+      to: SWAP_ROUTER_02[this.chain],
+      data,
+      value,
+      source: 'uniswap-v3',
+    };
+  }
+}
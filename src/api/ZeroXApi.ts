@@ -7,10 +7,25 @@
 import chalk from 'chalk';
 import axios, { AxiosInstance } from 'axios';
 import { parseEther } from 'viem';
-import { ZeroXQuote, Chain } from '../types/index.js';
+import { ZeroXQuote, Chain, QuoteToken } from '../types/index.js';
+import { SwapProvider, ProfitCheckResult } from './SwapProvider.js';
+import { RateLimiter } from './RateLimiter.js';
+import { QuoteCurrency, NATIVE_TOKEN_ADDRESS } from './QuoteCurrency.js';
 
 const ZEROX_API_BASE = 'https://api.0x.org';
 
+// Identical price requests within this window share one response (every bot ticks each second)
+const PRICE_CACHE_TTL_MS = 2000;
+
+// While throttled, a price up to this old is served instead of nothing
+const STALE_PRICE_MAX_MS = 60000;
+
+/**
+ * 0x endpoints with their own rate budget
+ * @typedef {('price' | 'quote')} ZeroXEndpoint
+ */
+type ZeroXEndpoint = 'price' | 'quote';
+
 /**
  * Chain ID mapping for 0x API
  * @constant {Record<Chain, number>}
@@ -23,20 +38,28 @@ const CHAIN_ID_MAP: Record<Chain, number> = {
 /**
  * Client for the 0x Protocol swap API with multi-chain support
  * @class ZeroXApi
- * @description Handles price discovery and swap quotes from 0x Protocol
+ * @description Handles price discovery and swap quotes from 0x Protocol. Every request
+ * goes through the process-wide RateLimiter; price requests are cached briefly and
+ * concurrent identical ones are merged. Rate-limited requests resolve to null quietly.
  */
-export class ZeroXApi {
+export class ZeroXApi implements SwapProvider {
+  readonly name = '0x';
   private client: AxiosInstance;
   private chainId: number;
+  private rateLimiter: RateLimiter;
+  private priceCache: Map<string, { data: any; at: number }> = new Map();
+  private inFlight: Map<string, Promise<any>> = new Map();
 
   /**
    * Creates a new 0x API client
    * @constructor
    * @param {string} [apiKey] - Optional 0x API key for higher rate limits
    * @param {Chain} [chain='base'] - Blockchain to use ('base' | 'ethereum')
+   * @param {RateLimiter} [rateLimiter] - Request budget (default: the process-wide limiter)
    */
-  constructor(apiKey?: string, chain: Chain = 'base') {
+  constructor(apiKey?: string, chain: Chain = 'base', rateLimiter: RateLimiter = RateLimiter.getInstance()) {
     this.chainId = CHAIN_ID_MAP[chain];
+    this.rateLimiter = rateLimiter;
     
     this.client = axios.create({
       baseURL: ZEROX_API_BASE,
@@ -74,61 +97,62 @@ export class ZeroXApi {
   /**
    * Get quote for buying tokens with ETH
    * @param {string} tokenAddress - Token contract address to buy
-   * @param {string} ethAmount - ETH amount in wei
+   * @param {string} ethAmount - ETH amount in wei (quote token: smallest units)
    * @param {string} takerAddress - Address executing the swap
    * @param {number} [slippageBps=100] - Slippage tolerance in basis points (100 = 1%)
+   * @param {QuoteToken} [quoteToken] - Pay with this ERC-20 instead of ETH
    * @returns {Promise<ZeroXQuote | null>} Swap quote or null if unavailable
-   * @description Fetches a quote from 0x API for swapping ETH to tokens
+   * @description Fetches a quote from 0x API for swapping ETH (or the quote token) to tokens
    */
   async getBuyQuote(
     tokenAddress: string,
     ethAmount: string,
     takerAddress: string,
-    slippageBps: number = 100 // 1%
+    slippageBps: number = 100, // 1%
+    quoteToken?: QuoteToken
   ): Promise<ZeroXQuote | null> {
     try {
-      const response = await this.client.get('/swap/allowance-holder/quote', {
-        params: {
-          chainId: this.chainId,
-          sellToken: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', // ETH
-          buyToken: tokenAddress,
-          sellAmount: ethAmount,
-          slippageBps: slippageBps.toString(),
-          taker: takerAddress,
-        },
+      const data = await this.request('quote', '/swap/allowance-holder/quote', {
+        chainId: this.chainId,
+        sellToken: QuoteCurrency.address(quoteToken),
+        buyToken: tokenAddress,
+        sellAmount: ethAmount,
+        slippageBps: slippageBps.toString(),
+        taker: takerAddress,
       });
+      if (!data) return null;
 
       // Debug: log full response structure
-      console.log(chalk.dim(`   0x API response keys: ${Object.keys(response.data).join(', ')}`));
+      console.log(chalk.dim(`   0x API response keys: ${Object.keys(data).join(', ')}`));
       
       // Check if transaction data might be nested differently (0x API v2 format)
-      if (response.data.transaction) {
+      if (data.transaction) {
         console.log(chalk.dim(`   Found nested transaction object`));
         // Merge transaction data into top level for compatibility
-        response.data.to = response.data.transaction.to;
-        response.data.data = response.data.transaction.data;
-        response.data.value = response.data.transaction.value;
-        response.data.gas = response.data.transaction.gas;
-        response.data.gasPrice = response.data.transaction.gasPrice;
+        data.to = data.transaction.to;
+        data.data = data.transaction.data;
+        data.value = data.transaction.value;
+        data.gas = data.transaction.gas;
+        data.gasPrice = data.transaction.gasPrice;
       }
       
       // Check if this is an error response
-      if (response.data.error) {
-        console.error('   0x API returned error:', response.data.error);
+      if (data.error) {
+        console.error('   0x API returned error:', data.error);
         return null;
       }
 
       // Check if we have transaction data
-      if (!response.data.to || !response.data.data) {
+      if (!data.to || !data.data) {
         console.error('   0x API returned price quote but no transaction data');
-        console.error('   Response has buyAmount:', !!response.data.buyAmount);
-        console.error('   Response has to:', !!response.data.to);
-        console.error('   Response has data:', !!response.data.data);
+        console.error('   Response has buyAmount:', !!data.buyAmount);
+        console.error('   Response has to:', !!data.to);
+        console.error('   Response has data:', !!data.data);
         console.error('   Check if transaction data is nested under a different key');
         return null;
       }
 
-      return response.data;
+      return data;
     } catch (error: any) {
       console.error('0x API error (buy quote):', error.response?.data || error.message);
       return null;
@@ -141,38 +165,39 @@ export class ZeroXApi {
    * @param {string} tokenAmount - Token amount in wei
    * @param {string} takerAddress - Address executing the swap
    * @param {number} [slippageBps=100] - Slippage tolerance in basis points (100 = 1%)
+   * @param {QuoteToken} [quoteToken] - Receive this ERC-20 instead of ETH
    * @returns {Promise<ZeroXQuote | null>} Swap quote or null if unavailable
-   * @description Fetches a quote from 0x API for swapping tokens to ETH
+   * @description Fetches a quote from 0x API for swapping tokens to ETH (or the quote token)
    */
   async getSellQuote(
     tokenAddress: string,
     tokenAmount: string,
     takerAddress: string,
-    slippageBps: number = 100
+    slippageBps: number = 100,
+    quoteToken?: QuoteToken
   ): Promise<ZeroXQuote | null> {
     try {
-      const response = await this.client.get('/swap/allowance-holder/quote', {
-        params: {
-          chainId: this.chainId,
-          sellToken: tokenAddress,
-          buyToken: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', // ETH
-          sellAmount: tokenAmount,
-          slippageBps: slippageBps.toString(),
-          taker: takerAddress,
-        },
+      const data = await this.request('quote', '/swap/allowance-holder/quote', {
+        chainId: this.chainId,
+        sellToken: tokenAddress,
+        buyToken: QuoteCurrency.address(quoteToken),
+        sellAmount: tokenAmount,
+        slippageBps: slippageBps.toString(),
+        taker: takerAddress,
       });
+      if (!data) return null;
 
       // Check if transaction data is nested (0x API v2 format)
-      if (response.data.transaction) {
+      if (data.transaction) {
         // Merge transaction data into top level for compatibility
-        response.data.to = response.data.transaction.to;
-        response.data.data = response.data.transaction.data;
-        response.data.value = response.data.transaction.value;
-        response.data.gas = response.data.transaction.gas;
-        response.data.gasPrice = response.data.transaction.gasPrice;
+        data.to = data.transaction.to;
+        data.data = data.transaction.data;
+        data.value = data.transaction.value;
+        data.gas = data.transaction.gas;
+        data.gasPrice = data.transaction.gasPrice;
       }
 
-      return response.data;
+      return data;
     } catch (error: any) {
       console.error('0x API error (sell quote):', error.response?.data || error.message);
       return null;
@@ -215,12 +240,14 @@ export class ZeroXApi {
    * @param {string} ethCostBasis - Original ETH cost in wei
    * @param {number} minProfitPercent - Minimum profit percentage required
    * @param {string} takerAddress - Address executing the swap
+   * @param {QuoteToken} [quoteToken] - Sell into this ERC-20 (cost basis in its units)
    * @returns {Promise<Object>} Profitability check result
    * @returns {boolean} return.profitable - Whether sale meets profit threshold
    * @returns {ZeroXQuote | null} return.quote - The swap quote used
    * @returns {number} return.actualProfit - Actual profit percentage
    * @description Calculates if selling tokens would be profitable considering
-   * gas costs and minimum profit requirements.
+   * gas costs and minimum profit requirements. With a quote token the gas is
+   * converted at the quote token's current price.
    */
   async isProfitable(
     tokenAddress: string,
@@ -231,9 +258,10 @@ export class ZeroXApi {
     strictMode: boolean = true,
     fallbackGasEth: number = 0.00001,
     strictProfitPercent: number = 2,
-    logFallback: boolean = true
-  ): Promise<{ profitable: boolean; quote: ZeroXQuote | null; actualProfit: number; strictCheck?: boolean; usedFallbackGas?: boolean }> {
-    const quote = await this.getSellQuote(tokenAddress, tokenAmount, takerAddress);
+    logFallback: boolean = true,
+    quoteToken?: QuoteToken
+  ): Promise<ProfitCheckResult> {
+    const quote = await this.getSellQuote(tokenAddress, tokenAmount, takerAddress, undefined, quoteToken);
 
     if (!quote) {
       return { profitable: false, quote: null, actualProfit: 0 };
@@ -262,6 +290,51 @@ export class ZeroXApi {
       }
     }
 
+    // Gas is paid in ETH; the proceeds and cost basis are in the quote token
+    if (quoteToken) {
+      const quotePrice = await this.getTokenPrice(quoteToken.address, takerAddress);
+      if (!quotePrice) {
+        return { profitable: false, quote: null, actualProfit: 0 };
+      }
+      gasCost = QuoteCurrency.gasInQuote(gasCost, quotePrice, quoteToken);
+    }
+
+    const evaluation = ZeroXApi.evaluateProfit(
+      ethReceived,
+      ethCost,
+      gasCost,
+      minProfitPercent,
+      strictMode,
+      strictProfitPercent
+    );
+
+    return {
+      ...evaluation,
+      quote,
+      usedFallbackGas,
+    };
+  }
+
+  /**
+   * Decide whether a sell clears the profit requirement
+   * @static
+   * @param {bigint} ethReceived - ETH the sell returns in wei
+   * @param {bigint} ethCost - Cost basis in wei
+   * @param {bigint} gasCost - Gas cost of the sell in wei
+   * @param {number} minProfitPercent - Legacy minimum profit percentage
+   * @param {boolean} [strictMode=true] - Require ethReceived >= (cost + gas) * (1 + strictProfitPercent)
+   * @param {number} [strictProfitPercent=2] - Strict minimum profit percentage
+   * @returns Profitability, profit % after gas, and the strict check result in strict mode
+   * @description Pure decision shared by every swap provider's isProfitable and the offline backtester.
+   */
+  static evaluateProfit(
+    ethReceived: bigint,
+    ethCost: bigint,
+    gasCost: bigint,
+    minProfitPercent: number,
+    strictMode: boolean = true,
+    strictProfitPercent: number = 2
+  ): { profitable: boolean; actualProfit: number; strictCheck?: boolean } {
     // Calculate actual profit after gas
     const netEth = ethReceived - gasCost;
     const profit = netEth - ethCost;
@@ -276,10 +349,8 @@ export class ZeroXApi {
 
       return {
         profitable: meetsStrictMinimum,
-        quote,
         actualProfit: profitPercent,
         strictCheck: meetsStrictMinimum,
-        usedFallbackGas,
       };
     }
 
@@ -288,9 +359,7 @@ export class ZeroXApi {
 
     return {
       profitable: profit >= minProfit,
-      quote,
       actualProfit: profitPercent,
-      usedFallbackGas,
     };
   }
 
@@ -299,31 +368,27 @@ export class ZeroXApi {
    * Uses 0x price endpoint for consistent data
    * @param {string} tokenAddress - Token contract address
    * @param {string} takerAddress - Taker address for the quote
-   * @returns {Promise<number | null>} Price in ETH per token or null if unavailable
-   * @description Fetches price from 0x API by simulating a small buy.
-   * Returns ETH/token price ratio.
+   * @param {QuoteToken} [quoteToken] - Price in this ERC-20 instead of ETH
+   * @returns {Promise<number | null>} Price in ETH (or quote token) per token or null if unavailable
+   * @description Fetches price from 0x API by simulating a small buy
+   * (0.001 ETH, or one whole quote token). Returns quote/token price ratio.
    */
-  async getTokenPrice(tokenAddress: string, takerAddress: string): Promise<number | null> {
+  async getTokenPrice(tokenAddress: string, takerAddress: string, quoteToken?: QuoteToken): Promise<number | null> {
     try {
+      const probe = QuoteCurrency.priceProbe(quoteToken);
+
       // Use 0x price endpoint (doesn't require taker to have balance)
-      const response = await this.client.get('/swap/allowance-holder/price', {
-        params: {
-          chainId: this.chainId,
-          sellToken: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', // ETH
-          buyToken: tokenAddress,
-          sellAmount: '1000000000000000', // 0.001 ETH
-          taker: takerAddress,
-        },
+      const data = await this.request('price', '/swap/allowance-holder/price', {
+        chainId: this.chainId,
+        sellToken: QuoteCurrency.address(quoteToken),
+        buyToken: tokenAddress,
+        sellAmount: probe.toString(),
+        taker: takerAddress,
       });
 
-      if (response.data && response.data.buyAmount) {
-        // Calculate price: ETH amount / token amount
-        const ethWei = BigInt('1000000000000000'); // 0.001 ETH in wei
-        const tokensWei = BigInt(response.data.buyAmount);
-        
-        // Price = ETH / tokens
-        const price = Number(ethWei) / Number(tokensWei);
-        return price;
+      if (data && data.buyAmount) {
+        // Price = quote spent / tokens received
+        return QuoteCurrency.price(probe, BigInt(data.buyAmount), quoteToken);
       }
       
       return null;
@@ -338,19 +403,17 @@ export class ZeroXApi {
    */
   async getTokenPriceBySell(tokenAddress: string, takerAddress: string): Promise<number | null> {
     try {
-      const response = await this.client.get('/swap/allowance-holder/price', {
-        params: {
-          chainId: this.chainId,
-          sellToken: tokenAddress,
-          buyToken: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', // ETH
-          sellAmount: '1000000000000000000', // 1 token (assuming 18 decimals)
-          taker: takerAddress,
-        },
+      const data = await this.request('price', '/swap/allowance-holder/price', {
+        chainId: this.chainId,
+        sellToken: tokenAddress,
+        buyToken: NATIVE_TOKEN_ADDRESS,
+        sellAmount: '1000000000000000000', // 1 token (assuming 18 decimals)
+        taker: takerAddress,
       });
 
-      if (response.data && response.data.buyAmount) {
+      if (data && data.buyAmount) {
         // Calculate price: ETH received / 1 token
-        const ethWei = BigInt(response.data.buyAmount);
+        const ethWei = BigInt(data.buyAmount);
         const price = Number(ethWei) / 1e18;
         return price;
       }
@@ -360,4 +423,74 @@ export class ZeroXApi {
       return null;
     }
   }
+
+  /**
+   * Issue a GET through the rate limiter
+   * @private
+   * @returns {Promise<any | null>} Response body, or null when rate-limited (quietly - the
+   * limiter reports the throttled state); other errors are thrown to the caller
+   * @description Price responses are cached for PRICE_CACHE_TTL_MS and concurrent identical
+   * requests share one call. While throttled, a recent cached price is served instead.
+   */
+  private async request(endpoint: ZeroXEndpoint, path: string, params: Record<string, any>): Promise<any | null> {
+    const key = endpoint === 'price' ? this.cacheKey(path, params) : null;
+
+    if (key) {
+      const cached = this.priceCache.get(key);
+      if (cached && Date.now() - cached.at < PRICE_CACHE_TTL_MS) return cached.data;
+      const pending = this.inFlight.get(key);
+      if (pending) return pending;
+    }
+
+    if (this.rateLimiter.isThrottled()) {
+      // Quotes carry calldata and must be fresh; a slightly old price beats none
+      const stale = key ? this.priceCache.get(key) : undefined;
+      return stale && Date.now() - stale.at < STALE_PRICE_MAX_MS ? stale.data : null;
+    }
+
+    const call = this.send(endpoint, path, params);
+    if (!key) return call;
+
+    const shared = call
+      .then(data => {
+        if (data) this.priceCache.set(key, { data, at: Date.now() });
+        return data;
+      })
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, shared);
+    return shared;
+  }
+
+  /**
+   * Wait for budget, then send
+   * @private
+   */
+  private async send(endpoint: ZeroXEndpoint, path: string, params: Record<string, any>): Promise<any | null> {
+    await this.rateLimiter.acquire(endpoint);
+    try {
+      const response = await this.client.get(path, { params });
+      this.rateLimiter.recordSuccess();
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 429) {
+        this.rateLimiter.recordThrottle(RateLimiter.parseRetryAfter(error.response.headers?.['retry-after']));
+        return null;
+      }
+      this.rateLimiter.recordFailure();
+      throw error;
+    }
+  }
+
+  /**
+   * Cache key for a price request (the taker doesn't change the price)
+   * @private
+   */
+  private cacheKey(path: string, params: Record<string, any>): string {
+    const query = Object.keys(params)
+      .filter(k => k !== 'taker')
+      .sort()
+      .map(k => `${k}=${String(params[k]).toLowerCase()}`)
+      .join('&');
+    return `${path}?${query}`;
+  }
 }
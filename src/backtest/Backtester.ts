@@ -0,0 +1,362 @@
+// src/backtest/Backtester.ts
+// Offline replay of a price series through the grid trading rules
+
+import { formatEther, parseEther } from 'viem';
+import { GridConfig, Position, ExitReason } from '../types/index.js';
+import { GridCalculator } from '../grid/GridCalculator.js';
+import { ZeroXApi } from '../api/ZeroXApi.js';
+import { TrailingStopLoss } from '../risk/TrailingStopLoss.js';
+import { TradeRecord } from '../analytics/PnLTracker.js';
+import { PricePoint } from './PriceSeries.js';
+
+const WEI = BigInt(10) ** BigInt(18);
+const PRICE_SCALE = 1e18;
+
+/**
+ * Simulated swap costs applied to every fill
+ */
+export interface SwapModel {
+  feeBps: number;          // DEX/aggregator fee in basis points (default: 30)
+  slippageBps: number;     // Price impact in basis points (default: 50)
+  gasEthPerTrade: number;  // Gas cost per swap in ETH (default: 0.00002)
+}
+
+export interface BacktestOptions extends Partial<SwapModel> {
+  startingEth?: number;    // ETH balance at the start (default: 1)
+  botName?: string;        // Label used in trade records (default: 'Backtest')
+  tokenSymbol?: string;    // Label used in trade records (default: 'TOKEN')
+}
+
+export interface BacktestResult {
+  trades: TradeRecord[];           // Same shape PnLTracker stores
+  positions: Position[];           // Final grid state
+  ticks: number;
+  startTime: number;
+  endTime: number;
+  startPrice: number;
+  endPrice: number;
+  totalBuys: number;
+  totalSells: number;
+  winRate: number;                 // % of sells with positive profit
+  realizedPnlEth: string;          // Sum of sell profits (after sell gas) in wei
+  unrealizedPnlEth: string;        // Open positions + moon bags at end price, less their cost, in wei
+  totalGasEth: string;             // Gas spent on all swaps in wei
+  startEquityEth: string;          // wei
+  endEquityEth: string;            // ETH balance + holdings at end price, in wei
+  returnPercent: number;
+  maxDrawdownPercent: number;      // Largest peak-to-trough equity drop
+}
+
+/**
+ * Replays historical prices through the same buy/sell rules as TradingBot
+ *
+ * Each price point is one heartbeat: recycle sold levels, buy at most one
+ * level (max active positions, fixed or auto-sized buy amount), then run
+ * trailing stops and target/stop-loss sells gated by the shared
+ * ZeroXApi.evaluateProfit check. Fills use a constant-price swap model with
+ * fee, slippage and flat gas. Unlike the live bot, losing sells are booked at
+ * their real (negative) profit so drawdown and P&L reflect actual losses.
+ */
+export class Backtester {
+  private config: GridConfig;
+  private swap: SwapModel;
+  private startingEth: number;
+  private botName: string;
+  private tokenSymbol: string;
+
+  private positions: Position[] = [];
+  private ethBalance: bigint = BigInt(0);
+  private moonBagTokens: bigint = BigInt(0);
+  private trades: TradeRecord[] = [];
+  private totalGas: bigint = BigInt(0);
+  private trailingStop: TrailingStopLoss | null = null;
+
+  constructor(config: GridConfig, options: BacktestOptions = {}) {
+    if (config.volumeMode) {
+      throw new Error('Backtesting volume-mode bots is not supported');
+    }
+    this.config = { ...config };
+    this.swap = {
+      feeBps: options.feeBps ?? 30,
+      slippageBps: options.slippageBps ?? 50,
+      gasEthPerTrade: options.gasEthPerTrade ?? 0.00002,
+    };
+    this.startingEth = options.startingEth ?? 1;
+    this.botName = options.botName ?? 'Backtest';
+    this.tokenSymbol = options.tokenSymbol ?? 'TOKEN';
+  }
+
+  /**
+   * Run the backtest over a time-ordered price series
+   */
+  run(series: PricePoint[]): BacktestResult {
+    if (series.length === 0) {
+      throw new Error('Price series is empty');
+    }
+
+    this.reset();
+    const startPrice = series[0].price;
+    this.positions = GridCalculator.generateGrid(startPrice, this.config);
+
+    const startEquity = this.ethBalance;
+    let peakEquity = startEquity;
+    let maxDrawdown = 0;
+
+    for (const point of series) {
+      this.tick(point);
+
+      const equity = this.equityAt(point.price);
+      if (equity > peakEquity) peakEquity = equity;
+      if (peakEquity > BigInt(0)) {
+        const drawdown = Number(((peakEquity - equity) * BigInt(10000)) / peakEquity) / 100;
+        if (drawdown > maxDrawdown) maxDrawdown = drawdown;
+      }
+    }
+
+    const last = series[series.length - 1];
+    const endEquity = this.equityAt(last.price);
+    const sells = this.trades.filter(t => t.action === 'sell');
+    const realized = sells.reduce((sum, t) => sum + BigInt(t.profit || '0'), BigInt(0));
+
+    return {
+      trades: this.trades,
+      positions: this.positions,
+      ticks: series.length,
+      startTime: series[0].timestamp,
+      endTime: last.timestamp,
+      startPrice,
+      endPrice: last.price,
+      totalBuys: this.trades.length - sells.length,
+      totalSells: sells.length,
+      winRate: sells.length > 0
+        ? (sells.filter(t => BigInt(t.profit || '0') > BigInt(0)).length / sells.length) * 100
+        : 0,
+      realizedPnlEth: realized.toString(),
+      unrealizedPnlEth: this.unrealizedAt(last.price).toString(),
+      totalGasEth: this.totalGas.toString(),
+      startEquityEth: startEquity.toString(),
+      endEquityEth: endEquity.toString(),
+      returnPercent: startEquity > BigInt(0)
+        ? Number(((endEquity - startEquity) * BigInt(10000)) / startEquity) / 100
+        : 0,
+      maxDrawdownPercent: maxDrawdown,
+    };
+  }
+
+  private reset(): void {
+    this.ethBalance = parseEther(this.startingEth.toFixed(18));
+    this.moonBagTokens = BigInt(0);
+    this.trades = [];
+    this.totalGas = BigInt(0);
+    this.trailingStop = this.config.useTrailingStopLoss
+      ? new TrailingStopLoss({
+          trailingPercent: this.config.trailingStopPercent ?? 5,
+          activationPercent: this.config.trailingStopActivation ?? 3,
+        })
+      : null;
+  }
+
+  /**
+   * One simulated heartbeat (mirrors TradingBot.tick for grid bots)
+   */
+  private tick(point: PricePoint): void {
+    GridCalculator.recycleSoldPositions(this.positions, point.price, this.config, point.timestamp);
+
+    if (this.config.buysEnabled) {
+      this.checkBuys(point);
+    }
+    if (this.config.sellsEnabled) {
+      this.checkSells(point);
+    }
+  }
+
+  private checkBuys(point: PricePoint): void {
+    const activeCount = GridCalculator.countActivePositions(this.positions);
+    if (activeCount >= this.config.maxActivePositions) return;
+
+    const position = GridCalculator.findBuyPosition(this.positions, point.price);
+    if (!position) return;
+
+    const gasCost = this.gasCost();
+    let buyAmountEth: number;
+    if (this.config.useFixedBuyAmount && this.config.buyAmount > 0) {
+      buyAmountEth = this.config.buyAmount;
+    } else {
+      const reserve = this.config.gasReserveEth ?? 0.0005;
+      const availableEth = Math.max(0, Number(formatEther(this.ethBalance)) - reserve);
+      const remainingPositions = this.positions.filter(p => p.status === 'EMPTY').length;
+      buyAmountEth = remainingPositions > 0
+        ? availableEth / Math.max(1, remainingPositions - activeCount)
+        : availableEth;
+    }
+
+    if (buyAmountEth < 0.0001) return;
+
+    const ethIn = parseEther(buyAmountEth.toFixed(18));
+    if (ethIn + gasCost > this.ethBalance) return;
+
+    // Tokens out at the slipped price, after fee
+    const fillPrice = point.price * (1 + this.swap.slippageBps / 10000);
+    const tokensOut = this.afterFee((ethIn * WEI) / this.toScaledPrice(fillPrice));
+    if (tokensOut <= BigInt(0)) return;
+
+    this.ethBalance -= ethIn + gasCost;
+    this.totalGas += gasCost;
+
+    position.status = 'HOLDING';
+    position.buyTxHash = this.nextTxHash('buy');
+    position.buyTimestamp = point.timestamp;
+    position.tokensReceived = tokensOut.toString();
+    position.ethCost = ethIn.toString();
+
+    this.trades.push(this.createRecord('buy', position, point.timestamp, {
+      amount: tokensOut.toString(),
+      price: Number(formatEther(ethIn)) / Number(formatEther(tokensOut)),
+      ethValue: ethIn.toString(),
+      gasCost: gasCost.toString(),
+      txHash: position.buyTxHash,
+    }));
+  }
+
+  private checkSells(point: PricePoint): void {
+    // Trailing stop exits sell at market - no profitability check
+    if (this.trailingStop) {
+      for (const position of this.positions) {
+        if (position.status !== 'HOLDING' || !position.tokensReceived) continue;
+        if (this.trailingStop.update(position, point.price).triggered) {
+          this.sell(position, point, 'trailing-stop');
+        }
+      }
+    }
+
+    const strictMode = this.config.strictProfitMode ?? true;
+    const strictPercent = this.config.strictProfitPercent ?? 2;
+
+    for (const position of GridCalculator.findSellPositions(this.positions, point.price)) {
+      if (!position.tokensReceived || position.status !== 'HOLDING') continue;
+
+      const exitReason: ExitReason = point.price >= position.sellPrice ? 'take-profit' : 'stop-loss';
+      const plan = GridCalculator.getSellPlan(position, this.config, exitReason);
+      const { profitable } = ZeroXApi.evaluateProfit(
+        this.quoteSell(BigInt(plan.tokenAmount), point.price),
+        BigInt(plan.costEth),
+        this.gasCost(),
+        this.config.minProfitPercent,
+        strictMode,
+        strictPercent
+      );
+      if (!profitable) continue;
+
+      this.sell(position, point, exitReason);
+    }
+  }
+
+  private sell(position: Position, point: PricePoint, exitReason: ExitReason): void {
+    const plan = GridCalculator.getSellPlan(position, this.config, exitReason);
+    const sellAmount = BigInt(plan.tokenAmount);
+    const ethOut = this.quoteSell(sellAmount, point.price);
+    const gasCost = this.gasCost();
+    const ethCost = BigInt(plan.costEth);
+    const profit = ethOut - gasCost - ethCost;
+    const txHash = this.nextTxHash('sell');
+
+    this.ethBalance += ethOut - gasCost;
+    this.totalGas += gasCost;
+
+    GridCalculator.applySell(position, this.config, plan, {
+      txHash,
+      timestamp: point.timestamp,
+      tokensSold: sellAmount.toString(),
+      ethReceived: ethOut.toString(),
+      gasCost: gasCost.toString(),
+      profitEth: profit.toString(),
+      exitReason,
+    });
+    if (plan.final) {
+      this.moonBagTokens += BigInt(plan.moonBag);
+      this.trailingStop?.removePosition(position.id);
+    }
+
+    this.trades.push(this.createRecord('sell', position, point.timestamp, {
+      amount: sellAmount.toString(),
+      price: sellAmount > BigInt(0) ? Number(formatEther(ethOut)) / Number(formatEther(sellAmount)) : 0,
+      ethValue: ethOut.toString(),
+      gasCost: gasCost.toString(),
+      profit: profit.toString(),
+      profitPercent: ethCost > BigInt(0) ? Number((profit * BigInt(10000)) / ethCost) / 100 : 0,
+      txHash,
+      exitReason,
+      ...(plan.tier !== undefined ? { tier: plan.tier } : {}),
+      ...(plan.final ? {} : { partial: true }),
+    }));
+  }
+
+  /**
+   * ETH out for a sell at the slipped price, after fee
+   */
+  private quoteSell(tokenAmount: bigint, price: number): bigint {
+    const fillPrice = price * (1 - this.swap.slippageBps / 10000);
+    return this.afterFee((tokenAmount * this.toScaledPrice(fillPrice)) / WEI);
+  }
+
+  private afterFee(amount: bigint): bigint {
+    return (amount * BigInt(10000 - this.swap.feeBps)) / BigInt(10000);
+  }
+
+  private gasCost(): bigint {
+    return parseEther(this.swap.gasEthPerTrade.toFixed(18));
+  }
+
+  /**
+   * Price in ETH/token as a 1e18-scaled integer
+   */
+  private toScaledPrice(price: number): bigint {
+    return BigInt(Math.max(1, Math.round(price * PRICE_SCALE)));
+  }
+
+  private holdingTokens(): bigint {
+    return this.positions
+      .filter(p => p.status === 'HOLDING')
+      .reduce((sum, p) => sum + BigInt(p.tokensRemaining ?? p.tokensReceived ?? '0'), BigInt(0)) + this.moonBagTokens;
+  }
+
+  /**
+   * ETH balance plus all held tokens marked at price (no exit costs)
+   */
+  private equityAt(price: number): bigint {
+    return this.ethBalance + (this.holdingTokens() * this.toScaledPrice(price)) / WEI;
+  }
+
+  private unrealizedAt(price: number): bigint {
+    // Cost basis still carried by the held tokens, after any tier fills (as a full exit would book it)
+    const openCost = this.positions
+      .filter(p => p.status === 'HOLDING')
+      .reduce((sum, p) => sum + BigInt(GridCalculator.getSellPlan(p, this.config, 'liquidation').costEth), BigInt(0));
+    // Moon bags carry no cost - it was charged against the sells that left them
+    return (this.holdingTokens() * this.toScaledPrice(price)) / WEI - openCost;
+  }
+
+  private nextTxHash(action: 'buy' | 'sell'): string {
+    return `backtest-${action}-${this.trades.length + 1}`;
+  }
+
+  private createRecord(
+    action: 'buy' | 'sell',
+    position: Position,
+    timestamp: number,
+    fields: Pick<TradeRecord, 'amount' | 'price' | 'ethValue' | 'gasCost' | 'txHash'> &
+      Partial<Pick<TradeRecord, 'profit' | 'profitPercent' | 'exitReason' | 'tier' | 'partial'>>
+  ): TradeRecord {
+    return {
+      id: `backtest-${this.trades.length + 1}`,
+      botId: 'backtest',
+      botName: this.botName,
+      tokenSymbol: this.tokenSymbol,
+      tokenAddress: '',
+      action,
+      timestamp,
+      positionId: position.id,
+      ...fields,
+    };
+  }
+}
@@ -0,0 +1,172 @@
+// src/backtest/PriceSeries.ts
+// Historical price series loading for offline backtests
+
+import { promises as fs } from 'fs';
+import { extname } from 'path';
+
+/**
+ * A single price observation
+ */
+export interface PricePoint {
+  timestamp: number;       // Unix ms
+  price: number;           // Price in ETH per token
+}
+
+/**
+ * An OHLC candle
+ */
+export interface Candle {
+  timestamp: number;       // Unix ms (candle open)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * Parses price series from CSV or JSON into ordered price points
+ *
+ * Accepted rows/objects are either `timestamp,price` or
+ * `timestamp,open,high,low,close`. Timestamps may be unix seconds, unix ms
+ * or ISO dates. Candles are expanded into four ticks (open, then low/high
+ * in the direction of the candle, then close) so intra-candle grid levels
+ * are still crossed.
+ */
+export class PriceSeries {
+  /**
+   * Load a series from a .csv or .json file
+   */
+  static async loadFile(path: string): Promise<PricePoint[]> {
+    const content = await fs.readFile(path, 'utf-8');
+    return extname(path).toLowerCase() === '.json'
+      ? this.parseJson(content)
+      : this.parseCsv(content);
+  }
+
+  /**
+   * Parse CSV content (header row optional)
+   */
+  static parseCsv(content: string): PricePoint[] {
+    const lines = content.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0);
+    if (lines.length === 0) return [];
+
+    let columns: string[] | null = null;
+    const firstCells = lines[0].split(',').map(c => c.trim().toLowerCase());
+    if (firstCells.some(c => isNaN(Number(c)) && isNaN(Date.parse(c)))) {
+      columns = firstCells;
+      lines.shift();
+    }
+
+    const rows = lines.map((line, index) => {
+      const cells = line.split(',').map(c => c.trim());
+      if (!columns) return cells;
+
+      const row: Record<string, string> = {};
+      columns.forEach((name, i) => { row[name] = cells[i]; });
+      if (row.timestamp === undefined && row.time === undefined && row.date === undefined) {
+        throw new Error(`CSV line ${index + 2}: missing timestamp column`);
+      }
+      return row;
+    });
+
+    return this.normalize(rows.map(row => Array.isArray(row) ? this.fromCells(row) : this.fromObject(row)));
+  }
+
+  /**
+   * Parse JSON content: an array of points/candles or `[timestamp, price]` pairs
+   */
+  static parseJson(content: string): PricePoint[] {
+    const data = JSON.parse(content);
+    const items: unknown[] = Array.isArray(data) ? data : data?.prices ?? data?.candles;
+    if (!Array.isArray(items)) {
+      throw new Error('JSON price series must be an array (or { prices } / { candles })');
+    }
+
+    return this.normalize(items.map(item =>
+      Array.isArray(item)
+        ? this.fromCells(item.map(String))
+        : this.fromObject(item as Record<string, unknown>)
+    ));
+  }
+
+  /**
+   * Expand candles into ticks
+   */
+  static fromCandles(candles: Candle[]): PricePoint[] {
+    const points: PricePoint[] = [];
+    for (const candle of candles) {
+      const [first, second] = candle.close >= candle.open
+        ? [candle.low, candle.high]
+        : [candle.high, candle.low];
+      points.push(
+        { timestamp: candle.timestamp, price: candle.open },
+        { timestamp: candle.timestamp, price: first },
+        { timestamp: candle.timestamp, price: second },
+        { timestamp: candle.timestamp, price: candle.close }
+      );
+    }
+    return points;
+  }
+
+  /**
+   * Convert a timestamp value to unix ms
+   */
+  static toTimestamp(value: unknown): number {
+    if (typeof value === 'number' || (typeof value === 'string' && value !== '' && !isNaN(Number(value)))) {
+      const n = Number(value);
+      // Treat values below 1e12 as unix seconds
+      return n < 1e12 ? n * 1000 : n;
+    }
+    const parsed = Date.parse(String(value));
+    if (isNaN(parsed)) {
+      throw new Error(`Invalid timestamp: ${value}`);
+    }
+    return parsed;
+  }
+
+  private static fromCells(cells: string[]): PricePoint[] {
+    if (cells.length >= 5) {
+      return this.fromCandles([{
+        timestamp: this.toTimestamp(cells[0]),
+        open: Number(cells[1]),
+        high: Number(cells[2]),
+        low: Number(cells[3]),
+        close: Number(cells[4]),
+      }]);
+    }
+    if (cells.length >= 2) {
+      return [{ timestamp: this.toTimestamp(cells[0]), price: Number(cells[1]) }];
+    }
+    throw new Error(`Expected timestamp,price or timestamp,open,high,low,close - got "${cells.join(',')}"`);
+  }
+
+  private static fromObject(row: Record<string, unknown>): PricePoint[] {
+    const timestamp = this.toTimestamp(row.timestamp ?? row.time ?? row.date);
+    if (row.open !== undefined && row.close !== undefined) {
+      return this.fromCandles([{
+        timestamp,
+        open: Number(row.open),
+        high: Number(row.high ?? Math.max(Number(row.open), Number(row.close))),
+        low: Number(row.low ?? Math.min(Number(row.open), Number(row.close))),
+        close: Number(row.close),
+      }]);
+    }
+    return [{ timestamp, price: Number(row.price ?? row.close) }];
+  }
+
+  /**
+   * Flatten, validate and sort by time (stable for candle ticks)
+   */
+  private static normalize(groups: PricePoint[][]): PricePoint[] {
+    const points = groups.flat();
+    for (const point of points) {
+      if (!Number.isFinite(point.price) || point.price <= 0) {
+        throw new Error(`Invalid price ${point.price} at ${new Date(point.timestamp).toISOString()}`);
+      }
+    }
+    return points
+      .map((point, index) => ({ point, index }))
+      .sort((a, b) => a.point.timestamp - b.point.timestamp || a.index - b.index)
+      .map(({ point }) => point);
+  }
+}
@@ -0,0 +1,5 @@
+// src/backtest/index.ts
+// Backtesting exports
+
+export { Backtester, BacktestOptions, BacktestResult, SwapModel } from './Backtester.js';
+export { PriceSeries, PricePoint, Candle } from './PriceSeries.js';
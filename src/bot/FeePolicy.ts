@@ -0,0 +1,156 @@
+/**
+ * @fileoverview EIP-1559 fee estimation, caps and replacement bumps
+ * @module bot/FeePolicy
+ * @version 1.0.0
+ */
+
+import { parseGwei } from 'viem';
+import { GridConfig } from '../types/index.js';
+
+/**
+ * EIP-1559 fee pair in wei
+ * @interface Eip1559Fees
+ */
+export interface Eip1559Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+// Blocks of fee history sampled for the base fee and tips
+const FEE_HISTORY_BLOCKS = 10;
+
+// Blocks averaged to judge whether the next base fee is high (~2 min on Base)
+const BASE_FEE_TREND_BLOCKS = 60;
+
+// Tip used when recent blocks paid none (0.001 gwei - enough on Base)
+const MIN_PRIORITY_FEE = parseGwei('0.001');
+
+// Nodes require replacements to raise both fees by at least 10%
+const BUMP_NUMERATOR = BigInt(1125);
+const BUMP_DENOMINATOR = BigInt(1000);
+
+/**
+ * Next block's base fee against the recent average, in wei
+ * @interface BaseFeeTrend
+ */
+export interface BaseFeeTrend {
+  next: bigint;
+  average: bigint;
+}
+
+/**
+ * Derives transaction fees for a bot
+ * @class FeePolicy
+ * @description maxFeePerGas = 2 × next base fee + tip, which survives six full blocks
+ * of base-fee growth; the tip is the median of recent blocks' median tips. Both are
+ * clamped to the bot's caps. Only the gas actually used at the effective price is paid.
+ */
+export class FeePolicy {
+  /** Default seconds before an unmined transaction is sped up */
+  static readonly DEFAULT_TIMEOUT_SECONDS = 60;
+  /** Default speed-ups before a stuck transaction is cancelled */
+  static readonly DEFAULT_MAX_REPLACEMENTS = 2;
+
+  /**
+   * Estimate fees from recent blocks
+   * @param {any} publicClient - viem public client
+   * @param {GridConfig} config - Bot config with optional caps
+   * @param {string} [fallbackGasPrice] - Quote gas price used if fee history is unavailable
+   * @returns {Promise<Eip1559Fees>} Capped fees
+   */
+  static async estimate(publicClient: any, config: GridConfig, fallbackGasPrice?: string): Promise<Eip1559Fees> {
+    let fees: Eip1559Fees;
+    try {
+      const history = await publicClient.getFeeHistory({
+        blockCount: FEE_HISTORY_BLOCKS,
+        rewardPercentiles: [50],
+        blockTag: 'latest',
+      });
+      // baseFeePerGas has one more entry than blocks: the next block's base fee
+      const nextBaseFee: bigint = history.baseFeePerGas[history.baseFeePerGas.length - 1];
+      const tips = (history.reward || [])
+        .map((r: bigint[]) => r[0])
+        .filter((t: bigint) => t > BigInt(0))
+        .sort((a: bigint, b: bigint) => (a < b ? -1 : a > b ? 1 : 0));
+      const tip = tips.length > 0 ? tips[Math.floor(tips.length / 2)] : MIN_PRIORITY_FEE;
+      fees = { maxFeePerGas: nextBaseFee * BigInt(2) + tip, maxPriorityFeePerGas: tip };
+    } catch {
+      // Node without eth_feeHistory: treat the quoted gas price as the max fee
+      const gasPrice = fallbackGasPrice ? BigInt(fallbackGasPrice) : await publicClient.getGasPrice();
+      fees = {
+        maxFeePerGas: gasPrice,
+        maxPriorityFeePerGas: gasPrice < MIN_PRIORITY_FEE ? gasPrice : MIN_PRIORITY_FEE,
+      };
+    }
+    return this.applyCaps(fees, config);
+  }
+
+  /**
+   * Compare the next base fee with its average over recent blocks
+   * @param {any} publicClient - viem public client
+   * @returns {Promise<BaseFeeTrend | null>} null if the node has no fee history
+   */
+  static async baseFeeTrend(publicClient: any): Promise<BaseFeeTrend | null> {
+    try {
+      const history = await publicClient.getFeeHistory({
+        blockCount: BASE_FEE_TREND_BLOCKS,
+        rewardPercentiles: [],
+        blockTag: 'latest',
+      });
+      const fees: bigint[] = history.baseFeePerGas.map((fee: bigint) => BigInt(fee));
+      const past = fees.slice(0, -1);
+      if (past.length === 0) return null;
+
+      const total = past.reduce((sum, fee) => sum + fee, BigInt(0));
+      return { next: fees[fees.length - 1], average: total / BigInt(past.length) };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Raise fees enough for the node to accept a same-nonce replacement
+   * @param {Eip1559Fees} fees - Fees of the transaction being replaced
+   * @param {GridConfig} config - Bot config with optional caps
+   * @returns {Eip1559Fees | null} Bumped fees, or null if the cap leaves no room for a valid bump
+   */
+  static bump(fees: Eip1559Fees, config: GridConfig): Eip1559Fees | null {
+    const bumped = this.raise(fees);
+    const capped = this.applyCaps(bumped, config);
+    if (capped.maxFeePerGas < bumped.maxFeePerGas || capped.maxPriorityFeePerGas < bumped.maxPriorityFeePerGas) {
+      return null;
+    }
+    return capped;
+  }
+
+  /**
+   * Fees for a cancel replacement
+   * @description A cancel costs 21000 gas, so it ignores the caps - a cheap cancel
+   * the node rejects would leave the nonce stuck.
+   */
+  static cancelFees(fees: Eip1559Fees): Eip1559Fees {
+    return this.raise(fees);
+  }
+
+  /**
+   * Clamp fees to the bot's caps (tip never above max fee)
+   */
+  static applyCaps(fees: Eip1559Fees, config: GridConfig): Eip1559Fees {
+    let { maxFeePerGas, maxPriorityFeePerGas } = fees;
+    if (config.maxFeePerGasGwei && config.maxFeePerGasGwei > 0) {
+      const cap = parseGwei(config.maxFeePerGasGwei.toString());
+      if (maxFeePerGas > cap) maxFeePerGas = cap;
+    }
+    if (config.maxPriorityFeePerGasGwei && config.maxPriorityFeePerGasGwei > 0) {
+      const cap = parseGwei(config.maxPriorityFeePerGasGwei.toString());
+      if (maxPriorityFeePerGas > cap) maxPriorityFeePerGas = cap;
+    }
+    if (maxPriorityFeePerGas > maxFeePerGas) maxPriorityFeePerGas = maxFeePerGas;
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  private static raise(fees: Eip1559Fees): Eip1559Fees {
+    const up = (value: bigint) => (value * BUMP_NUMERATOR) / BUMP_DENOMINATOR + BigInt(1);
+    return { maxFeePerGas: up(fees.maxFeePerGas), maxPriorityFeePerGas: up(fees.maxPriorityFeePerGas) };
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Per-bot gas rules: gas-to-trade ratio, daily budget and base-fee deferral
+ * @module bot/GasBudget
+ * @version 1.0.0
+ */
+
+import { formatEther, formatGwei, parseEther } from 'viem';
+import { BotInstance, ExitReason, GasHoldKind } from '../types/index.js';
+import { BaseFeeTrend } from './FeePolicy.js';
+
+/**
+ * A trade about to be sent
+ * @interface GasRequest
+ */
+export interface GasRequest {
+  side: 'buy' | 'sell';
+  /** Sell exit reason (stop-loss style exits are never held) */
+  exitReason?: ExitReason;
+  /** Quoted gas cost in wei */
+  gasWei: bigint;
+  /** Gas cost in the trade's quote units (buys, for the ratio rule) */
+  gasInQuote?: bigint;
+  /** Buy amount in quote units (buys, for the ratio rule) */
+  tradeValue?: bigint;
+  /** Current base fee trend (base-fee rule) */
+  baseFees?: BaseFeeTrend | null;
+}
+
+/**
+ * Outcome of the gas rules for a trade
+ * @interface GasDecision
+ */
+export interface GasDecision {
+  /** Rule holding the trade back, or null to go ahead */
+  hold: GasHoldKind | null;
+  reason: string | null;
+}
+
+// Exits that protect capital go out whatever gas costs
+const URGENT_EXITS: ExitReason[] = ['stop-loss', 'trailing-stop', 'liquidation'];
+
+/**
+ * Gas spending limits for a bot
+ * @class GasBudget
+ * @description Non-urgent trades (buys and take-profit sells) are held while the daily
+ * gas budget is used up or the base fee is well above its recent average; buys are also
+ * held while gas is too large a share of the buy. A base-fee deferral gives up after
+ * maxGasDeferSeconds so a trade is never postponed indefinitely. Gas paid is counted per
+ * UTC day on the instance so the budget survives restarts.
+ */
+export class GasBudget {
+  /** Default seconds a trade waits for a cheaper block */
+  static readonly DEFAULT_MAX_DEFER_SECONDS = 600;
+
+  /**
+   * UTC day key (YYYY-MM-DD)
+   */
+  static day(now: number = Date.now()): string {
+    return new Date(now).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Gas the bot has paid today in wei
+   */
+  static spentToday(instance: BotInstance, now: number = Date.now()): bigint {
+    return instance.gasSpentDay === GasBudget.day(now) ? BigInt(instance.gasSpentTodayEth || '0') : BigInt(0);
+  }
+
+  /**
+   * Count gas the bot paid
+   * @param {BotInstance} instance - Bot (updated in place)
+   * @param {bigint} gasWei - Fees paid in wei
+   */
+  static record(instance: BotInstance, gasWei: bigint, now: number = Date.now()): void {
+    const today = GasBudget.spentToday(instance, now);
+    instance.gasSpentDay = GasBudget.day(now);
+    instance.gasSpentTodayEth = (today + gasWei).toString();
+    instance.gasSpentEth = (BigInt(instance.gasSpentEth || '0') + gasWei).toString();
+  }
+
+  /**
+   * Whether a trade may be sent now
+   * @param {BotInstance} instance - Bot with its config, gas counters and current hold
+   * @param {GasRequest} request - The trade
+   */
+  static evaluate(instance: BotInstance, request: GasRequest, now: number = Date.now()): GasDecision {
+    const config = instance.config;
+    if (request.side === 'sell' && request.exitReason && URGENT_EXITS.includes(request.exitReason)) {
+      return { hold: null, reason: null };
+    }
+
+    if (config.dailyGasBudgetEth && config.dailyGasBudgetEth > 0) {
+      const budget = parseEther(config.dailyGasBudgetEth.toString());
+      const spent = GasBudget.spentToday(instance, now);
+      if (spent >= budget || spent + request.gasWei > budget) {
+        return {
+          hold: 'budget',
+          reason: `daily gas budget used: ${formatEther(spent)} of ${config.dailyGasBudgetEth} ETH (next trade ${formatEther(request.gasWei)} ETH)`,
+        };
+      }
+    }
+
+    const { gasInQuote, tradeValue } = request;
+    if (
+      request.side === 'buy' &&
+      config.maxGasPercentOfTrade && config.maxGasPercentOfTrade > 0 &&
+      gasInQuote !== undefined && tradeValue !== undefined && tradeValue > BigInt(0)
+    ) {
+      const percent = Number((gasInQuote * BigInt(10000)) / tradeValue) / 100;
+      if (percent > config.maxGasPercentOfTrade) {
+        return {
+          hold: 'ratio',
+          reason: `gas is ${percent.toFixed(2)}% of the buy (limit ${config.maxGasPercentOfTrade}%)`,
+        };
+      }
+    }
+
+    const trend = request.baseFees;
+    if (config.gasDeferMultiplier && config.gasDeferMultiplier > 0 && trend && trend.average > BigInt(0)) {
+      const threshold = (trend.average * BigInt(Math.round(config.gasDeferMultiplier * 100))) / BigInt(100);
+      const waitingSince = instance.gasHold?.kind === 'base-fee' ? instance.gasHold.since : now;
+      const maxDeferMs = (config.maxGasDeferSeconds ?? GasBudget.DEFAULT_MAX_DEFER_SECONDS) * 1000;
+      if (trend.next > threshold && now - waitingSince < maxDeferMs) {
+        return {
+          hold: 'base-fee',
+          reason: `base fee ${formatGwei(trend.next)} gwei is above ${config.gasDeferMultiplier}× the recent ${formatGwei(trend.average)} gwei - waiting for a cheaper block`,
+        };
+      }
+    }
+
+    return { hold: null, reason: null };
+  }
+}
@@ -5,34 +5,102 @@ import { TradingBot } from './TradingBot.js';
 import { BotInstance } from '../types/index.js';
 import { WalletManager } from '../wallet/WalletManager.js';
 import { ZeroXApi } from '../api/ZeroXApi.js';
+import { RateLimiter, RateLimitStatus } from '../api/RateLimiter.js';
+import { RpcPool } from '../api/RpcPool.js';
 import { JsonStorage } from '../storage/JsonStorage.js';
 import { PnLTracker } from '../analytics/PnLTracker.js';
+import { CircuitBreaker, CircuitBreakerHaltMode } from '../risk/index.js';
 
+/**
+ * Scheduling state for one bot
+ */
+interface BotSchedule {
+  /** When the next tick is due */
+  nextRunAt: number;
+  /** Start of the tick in flight (null when idle) */
+  startedAt: number | null;
+  /** Tick in flight has run past HUNG_TICK_MS and no longer holds a concurrency slot */
+  hung: boolean;
+  /** Settles when the tick in flight finishes */
+  inFlight: Promise<boolean> | null;
+  ticks: number;
+  errors: number;
+  lastTickAt: number;
+  lastTickMs: number;
+  avgTickMs: number;
+  maxTickMs: number;
+}
+
+/**
+ * Per-bot scheduling figures reported by getStatus()
+ */
+export interface BotTickStatus {
+  id: string;
+  name: string;
+  isRunning: boolean;
+  lastHeartbeat: number;
+  /** Effective ms between this bot's ticks */
+  intervalMs: number;
+  /** A tick is in flight */
+  ticking: boolean;
+  /** In-flight tick has exceeded the hung threshold */
+  hung: boolean;
+  ticks: number;
+  errors: number;
+  /** When the last tick finished (0 before the first) */
+  lastTickAt: number;
+  /** Duration of the last completed tick in ms */
+  lastTickMs: number;
+  /** Moving average tick duration in ms */
+  avgTickMs: number;
+  /** Slowest tick in ms */
+  maxTickMs: number;
+}
+
+/**
+ * Runs every bot on its own interval
+ * @description Each bot ticks every max(config.heartbeatMs, manager interval) ×
+ * (skipHeartbeats + 1) ms. A bot never overlaps its own ticks, at most maxConcurrency
+ * bots tick at once, and the most overdue bots go first. A tick still running after
+ * HUNG_TICK_MS gives up its slot so a hung bot cannot starve the others.
+ */
 export class HeartbeatManager {
+  static readonly DEFAULT_MAX_CONCURRENCY = 4;
+  static readonly HUNG_TICK_MS = 120000;
+  // How often due bots are looked for (never coarser than the interval itself)
+  private static readonly DISPATCH_MS = 250;
+
   private bots: Map<string, TradingBot> = new Map();
   private walletManager: WalletManager;
   private zeroXApi: ZeroXApi;
   private storage: JsonStorage;
-  private rpcUrl: string;
+  // Fixed endpoint, or the pool each bot takes its chain's endpoints from
+  private rpc: string | RpcPool;
   private pnLTracker: PnLTracker | null = null;
+  private circuitBreaker: CircuitBreaker | null = null;
+  private currentHalt: CircuitBreakerHaltMode | 'none' = 'none';
+  private lastBreakerCheck: number = 0;
+  private breakerCheckMs: number = 5000;
   
   private isRunning: boolean = false;
   private heartbeatInterval: NodeJS.Timeout | null = null;
-  private currentBotIndex: number = 0;
   private heartbeatMs: number = 1000;
+  private schedules: Map<string, BotSchedule> = new Map();
+  private maxConcurrency: number = HeartbeatManager.DEFAULT_MAX_CONCURRENCY;
+  private breakerCheckInFlight: boolean = false;
 
   constructor(
     walletManager: WalletManager,
     zeroXApi: ZeroXApi,
     storage: JsonStorage,
-    rpcUrl: string,
+    rpc: string | RpcPool,
     heartbeatMs: number = 1000,
     pnLTracker?: PnLTracker
   ) {
     this.walletManager = walletManager;
     this.zeroXApi = zeroXApi;
     this.storage = storage;
-    this.rpcUrl = rpcUrl;
+    this.rpc = rpc;
     this.heartbeatMs = heartbeatMs;
     this.pnLTracker = pnLTracker || null;
   }
@@ -55,6 +123,58 @@ export class HeartbeatManager {
     return this.pnLTracker;
   }
 
+  /**
+   * Set the circuit breaker evaluated on the heartbeat
+   */
+  setCircuitBreaker(circuitBreaker: CircuitBreaker): void {
+    this.circuitBreaker = circuitBreaker;
+    this.lastBreakerCheck = 0;
+  }
+
+  /**
+   * Get the circuit breaker
+   */
+  getCircuitBreaker(): CircuitBreaker | null {
+    return this.circuitBreaker;
+  }
+
+  /**
+   * Evaluate the circuit breaker and apply its halt to every bot
+   * @description Bots with useCircuitBreaker === false and paper-trading bots
+   * are neither counted nor halted. Runs at most every breakerCheckMs unless forced.
+   */
+  async checkCircuitBreaker(force: boolean = false): Promise<void> {
+    if (!this.circuitBreaker) return;
+    if (!force && Date.now() - this.lastBreakerCheck < this.breakerCheckMs) return;
+    this.lastBreakerCheck = Date.now();
+
+    // Paper bots neither count towards losses nor get halted
+    const isGuarded = (i: BotInstance) => i.config.useCircuitBreaker !== false && !i.paperTrading;
+    const guarded = Array.from(this.bots.values())
+      .map(b => b.getInstance())
+      .filter(isGuarded);
+
+    try {
+      const result = await this.circuitBreaker.check(guarded);
+      const halt = result.triggered ? this.circuitBreaker.getConfig().haltMode : 'none';
+
+      if (halt !== this.currentHalt) {
+        if (halt === 'none') {
+          console.log(chalk.green('✓ Circuit breaker cleared - trading resumed'));
+        } else {
+          console.log(chalk.red(`🚨 Circuit breaker triggered: ${result.reason}`));
+        }
+        this.currentHalt = halt;
+      }
+
+      for (const bot of this.bots.values()) {
+        bot.setTradingHalt(isGuarded(bot.getInstance()) ? halt : 'none');
+      }
+    } catch (error: any) {
+      console.error('Circuit breaker check error:', error.message);
+    }
+  }
+
   /**
    * Load all bots from storage and initialize them
    */
@@ -83,13 +203,17 @@ export class HeartbeatManager {
       this.walletManager,
       this.zeroXApi,
       this.storage,
-      this.rpcUrl,
+      this.rpc,
       true, // enablePriceOracle
       this.pnLTracker || undefined
     );
 
     await bot.init();
+    if (instance.config.useCircuitBreaker !== false && !instance.paperTrading) {
+      bot.setTradingHalt(this.currentHalt);
+    }
     this.bots.set(instance.id, bot);
+    this.schedules.set(instance.id, HeartbeatManager.newSchedule());
     
     console.log(`✓ Bot ${instance.name} (${instance.id}) added`);
     return bot;
@@ -103,10 +227,43 @@ export class HeartbeatManager {
     if (bot) {
       bot.stop();
       this.bots.delete(botId);
+      this.schedules.delete(botId);
       console.log(`✓ Bot ${botId} removed`);
     }
   }
 
+  /**
+   * Remove a bot once its in-flight tick (and any trade in it) has finished
+   * @description No further ticks are dispatched while waiting. A tick already hung, or
+   * still running after HUNG_TICK_MS, is not waited for.
+   * @returns The removed bot, or undefined if it wasn't managed
+   */
+  async drainBot(botId: string): Promise<TradingBot | undefined> {
+    const bot = this.bots.get(botId);
+    if (!bot) return undefined;
+    const schedule = this.schedules.get(botId);
+    this.bots.delete(botId);
+    this.schedules.delete(botId);
+
+    if (schedule?.inFlight && !schedule.hung && schedule.startedAt !== null) {
+      const remaining = HeartbeatManager.HUNG_TICK_MS - (Date.now() - schedule.startedAt);
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        schedule.inFlight.catch(() => {
+          // Ignore - runBot records tick errors
+        }),
+        new Promise<void>(resolve => {
+          timer = setTimeout(resolve, Math.max(0, remaining));
+        }),
+      ]);
+      clearTimeout(timer);
+    }
+
+    bot.stop();
+    console.log(`✓ Bot ${botId} removed`);
+    return bot;
+  }
+
   /**
    * Start the heartbeat
    */
@@ -114,12 +271,23 @@ export class HeartbeatManager {
     if (this.isRunning) return;
     
     this.isRunning = true;
-    console.log(`✓ Heartbeat started (${this.heartbeatMs}ms interval)`);
+    console.log(`✓ Heartbeat started (${this.heartbeatMs}ms minimum interval, ${this.maxConcurrency} concurrent)`);
     console.log(`  Managing ${this.bots.size} bot(s)`);
 
+    this.startTimer();
+    this.dispatch();
+  }
+
+  /**
+   * (Re)start the dispatch timer
+   */
+  private startTimer(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+    }
     this.heartbeatInterval = setInterval(() => {
-      this.tick();
-    }, this.heartbeatMs);
+      this.dispatch();
+    }, Math.min(this.heartbeatMs, HeartbeatManager.DISPATCH_MS));
   }
 
   /**
@@ -158,9 +326,7 @@ export class HeartbeatManager {
     
     // Restart if was running
     if (wasRunning) {
-      this.heartbeatInterval = setInterval(() => {
-        this.tick();
-      }, this.heartbeatMs);
+      this.startTimer();
       console.log(`✓ Heartbeat interval updated to ${newIntervalMs}ms`);
     } else {
       console.log(`✓ Heartbeat interval set to ${newIntervalMs}ms (will apply on start)`);
@@ -175,54 +341,173 @@ export class HeartbeatManager {
   }
 
   /**
-   * Single heartbeat tick
+   * Set how many bots may tick at once
    */
-  private async tick(): Promise<void> {
-    const botList = Array.from(this.bots.values());
-    if (botList.length === 0) return;
+  setMaxConcurrency(maxConcurrency: number): void {
+    this.maxConcurrency = Math.max(1, Math.floor(maxConcurrency));
+  }
 
-    // Get next bot in sequence
-    const bot = botList[this.currentBotIndex % botList.length];
-    const instance = bot.getInstance();
+  /**
+   * Get how many bots may tick at once
+   */
+  getMaxConcurrency(): number {
+    return this.maxConcurrency;
+  }
+
+  /**
+   * Milliseconds between a bot's ticks
+   * @description The manager interval is the floor; skipHeartbeats stretches the bot's
+   * own interval (skip 2 = every third heartbeat).
+   */
+  getBotInterval(instance: BotInstance): number {
+    const base = Math.max(instance.config.heartbeatMs || this.heartbeatMs, this.heartbeatMs);
+    return base * ((instance.config.skipHeartbeats || 0) + 1);
+  }
 
-    // Check if bot should be skipped
-    const skipCount = instance.config.skipHeartbeats || 0;
-    const shouldRun = (this.currentBotIndex % (skipCount + 1)) === 0;
+  /**
+   * Start ticks for every bot that is due, most overdue first, within the concurrency limit
+   */
+  private dispatch(): void {
+    if (this.bots.size === 0) return;
+    const now = Date.now();
+
+    if (!this.breakerCheckInFlight) {
+      this.breakerCheckInFlight = true;
+      this.checkCircuitBreaker()
+        .catch(() => {
+          // Ignore - checkCircuitBreaker logs its own errors
+        })
+        .finally(() => {
+          this.breakerCheckInFlight = false;
+        });
+    }
 
-    if (shouldRun) {
-      try {
-        await bot.tick();
-      } catch (error: any) {
-        console.error(`Bot ${instance.id} error:`, error.message);
+    // Bots registered without addBot() get a schedule on first sight
+    for (const id of this.bots.keys()) {
+      if (!this.schedules.has(id)) this.schedules.set(id, HeartbeatManager.newSchedule());
+    }
+
+    let active = 0;
+    for (const [id, schedule] of this.schedules) {
+      if (schedule.startedAt === null || schedule.hung) continue;
+      if (now - schedule.startedAt >= HeartbeatManager.HUNG_TICK_MS) {
+        schedule.hung = true;
+        const name = this.bots.get(id)?.getInstance().name ?? id;
+        console.warn(chalk.yellow(`⚠️  ${name} tick running for ${Math.round((now - schedule.startedAt) / 1000)}s - no longer holding a slot`));
+        continue;
       }
+      active++;
     }
 
-    // Move to next bot
-    this.currentBotIndex = (this.currentBotIndex + 1) % botList.length;
+    const due = Array.from(this.schedules.entries())
+      .filter(([id, schedule]) => schedule.startedAt === null && schedule.nextRunAt <= now && this.bots.has(id))
+      .sort((a, b) => a[1].nextRunAt - b[1].nextRunAt);
+
+    for (const [id] of due) {
+      if (active >= this.maxConcurrency) break;
+      active++;
+      this.runBot(id).catch(() => {
+        // Ignore - runBot records its own errors
+      });
+    }
+  }
+
+  /**
+   * Tick one bot and record how long it took
+   */
+  private async runBot(id: string): Promise<void> {
+    const bot = this.bots.get(id);
+    const schedule = this.schedules.get(id);
+    if (!bot || !schedule) return;
+
+    const instance = bot.getInstance();
+    const startedAt = Date.now();
+    schedule.startedAt = startedAt;
+    schedule.hung = false;
+
+    try {
+      schedule.inFlight = bot.tick();
+      // tick logs its own failures
+      if ((await schedule.inFlight) === false) schedule.errors++;
+    } catch (error: any) {
+      schedule.errors++;
+      console.error(`Bot ${instance.id} error:`, error.message);
+    } finally {
+      const finishedAt = Date.now();
+      const elapsed = finishedAt - startedAt;
+      schedule.ticks++;
+      schedule.lastTickAt = finishedAt;
+      schedule.lastTickMs = elapsed;
+      schedule.maxTickMs = Math.max(schedule.maxTickMs, elapsed);
+      // Exponential moving average over roughly the last ten ticks
+      schedule.avgTickMs = schedule.ticks === 1 ? elapsed : Math.round(schedule.avgTickMs * 0.9 + elapsed * 0.1);
+      // Keep the cadence; a tick that overran its interval runs again on the next dispatch
+      schedule.nextRunAt = startedAt + this.getBotInterval(instance);
+      schedule.startedAt = null;
+      schedule.hung = false;
+      schedule.inFlight = null;
+    }
+  }
+
+  private static newSchedule(): BotSchedule {
+    return {
+      nextRunAt: 0,
+      startedAt: null,
+      hung: false,
+      inFlight: null,
+      ticks: 0,
+      errors: 0,
+      lastTickAt: 0,
+      lastTickMs: 0,
+      avgTickMs: 0,
+      maxTickMs: 0,
+    };
   }
 
   /**
    * Get status of all bots
+   * @description rateLimit is the shared 0x budget: throttled while backing off after a 429.
+   * Each bot reports its interval and tick latency; activeTicks excludes hung ticks.
    */
   getStatus(): {
     isRunning: boolean;
     heartbeatMs: number;
     totalBots: number;
-    bots: { id: string; name: string; isRunning: boolean; lastHeartbeat: number }[];
+    maxConcurrency: number;
+    activeTicks: number;
+    circuitBreaker: CircuitBreakerHaltMode | 'none';
+    rateLimit: RateLimitStatus;
+    bots: BotTickStatus[];
   } {
+    const bots = Array.from(this.bots.entries()).map(([id, b]) => {
+      const instance = b.getInstance();
+      const schedule = this.schedules.get(id) ?? HeartbeatManager.newSchedule();
+      return {
+        id: instance.id,
+        name: instance.name,
+        isRunning: instance.isRunning,
+        lastHeartbeat: instance.lastHeartbeat,
+        intervalMs: this.getBotInterval(instance),
+        ticking: schedule.startedAt !== null,
+        hung: schedule.hung,
+        ticks: schedule.ticks,
+        errors: schedule.errors,
+        lastTickAt: schedule.lastTickAt,
+        lastTickMs: schedule.lastTickMs,
+        avgTickMs: schedule.avgTickMs,
+        maxTickMs: schedule.maxTickMs,
+      };
+    });
+
     return {
       isRunning: this.isRunning,
       heartbeatMs: this.heartbeatMs,
       totalBots: this.bots.size,
-      bots: Array.from(this.bots.values()).map(b => {
-        const instance = b.getInstance();
-        return {
-          id: instance.id,
-          name: instance.name,
-          isRunning: instance.isRunning,
-          lastHeartbeat: instance.lastHeartbeat,
-        };
-      }),
+      maxConcurrency: this.maxConcurrency,
+      activeTicks: bots.filter(b => b.ticking && !b.hung).length,
+      circuitBreaker: this.currentHalt,
+      rateLimit: RateLimiter.getInstance().getStatus(),
+      bots,
     };
   }
 
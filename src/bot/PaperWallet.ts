@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Virtual wallet ledger for paper-trading bots
+ * @module bot/PaperWallet
+ * @version 1.0.0
+ */
+
+import { formatEther, formatUnits, parseUnits } from 'viem';
+import { BotInstance, PaperLedger } from '../types/index.js';
+import { GridCalculator } from '../grid/GridCalculator.js';
+
+/**
+ * Summary of a paper ledger valued at a given price
+ * @interface PaperSummary
+ */
+export interface PaperSummary {
+  /** Virtual ETH balance */
+  ethBalance: number;
+  /** Virtual token balance (whole tokens) */
+  tokenBalance: number;
+  /** ETH plus tokens valued at the given price */
+  equityEth: number;
+  /** Equity minus starting ETH */
+  pnlEth: number;
+  /** P&L relative to starting ETH */
+  pnlPercent: number;
+  /** Quoted gas charged so far */
+  gasSpentEth: number;
+}
+
+/**
+ * Applies simulated fills to a bot's paper ledger
+ * @class PaperWallet
+ * @description All balances are wei strings on BotInstance.paperLedger so they
+ * persist with the bot. Fills are priced by the caller from live 0x quotes;
+ * this class only does the bookkeeping. For bots quoted in an ERC-20 the "ETH"
+ * balance is in that token's smallest units (gas converted by the caller).
+ */
+export class PaperWallet {
+  /** Virtual ETH for a paper bot started without a funded ledger */
+  static readonly DEFAULT_STARTING_ETH = 1;
+
+  /**
+   * Create a funded ledger
+   * @static
+   * @param {number} startingEth - Virtual ETH (or quote token) to start with
+   * @param {number} [decimals=18] - Quote asset decimals
+   * @returns {PaperLedger} New ledger
+   */
+  static create(startingEth: number, decimals: number = 18): PaperLedger {
+    if (!(startingEth > 0)) {
+      throw new Error(`Invalid paper starting balance: ${startingEth}`);
+    }
+    const wei = parseUnits(startingEth.toString(), decimals).toString();
+    return {
+      ethBalance: wei,
+      tokenBalance: '0',
+      startingEth: wei,
+      gasSpent: '0',
+      createdAt: Date.now(),
+    };
+  }
+
+  /**
+   * Get the virtual ETH balance
+   * @static
+   * @param {PaperLedger} ledger - Paper ledger
+   * @param {number} [decimals=18] - Quote asset decimals
+   * @returns {number} ETH (or quote token) balance
+   */
+  static getEthBalance(ledger: PaperLedger, decimals: number = 18): number {
+    return Number(formatUnits(BigInt(ledger.ethBalance), decimals));
+  }
+
+  /**
+   * Check the ledger can pay for a buy plus its quoted gas
+   * @static
+   * @param {PaperLedger} ledger - Paper ledger
+   * @param {bigint} ethAmount - ETH spent on the swap in wei
+   * @param {bigint} gasCost - Quoted gas cost in wei
+   * @returns {boolean} True if the buy is affordable
+   */
+  static canAfford(ledger: PaperLedger, ethAmount: bigint, gasCost: bigint): boolean {
+    return BigInt(ledger.ethBalance) >= ethAmount + gasCost;
+  }
+
+  /**
+   * Book a simulated buy
+   * @static
+   * @param {PaperLedger} ledger - Paper ledger (mutated)
+   * @param {bigint} ethAmount - ETH spent on the swap in wei
+   * @param {bigint} gasCost - Quoted gas cost in wei
+   * @param {bigint} tokensReceived - Quoted token amount in wei
+   * @throws {Error} If the ledger cannot pay for the buy
+   */
+  static applyBuy(ledger: PaperLedger, ethAmount: bigint, gasCost: bigint, tokensReceived: bigint): void {
+    if (!this.canAfford(ledger, ethAmount, gasCost)) {
+      throw new Error(
+        `Insufficient paper balance: need ${formatEther(ethAmount + gasCost)} ETH, have ${formatEther(BigInt(ledger.ethBalance))} ETH`
+      );
+    }
+    ledger.ethBalance = (BigInt(ledger.ethBalance) - ethAmount - gasCost).toString();
+    ledger.tokenBalance = (BigInt(ledger.tokenBalance) + tokensReceived).toString();
+    ledger.gasSpent = (BigInt(ledger.gasSpent) + gasCost).toString();
+  }
+
+  /**
+   * Book a simulated sell
+   * @static
+   * @param {PaperLedger} ledger - Paper ledger (mutated)
+   * @param {bigint} tokenAmount - Tokens sold in wei
+   * @param {bigint} ethReceived - Quoted ETH received in wei
+   * @param {bigint} gasCost - Quoted gas cost in wei
+   * @throws {Error} If the ledger does not hold enough tokens
+   */
+  static applySell(ledger: PaperLedger, tokenAmount: bigint, ethReceived: bigint, gasCost: bigint): void {
+    if (BigInt(ledger.tokenBalance) < tokenAmount) {
+      throw new Error(
+        `Insufficient paper tokens: need ${formatEther(tokenAmount)}, have ${formatEther(BigInt(ledger.tokenBalance))}`
+      );
+    }
+    ledger.tokenBalance = (BigInt(ledger.tokenBalance) - tokenAmount).toString();
+    ledger.ethBalance = (BigInt(ledger.ethBalance) + ethReceived - gasCost).toString();
+    ledger.gasSpent = (BigInt(ledger.gasSpent) + gasCost).toString();
+  }
+
+  /**
+   * Value the ledger at a token price
+   * @static
+   * @param {PaperLedger} ledger - Paper ledger
+   * @param {number} price - Token price in ETH (or quote token)
+   * @param {number} [decimals=18] - Quote asset decimals
+   * @returns {PaperSummary} Balances, equity and P&L
+   */
+  static getSummary(ledger: PaperLedger, price: number, decimals: number = 18): PaperSummary {
+    const ethBalance = this.getEthBalance(ledger, decimals);
+    const tokenBalance = Number(formatEther(BigInt(ledger.tokenBalance)));
+    const startingEth = Number(formatUnits(BigInt(ledger.startingEth), decimals));
+    const equityEth = ethBalance + tokenBalance * price;
+    const pnlEth = equityEth - startingEth;
+
+    return {
+      ethBalance,
+      tokenBalance,
+      equityEth,
+      pnlEth,
+      pnlPercent: startingEth > 0 ? (pnlEth / startingEth) * 100 : 0,
+      gasSpentEth: Number(formatUnits(BigInt(ledger.gasSpent), decimals)),
+    };
+  }
+
+  /**
+   * Build a simulated transaction hash
+   * @static
+   * @param {'buy' | 'sell'} side - Trade side
+   * @returns {string} Hash-like identifier that never collides with a real tx
+   */
+  static txHash(side: 'buy' | 'sell'): string {
+    return `0xPAPER_${side.toUpperCase()}_${Date.now()}`;
+  }
+
+  /**
+   * Switch a paper bot to live trading
+   * @static
+   * @param {BotInstance} instance - Bot to promote (mutated; must be stopped)
+   * @description Simulated holdings do not exist on-chain, so every position is
+   * re-armed as EMPTY (keeping the grid levels), simulated cycle history and
+   * stats are dropped, and the ledger is cleared. The caller saves the bot.
+   */
+  static promoteToLive(instance: BotInstance): void {
+    instance.positions = instance.positions.map(position => ({
+      id: position.id,
+      buyMin: position.buyMin,
+      buyMax: position.buyMax,
+      buyPrice: position.buyPrice,
+      sellPrice: position.tierFills
+        ? GridCalculator.getTakeProfitPrice(position.buyMax, instance.config)
+        : position.sellPrice,
+      stopLossPrice: position.stopLossPrice,
+      status: 'EMPTY',
+    }));
+
+    instance.totalBuys = 0;
+    instance.totalSells = 0;
+    instance.totalProfitEth = '0';
+    instance.totalProfitUsd = 0;
+    delete instance.lastTradeAt;
+
+    instance.volumeBuysInCycle = 0;
+    instance.volumeAccumulatedTokens = '0';
+    instance.volumeCostBasis = '0';
+    instance.volumeCycleCount = 0;
+    delete instance.volumeLastTradeAt;
+
+    // Simulated gas does not count against the live budget
+    delete instance.gasSpentEth;
+    delete instance.gasSpentDay;
+    delete instance.gasSpentTodayEth;
+    delete instance.gasHold;
+
+    instance.paperTrading = false;
+    delete instance.paperLedger;
+    instance.lastUpdated = Date.now();
+  }
+}
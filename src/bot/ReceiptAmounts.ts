@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Read what a mined swap actually moved from its receipt
+ * @module bot/ReceiptAmounts
+ * @version 1.0.0
+ */
+
+import { erc20Abi, parseEventLogs } from 'viem';
+
+/**
+ * Receipt-based trade amounts
+ * @class ReceiptAmounts
+ * @description Quotes are estimates: slippage, fee-on-transfer and rebasing tokens all make
+ * the filled amounts differ. Tokens are read from the receipt's ERC-20 Transfer logs. Native
+ * ETH leaves no log, so ETH moved by the swap is the wallet's balance change across the
+ * block plus the fees it paid - only trusted when the swap was the wallet's only
+ * transaction in that block.
+ */
+export class ReceiptAmounts {
+  /**
+   * Net tokens that reached the wallet in this transaction
+   * @param {any} receipt - viem transaction receipt
+   * @param {string} tokenAddress - Token contract
+   * @param {string} walletAddress - Bot wallet
+   * @returns {bigint | null} Tokens in minus tokens out, or null if no Transfer touched the wallet
+   */
+  static tokensReceived(receipt: any, tokenAddress: string, walletAddress: string): bigint | null {
+    const token = tokenAddress.toLowerCase();
+    const wallet = walletAddress.toLowerCase();
+    const transfers = parseEventLogs({ abi: erc20Abi, eventName: 'Transfer', logs: receipt.logs ?? [] })
+      .filter(log => log.address.toLowerCase() === token);
+
+    let received = BigInt(0);
+    let touched = false;
+    for (const { args } of transfers) {
+      if (args.to.toLowerCase() === wallet) {
+        received += args.value;
+        touched = true;
+      }
+      if (args.from.toLowerCase() === wallet) {
+        received -= args.value;
+        touched = true;
+      }
+    }
+    return touched ? received : null;
+  }
+
+  /**
+   * ETH the transaction paid in fees: execution gas plus the L1 data fee on OP-stack chains
+   * @param {any} receipt - viem transaction receipt
+   * @param {string} fallbackGasPrice - Used when the receipt has no effectiveGasPrice
+   */
+  static feesPaid(receipt: any, fallbackGasPrice: string): bigint {
+    const gasPrice = BigInt(receipt.effectiveGasPrice ?? fallbackGasPrice);
+    return BigInt(receipt.gasUsed) * gasPrice + BigInt(receipt.l1Fee ?? 0);
+  }
+
+  /**
+   * Native ETH the swap moved into the wallet, fees excluded (negative for a buy)
+   * @param {any} publicClient - viem public client
+   * @param {any} receipt - viem transaction receipt
+   * @param {string} walletAddress - Bot wallet
+   * @param {bigint} fees - Fees the transaction paid (see feesPaid)
+   * @returns {Promise<bigint | null>} Net ETH flow, or null if it can't be isolated
+   */
+  static async ethMoved(publicClient: any, receipt: any, walletAddress: string, fees: bigint): Promise<bigint | null> {
+    try {
+      const address = walletAddress as `0x${string}`;
+      const block = BigInt(receipt.blockNumber);
+      const previous = block - BigInt(1);
+      const [nonceBefore, nonceAfter, before, after] = await Promise.all([
+        publicClient.getTransactionCount({ address, blockNumber: previous }),
+        publicClient.getTransactionCount({ address, blockNumber: block }),
+        publicClient.getBalance({ address, blockNumber: previous }),
+        publicClient.getBalance({ address, blockNumber: block }),
+      ]);
+
+      // Another transaction from this wallet in the block would blur the difference
+      if (Number(nonceAfter) - Number(nonceBefore) !== 1) return null;
+
+      return BigInt(after) - BigInt(before) + fees;
+    } catch {
+      // Node without historical state, or a receipt without a block number
+      return null;
+    }
+  }
+
+  /**
+   * How far the actual amount fell short of the quote, in percent (negative = better than quoted)
+   */
+  static shortfallPercent(actual: bigint, quoted: bigint): number {
+    if (quoted <= BigInt(0)) return 0;
+    return Number(((quoted - actual) * BigInt(10000)) / quoted) / 100;
+  }
+}
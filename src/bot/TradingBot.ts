@@ -5,16 +5,30 @@
  */
 
 import chalk from 'chalk';
-import { WalletClient, formatEther, parseEther, createPublicClient, http, erc20Abi } from 'viem';
+import { WalletClient, formatEther, formatGwei, createPublicClient, http, erc20Abi } from 'viem';
 import { base, mainnet } from 'viem/chains';
-import { BotInstance, Position, TradeResult, Chain } from '../types/index.js';
+import { BotInstance, Position, TradeResult, Chain, ExitReason, PendingTransaction, SubmissionRoute } from '../types/index.js';
 import { WalletManager } from '../wallet/WalletManager.js';
+import { NonceManager } from '../wallet/NonceManager.js';
+import { ApprovalRegistry } from '../wallet/ApprovalRegistry.js';
+import { PrivateRelay, PRIVATE_RELAY_CONFIG_KEY } from '../wallet/PrivateRelay.js';
 import { ZeroXApi } from '../api/ZeroXApi.js';
-import { GridCalculator } from '../grid/GridCalculator.js';
+import { SwapProvider } from '../api/SwapProvider.js';
+import { FallbackSwapProvider } from '../api/FallbackSwapProvider.js';
+import { QuoteCurrency } from '../api/QuoteCurrency.js';
+import { RpcStats } from '../api/RpcStats.js';
+import { RpcPool } from '../api/RpcPool.js';
+import { GridCalculator, SellPlan } from '../grid/GridCalculator.js';
+import { MarketCapConverter } from '../grid/MarketCapConverter.js';
 import { JsonStorage } from '../storage/JsonStorage.js';
 import { PriceOracle, PriceData, ValidationResult } from '../oracle/index.js';
 import { PnLTracker } from '../analytics/PnLTracker.js';
 import { NotificationService } from '../notifications/NotificationService.js';
+import { TrailingStopLoss, CircuitBreakerHaltMode, TokenSafety, TokenSafetyReport } from '../risk/index.js';
+import { PaperWallet } from './PaperWallet.js';
+import { FeePolicy, Eip1559Fees } from './FeePolicy.js';
+import { GasBudget, GasRequest } from './GasBudget.js';
+import { ReceiptAmounts } from './ReceiptAmounts.js';
 
 /**
  * Chain configuration mapping
@@ -34,16 +48,22 @@ export class TradingBot {
   private instance: BotInstance;
   private walletManager: WalletManager;
   private zeroXApi: ZeroXApi;
+  // Quotes, prices and profit checks (0x unless the config picks other providers)
+  private swapProvider: SwapProvider;
   private storage: JsonStorage;
-  private rpcUrl: string;
+  private rpc: string | RpcPool;
   private pnLTracker: PnLTracker | null = null;
   
   private walletClient: WalletClient | null = null;
   private publicClient: any = null;
+  // Where signed transactions go (set in init from config.privateSubmission)
+  private submissionRoute: SubmissionRoute = 'public';
   private isRunning: boolean = false;
   private dryRun: boolean = false;
   private consecutiveErrors: number = 0;
   private maxConsecutiveErrors: number = 5;
+  // Failed trades since the bot was built (consecutiveErrors resets on success)
+  private totalFailures: number = 0;
   
   // Price Oracle for reliable price validation
   private priceOracle: PriceOracle | null = null;
@@ -57,17 +77,33 @@ export class TradingBot {
   // Retry tracking
   private lastFailedAttempt: Map<number, number> = new Map();
   private buyingPositionIds: Set<number> = new Set();
+  // Positions whose pending transaction a running buy/sell is already waiting on
+  private awaitingTxPositionIds: Set<number> = new Set();
   private lastSellCheckLog: Map<number, number> = new Map();
   private loggedFallbackGasThisTick: boolean = false;
 
+  // Set by HeartbeatManager while the circuit breaker is tripped
+  private tradingHalt: CircuitBreakerHaltMode | 'none' = 'none';
+
+  // Trailing stop loss (null when disabled in config)
+  private trailingStop: TrailingStopLoss | null = null;
+  private lastTrailingSnapshot: string = '';
+
+  // Honeypot/tax pre-flight: passes once per session; a failed report blocks buys until it expires
+  private tokenSafetyPassed: boolean = false;
+  private tokenSafetyReport: TokenSafetyReport | null = null;
+
+  // Last quote token price in ETH (ERC-20 quoted bots), used to book gas in quote units
+  private quoteRate: number | null = null;
+
   /**
    * Creates a new TradingBot instance
    * @constructor
    * @param {BotInstance} instance - Bot configuration and state
    * @param {WalletManager} walletManager - Wallet management instance
-   * @param {ZeroXApi} zeroXApi - 0x API client
+   * @param {ZeroXApi} zeroXApi - 0x API client (the default swap provider)
    * @param {JsonStorage} storage - Storage instance for persistence
-   * @param {string} rpcUrl - RPC endpoint URL
+   * @param {string | RpcPool} rpc - Fixed RPC endpoint URL, or the pool to take this chain's endpoints from
    * @param {boolean} [enablePriceOracle=true] - Enable price oracle validation
    * @param {PnLTracker} [pnLTracker] - Optional P&L tracker
    * @description Initializes a trading bot with all required dependencies.
@@ -78,15 +114,16 @@ export class TradingBot {
     walletManager: WalletManager,
     zeroXApi: ZeroXApi,
     storage: JsonStorage,
-    rpcUrl: string,
+    rpc: string | RpcPool,
     enablePriceOracle: boolean = true,
     pnLTracker?: PnLTracker
   ) {
     this.instance = instance;
     this.walletManager = walletManager;
     this.zeroXApi = zeroXApi;
+    this.swapProvider = zeroXApi;
     this.storage = storage;
-    this.rpcUrl = rpcUrl;
+    this.rpc = rpc;
     this.chain = instance.chain ?? 'base';
     this.pnLTracker = pnLTracker || null;
     // Price validation DISABLED by default - using 0x quotes only
@@ -111,6 +148,27 @@ export class TradingBot {
     return this.chain;
   }
 
+  /**
+   * Halt buys or all trading (circuit breaker)
+   * @param {CircuitBreakerHaltMode | 'none'} mode - 'none' resumes normal trading
+   */
+  setTradingHalt(mode: CircuitBreakerHaltMode | 'none'): void {
+    if (mode === this.tradingHalt) return;
+    this.tradingHalt = mode;
+    if (mode === 'none') {
+      console.log(`▶️  [${this.instance.name}] Trading resumed`);
+    } else {
+      console.log(`⛔ [${this.instance.name}] Circuit breaker: ${mode === 'all' ? 'all trading' : 'buys'} halted`);
+    }
+  }
+
+  /**
+   * Get current circuit breaker halt
+   */
+  getTradingHalt(): CircuitBreakerHaltMode | 'none' {
+    return this.tradingHalt;
+  }
+
   /**
    * Set the PnL tracker (can be called after construction)
    */
@@ -131,25 +189,45 @@ export class TradingBot {
   async init(): Promise<void> {
     const chainConfig = CHAIN_CONFIG[this.chain];
     
+    // A fixed endpoint, or this chain's pool failing over between its endpoints
+    const reads = typeof this.rpc === 'string' ? this.rpc : this.rpc.transport(this.chain);
+
     // Create public client for reading
     this.publicClient = createPublicClient({
       chain: chainConfig,
-      transport: http(this.rpcUrl),
+      transport: RpcStats.track(typeof reads === 'string' ? http(reads) : reads),
     });
 
+    // On-chain providers need the public client, so the provider chain is built here
+    if (this.instance.config.swapProviders?.length) {
+      this.swapProvider = FallbackSwapProvider.create(
+        this.instance.config.swapProviders, this.zeroXApi, this.publicClient, this.chain
+      );
+    }
+
     // Get wallet client - extends publicActions for waitForTransactionReceipt
+    // Paper bots never sign, so they run without unlocking a wallet
     const chain = this.chain;
-    if (this.instance.useMainWallet) {
-      this.walletClient = this.walletManager.getMainWalletClient(this.rpcUrl, chain) as WalletClient & { waitForTransactionReceipt: any };
+    if (this.instance.paperTrading) {
+      if (!this.instance.paperLedger) {
+        this.instance.paperLedger = PaperWallet.create(
+          PaperWallet.DEFAULT_STARTING_ETH,
+          QuoteCurrency.decimals(this.instance.quoteToken)
+        );
+      }
     } else {
-      this.walletClient = this.walletManager.getBotWalletClient(this.instance.id, this.rpcUrl, chain) as WalletClient & { waitForTransactionReceipt: any };
+      const relayUrl = await this.resolveRelay();
+      this.walletClient = (this.instance.useMainWallet
+        ? this.walletManager.getMainWalletClient(reads, chain, relayUrl)
+        : this.walletManager.getBotWalletClient(this.instance.id, reads, chain, relayUrl)
+      ) as WalletClient & { waitForTransactionReceipt: any };
     }
 
     // Initialize Price Oracle if enabled (skip if disabled for faster startup)
     if (this.oracleValidationEnabled) {
       this.priceOracle = new PriceOracle({
         chain: this.chain,
-        rpcUrl: this.rpcUrl,
+        rpcUrl: typeof this.rpc === 'string' ? this.rpc : undefined,
         minConfidence: this.minPriceConfidence,
         allowFallback: true,
         preferChainlink: true,
@@ -166,8 +244,21 @@ export class TradingBot {
       });
     }
 
-    // Initialize positions if empty
-    if (this.instance.positions.length === 0) {
+    // Restore trailing stop state from storage
+    if (this.instance.config.useTrailingStopLoss) {
+      await this.initTrailingStop();
+    }
+
+    // Refresh circulating supply for market-cap grids
+    if (this.instance.config.useMarketCap && !this.instance.config.volumeMode) {
+      await this.refreshCirculatingSupply();
+    }
+
+    // Initialize positions if empty (volume bots trade without a grid)
+    if (this.instance.positions.length === 0 && !this.instance.config.volumeMode) {
+      if (this.instance.circulatingSupply) {
+        MarketCapConverter.applyToConfig(this.instance.config, this.instance.circulatingSupply);
+      }
       // Use stored price or fetch new one
       let currentPrice = this.instance.currentPrice;
       if (!currentPrice || currentPrice <= 0) {
@@ -185,11 +276,28 @@ export class TradingBot {
     await this.storage.saveBot(this.instance);
   }
 
+  /**
+   * Read circulating supply on-chain (keeps the last known value on failure)
+   */
+  private async refreshCirculatingSupply(): Promise<void> {
+    try {
+      this.instance.circulatingSupply = await MarketCapConverter.fetchCirculatingSupply(
+        this.publicClient!,
+        this.instance.tokenAddress,
+        this.instance.config.excludedSupplyAddresses
+      );
+    } catch (error: any) {
+      console.log(chalk.yellow(`    ⚠ Could not read circulating supply: ${error.message}`));
+    }
+  }
+
   /**
    * Main heartbeat iteration
+   * @returns false if the tick failed (the error is logged here, not thrown)
    */
-  async tick(): Promise<void> {
-    if (!this.isRunning || !this.walletClient || !this.publicClient) return;
+  async tick(): Promise<boolean> {
+    if (!this.isRunning || !this.publicClient) return true;
+    if (!this.walletClient && !this.instance.paperTrading) return true;
 
     this.instance.lastHeartbeat = Date.now();
 
@@ -198,23 +306,126 @@ export class TradingBot {
       const currentPrice = await this.getCurrentPrice();
       this.instance.currentPrice = currentPrice;
 
+      if (this.instance.config.volumeMode) {
+        // A leg still pending from an earlier tick or before a restart is settled first
+        const legPending = !this.instance.paperTrading && !this.dryRun && await this.resolveVolumeLeg();
+        if (!legPending && this.tradingHalt !== 'all') {
+          await this.checkVolumeCycle(currentPrice);
+        }
+        await this.storage.saveBot(this.instance);
+        return true;
+      }
+
+      // Settle buys/sells still pending from an earlier tick or before a restart
+      if (!this.instance.paperTrading && !this.dryRun) {
+        await this.resolvePendingTransactions();
+      }
+
+      // Re-arm sold positions (archives each finished cycle)
+      const recycled = GridCalculator.recycleSoldPositions(
+        this.instance.positions,
+        currentPrice,
+        this.instance.config
+      );
+      if (recycled.length > 0) {
+        console.log(`♻️  [${this.instance.name}] Re-armed ${recycled.length} sold position(s): ${recycled.map(p => p.id).join(', ')}`);
+      }
+
+      // Follow price out of the grid range (opt-in)
+      if (this.instance.config.autoShiftEnabled) {
+        this.checkGridShift(currentPrice);
+      }
+
       // Check for buys
-      if (this.instance.config.buysEnabled) {
+      if (this.instance.config.buysEnabled && this.tradingHalt === 'none') {
         await this.checkBuys(currentPrice);
       }
 
       // Check for sells
-      if (this.instance.config.sellsEnabled) {
+      if (this.instance.config.sellsEnabled && this.tradingHalt !== 'all') {
         await this.checkSells(currentPrice);
       }
 
       // Save state
       await this.storage.saveBot(this.instance);
+      return true;
     } catch (error: any) {
       console.error(`Bot ${this.instance.id} tick error:`, error.message);
+      return false;
     }
   }
 
+  /**
+   * Rebuild EMPTY levels around price once it has stayed outside the grid
+   * @description The exit time lives on the instance so the delay survives
+   * restarts. Each shift is appended to the event log and announced.
+   */
+  private checkGridShift(currentPrice: number): void {
+    const range = GridCalculator.getActiveRange(this.instance.positions, this.instance.config);
+    if (!range) return;
+
+    if (currentPrice >= range.floor && currentPrice <= range.ceiling) {
+      if (this.instance.outOfRangeSince) {
+        console.log(chalk.dim(`   [${this.instance.name}] Price back inside grid range`));
+        delete this.instance.outOfRangeSince;
+      }
+      return;
+    }
+
+    const now = Date.now();
+    if (!this.instance.outOfRangeSince) {
+      this.instance.outOfRangeSince = now;
+      const delaySeconds = this.instance.config.autoShiftDelaySeconds ?? 600;
+      console.log(chalk.yellow(`⚠ [${this.instance.name}] Price left grid range - shifting in ${delaySeconds}s unless it returns`));
+      return;
+    }
+
+    const delayMs = (this.instance.config.autoShiftDelaySeconds ?? 600) * 1000;
+    if (now - this.instance.outOfRangeSince < delayMs) return;
+
+    const shift = GridCalculator.shiftGrid(this.instance.positions, currentPrice, this.instance.config);
+    this.instance.positions = shift.positions;
+    this.instance.gridShiftCount = (this.instance.gridShiftCount ?? 0) + 1;
+    delete this.instance.outOfRangeSince;
+
+    const direction = shift.factor > 1 ? 'up' : 'down';
+    const message = `Grid shifted ${direction}: ${GridCalculator.formatPriceRange(shift.from.floor, shift.from.ceiling)} -> ` +
+      `${GridCalculator.formatPriceRange(shift.to.floor, shift.to.ceiling)} ` +
+      `(${shift.added} levels rebuilt, ${shift.holding} holding kept)`;
+    console.log(`🧭 [${this.instance.name}] ${message}`);
+
+    this.storage.appendEvent({
+      id: `${this.instance.id}-${now}`,
+      botId: this.instance.id,
+      botName: this.instance.name,
+      type: 'grid-shift',
+      timestamp: now,
+      message,
+      data: {
+        price: currentPrice,
+        from: shift.from,
+        to: shift.to,
+        factor: shift.factor,
+        added: shift.added,
+        removed: shift.removed,
+        holding: shift.holding,
+      },
+    }).catch(() => {
+      // Ignore event log errors
+    });
+
+    const notificationService = NotificationService.getInstance();
+    notificationService.notifyGridShift(
+      this.instance,
+      shift.from,
+      shift.to,
+      shift.added,
+      shift.holding
+    ).catch(() => {
+      // Ignore notification errors
+    });
+  }
+
   /**
    * Check and execute buy opportunities
    */
@@ -233,6 +444,8 @@ export class TradingBot {
 
     if (!position) return;
 
+    if (!(await this.checkTokenSafety())) return;
+
     // Check retry delay for this position
     const retryDelaySeconds = this.instance.config.retryDelaySeconds ?? 30;
     const lastFailed = this.lastFailedAttempt.get(position.id) || 0;
@@ -270,7 +483,7 @@ export class TradingBot {
       console.log(`\n✓ Price validated - Confidence: ${(validation.confidence * 100).toFixed(1)}%`);
     }
 
-    console.log(`\n🎯 Buy opportunity found: Position ${position.id} at ${GridCalculator.formatPrice(position.buyPrice)} ETH`);
+    console.log(`\n🎯 Buy opportunity found: Position ${position.id} at ${GridCalculator.formatPrice(position.buyPrice)} ${this.quoteSymbol()}`);
     console.log(chalk.dim(`   Bot: ${this.instance.name} (${this.instance.tokenSymbol})`));
     console.log(chalk.dim(`   Wallet: ${this.instance.walletAddress.slice(0, 12)}...`));
 
@@ -280,11 +493,12 @@ export class TradingBot {
     if (this.instance.config.useFixedBuyAmount && this.instance.config.buyAmount > 0) {
       // Use fixed buy amount
       buyAmountEth = this.instance.config.buyAmount;
-      console.log(`   Using fixed buy amount: ${buyAmountEth} ETH`);
+      console.log(`   Using fixed buy amount: ${buyAmountEth} ${this.quoteSymbol()}`);
     } else {
       // Auto-calculate based on available balance
-      const ethBalance = await this.getEthBalance();
-      const minReserve = this.instance.config.gasReserveEth ?? 0.0005; // Configurable gas reserve
+      const ethBalance = await this.getQuoteBalance();
+      // Gas reserve only comes out of ETH - an ERC-20 quote balance is all spendable
+      const minReserve = this.instance.quoteToken ? 0 : (this.instance.config.gasReserveEth ?? 0.0005);
       const availableEth = Math.max(0, ethBalance - minReserve);
       
       // Distribute equally across remaining positions
@@ -293,12 +507,12 @@ export class TradingBot {
         ? availableEth / Math.max(1, remainingPositions - activeCount)
         : availableEth;
       
-      console.log(`   Auto-calculated buy amount: ${buyAmountEth.toFixed(6)} ETH`);
+      console.log(`   Auto-calculated buy amount: ${buyAmountEth.toFixed(6)} ${this.quoteSymbol()}`);
     }
 
     // Check minimum ETH
     if (buyAmountEth < 0.0001) {
-      console.log(`⚠ Insufficient ETH for buy: ${buyAmountEth.toFixed(6)} ETH available`);
+      console.log(`⚠ Insufficient ${this.quoteSymbol()} for buy: ${buyAmountEth.toFixed(6)} ${this.quoteSymbol()} available`);
       return;
     }
 
@@ -312,7 +526,7 @@ export class TradingBot {
       console.log(`✅ Buy executed: Position ${position.id}`);
       console.log(`   TX: ${result.txHash}`);
       console.log(`   Bought: ${formatEther(BigInt(position.tokensReceived || '0'))} tokens`);
-      console.log(`   Cost: ${formatEther(BigInt(position.ethCost || '0'))} ETH`);
+      console.log(`   Cost: ${QuoteCurrency.label(BigInt(position.ethCost || '0'), this.instance.quoteToken)}`);
       this.instance.totalBuys++;
       
       // Send notification (non-blocking)
@@ -320,13 +534,14 @@ export class TradingBot {
       notificationService.notifyTradeExecuted(
         this.instance,
         formatEther(BigInt(position.tokensReceived || '0')),
-        formatEther(BigInt(position.ethCost || '0')),
+        QuoteCurrency.format(BigInt(position.ethCost || '0'), this.instance.quoteToken),
         position.id
       ).catch(() => {
         // Ignore notification errors
       });
     } else {
-      console.error(`❌ Buy failed: ${result.error}`);
+      // Gas holds are logged when they start; the retry delay spaces out the re-quotes
+      if (!result.deferred) console.error(`❌ Buy failed: ${result.error}`);
       // Record failure for retry delay
       this.lastFailedAttempt.set(position.id, Date.now());
     }
@@ -337,43 +552,251 @@ export class TradingBot {
     });
   }
 
+  /**
+   * Honeypot and transfer-tax pre-flight before buying
+   * @returns {Promise<boolean>} Whether buys may go ahead
+   * @description Simulates a round trip through the bot's swap provider from its wallet
+   * (cached per token). A honeypot or a tax above maxRoundTripTaxPercent keeps the grid
+   * unarmed - sells of existing positions carry on.
+   */
+  private async checkTokenSafety(): Promise<boolean> {
+    if (this.instance.config.tokenSafetyCheck === false || this.tokenSafetyPassed) return true;
+
+    // Already refused - don't simulate again until the result expires
+    const refused = this.tokenSafetyReport;
+    if (refused && Date.now() - refused.checkedAt < TokenSafety.CACHE_TTL_MS) return false;
+
+    let report: TokenSafetyReport;
+    try {
+      report = await new TokenSafety(this.storage, this.publicClient, this.swapProvider, this.chain)
+        .check(this.instance.tokenAddress, this.instance.walletAddress);
+    } catch (error: any) {
+      // Advisory when it can't run, same as an unknown result
+      console.log(chalk.yellow(`   ⚠ Token check failed: ${error.message} - buying without it`));
+      this.tokenSafetyPassed = true;
+      return true;
+    }
+    const verdict = TokenSafety.evaluate(report, this.instance.config.maxRoundTripTaxPercent);
+
+    if (verdict.allowed) {
+      this.tokenSafetyPassed = true;
+      this.tokenSafetyReport = null;
+      console.log(`   🍯 Token check: ${TokenSafety.format(report)}`);
+      return true;
+    }
+
+    this.tokenSafetyReport = report;
+    console.log(chalk.red(`\n🍯 [${this.instance.name}] Grid not armed: ${verdict.reason}`));
+    NotificationService.getInstance().notifyWarning(
+      this.instance,
+      `Grid not armed for ${this.instance.tokenSymbol}: ${verdict.reason}`,
+      'Buys stay off; existing positions can still sell'
+    ).catch(() => {
+      // Ignore notification errors
+    });
+    return false;
+  }
+
+  /**
+   * Create the trailing stop tracker and restore saved peak/stop state
+   */
+  private async initTrailingStop(): Promise<void> {
+    this.trailingStop = new TrailingStopLoss({
+      trailingPercent: this.instance.config.trailingStopPercent ?? 5,
+      activationPercent: this.instance.config.trailingStopActivation ?? 3,
+    });
+
+    const saved = await this.storage.getBotTrailingStopState(this.instance.id);
+    if (saved) {
+      this.trailingStop.deserialize(saved);
+
+      // Drop state for positions that are no longer holding
+      for (const positionId of this.trailingStop.getAllStates().keys()) {
+        const position = this.instance.positions.find(p => p.id === positionId);
+        if (!position || position.status !== 'HOLDING') {
+          this.trailingStop.removePosition(positionId);
+        }
+      }
+
+      console.log(chalk.dim(`    Restored trailing stops for ${this.trailingStop.getAllStates().size} position(s)`));
+    }
+
+    this.lastTrailingSnapshot = JSON.stringify(this.trailingStop.serialize());
+  }
+
+  /**
+   * Update trailing stops for all HOLDING positions
+   * @returns Positions whose trailing stop triggered this tick
+   */
+  private updateTrailingStops(currentPrice: number): Position[] {
+    if (!this.trailingStop) return [];
+
+    const triggered: Position[] = [];
+    for (const position of this.instance.positions) {
+      if (position.status !== 'HOLDING' || !position.tokensReceived || position.pendingTx) continue;
+
+      const wasActivated = this.trailingStop.getState(position.id)?.activated ?? false;
+      const result = this.trailingStop.update(position, currentPrice);
+
+      if (result.activated && !wasActivated) {
+        console.log(`📈 Trailing stop activated: Position ${position.id} at +${result.profitPercent.toFixed(2)}% (stop ${GridCalculator.formatPrice(result.newStopPrice)} ${this.quoteSymbol()})`);
+      }
+      if (result.triggered) {
+        triggered.push(position);
+      }
+    }
+
+    this.persistTrailingStops();
+    return triggered;
+  }
+
+  /**
+   * Save trailing stop state if it changed since the last save (non-blocking)
+   */
+  private persistTrailingStops(): void {
+    if (!this.trailingStop) return;
+
+    const state = this.trailingStop.serialize();
+    const snapshot = JSON.stringify(state);
+    if (snapshot === this.lastTrailingSnapshot) return;
+
+    this.lastTrailingSnapshot = snapshot;
+    this.storage.saveBotTrailingStopState(this.instance.id, state).catch(() => {
+      // Ignore save errors - will retry on next change
+    });
+  }
+
+  /**
+   * Book a successful sell: totals, log and notification
+   */
+  private recordSellSuccess(position: Position, result: TradeResult): void {
+    const profitEth = result.profitEth ?? position.profitEth ?? '0';
+    this.instance.totalSells++;
+    this.instance.totalProfitEth = (BigInt(this.instance.totalProfitEth) + BigInt(profitEth)).toString();
+
+    // Partial scale-out fill: the position keeps holding the rest
+    if (position.status === 'HOLDING') {
+      const fill = position.tierFills![position.tierFills!.length - 1];
+      console.log(`✅ Take-profit tier ${fill.tier} filled: Position ${position.id}`);
+      console.log(`   TX: ${result.txHash}`);
+      console.log(`   Profit: ${QuoteCurrency.label(BigInt(profitEth), this.instance.quoteToken)} (realized ${QuoteCurrency.label(BigInt(position.realizedProfitEth || '0'), this.instance.quoteToken)})`);
+      console.log(`   Remaining: ${formatEther(BigInt(position.tokensRemaining || '0'))} tokens, next tier @ ${GridCalculator.formatPrice(position.sellPrice)} ${this.quoteSymbol()}`);
+
+      const fillCost = BigInt(fill.costEth);
+      NotificationService.getInstance().notifyProfit(
+        this.instance,
+        fillCost > 0 ? Number((BigInt(fill.profitEth) * BigInt(10000)) / fillCost) / 100 : 0,
+        fill.profitEth,
+        fill.ethReceived,
+        position.id,
+        fill.exitReason
+      ).catch(() => {
+        // Ignore notification errors
+      });
+      return;
+    }
+
+    const label = position.exitReason && position.exitReason !== 'take-profit'
+      ? ` (${position.exitReason})`
+      : '';
+    console.log(`✅ Sell executed${label}: Position ${position.id}`);
+    console.log(`   TX: ${result.txHash}`);
+    console.log(`   Profit: ${position.profitPercent?.toFixed(2)}% (${QuoteCurrency.label(BigInt(position.profitEth || '0'), this.instance.quoteToken)})`);
+
+    // Send notification (non-blocking)
+    const notificationService = NotificationService.getInstance();
+    notificationService.notifyProfit(
+      this.instance,
+      position.profitPercent || 0,
+      position.profitEth || '0',
+      position.ethReceived,
+      position.id,
+      position.exitReason
+    ).catch(() => {
+      // Ignore notification errors
+    });
+  }
+
   /**
    * Check and execute sell opportunities
    */
   private async checkSells(currentPrice: number): Promise<void> {
+    // Reset the flag at the start of each tick
+    this.loggedFallbackGasThisTick = false;
+
+    // Trailing stop exits sell at market - no profitability check
+    const retryDelaySeconds = this.instance.config.retryDelaySeconds ?? 30;
+    for (const position of this.updateTrailingStops(currentPrice)) {
+      // A failed exit waits out the retry delay like a failed buy, rather than re-sending every tick
+      const lastFailed = this.lastFailedAttempt.get(position.id) || 0;
+      if ((Date.now() - lastFailed) / 1000 < retryDelaySeconds) continue;
+
+      const plan = GridCalculator.getSellPlan(position, this.instance.config, 'trailing-stop');
+      const sellAmount = plan.tokenAmount;
+
+      const state = this.trailingStop?.getState(position.id);
+      console.log(`\n📉 Trailing stop triggered: Position ${position.id} at ${GridCalculator.formatPrice(currentPrice)} ${this.quoteSymbol()}`);
+      console.log(chalk.dim(`   Peak: ${GridCalculator.formatPrice(state?.highestPrice ?? 0)} ${this.quoteSymbol()}, stop: ${GridCalculator.formatPrice(state?.currentStopPrice ?? 0)} ${this.quoteSymbol()}`));
+
+      const quote = await this.swapProvider.getSellQuote(
+        this.instance.tokenAddress,
+        sellAmount,
+        this.instance.walletAddress,
+        this.instance.config.slippageBps ?? 100,
+        this.instance.quoteToken
+      );
+      if (!quote) {
+        console.error(`❌ Trailing stop sell failed: No quote available from ${this.swapProvider.name}`);
+        this.lastFailedAttempt.set(position.id, Date.now());
+        continue;
+      }
+
+      const result = await this.executeSell(position, sellAmount, quote, 'trailing-stop', plan);
+      if (result.success) {
+        this.lastFailedAttempt.delete(position.id);
+        this.recordSellSuccess(position, result);
+      } else {
+        if (!result.deferred) console.error(`❌ Trailing stop sell failed: ${result.error}`);
+        this.lastFailedAttempt.set(position.id, Date.now());
+      }
+
+      this.storage.saveBot(this.instance).catch(() => {
+        // Ignore save errors - will retry on next tick
+      });
+    }
+
     const positions = GridCalculator.findSellPositions(
       this.instance.positions,
       currentPrice
     );
 
-    // Reset the flag at the start of each tick
-    this.loggedFallbackGasThisTick = false;
-
     for (const position of positions) {
       if (!position.tokensReceived || position.status !== 'HOLDING') continue;
 
-      // Calculate moon bag amount
-      let sellAmount = position.tokensReceived;
-      let moonBagAmount: bigint | undefined;
-      if (this.instance.config.moonBagEnabled) {
-        moonBagAmount = (BigInt(sellAmount) * BigInt(this.instance.config.moonBagPercent)) / BigInt(100);
-        sellAmount = (BigInt(sellAmount) - moonBagAmount).toString();
-      }
+      // Moon bag and take-profit tier decide how much of the position this sell covers
+      const exitReason: ExitReason = currentPrice >= position.sellPrice ? 'take-profit' : 'stop-loss';
+      const plan = GridCalculator.getSellPlan(position, this.instance.config, exitReason);
+      const sellAmount = plan.tokenAmount;
+      const moonBagAmount = plan.final && BigInt(plan.moonBag) > 0 ? BigInt(plan.moonBag) : undefined;
+      const tierLabel = plan.tier !== undefined
+        ? ` (tier ${plan.tier}/${this.instance.config.takeProfitTiers?.length})`
+        : '';
 
       // Check profitability with configurable strict minimum
       const fallbackGasEth = this.instance.config.fallbackGasEstimate ?? 0.00001;
       const strictMode = this.instance.config.strictProfitMode ?? true;
       const strictPercent = this.instance.config.strictProfitPercent ?? 2;
-      const { profitable, quote, actualProfit, strictCheck, usedFallbackGas } = await this.zeroXApi.isProfitable(
+      const { profitable, quote, actualProfit, strictCheck, usedFallbackGas } = await this.swapProvider.isProfitable(
         this.instance.tokenAddress,
         sellAmount,
-        position.ethCost || '0',
+        plan.costEth,
         this.instance.config.minProfitPercent,
         this.instance.walletAddress,
         strictMode,
         fallbackGasEth,
         strictPercent,
-        !this.loggedFallbackGasThisTick // Only log once per tick
+        !this.loggedFallbackGasThisTick, // Only log once per tick
+        this.instance.quoteToken
       );
 
       // Track if we used fallback gas this tick
@@ -389,7 +812,7 @@ export class TradingBot {
           const reason = strictCheck === false 
             ? `fails strict ${strictPercent}% minimum`
             : `not profitable yet`;
-          console.log(`\n💰 Sell check: Position ${position.id} at ${GridCalculator.formatPrice(currentPrice)} ETH`);
+          console.log(`\n💰 Sell check: Position ${position.id}${tierLabel} at ${GridCalculator.formatPrice(currentPrice)} ${this.quoteSymbol()}`);
           if (moonBagAmount) {
             console.log(`   Moon bag: Keeping ${formatEther(moonBagAmount)} tokens`);
           }
@@ -399,7 +822,7 @@ export class TradingBot {
         continue;
       }
 
-      console.log(`\n💰 Sell opportunity: Position ${position.id} at ${GridCalculator.formatPrice(currentPrice)} ETH`);
+      console.log(`\n💰 Sell opportunity: Position ${position.id}${tierLabel} at ${GridCalculator.formatPrice(currentPrice)} ${this.quoteSymbol()}`);
       if (moonBagAmount) {
         console.log(`   Moon bag: Keeping ${formatEther(moonBagAmount)} tokens`);
       }
@@ -407,27 +830,11 @@ export class TradingBot {
       console.log(`   ✅ Meets strict 2% profit requirement - Executing sell...`);
 
       // Execute sell
-      const result = await this.executeSell(position, sellAmount, quote);
+      const result = await this.executeSell(position, sellAmount, quote, exitReason, plan);
 
       if (result.success) {
-        console.log(`✅ Sell executed: Position ${position.id}`);
-        console.log(`   TX: ${result.txHash}`);
-        console.log(`   Profit: ${position.profitPercent?.toFixed(2)}% (${formatEther(BigInt(position.profitEth || '0'))} ETH)`);
-        this.instance.totalSells++;
-        this.instance.totalProfitEth = (BigInt(this.instance.totalProfitEth) + BigInt(position.profitEth || '0')).toString();
-        
-        // Send notification (non-blocking)
-        const notificationService = NotificationService.getInstance();
-        notificationService.notifyProfit(
-          this.instance,
-          position.profitPercent || 0,
-          position.profitEth || '0',
-          position.ethReceived,
-          position.id
-        ).catch(() => {
-          // Ignore notification errors
-        });
-      } else {
+        this.recordSellSuccess(position, result);
+      } else if (!result.deferred) {
         console.error(`❌ Sell failed: ${result.error}`);
       }
 
@@ -438,6 +845,172 @@ export class TradingBot {
     }
   }
 
+  /**
+   * Advance the volume cycle: N spaced buys, then one distribution sell
+   * @description Each call executes at most one leg, and only once
+   * volumeBuyIntervalSeconds have passed since the previous leg. Cycle state
+   * lives on the instance so it survives restarts.
+   */
+  private async checkVolumeCycle(currentPrice: number): Promise<void> {
+    const config = this.instance.config;
+    const buysPerCycle = config.volumeBuysPerCycle ?? 3;
+    const intervalMs = (config.volumeBuyIntervalSeconds ?? 60) * 1000;
+    const buysInCycle = this.instance.volumeBuysInCycle ?? 0;
+    const cycle = this.instance.volumeCycleCount ?? 0;
+
+    if (Date.now() - (this.instance.volumeLastTradeAt ?? 0) < intervalMs) return;
+
+    // Check retry delay after a failed leg
+    const retryDelaySeconds = config.retryDelaySeconds ?? 30;
+    const lastFailed = this.lastFailedAttempt.get(cycle) || 0;
+    if ((Date.now() - lastFailed) / 1000 < retryDelaySeconds) return;
+
+    if (buysInCycle < buysPerCycle) {
+      if (!config.buysEnabled || this.tradingHalt !== 'none') return;
+      if (!(await this.checkTokenSafety())) return;
+
+      const buyAmountEth = config.volumeBuyAmount ?? 0.001;
+      const leg = this.createVolumePosition(currentPrice);
+
+      console.log(`
+📈 Volume buy ${buysInCycle + 1}/${buysPerCycle} (cycle ${cycle + 1}): ${buyAmountEth} ${this.quoteSymbol()}`);
+      console.log(chalk.dim(`   Bot: ${this.instance.name} (${this.instance.tokenSymbol})`));
+
+      // Kept on the instance while its transaction is pending, so it's never sent twice
+      this.instance.volumePendingLeg = leg;
+      const result = await this.executeBuy(leg, buyAmountEth.toString());
+      if (!leg.pendingTx) delete this.instance.volumePendingLeg;
+
+      if (result.success) {
+        this.completeVolumeBuy(leg, result.txHash!);
+      } else {
+        if (!result.deferred) console.error(`❌ Volume buy failed: ${result.error}`);
+        this.lastFailedAttempt.set(cycle, Date.now());
+      }
+      return;
+    }
+
+    if (!config.sellsEnabled) return;
+
+    const accumulated = BigInt(this.instance.volumeAccumulatedTokens || '0');
+    const leg = this.createVolumePosition(currentPrice);
+    leg.status = 'HOLDING';
+    leg.tokensReceived = accumulated.toString();
+    leg.ethCost = this.instance.volumeCostBasis || '0';
+
+    console.log(`
+📉 Volume distribution sell (cycle ${cycle + 1}): ${formatEther(accumulated)} tokens`);
+
+    if (accumulated > 0n) {
+      const quote = await this.swapProvider.getSellQuote(
+        this.instance.tokenAddress,
+        accumulated.toString(),
+        this.instance.walletAddress,
+        config.slippageBps ?? 100,
+        this.instance.quoteToken
+      );
+
+      if (!quote) {
+        console.error(`❌ Volume sell failed: No quote available from ${this.swapProvider.name}`);
+        this.lastFailedAttempt.set(cycle, Date.now());
+        return;
+      }
+
+      this.instance.volumePendingLeg = leg;
+      const result = await this.executeSell(leg, accumulated.toString(), quote);
+      if (!leg.pendingTx) delete this.instance.volumePendingLeg;
+
+      if (!result.success) {
+        if (!result.deferred) console.error(`❌ Volume sell failed: ${result.error}`);
+        this.lastFailedAttempt.set(cycle, Date.now());
+        return;
+      }
+
+      this.completeVolumeSell(leg, result.txHash!);
+      return;
+    }
+
+    this.startNextVolumeCycle();
+  }
+
+  /**
+   * Book a filled volume buy into the current cycle
+   */
+  private completeVolumeBuy(leg: Position, txHash: string): void {
+    this.instance.volumeBuysInCycle = (this.instance.volumeBuysInCycle ?? 0) + 1;
+    this.instance.volumeAccumulatedTokens = (
+      BigInt(this.instance.volumeAccumulatedTokens || '0') + BigInt(leg.tokensReceived || '0')
+    ).toString();
+    this.instance.volumeCostBasis = (
+      BigInt(this.instance.volumeCostBasis || '0') + BigInt(leg.ethCost || '0')
+    ).toString();
+    this.instance.volumeLastTradeAt = Date.now();
+    this.instance.totalBuys++;
+
+    console.log(`✅ Volume buy executed: ${txHash}`);
+    console.log(`   Accumulated: ${formatEther(BigInt(this.instance.volumeAccumulatedTokens))} tokens`);
+
+    const notificationService = NotificationService.getInstance();
+    notificationService.notifyTradeExecuted(
+      this.instance,
+      formatEther(BigInt(leg.tokensReceived || '0')),
+      QuoteCurrency.format(BigInt(leg.ethCost || '0'), this.instance.quoteToken),
+      leg.id
+    ).catch(() => {
+      // Ignore notification errors
+    });
+  }
+
+  /**
+   * Book a filled distribution sell and start the next cycle
+   */
+  private completeVolumeSell(leg: Position, txHash: string): void {
+    console.log(`✅ Volume sell executed: ${txHash}`);
+    this.instance.totalSells++;
+    this.instance.totalProfitEth = (BigInt(this.instance.totalProfitEth) + BigInt(leg.profitEth || '0')).toString();
+
+    const notificationService = NotificationService.getInstance();
+    notificationService.notifyProfit(
+      this.instance,
+      leg.profitPercent || 0,
+      leg.profitEth || '0',
+      leg.ethReceived,
+      leg.id
+    ).catch(() => {
+      // Ignore notification errors
+    });
+
+    this.startNextVolumeCycle();
+  }
+
+  private startNextVolumeCycle(): void {
+    const cycle = this.instance.volumeCycleCount ?? 0;
+    this.instance.volumeCycleCount = cycle + 1;
+    this.instance.volumeBuysInCycle = 0;
+    this.instance.volumeAccumulatedTokens = '0';
+    this.instance.volumeCostBasis = '0';
+    this.instance.volumeLastTradeAt = Date.now();
+    console.log(`🔁 Volume cycle ${cycle + 1} complete (${this.instance.volumeCycleCount} total)`);
+  }
+
+  /**
+   * Build a transient position for a volume leg
+   * @description Volume bots have no grid, so each leg runs through executeBuy/executeSell
+   * on a transient position whose id is the cycle number (used in PnL records). It is kept
+   * as volumePendingLeg while its transaction is pending.
+   */
+  private createVolumePosition(currentPrice: number): Position {
+    return {
+      id: this.instance.volumeCycleCount ?? 0,
+      buyMin: currentPrice,
+      buyMax: currentPrice,
+      buyPrice: currentPrice,
+      sellPrice: 0,
+      stopLossPrice: 0,
+      status: 'EMPTY',
+    };
+  }
+
   /**
    * Validate current price using oracle before trading
    */
@@ -467,8 +1040,8 @@ export class TradingBot {
    */
   private async getCurrentPrice(): Promise<number> {
     try {
-      // Try to get price from oracle first if available
-      if (this.priceOracle) {
+      // Try to get price from oracle first if available (oracle prices are in ETH)
+      if (this.priceOracle && !this.instance.quoteToken) {
         const oraclePrice = await this.priceOracle.getPrice(this.instance.tokenAddress);
         if (oraclePrice && oraclePrice.confidence >= this.minPriceConfidence) {
           this.lastOraclePrice = oraclePrice;
@@ -478,9 +1051,10 @@ export class TradingBot {
       }
 
       // Fallback to 0x API
-      const price = await this.zeroXApi.getTokenPrice(
+      const price = await this.swapProvider.getTokenPrice(
         this.instance.tokenAddress,
-        this.instance.walletAddress
+        this.instance.walletAddress,
+        this.instance.quoteToken
       );
       
       if (price && price > 0) {
@@ -517,13 +1091,160 @@ export class TradingBot {
   }
 
   /**
-   * Get ETH balance of bot wallet
+   * Get the bot wallet's balance of its quote asset (virtual balance in paper mode)
    */
-  private async getEthBalance(): Promise<number> {
-    const balance = await this.publicClient.getBalance({
-      address: this.instance.walletAddress as `0x${string}`,
+  private async getQuoteBalance(): Promise<number> {
+    const quoteToken = this.instance.quoteToken;
+    if (this.instance.paperTrading && this.instance.paperLedger) {
+      return PaperWallet.getEthBalance(this.instance.paperLedger, QuoteCurrency.decimals(quoteToken));
+    }
+    const balance = quoteToken
+      ? await this.readQuoteTokenBalance()
+      : await this.publicClient.getBalance({ address: this.instance.walletAddress as `0x${string}` });
+    return Number(QuoteCurrency.format(BigInt(balance), quoteToken));
+  }
+
+  /**
+   * Read the wallet's ERC-20 quote token balance in smallest units
+   */
+  private async readQuoteTokenBalance(): Promise<bigint> {
+    const balance = await this.publicClient.readContract({
+      address: this.instance.quoteToken!.address as `0x${string}`,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [this.instance.walletAddress as `0x${string}`],
+    });
+    return BigInt(balance);
+  }
+
+  /**
+   * Display symbol of the bot's quote asset
+   */
+  private quoteSymbol(): string {
+    return QuoteCurrency.symbol(this.instance.quoteToken);
+  }
+
+  /**
+   * Convert a gas cost into the bot's quote units (unchanged for ETH-quoted bots)
+   * @description Gas is always paid in ETH, but an ERC-20 quoted bot books cost basis and
+   * profit in the quote token, so fees are converted at the quote token's current price -
+   * or the last one read if the provider has no price right now.
+   */
+  private async gasInQuote(gasWei: bigint): Promise<bigint> {
+    const quoteToken = this.instance.quoteToken;
+    if (!quoteToken) return gasWei;
+
+    const rate = await this.swapProvider
+      .getTokenPrice(quoteToken.address, this.instance.walletAddress)
+      .catch(() => null);
+    if (rate && rate > 0) this.quoteRate = rate;
+
+    if (!this.quoteRate) {
+      console.log(chalk.yellow(`   ⚠ No ${quoteToken.symbol} price - gas not booked against profit`));
+      return BigInt(0);
+    }
+    return QuoteCurrency.gasInQuote(gasWei, this.quoteRate, quoteToken);
+  }
+
+  /**
+   * Apply the bot's gas rules to a trade about to be sent
+   * @param {GasRequest} request - Side, exit reason, quoted gas and (buys) amount
+   * @returns {Promise<string | null>} Why the trade is held back, or null to go ahead
+   * @description Keeps instance.gasHold up to date for the monitor and logs when a hold
+   * starts, changes rule or lifts - not on every re-check.
+   */
+  private async checkGas(request: Omit<GasRequest, 'gasInQuote' | 'baseFees'>): Promise<string | null> {
+    const config = this.instance.config;
+    const decision = GasBudget.evaluate(this.instance, {
+      ...request,
+      gasInQuote: request.tradeValue !== undefined && config.maxGasPercentOfTrade
+        ? await this.gasInQuote(request.gasWei)
+        : undefined,
+      baseFees: config.gasDeferMultiplier ? await FeePolicy.baseFeeTrend(this.publicClient) : null,
+    });
+
+    const current = this.instance.gasHold;
+    if (!decision.hold) {
+      if (current) {
+        console.log(chalk.green(`   ⛽ Gas hold lifted - trading resumes`));
+        delete this.instance.gasHold;
+      }
+      return null;
+    }
+
+    if (current?.kind !== decision.hold || current.side !== request.side) {
+      console.log(chalk.yellow(`   ⛽ ${request.side === 'buy' ? 'Buy' : 'Sell'} held back: ${decision.reason}`));
+    }
+    this.instance.gasHold = {
+      kind: decision.hold,
+      side: request.side,
+      reason: decision.reason!,
+      since: current?.kind === decision.hold ? current.since : Date.now(),
+    };
+    return decision.reason;
+  }
+
+  /**
+   * Count the fees a mined transaction paid against the bot's gas budget
+   */
+  private trackGas(receipt: any, fallbackGasPrice: string): void {
+    // Receipt without gas data - nothing to count
+    if (receipt?.gasUsed === undefined) return;
+    GasBudget.record(this.instance, ReceiptAmounts.feesPaid(receipt, fallbackGasPrice));
+  }
+
+  /**
+   * Approve a spender for a token when the current allowance is too low
+   * @param {string} token - Token to approve
+   * @param {string} symbol - Token symbol, for the log and the approvals registry
+   * @param {string} spender - Swap contract (allowance target)
+   * @param {bigint} amount - Amount the swap needs
+   * @param {string} gasPrice - Quoted gas price (fee estimate fallback)
+   * @description Approves the amount (or the capped multiple of it, per approvalMode) rather
+   * than an unlimited allowance, and records the approval for the approvals screen.
+   */
+  private async ensureAllowance(token: string, symbol: string, spender: string, amount: bigint, gasPrice: string): Promise<void> {
+    const currentAllowance = await this.publicClient.readContract({
+      address: token as `0x${string}`,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [this.instance.walletAddress as `0x${string}`, spender as `0x${string}`],
+    });
+
+    if (BigInt(currentAllowance) >= amount) {
+      console.log(`   ✓ Sufficient allowance already granted`);
+      return;
+    }
+
+    const approveAmount = ApprovalRegistry.approvalAmount(amount, this.instance.config);
+    console.log(`   Approving ${spender.slice(0, 20)}... to spend ${symbol} (${this.instance.config.approvalMode ?? 'exact'} approval)...`);
+
+    const approveFees = await FeePolicy.estimate(this.publicClient, this.instance.config, gasPrice);
+    const approveTx = await this.sendWithNonce(nonce => (this.walletClient as any).writeContract({
+      address: token as `0x${string}`,
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [spender as `0x${string}`, approveAmount],
+      nonce,
+      ...approveFees,
+    }));
+
+    // Not replaced when stuck: the swap fails and retries, queued behind it on the nonce
+    const approveReceipt = await this.publicClient.waitForTransactionReceipt({ hash: approveTx, timeout: this.txTimeoutMs() * 3 });
+    this.trackGas(approveReceipt, approveFees.maxFeePerGas.toString());
+    console.log(`   ✓ Approval confirmed`);
+
+    new ApprovalRegistry(this.storage, this.chain).record({
+      walletAddress: this.instance.walletAddress,
+      tokenAddress: token,
+      tokenSymbol: symbol,
+      spender,
+      amount: approveAmount.toString(),
+      botId: this.instance.id,
+      txHash: approveTx,
+    }).catch(() => {
+      // Ignore registry write errors - the approval itself went through
     });
-    return Number(formatEther(balance));
   }
 
   /**
@@ -539,20 +1260,22 @@ export class TradingBot {
    */
   private async executeBuy(position: Position, ethAmount: string): Promise<TradeResult> {
     try {
-      const amountWei = parseEther(ethAmount);
+      const quoteToken = this.instance.quoteToken;
+      const amountWei = QuoteCurrency.parse(ethAmount, quoteToken);
       
       // Get slippage from config (default 1% = 100 bps)
       const slippageBps = this.instance.config.slippageBps ?? 100;
-      console.log(`   Getting 0x quote for ${ethAmount} ETH (${slippageBps/100}% slippage)...`);
-      const quote = await this.zeroXApi.getBuyQuote(
+      console.log(`   Getting ${this.swapProvider.name} quote for ${ethAmount} ${this.quoteSymbol()} (${slippageBps/100}% slippage)...`);
+      const quote = await this.swapProvider.getBuyQuote(
         this.instance.tokenAddress,
         amountWei.toString(),
         this.instance.walletAddress,
-        slippageBps
+        slippageBps,
+        quoteToken
       );
 
       if (!quote) {
-        return { success: false, error: 'No quote available from 0x' };
+        return { success: false, error: `No quote available from ${this.swapProvider.name}` };
       }
 
       // Check if quote has transaction data (required for execution)
@@ -570,27 +1293,54 @@ export class TradingBot {
       // Debug: log quote info
       console.log(`   Expected tokens: ${formatEther(BigInt(quote.buyAmount))}`);
       console.log(chalk.dim(`   TX to: ${quote.to?.slice(0, 20)}..., gas: ${quote.gas}`));
+
+      const held = await this.checkGas({
+        side: 'buy',
+        gasWei: BigInt(quote.gas) * BigInt(quote.gasPrice),
+        tradeValue: amountWei,
+      });
+      if (held) {
+        return { success: false, error: held, deferred: true };
+      }
+
+      // Paper mode: fill against the virtual ledger at the quoted price and gas
+      if (this.instance.paperTrading) {
+        return this.executePaperBuy(position, amountWei, quote);
+      }
       
       // Check wallet balance before sending
       const walletBalance = await this.publicClient.getBalance({ 
         address: this.instance.walletAddress as `0x${string}` 
       });
       const gasCostWei = BigInt(quote.gas) * BigInt(quote.gasPrice);
-      const totalRequired = amountWei + gasCostWei;
-      
-      console.log(chalk.dim(`   💰 Wallet balance: ${formatEther(walletBalance)} ETH`));
-      console.log(chalk.dim(`   ⛽ Gas cost: ${formatEther(gasCostWei)} ETH (${quote.gas} gas × ${formatEther(BigInt(quote.gasPrice))} gwei)`));
-      console.log(chalk.dim(`   💸 Total required: ${formatEther(totalRequired)} ETH (buy + gas)`));
-      console.log(chalk.dim(`   ✅ Sufficient funds: ${walletBalance >= totalRequired ? 'YES' : 'NO - need ' + formatEther(totalRequired - walletBalance) + ' more ETH'}`));
+
+      if (quoteToken) {
+        // The swap spends the quote token; the wallet only needs ETH for gas
+        const quoteBalance = await this.readQuoteTokenBalance();
+        const sufficient = quoteBalance >= amountWei && walletBalance >= gasCostWei;
+        console.log(chalk.dim(`   💰 Wallet balance: ${QuoteCurrency.label(quoteBalance, quoteToken)}, ${formatEther(walletBalance)} ETH for gas`));
+        console.log(chalk.dim(`   ⛽ Gas cost: ${formatEther(gasCostWei)} ETH (${quote.gas} gas × ${formatEther(BigInt(quote.gasPrice))} gwei)`));
+        console.log(chalk.dim(`   ✅ Sufficient funds: ${sufficient ? 'YES' : 'NO'}`));
+      } else {
+        const totalRequired = amountWei + gasCostWei;
+        console.log(chalk.dim(`   💰 Wallet balance: ${formatEther(walletBalance)} ETH`));
+        console.log(chalk.dim(`   ⛽ Gas cost: ${formatEther(gasCostWei)} ETH (${quote.gas} gas × ${formatEther(BigInt(quote.gasPrice))} gwei)`));
+        console.log(chalk.dim(`   💸 Total required: ${formatEther(totalRequired)} ETH (buy + gas)`));
+        console.log(chalk.dim(`   ✅ Sufficient funds: ${walletBalance >= totalRequired ? 'YES' : 'NO - need ' + formatEther(totalRequired - walletBalance) + ' more ETH'}`));
+      }
       
       // Warn if gas exceeds buy amount
-      if (gasCostWei > amountWei) {
-        console.log(chalk.yellow(`   ⚠️  WARNING: Gas cost (${formatEther(gasCostWei)} ETH) exceeds buy amount (${ethAmount} ETH)!`));
+      const gasCostQuote = await this.gasInQuote(gasCostWei);
+      if (gasCostQuote > amountWei) {
+        console.log(chalk.yellow(`   ⚠️  WARNING: Gas cost (${QuoteCurrency.label(gasCostQuote, quoteToken)}) exceeds buy amount (${ethAmount} ${this.quoteSymbol()})!`));
         console.log(chalk.yellow(`   This trade will likely lose money to gas fees.`));
       }
 
       // Dry-run: simulate without sending
       if (this.dryRun) {
+        if (quoteToken) {
+          console.log(`   🧪 DRY-RUN: Would approve ${(quote.allowanceTarget || quote.to).slice(0, 20)}... for ${quoteToken.symbol}`);
+        }
         console.log(`   🧪 DRY-RUN: Would buy ${formatEther(BigInt(quote.buyAmount))} tokens`);
         console.log(`   🧪 DRY-RUN: TX data ready (not sending)`);
         return {
@@ -601,6 +1351,12 @@ export class TradingBot {
         };
       }
 
+      // ERC-20 quote: the swap contract pulls the quote token, so it needs an allowance
+      if (quoteToken) {
+        console.log(`   Checking ${quoteToken.symbol} approval...`);
+        await this.ensureAllowance(quoteToken.address, quoteToken.symbol, quote.allowanceTarget || quote.to, amountWei, quote.gasPrice);
+      }
+
       console.log(`   Executing transaction...`);
 
       // Apply gas buffer (20% extra) for tokens with anti-bot protection
@@ -608,61 +1364,50 @@ export class TradingBot {
       const gasLimit = (BigInt(quote.gas) * gasBuffer) / 100n;
       console.log(chalk.dim(`   Gas limit: ${quote.gas} + 20% buffer = ${gasLimit}`));
 
-      // Send transaction
-      const txHash = await (this.walletClient as any).sendTransaction({
-        to: quote.to as `0x${string}`,
-        data: quote.data as `0x${string}`,
-        value: BigInt(quote.value),
-        gas: gasLimit,
-        gasPrice: BigInt(quote.gasPrice),
-      });
-
-      console.log(`   Transaction sent: ${txHash}`);
+      // Send transaction - the position stays locked on pendingTx until it resolves
+      const pending = await this.broadcastTracked(position, 'buy', {
+        to: quote.to,
+        data: quote.data,
+        value: quote.value,
+        gas: gasLimit.toString(),
+        amountIn: amountWei.toString(),
+        expectedOut: quote.buyAmount,
+      }, quote.gasPrice);
+
+      console.log(`   Transaction sent: ${pending.hashes[0]}`);
+
+      // Wait for receipt, speeding up or cancelling if it doesn't mine in time
+      const mined = await this.waitForPending(position);
+      if (!mined) {
+        return { success: false, error: `Transaction still pending (nonce ${pending.nonce}) - will resolve on a later tick` };
+      }
+      const { receipt, cancelled } = mined;
+      const txHash: string = receipt.transactionHash ?? pending.hashes[pending.hashes.length - 1];
 
-      // Wait for receipt using public client
-      const receipt = await this.publicClient.waitForTransactionReceipt({ hash: txHash });
+      if (cancelled) {
+        this.recordFailure();
+        return { success: false, error: `Buy cancelled after ${pending.replacements} speed-up(s). Tx: ${txHash.slice(0, 20)}...` };
+      }
 
       if (receipt.status === 'success') {
         // Reset error counter on success
         this.consecutiveErrors = 0;
-        
-        // Update position
-        position.status = 'HOLDING';
-        position.buyTxHash = txHash;
-        position.buyTimestamp = Date.now();
-        position.tokensReceived = quote.buyAmount;
-        position.ethCost = amountWei.toString();
-
-        // Record trade in PnL tracker (non-blocking)
-        if (this.pnLTracker) {
-          const gasCostWei = receipt.gasUsed * BigInt(quote.gasPrice);
-          const price = Number(formatEther(amountWei)) / Number(formatEther(BigInt(quote.buyAmount)));
-          
-          this.pnLTracker.recordBuy(
-            this.instance,
-            position.id,
-            quote.buyAmount,
-            price,
-            amountWei.toString(),
-            gasCostWei.toString(),
-            txHash
-          ).catch((error: any) => {
-            console.warn(`   ⚠ Failed to record buy in PnL tracker: ${error.message}`);
-          });
-        }
+        const buyGasCost = ReceiptAmounts.feesPaid(receipt, pending.maxFeePerGas);
+        const fill = await this.readBuyFill(receipt, txHash, quote.buyAmount, amountWei, buyGasCost);
+        this.completeBuy(position, txHash, fill.tokens.toString(), fill.ethSpent, await this.gasInQuote(buyGasCost));
 
         return {
           success: true,
           txHash,
           gasUsed: receipt.gasUsed,
-          gasCostEth: (receipt.gasUsed * BigInt(quote.gasPrice)).toString(),
+          gasCostEth: buyGasCost.toString(),
         };
       } else {
-        this.consecutiveErrors++;
+        this.recordFailure();
         console.error(`   ❌ Transaction reverted on-chain`);
         console.error(chalk.dim(`   Tx: ${txHash}`));
         console.error(chalk.dim(`   Gas used: ${receipt.gasUsed} (of ${quote.gas} limit)`));
-        console.error(chalk.dim(`   Effective gas price: ${formatEther(receipt.effectiveGasPrice || BigInt(quote.gasPrice))} ETH`));
+        console.error(chalk.dim(`   Effective gas price: ${formatEther(receipt.effectiveGasPrice || BigInt(pending.maxFeePerGas))} ETH`));
         
         // Try to decode revert reason
         try {
@@ -681,7 +1426,7 @@ export class TradingBot {
         return { success: false, error: `Transaction reverted. Tx: ${txHash.slice(0, 20)}... Try: 1) Increase slippage to 3-5% 2) Check token contract 3) Wait and retry` };
       }
     } catch (error: any) {
-      this.consecutiveErrors++;
+      this.recordFailure();
       console.error(`   Buy error: ${error.message}`);
       
       // Stop bot if too many consecutive errors
@@ -703,10 +1448,597 @@ export class TradingBot {
     }
   }
 
+  /**
+   * Fill a buy against the paper ledger using the live quote
+   */
+  private async executePaperBuy(position: Position, amountWei: bigint, quote: any): Promise<TradeResult> {
+    const ledger = this.instance.paperLedger!;
+    const quoteToken = this.instance.quoteToken;
+    // The ledger is kept in quote units, gas included
+    const gasCostWei = await this.gasInQuote(BigInt(quote.gas) * BigInt(quote.gasPrice));
+
+    if (!PaperWallet.canAfford(ledger, amountWei, gasCostWei)) {
+      return {
+        success: false,
+        error: `Insufficient paper balance: ${QuoteCurrency.label(BigInt(ledger.ethBalance), quoteToken)} (need ${QuoteCurrency.label(amountWei + gasCostWei, quoteToken)})`,
+      };
+    }
+
+    PaperWallet.applyBuy(ledger, amountWei, gasCostWei, BigInt(quote.buyAmount));
+    GasBudget.record(this.instance, BigInt(quote.gas) * BigInt(quote.gasPrice));
+    const txHash = PaperWallet.txHash('buy');
+    console.log(`   📝 PAPER: Bought ${formatEther(BigInt(quote.buyAmount))} tokens (gas ${QuoteCurrency.label(gasCostWei, quoteToken)})`);
+    console.log(chalk.dim(`   📝 Paper balance: ${QuoteCurrency.label(BigInt(ledger.ethBalance), quoteToken)}`));
+
+    this.consecutiveErrors = 0;
+    this.completeBuy(position, txHash, quote.buyAmount, amountWei, gasCostWei, true);
+
+    return {
+      success: true,
+      txHash,
+      gasUsed: BigInt(quote.gas),
+      gasCostEth: (BigInt(quote.gas) * BigInt(quote.gasPrice)).toString(),
+    };
+  }
+
+  /**
+   * Fill a sell against the paper ledger using the live quote
+   */
+  private async executePaperSell(
+    position: Position,
+    tokenAmount: string,
+    quote: any,
+    exitReason: ExitReason,
+    plan?: SellPlan
+  ): Promise<TradeResult> {
+    const ledger = this.instance.paperLedger!;
+    const quoteToken = this.instance.quoteToken;
+    const ethReceived = BigInt(quote.buyAmount);
+    const gasCostWei = await this.gasInQuote(BigInt(quote.gas) * BigInt(quote.gasPrice));
+
+    if (BigInt(ledger.tokenBalance) < BigInt(tokenAmount)) {
+      return { success: false, error: `Insufficient paper tokens: ${formatEther(BigInt(ledger.tokenBalance))}` };
+    }
+
+    PaperWallet.applySell(ledger, BigInt(tokenAmount), ethReceived, gasCostWei);
+    GasBudget.record(this.instance, BigInt(quote.gas) * BigInt(quote.gasPrice));
+    const txHash = PaperWallet.txHash('sell');
+    console.log(`   📝 PAPER: Sold ${formatEther(BigInt(tokenAmount))} tokens for ${QuoteCurrency.label(ethReceived, quoteToken)}`);
+    console.log(chalk.dim(`   📝 Paper balance: ${QuoteCurrency.label(BigInt(ledger.ethBalance), quoteToken)}`));
+
+    this.consecutiveErrors = 0;
+    const profit = this.completeSell(position, txHash, tokenAmount, ethReceived, gasCostWei, exitReason, true, plan);
+
+    return {
+      success: true,
+      txHash,
+      gasUsed: BigInt(quote.gas),
+      gasCostEth: (BigInt(quote.gas) * BigInt(quote.gasPrice)).toString(),
+      profitEth: profit.toString(),
+    };
+  }
+
+  /**
+   * Tokens and ETH (or quote token) a mined buy actually moved, falling back to the quote when the receipt can't tell
+   */
+  private async readBuyFill(
+    receipt: any,
+    txHash: string,
+    quotedTokens: string,
+    amountWei: bigint,
+    fees: bigint
+  ): Promise<{ tokens: bigint; ethSpent: bigint }> {
+    const wallet = this.instance.walletAddress;
+    const tokens = ReceiptAmounts.tokensReceived(receipt, this.instance.tokenAddress, wallet);
+    const ethMoved = await this.quoteMoved(receipt, fees);
+
+    if (tokens === null) {
+      console.log(chalk.yellow('   ⚠ No token transfer to the wallet in the receipt - recording the quoted amount'));
+    } else {
+      this.checkFillDeviation('buy', tokens, BigInt(quotedTokens), txHash);
+    }
+
+    return {
+      tokens: tokens ?? BigInt(quotedTokens),
+      ethSpent: ethMoved !== null && ethMoved < BigInt(0) ? -ethMoved : amountWei,
+    };
+  }
+
+  /**
+   * ETH (or quote token) a mined sell actually returned, falling back to the quote when it can't be isolated
+   */
+  private async readSellProceeds(receipt: any, txHash: string, quotedEth: string, fees: bigint): Promise<bigint> {
+    const ethMoved = await this.quoteMoved(receipt, fees);
+    if (ethMoved === null) return BigInt(quotedEth);
+
+    this.checkFillDeviation('sell', ethMoved, BigInt(quotedEth), txHash);
+    return ethMoved > BigInt(0) ? ethMoved : BigInt(0);
+  }
+
+  /**
+   * Quote asset a mined swap moved into the wallet (negative for a buy), or null if unknown
+   * @description An ERC-20 quote leaves Transfer logs; native ETH needs the balance difference.
+   */
+  private async quoteMoved(receipt: any, fees: bigint): Promise<bigint | null> {
+    const quoteToken = this.instance.quoteToken;
+    return quoteToken
+      ? ReceiptAmounts.tokensReceived(receipt, quoteToken.address, this.instance.walletAddress)
+      : ReceiptAmounts.ethMoved(this.publicClient, receipt, this.instance.walletAddress, fees);
+  }
+
+  /**
+   * Private relay for this bot's transactions, if privateSubmission is on and one is configured
+   * @description Without a relay the bot still trades, through the public RPC, and says so.
+   */
+  private async resolveRelay(): Promise<string | undefined> {
+    if (!this.instance.config.privateSubmission) return undefined;
+
+    const relayUrl = PrivateRelay.resolve(this.chain, await this.storage.getConfig(PRIVATE_RELAY_CONFIG_KEY, {}));
+    if (!relayUrl) {
+      console.log(chalk.yellow(`⚠️  ${this.instance.name}: private submission is on but no ${this.chain} relay is configured - sending publicly`));
+      return undefined;
+    }
+
+    this.submissionRoute = 'private';
+    console.log(chalk.dim(`🛡️  ${this.instance.name}: transactions go to ${PrivateRelay.label(relayUrl)}`));
+    return relayUrl;
+  }
+
+  /**
+   * Add a fill's realized slippage to the stats for the route it was sent through
+   * @param {number} percent - % below the quote (negative when the fill beat it)
+   */
+  private recordSlippage(percent: number): void {
+    const slippage = this.instance.slippage ?? (this.instance.slippage = {});
+    const stats = slippage[this.submissionRoute] ?? { fills: 0, totalPercent: 0, worstPercent: percent, lastFillAt: 0 };
+    slippage[this.submissionRoute] = {
+      fills: stats.fills + 1,
+      totalPercent: stats.totalPercent + percent,
+      worstPercent: Math.max(stats.worstPercent, percent),
+      lastFillAt: Date.now(),
+    };
+  }
+
+  /**
+   * Flag a fill that came in below the quote by more than the slippage tolerance
+   * @description The quote's minimum already allows for slippage, so a larger gap points at
+   * a transfer tax or a rebasing balance. The bot keeps trading on the real amounts. Every
+   * fill also goes into the slippage stats for its submission route.
+   */
+  private checkFillDeviation(side: 'buy' | 'sell', actual: bigint, quoted: bigint, txHash: string): void {
+    const shortfall = ReceiptAmounts.shortfallPercent(actual, quoted);
+    this.recordSlippage(shortfall);
+    const tolerance = (this.instance.config.slippageBps ?? 100) / 100;
+    if (shortfall <= tolerance) return;
+
+    this.instance.lastFillDeviation = {
+      side,
+      quoted: quoted.toString(),
+      actual: actual.toString(),
+      shortfallPercent: shortfall,
+      txHash,
+      timestamp: Date.now(),
+    };
+
+    const what = side === 'buy' ? `${this.instance.tokenSymbol} received` : `${this.quoteSymbol()} received`;
+    const message = `${what} was ${shortfall.toFixed(2)}% below the quote (tolerance ${tolerance}%) - fee-on-transfer or rebasing token?`;
+    console.log(chalk.yellow(`   ⚠ ${message}`));
+    NotificationService.getInstance().notifyWarning(
+      this.instance,
+      message,
+      'Positions use the actual amounts; consider the token\'s tax when setting take-profit'
+    ).catch(() => {
+      // Ignore notification errors
+    });
+  }
+
+  /**
+   * Mark a position as bought and record the trade (live or paper)
+   */
+  private completeBuy(
+    position: Position,
+    txHash: string,
+    tokensReceived: string,
+    amountWei: bigint,
+    gasCostWei: bigint,
+    simulated: boolean = false
+  ): void {
+    position.status = 'HOLDING';
+    position.buyTxHash = txHash;
+    position.buyTimestamp = Date.now();
+    position.tokensReceived = tokensReceived;
+    position.ethCost = amountWei.toString();
+    if (simulated) {
+      position.simulated = true;
+    } else {
+      delete position.simulated;
+    }
+
+    // Record trade in PnL tracker (non-blocking)
+    if (this.pnLTracker) {
+      const price = QuoteCurrency.price(amountWei, BigInt(tokensReceived), this.instance.quoteToken);
+
+      this.pnLTracker.recordBuy(
+        this.instance,
+        position.id,
+        tokensReceived,
+        price,
+        amountWei.toString(),
+        gasCostWei.toString(),
+        txHash,
+        simulated
+      ).catch((error: any) => {
+        console.warn(`   ⚠ Failed to record buy in PnL tracker: ${error.message}`);
+      });
+    }
+  }
+
+  /**
+   * Mark a position as sold (or book a partial tier fill), compute profit and record the trade (live or paper)
+   * @returns Profit booked by this sell in wei
+   */
+  private completeSell(
+    position: Position,
+    txHash: string,
+    tokenAmount: string,
+    ethReceived: bigint,
+    gasCostWei: bigint,
+    exitReason: ExitReason,
+    simulated: boolean = false,
+    plan?: SellPlan
+  ): bigint {
+    // Without a plan (volume legs) the sell covers the whole position
+    const sellPlan: SellPlan = plan ?? {
+      tokenAmount,
+      costEth: position.ethCost || '0',
+      moonBag: '0',
+      final: true,
+    };
+    const netEth = ethReceived - gasCostWei;
+    const ethCost = BigInt(sellPlan.costEth);
+    const profit = netEth > ethCost ? netEth - ethCost : BigInt(0);
+    const profitPercent = ethCost > 0 ? Number((profit * BigInt(10000)) / ethCost) / 100 : 0;
+
+    // Losing exits feed the circuit breaker
+    if (netEth < ethCost) {
+      this.instance.totalLossEth = (BigInt(this.instance.totalLossEth || '0') + ethCost - netEth).toString();
+    }
+
+    GridCalculator.applySell(position, this.instance.config, sellPlan, {
+      txHash,
+      timestamp: Date.now(),
+      tokensSold: tokenAmount,
+      ethReceived: ethReceived.toString(),
+      gasCost: gasCostWei.toString(),
+      profitEth: profit.toString(),
+      exitReason,
+    });
+
+    // Trailing stop state ends with the position
+    if (sellPlan.final && this.trailingStop) {
+      this.trailingStop.removePosition(position.id);
+      this.persistTrailingStops();
+    }
+
+    // Record trade in PnL tracker (non-blocking)
+    if (this.pnLTracker) {
+      const price = QuoteCurrency.price(ethReceived, BigInt(tokenAmount), this.instance.quoteToken);
+
+      this.pnLTracker.recordSell(
+        this.instance,
+        position.id,
+        tokenAmount,
+        price,
+        ethReceived.toString(),
+        gasCostWei.toString(),
+        profit.toString(),
+        profitPercent,
+        txHash,
+        exitReason,
+        simulated,
+        sellPlan.tier,
+        !sellPlan.final
+      ).catch((error: any) => {
+        console.warn(`   ⚠ Failed to record sell in PnL tracker: ${error.message}`);
+      });
+    }
+
+    return profit;
+  }
+
+  /**
+   * Broadcast through the shared nonce manager so bots on the same wallet never race
+   */
+  private sendWithNonce(submit: (nonce: number) => Promise<`0x${string}`>): Promise<`0x${string}`> {
+    return NonceManager.getInstance().send(
+      this.chain,
+      this.instance.walletAddress,
+      this.publicClient,
+      this.instance.name,
+      submit,
+      this.submissionRoute === 'private'
+    );
+  }
+
+  /**
+   * Milliseconds a transaction may stay unmined before it is sped up
+   */
+  private txTimeoutMs(): number {
+    return (this.instance.config.txTimeoutSeconds ?? FeePolicy.DEFAULT_TIMEOUT_SECONDS) * 1000;
+  }
+
+  /**
+   * Broadcast a swap with EIP-1559 fees and lock the position on it
+   * @returns The pending transaction now stored on the position
+   */
+  private async broadcastTracked(
+    position: Position,
+    side: 'buy' | 'sell',
+    request: Pick<PendingTransaction, 'to' | 'data' | 'value' | 'gas' | 'amountIn' | 'expectedOut' | 'exitReason'>,
+    quoteGasPrice: string
+  ): Promise<PendingTransaction> {
+    const fees = await FeePolicy.estimate(this.publicClient, this.instance.config, quoteGasPrice);
+    console.log(chalk.dim(`   Fees: max ${formatGwei(fees.maxFeePerGas)} gwei, tip ${formatGwei(fees.maxPriorityFeePerGas)} gwei`));
+
+    let nonce = -1;
+    const txHash = await this.sendWithNonce(assigned => {
+      nonce = assigned;
+      return this.sendReplaceable(request, assigned, fees);
+    });
+
+    const now = Date.now();
+    position.pendingTx = {
+      side,
+      nonce,
+      hashes: [txHash],
+      submittedAt: now,
+      lastBroadcastAt: now,
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+      replacements: 0,
+      ...request,
+    };
+
+    // Persist the lock before waiting so a restart never repeats the trade
+    this.storage.saveBot(this.instance).catch(() => {
+      // Ignore save errors - will retry on next tick
+    });
+    return position.pendingTx;
+  }
+
+  /**
+   * Send (or re-send) a swap request at a fixed nonce
+   */
+  private sendReplaceable(
+    request: Pick<PendingTransaction, 'to' | 'data' | 'value' | 'gas'>,
+    nonce: number,
+    fees: Eip1559Fees
+  ): Promise<`0x${string}`> {
+    return (this.walletClient as any).sendTransaction({
+      to: request.to as `0x${string}`,
+      data: request.data as `0x${string}`,
+      value: BigInt(request.value),
+      gas: BigInt(request.gas),
+      nonce,
+      ...fees,
+    });
+  }
+
+  /**
+   * Wait for a position's pending transaction, replacing it each time it times out
+   * @returns The mined receipt (and whether it was our cancel), or null if the cancel
+   * itself hasn't mined yet - the position stays locked and a later tick resolves it
+   */
+  private async waitForPending(position: Position): Promise<{ receipt: any; cancelled: boolean } | null> {
+    this.awaitingTxPositionIds.add(position.id);
+    try {
+      while (position.pendingTx) {
+        const pending: PendingTransaction = position.pendingTx;
+        const hash = pending.hashes[pending.hashes.length - 1];
+        try {
+          // viem returns the receipt of whichever same-nonce transaction was mined
+          const receipt = await this.publicClient.waitForTransactionReceipt({ hash, timeout: this.txTimeoutMs() });
+          const cancelled = !!pending.cancelHash && receipt.transactionHash === pending.cancelHash;
+          delete position.pendingTx;
+          this.trackGas(receipt, pending.maxFeePerGas);
+          return { receipt, cancelled };
+        } catch (error: any) {
+          if (error?.name !== 'WaitForTransactionReceiptTimeoutError') throw error;
+          if (!(await this.replacePending(position))) return null;
+        }
+      }
+      return null;
+    } finally {
+      this.awaitingTxPositionIds.delete(position.id);
+    }
+  }
+
+  /**
+   * Speed up a stuck transaction, or cancel it once the speed-ups (or fee cap) run out
+   * @returns false if a cancel was already sent - nothing left to try
+   */
+  private async replacePending(position: Position): Promise<boolean> {
+    const pending = position.pendingTx;
+    if (!pending || pending.cancelHash) return false;
+
+    const current: Eip1559Fees = {
+      maxFeePerGas: BigInt(pending.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(pending.maxPriorityFeePerGas),
+    };
+    const maxReplacements = this.instance.config.maxTxReplacements ?? FeePolicy.DEFAULT_MAX_REPLACEMENTS;
+    const sped = pending.replacements < maxReplacements ? FeePolicy.bump(current, this.instance.config) : null;
+    const waited = Math.round((Date.now() - pending.lastBroadcastAt) / 1000);
+
+    try {
+      if (sped) {
+        console.log(chalk.yellow(`   ⏫ ${pending.side} for position ${position.id} unmined after ${waited}s - speeding up (nonce ${pending.nonce})`));
+        const hash = await this.sendReplaceable(pending, pending.nonce, sped);
+        pending.hashes.push(hash);
+        pending.maxFeePerGas = sped.maxFeePerGas.toString();
+        pending.maxPriorityFeePerGas = sped.maxPriorityFeePerGas.toString();
+      } else {
+        console.log(chalk.yellow(`   🛑 ${pending.side} for position ${position.id} still unmined - cancelling nonce ${pending.nonce}`));
+        const fees = FeePolicy.cancelFees(current);
+        const hash = await (this.walletClient as any).sendTransaction({
+          to: this.instance.walletAddress as `0x${string}`,
+          value: BigInt(0),
+          gas: BigInt(21000),
+          nonce: pending.nonce,
+          ...fees,
+        });
+        pending.hashes.push(hash);
+        pending.cancelHash = hash;
+        pending.maxFeePerGas = fees.maxFeePerGas.toString();
+        pending.maxPriorityFeePerGas = fees.maxPriorityFeePerGas.toString();
+      }
+    } catch (error: any) {
+      // "nonce too low" means one of ours just mined; the next wait picks it up
+      console.log(chalk.dim(`   Replacement not sent: ${error.shortMessage || error.message}`));
+      if (!sped) return false;
+    }
+
+    if (sped) pending.replacements++;
+    pending.lastBroadcastAt = Date.now();
+    this.storage.saveBot(this.instance).catch(() => {
+      // Ignore save errors - will retry on next tick
+    });
+    return true;
+  }
+
+  /**
+   * Settle pending transactions left by an earlier tick or a restart
+   * @description Finds whichever broadcast hash was mined and completes the buy/sell
+   * from the stored request; replaces transactions that are still stuck; unlocks the
+   * position if its nonce was used by a transaction that isn't ours.
+   */
+  private async resolvePendingTransactions(): Promise<void> {
+    for (const position of this.instance.positions) {
+      if (!position.pendingTx || this.awaitingTxPositionIds.has(position.id)) continue;
+
+      const receipt = await this.findPendingReceipt(position);
+      if (receipt) {
+        await this.settlePending(position, receipt);
+      }
+    }
+  }
+
+  /**
+   * Look up whether a position's pending transaction was mined
+   * @returns The receipt of whichever broadcast mined, or null - after unlocking the position
+   * if its nonce went to a transaction that isn't ours, or replacing it if it is stuck
+   */
+  private async findPendingReceipt(position: Position): Promise<any | null> {
+    const pending = position.pendingTx!;
+    for (const hash of [...pending.hashes].reverse()) {
+      try {
+        return await this.publicClient.getTransactionReceipt({ hash });
+      } catch {
+        // Not mined (or dropped)
+      }
+    }
+
+    const confirmed = Number(await this.publicClient.getTransactionCount({
+      address: this.instance.walletAddress as `0x${string}`,
+      blockTag: 'latest',
+    }));
+    if (confirmed > pending.nonce) {
+      console.log(chalk.yellow(`⚠ [${this.instance.name}] Nonce ${pending.nonce} was used by another transaction - unlocking position ${position.id}`));
+      delete position.pendingTx;
+      NonceManager.getInstance().resync(this.chain, this.instance.walletAddress);
+    } else if (Date.now() - pending.lastBroadcastAt > this.txTimeoutMs()) {
+      await this.replacePending(position);
+    }
+    return null;
+  }
+
+  /**
+   * Settle a volume leg left pending by an earlier tick or a restart
+   * @returns true while the leg is still pending
+   */
+  private async resolveVolumeLeg(): Promise<boolean> {
+    const leg = this.instance.volumePendingLeg;
+    if (!leg) return false;
+    if (this.awaitingTxPositionIds.has(leg.id)) return true;
+
+    const pending = leg.pendingTx;
+    const receipt = pending ? await this.findPendingReceipt(leg) : null;
+    if (!receipt) {
+      if (leg.pendingTx) return true;
+      // Never sent, or its nonce went to another transaction
+      delete this.instance.volumePendingLeg;
+      return false;
+    }
+
+    delete leg.pendingTx;
+    delete this.instance.volumePendingLeg;
+    const txHash: string = receipt.transactionHash;
+    const gasCost = ReceiptAmounts.feesPaid(receipt, pending!.maxFeePerGas);
+    this.trackGas(receipt, pending!.maxFeePerGas);
+
+    if (receipt.status !== 'success' || txHash === pending!.cancelHash) {
+      const outcome = txHash === pending!.cancelHash ? 'cancelled' : 'reverted';
+      console.log(chalk.yellow(`⚠ [${this.instance.name}] Pending volume ${pending!.side} ${outcome} (${txHash.slice(0, 20)}...)`));
+      this.lastFailedAttempt.set(this.instance.volumeCycleCount ?? 0, Date.now());
+      return false;
+    }
+
+    if (pending!.side === 'buy') {
+      const fill = await this.readBuyFill(receipt, txHash, pending!.expectedOut, BigInt(pending!.amountIn), gasCost);
+      this.completeBuy(leg, txHash, fill.tokens.toString(), fill.ethSpent, await this.gasInQuote(gasCost));
+      this.completeVolumeBuy(leg, txHash);
+    } else {
+      const ethReceived = await this.readSellProceeds(receipt, txHash, pending!.expectedOut, gasCost);
+      this.completeSell(leg, txHash, pending!.amountIn, ethReceived, await this.gasInQuote(gasCost), 'take-profit');
+      this.completeVolumeSell(leg, txHash);
+    }
+    return false;
+  }
+
+  /**
+   * Book a pending transaction found mined by resolvePendingTransactions
+   */
+  private async settlePending(position: Position, receipt: any): Promise<void> {
+    const pending = position.pendingTx!;
+    delete position.pendingTx;
+
+    const txHash: string = receipt.transactionHash;
+    const gasCost = ReceiptAmounts.feesPaid(receipt, pending.maxFeePerGas);
+    this.trackGas(receipt, pending.maxFeePerGas);
+
+    if (receipt.status !== 'success' || txHash === pending.cancelHash) {
+      const outcome = txHash === pending.cancelHash ? 'cancelled' : 'reverted';
+      console.log(chalk.yellow(`⚠ [${this.instance.name}] Pending ${pending.side} for position ${position.id} ${outcome} (${txHash.slice(0, 20)}...)`));
+      if (pending.side === 'buy') this.lastFailedAttempt.set(position.id, Date.now());
+      return;
+    }
+
+    if (pending.side === 'buy') {
+      const fill = await this.readBuyFill(receipt, txHash, pending.expectedOut, BigInt(pending.amountIn), gasCost);
+      this.completeBuy(position, txHash, fill.tokens.toString(), fill.ethSpent, await this.gasInQuote(gasCost));
+      this.instance.totalBuys++;
+      console.log(`✅ [${this.instance.name}] Pending buy confirmed: Position ${position.id}`);
+      return;
+    }
+
+    // The position hasn't changed while locked, so the plan matches the one that was sent
+    const exitReason = pending.exitReason ?? 'take-profit';
+    const plan = GridCalculator.getSellPlan(position, this.instance.config, exitReason);
+    const ethReceived = await this.readSellProceeds(receipt, txHash, pending.expectedOut, gasCost);
+    const gasCostQuote = await this.gasInQuote(gasCost);
+    const profit = this.completeSell(position, txHash, pending.amountIn, ethReceived, gasCostQuote, exitReason, false, plan);
+    this.recordSellSuccess(position, { success: true, txHash, gasCostEth: gasCost.toString(), profitEth: profit.toString() });
+  }
+
   /**
    * Execute sell transaction with approval check and dry-run support
    */
-  private async executeSell(position: Position, tokenAmount: string, quote: any): Promise<TradeResult> {
+  private async executeSell(
+    position: Position,
+    tokenAmount: string,
+    quote: any,
+    exitReason: ExitReason = 'take-profit',
+    plan?: SellPlan
+  ): Promise<TradeResult> {
     try {
       // Validate quote has required fields
       if (!quote || !quote.buyAmount || !quote.gas || !quote.gasPrice) {
@@ -719,16 +2051,23 @@ export class TradingBot {
         return { success: false, error: 'Invalid sell quote - missing required fields' };
       }
 
+      const held = await this.checkGas({
+        side: 'sell',
+        exitReason,
+        gasWei: BigInt(quote.gas) * BigInt(quote.gasPrice),
+      });
+      if (held) {
+        return { success: false, error: held, deferred: true };
+      }
+
+      // Paper mode: no approval or transaction, fill against the virtual ledger
+      if (this.instance.paperTrading) {
+        return this.executePaperSell(position, tokenAmount, quote, exitReason, plan);
+      }
+
       // Check and handle token approval
       console.log(`   Checking token approval...`);
       const allowanceTarget = quote.allowanceTarget || quote.to;
-      
-      const currentAllowance = await (this.publicClient as any).readContract({
-        address: this.instance.tokenAddress as `0x${string}`,
-        abi: erc20Abi,
-        functionName: 'allowance',
-        args: [this.instance.walletAddress as `0x${string}`, allowanceTarget as `0x${string}`],
-      });
 
       // Dry-run: skip approval check
       if (this.dryRun) {
@@ -742,21 +2081,7 @@ export class TradingBot {
         };
       }
 
-      if (BigInt(currentAllowance) < BigInt(tokenAmount)) {
-        console.log(`   Approving ${allowanceTarget.slice(0, 20)}... to spend tokens...`);
-        
-        const approveTx = await (this.walletClient as any).writeContract({
-          address: this.instance.tokenAddress as `0x${string}`,
-          abi: erc20Abi,
-          functionName: 'approve',
-          args: [allowanceTarget as `0x${string}`, BigInt(tokenAmount)],
-        });
-
-        await this.publicClient.waitForTransactionReceipt({ hash: approveTx });
-        console.log(`   ✓ Approval confirmed`);
-      } else {
-        console.log(`   ✓ Sufficient allowance already granted`);
-      }
+      await this.ensureAllowance(this.instance.tokenAddress, this.instance.tokenSymbol, allowanceTarget, BigInt(tokenAmount), quote.gasPrice);
 
       // Validate quote has transaction data
       if (!quote.to || !quote.data) {
@@ -784,72 +2109,55 @@ export class TradingBot {
 
       console.log(`   Executing sell transaction...`);
 
-      // Send transaction
-      const txHash = await (this.walletClient as any).sendTransaction({
-        to: quote.to as `0x${string}`,
-        data: quote.data as `0x${string}`,
-        value: BigInt(quote.value || '0'),
-        gas: gasLimit,
-        gasPrice: gasPrice,
-      });
-
-      console.log(`   Transaction sent: ${txHash}`);
+      // Send transaction - the position stays locked on pendingTx until it resolves
+      const pending = await this.broadcastTracked(position, 'sell', {
+        to: quote.to,
+        data: quote.data,
+        value: quote.value || '0',
+        gas: gasLimit.toString(),
+        amountIn: tokenAmount,
+        expectedOut: quote.buyAmount,
+        exitReason,
+      }, gasPrice.toString());
+
+      console.log(`   Transaction sent: ${pending.hashes[0]}`);
+
+      // Wait for receipt, speeding up or cancelling if it doesn't mine in time
+      const mined = await this.waitForPending(position);
+      if (!mined) {
+        return { success: false, error: `Transaction still pending (nonce ${pending.nonce}) - will resolve on a later tick` };
+      }
+      const { receipt, cancelled } = mined;
+      const txHash: string = receipt.transactionHash ?? pending.hashes[pending.hashes.length - 1];
 
-      // Wait for receipt using public client
-      const receipt = await this.publicClient.waitForTransactionReceipt({ hash: txHash });
+      if (cancelled) {
+        this.recordFailure();
+        return { success: false, error: `Sell cancelled after ${pending.replacements} speed-up(s). Tx: ${txHash.slice(0, 20)}...` };
+      }
 
       if (receipt.status === 'success') {
         // Reset error counter on success
         this.consecutiveErrors = 0;
         
-        // Calculate profit using actual gas used
-        const ethReceived = BigInt(quote.buyAmount);
-        const gasPrice: bigint = receipt.effectiveGasPrice ? receipt.effectiveGasPrice : BigInt(quote.gasPrice || '1000000');
-        const gasCostWei = receipt.gasUsed * gasPrice;
-        const netEth = ethReceived - gasCostWei;
-        const ethCost = BigInt(position.ethCost || '0');
-        const profit = netEth > ethCost ? netEth - ethCost : BigInt(0);
-        const profitPercent = ethCost > 0 ? Number((profit * BigInt(10000)) / ethCost) / 100 : 0;
-
-        // Update position
-        position.status = 'SOLD';
-        position.sellTxHash = txHash;
-        position.sellTimestamp = Date.now();
-        position.ethReceived = ethReceived.toString();
-        position.profitEth = profit.toString();
-        position.profitPercent = profitPercent;
-
-        // Record trade in PnL tracker (non-blocking)
-        if (this.pnLTracker) {
-          const price = Number(formatEther(ethReceived)) / Number(formatEther(BigInt(tokenAmount)));
-          
-          this.pnLTracker.recordSell(
-            this.instance,
-            position.id,
-            tokenAmount,
-            price,
-            ethReceived.toString(),
-            gasCostWei.toString(),
-            profit.toString(),
-            profitPercent,
-            txHash
-          ).catch((error: any) => {
-            console.warn(`   ⚠ Failed to record sell in PnL tracker: ${error.message}`);
-          });
-        }
+        // Calculate profit from what actually arrived and the fees actually paid
+        const gasCostWei = ReceiptAmounts.feesPaid(receipt, pending.maxFeePerGas);
+        const ethReceived = await this.readSellProceeds(receipt, txHash, quote.buyAmount, gasCostWei);
+        const gasCostQuote = await this.gasInQuote(gasCostWei);
+        const profit = this.completeSell(position, txHash, tokenAmount, ethReceived, gasCostQuote, exitReason, false, plan);
 
         return {
           success: true,
           txHash,
           gasUsed: receipt.gasUsed,
           gasCostEth: gasCostWei.toString(),
+          profitEth: profit.toString(),
         };
       } else {
-        this.consecutiveErrors++;
+        this.recordFailure();
         return { success: false, error: 'Transaction reverted' };
       }
     } catch (error: any) {
-      this.consecutiveErrors++;
+      this.recordFailure();
       console.error(`   Sell error: ${error.message}`);
       
       // Stop bot if too many consecutive errors
@@ -886,21 +2194,25 @@ export class TradingBot {
 
     for (const position of holdingPositions) {
       if (!position.tokensReceived) continue;
+      if (position.pendingTx) {
+        console.log(`   ⏳ Position ${position.id} has a pending ${position.pendingTx.side} (nonce ${position.pendingTx.nonce}) - skipping`);
+        failed++;
+        continue;
+      }
 
       console.log(`\n   Selling position ${position.id}...`);
       
-      // Calculate moon bag if enabled
-      let sellAmount = position.tokensReceived;
-      if (this.instance.config.moonBagEnabled) {
-        const moonBagAmount = (BigInt(sellAmount) * BigInt(this.instance.config.moonBagPercent)) / BigInt(100);
-        sellAmount = (BigInt(sellAmount) - moonBagAmount).toString();
-      }
+      // Sell what is left after any tier fills, keeping the moon bag
+      const plan = GridCalculator.getSellPlan(position, this.instance.config, 'liquidation');
+      const sellAmount = plan.tokenAmount;
 
       try {
-        const quote = await this.zeroXApi.getSellQuote(
+        const quote = await this.swapProvider.getSellQuote(
           this.instance.tokenAddress,
           sellAmount,
-          this.instance.walletAddress
+          this.instance.walletAddress,
+          undefined,
+          this.instance.quoteToken
         );
 
         if (!quote) {
@@ -909,11 +2221,11 @@ export class TradingBot {
           continue;
         }
 
-        const result = await this.executeSell(position, sellAmount, quote);
+        const result = await this.executeSell(position, sellAmount, quote, 'liquidation', plan);
 
         if (result.success) {
           success++;
-          totalProfit += BigInt(position.profitEth || '0');
+          totalProfit += BigInt(result.profitEth || '0');
           console.log(`   ✅ Sold position ${position.id}`);
         } else {
           failed++;
@@ -931,7 +2243,7 @@ export class TradingBot {
     console.log(`\n📊 Liquidation complete:`);
     console.log(`   ✅ Successful: ${success}`);
     console.log(`   ❌ Failed: ${failed}`);
-    console.log(`   💰 Total profit: ${formatEther(totalProfit)} ETH`);
+    console.log(`   💰 Total profit: ${QuoteCurrency.label(totalProfit, this.instance.quoteToken)}`);
 
     return {
       success,
@@ -947,6 +2259,8 @@ export class TradingBot {
     name: string;
     chain: Chain;
     positions: { empty: number; holding: number; sold: number };
+    completedCycles: number;
+    cyclesByPosition: Record<number, number>;
     totalBuys: number;
     totalSells: number;
     totalProfitEth: string;
@@ -954,6 +2268,10 @@ export class TradingBot {
     isRunning: boolean;
   } {
     const positions = this.instance.positions;
+    const cyclesByPosition: Record<number, number> = {};
+    for (const p of positions) {
+      cyclesByPosition[p.id] = GridCalculator.getCompletedCycles(p).length;
+    }
     return {
       name: this.instance.name,
       chain: this.chain,
@@ -962,6 +2280,8 @@ export class TradingBot {
         holding: positions.filter(p => p.status === 'HOLDING').length,
         sold: positions.filter(p => p.status === 'SOLD').length,
       },
+      completedCycles: Object.values(cyclesByPosition).reduce((sum, n) => sum + n, 0),
+      cyclesByPosition,
       totalBuys: this.instance.totalBuys,
       totalSells: this.instance.totalSells,
       totalProfitEth: this.instance.totalProfitEth,
@@ -980,4 +2300,16 @@ export class TradingBot {
   getInstance(): BotInstance {
     return this.instance;
   }
+
+  /**
+   * Trade failures: in a row (stops the bot at the limit) and since it was built
+   */
+  getErrorCounts(): { consecutive: number; total: number } {
+    return { consecutive: this.consecutiveErrors, total: this.totalFailures };
+  }
+
+  private recordFailure(): void {
+    this.consecutiveErrors++;
+    this.totalFailures++;
+  }
 }
@@ -150,6 +150,23 @@ export class BotDaemon {
     }
   }
 
+  /**
+   * Ask the daemon to reload bots.json and notification settings (SIGHUP)
+   */
+  reload(): boolean {
+    if (!this.isRunning()) {
+      return false;
+    }
+
+    try {
+      const pid = parseInt(readFileSync(DAEMON_PID_FILE, 'utf8').trim());
+      process.kill(pid, 'SIGHUP');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Restart the daemon
    */
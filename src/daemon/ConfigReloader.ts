@@ -0,0 +1,170 @@
+// src/daemon/ConfigReloader.ts
+// Applies edits made to bots.json to the daemon's running bots (SIGHUP)
+
+import { HeartbeatManager } from '../bot/HeartbeatManager.js';
+import { JsonStorage } from '../storage/JsonStorage.js';
+import { GridCalculator } from '../grid/GridCalculator.js';
+import { MarketCapConverter } from '../grid/MarketCapConverter.js';
+import { BotInstance, GridConfig } from '../types/index.js';
+
+// Config keys that change where the grid's levels sit
+const LAYOUT_KEYS = [
+  'numPositions',
+  'floorPrice',
+  'ceilingPrice',
+  'useMarketCap',
+  'marketCapFloor',
+  'marketCapCeiling',
+  'gridSpacing',
+  'customBreakpoints',
+];
+
+/**
+ * What a reload changed
+ */
+export interface ReloadSummary {
+  /** Names of bots started */
+  started: string[];
+  /** Names of bots stopped (disabled or deleted) */
+  stopped: string[];
+  /** Bots rebuilt with a new config, with the keys that changed */
+  reconfigured: { name: string; keys: string[] }[];
+  /** Bots whose change could not be applied, with the reason */
+  failed: string[];
+}
+
+/**
+ * Diffs bots.json against the bots the heartbeat manager is running
+ * @class ConfigReloader
+ * @description Bots enabled since the last load start; a bot not seen before starts if
+ * it is marked running, as it would on daemon start. Disabled or deleted bots stop once
+ * their in-flight tick has finished. A changed GridConfig rebuilds the bot in place;
+ * positions and stats stay the daemon's, since it is the one trading them - a layout
+ * change only lays out the EMPTY levels again.
+ */
+export class ConfigReloader {
+  private heartbeatManager: HeartbeatManager;
+  private storage: JsonStorage;
+  // Each bot's enabled flag as of the last load
+  private knownEnabled: Map<string, boolean> = new Map();
+
+  constructor(heartbeatManager: HeartbeatManager, storage: JsonStorage) {
+    this.heartbeatManager = heartbeatManager;
+    this.storage = storage;
+  }
+
+  /**
+   * Remember which bots are enabled, so the next reload can tell which were enabled since
+   */
+  async snapshot(): Promise<void> {
+    const bots = await this.storage.getAllBots();
+    this.knownEnabled = new Map(bots.map(b => [b.id, b.enabled]));
+  }
+
+  /**
+   * Re-read bots.json and bring the running bots in line with it
+   */
+  async reload(): Promise<ReloadSummary> {
+    const summary: ReloadSummary = { started: [], stopped: [], reconfigured: [], failed: [] };
+
+    await this.storage.reload();
+    const stored = new Map((await this.storage.getAllBots()).map(b => [b.id, b]));
+
+    for (const bot of this.heartbeatManager.getAllBots()) {
+      const live = bot.getInstance();
+      const next = stored.get(live.id);
+      try {
+        if (!next || !next.enabled) {
+          await this.stop(live, next);
+          summary.stopped.push(live.name);
+          continue;
+        }
+
+        // Alert settings are read on every notification, so no rebuild is needed
+        live.notifications = next.notifications;
+
+        const keys = ConfigReloader.changedKeys(live.config, next.config);
+        if (keys.length > 0) {
+          await this.heartbeatManager.drainBot(live.id);
+          try {
+            const positions = keys.some(k => LAYOUT_KEYS.includes(k)) ? ConfigReloader.relayout(live, next.config) : null;
+            live.config = next.config;
+            if (positions) live.positions = positions;
+            live.lastUpdated = Date.now();
+          } finally {
+            // A layout that can't be built leaves the bot running as it was
+            await this.heartbeatManager.addBot(live);
+          }
+          summary.reconfigured.push({ name: live.name, keys });
+        }
+      } catch (error: any) {
+        summary.failed.push(`${live.name}: ${error.message}`);
+      }
+    }
+
+    for (const bot of stored.values()) {
+      if (!bot.enabled || this.heartbeatManager.getBot(bot.id)) continue;
+      const wasEnabled = this.knownEnabled.get(bot.id);
+      const shouldStart = wasEnabled === false || (wasEnabled === undefined && bot.isRunning);
+      if (!shouldStart) continue;
+
+      try {
+        await this.heartbeatManager.addBot(bot);
+        summary.started.push(bot.name);
+      } catch (error: any) {
+        summary.failed.push(`${bot.name}: ${error.message}`);
+      }
+    }
+
+    if (summary.started.length > 0) {
+      this.heartbeatManager.start();
+    }
+    this.knownEnabled = new Map(Array.from(stored.values()).map(b => [b.id, b.enabled]));
+    return summary;
+  }
+
+  /**
+   * One-line description of a reload for logs and notifications
+   */
+  static describe(summary: ReloadSummary): string {
+    const parts: string[] = [];
+    if (summary.started.length > 0) parts.push(`started ${summary.started.join(', ')}`);
+    if (summary.stopped.length > 0) parts.push(`stopped ${summary.stopped.join(', ')}`);
+    if (summary.reconfigured.length > 0) {
+      parts.push(`reconfigured ${summary.reconfigured.map(r => `${r.name} (${r.keys.join(', ')})`).join(', ')}`);
+    }
+    if (summary.failed.length > 0) parts.push(`failed ${summary.failed.join('; ')}`);
+    return parts.length > 0 ? parts.join('; ') : 'no bot changes';
+  }
+
+  /**
+   * Stop a bot after its in-flight tick, without undoing the edit that stopped it
+   */
+  private async stop(live: BotInstance, next: BotInstance | undefined): Promise<void> {
+    // Stopping saves the live instance, which would otherwise re-enable it
+    if (next) live.enabled = false;
+    await this.heartbeatManager.drainBot(live.id);
+
+    // ...or bring a deleted bot back
+    if (!next) await this.storage.deleteBot(live.id);
+  }
+
+  /**
+   * The bot's positions laid out for a new config (HOLDING, SOLD and pending ones kept)
+   */
+  private static relayout(live: BotInstance, config: GridConfig): BotInstance['positions'] {
+    // Volume bots trade without a grid
+    if (config.volumeMode) return live.positions;
+    if (live.circulatingSupply) {
+      MarketCapConverter.applyToConfig(config, live.circulatingSupply);
+    }
+    return GridCalculator.rebuildEmptyLevels(live.positions, live.currentPrice, config).positions;
+  }
+
+  private static changedKeys(live: GridConfig, next: GridConfig): string[] {
+    const keys = new Set([...Object.keys(live), ...Object.keys(next)]);
+    return Array.from(keys).filter(
+      key => JSON.stringify((live as any)[key]) !== JSON.stringify((next as any)[key])
+    );
+  }
+}
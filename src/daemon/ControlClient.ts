@@ -0,0 +1,145 @@
+// src/daemon/ControlClient.ts
+// CLI side of the daemon control socket
+
+import { createConnection } from 'net';
+import { existsSync } from 'fs';
+import { BotInstance, GridConfig } from '../types/index.js';
+import { CircuitBreaker, CircuitBreakerConfig } from '../risk/CircuitBreaker.js';
+import {
+  CONTROL_SOCKET_PATH,
+  ControlBotSummary,
+  ControlRequest,
+  ControlResponse,
+  encodeMessage,
+} from './ControlProtocol.js';
+
+/**
+ * Sends commands to a running daemon
+ * @class ControlClient
+ * @description One connection per request. Errors the daemon reports are thrown with
+ * its message; a daemon that doesn't answer within the timeout is treated as gone.
+ */
+export class ControlClient {
+  static readonly DEFAULT_TIMEOUT_MS = 5000;
+  // Liquidation drains the bot's tick, then waits on every sell's receipt
+  static readonly LIQUIDATE_TIMEOUT_MS = 10 * 60 * 1000;
+  // Stopping a bot waits for its in-flight tick (up to the heartbeat's hung-tick limit)
+  static readonly DRAIN_TIMEOUT_MS = 3 * 60 * 1000;
+
+  private socketPath: string;
+
+  constructor(socketPath: string = CONTROL_SOCKET_PATH) {
+    this.socketPath = socketPath;
+  }
+
+  /**
+   * Client for the running daemon, or null if none is answering
+   */
+  static async connect(socketPath: string = CONTROL_SOCKET_PATH): Promise<ControlClient | null> {
+    if (!existsSync(socketPath)) return null;
+    const client = new ControlClient(socketPath);
+    try {
+      await client.request({ command: 'ping' }, 1000);
+      return client;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Send one request and wait for the reply
+   * @throws The daemon's error, or a connection/timeout error
+   */
+  request(request: ControlRequest, timeoutMs: number = ControlClient.DEFAULT_TIMEOUT_MS): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const socket = createConnection(this.socketPath);
+      let buffer = '';
+
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Daemon did not answer '${request.command}' within ${timeoutMs / 1000}s`));
+      }, timeoutMs);
+
+      socket.setEncoding('utf8');
+      socket.once('connect', () => socket.write(encodeMessage(request)));
+      socket.on('data', chunk => {
+        buffer += chunk;
+        const newline = buffer.indexOf('\n');
+        if (newline < 0) return;
+
+        clearTimeout(timer);
+        socket.end();
+        try {
+          const response: ControlResponse = JSON.parse(buffer.slice(0, newline));
+          if (response.ok) {
+            resolve(response.result);
+          } else {
+            reject(new Error(response.error || 'Daemon request failed'));
+          }
+        } catch {
+          reject(new Error('Malformed reply from daemon'));
+        }
+      });
+      socket.once('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+
+  list(): Promise<ControlBotSummary[]> {
+    return this.request({ command: 'list' });
+  }
+
+  status(): Promise<any> {
+    return this.request({ command: 'status' });
+  }
+
+  /**
+   * Start a bot (or 'all' enabled bots) in the daemon
+   * @returns Names of the bots started
+   */
+  start(botId: string): Promise<string[]> {
+    return this.request({ command: 'start', botId }, 60000);
+  }
+
+  /**
+   * Stop a bot (or 'all') in the daemon; it saves its latest state first
+   * @returns Names of the bots stopped
+   */
+  stop(botId: string): Promise<string[]> {
+    return this.request({ command: 'stop', botId }, ControlClient.DRAIN_TIMEOUT_MS);
+  }
+
+  /**
+   * Apply a config patch in the daemon, restarting the bot if it runs there
+   * @param {BotInstance} [bot] - Edited copy of a bot stopped in the daemon, saved in place of
+   * the daemon's so its next write doesn't revert the edit
+   */
+  reconfigure(botId: string, config: Partial<GridConfig>, bot?: BotInstance): Promise<BotInstance> {
+    return this.request({ command: 'reconfigure', botId, config, bot }, ControlClient.DRAIN_TIMEOUT_MS);
+  }
+
+  /**
+   * Stop and delete a bot in the daemon
+   * @returns Name of the bot deleted
+   */
+  delete(botId: string): Promise<string> {
+    return this.request({ command: 'delete', botId }, ControlClient.DRAIN_TIMEOUT_MS);
+  }
+
+  /**
+   * Change the daemon's circuit breaker settings and/or reset it
+   * @returns The breaker's status afterwards
+   */
+  circuitBreaker(changes: { config?: Partial<CircuitBreakerConfig>; reset?: boolean }): Promise<ReturnType<CircuitBreaker['getStatus']>> {
+    return this.request({ command: 'circuit-breaker', breakerConfig: changes.config, reset: changes.reset });
+  }
+
+  /**
+   * Sell every holding position of a daemon bot, which is left stopped
+   */
+  liquidate(botId: string): Promise<{ success: number; failed: number; totalProfit: string }> {
+    return this.request({ command: 'liquidate', botId }, ControlClient.LIQUIDATE_TIMEOUT_MS);
+  }
+}
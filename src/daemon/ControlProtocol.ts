@@ -0,0 +1,66 @@
+// src/daemon/ControlProtocol.ts
+// Messages exchanged over the daemon's control socket
+
+import { join } from 'path';
+import { homedir } from 'os';
+import { BotInstance, GridConfig } from '../types/index.js';
+import { CircuitBreakerConfig } from '../risk/CircuitBreaker.js';
+
+/**
+ * Unix domain socket the daemon listens on
+ */
+export const CONTROL_SOCKET_PATH = join(homedir(), '.base-trading-bot', 'daemon.sock');
+
+/**
+ * Commands the daemon accepts
+ * @description 'start' / 'stop' take a botId or 'all'; 'reconfigure' merges a config patch
+ * into a bot and restarts it if it was running; 'delete' stops and removes a bot;
+ * 'circuit-breaker' changes the daemon's breaker settings and/or resets it.
+ */
+export type ControlCommand = 'ping' | 'list' | 'status' | 'start' | 'stop' | 'reconfigure' | 'delete' | 'liquidate' | 'circuit-breaker';
+
+/**
+ * One request line sent to the daemon
+ */
+export interface ControlRequest {
+  command: ControlCommand;
+  /** Bot id, or 'all' for start/stop */
+  botId?: string;
+  /** Config changes for 'reconfigure' */
+  config?: Partial<GridConfig>;
+  /** For 'reconfigure' of a stopped bot: the CLI's edited copy, replacing the daemon's */
+  bot?: BotInstance;
+  /** Settings changes for 'circuit-breaker' */
+  breakerConfig?: Partial<CircuitBreakerConfig>;
+  /** Reset a triggered breaker ('circuit-breaker') */
+  reset?: boolean;
+}
+
+/**
+ * The daemon's reply to a request
+ */
+export interface ControlResponse {
+  ok: boolean;
+  result?: any;
+  error?: string;
+}
+
+/**
+ * A bot as listed by the daemon
+ */
+export interface ControlBotSummary {
+  id: string;
+  name: string;
+  tokenSymbol: string;
+  enabled: boolean;
+  isRunning: boolean;
+  /** Ticking in the daemon's heartbeat */
+  managed: boolean;
+}
+
+/**
+ * Encode a message as one newline-terminated JSON line
+ */
+export function encodeMessage(message: ControlRequest | ControlResponse): string {
+  return `${JSON.stringify(message)}\n`;
+}
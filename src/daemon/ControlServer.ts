@@ -0,0 +1,250 @@
+// src/daemon/ControlServer.ts
+// Control socket served by the daemon so the CLI can drive its bots
+
+import { createServer, createConnection, Server, Socket } from 'net';
+import { chmodSync, existsSync, mkdirSync, unlinkSync } from 'fs';
+import { dirname } from 'path';
+import { HeartbeatManager } from '../bot/HeartbeatManager.js';
+import { JsonStorage } from '../storage/JsonStorage.js';
+import { BotInstance } from '../types/index.js';
+import { CircuitBreaker } from '../risk/CircuitBreaker.js';
+import {
+  CONTROL_SOCKET_PATH,
+  ControlBotSummary,
+  ControlRequest,
+  ControlResponse,
+  encodeMessage,
+} from './ControlProtocol.js';
+
+/**
+ * Serves control requests against the daemon's heartbeat manager
+ * @class ControlServer
+ * @description Newline-delimited JSON over a Unix domain socket readable only by the
+ * owner. Bots the daemon manages are changed through their live TradingBot, so the
+ * daemon's in-memory state and bots.json never disagree.
+ */
+export class ControlServer {
+  private heartbeatManager: HeartbeatManager;
+  private storage: JsonStorage;
+  private socketPath: string;
+  private server: Server | null = null;
+
+  constructor(heartbeatManager: HeartbeatManager, storage: JsonStorage, socketPath: string = CONTROL_SOCKET_PATH) {
+    this.heartbeatManager = heartbeatManager;
+    this.storage = storage;
+    this.socketPath = socketPath;
+  }
+
+  /**
+   * Start listening
+   * @throws If another daemon is already answering on the socket
+   */
+  async start(): Promise<void> {
+    if (existsSync(this.socketPath)) {
+      if (await ControlServer.isAnswering(this.socketPath)) {
+        throw new Error(`Another daemon is listening on ${this.socketPath}`);
+      }
+      // Left behind by a daemon that didn't shut down cleanly
+      unlinkSync(this.socketPath);
+    }
+    mkdirSync(dirname(this.socketPath), { recursive: true });
+
+    const server = createServer(socket => this.serve(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    chmodSync(this.socketPath, 0o600);
+    this.server = server;
+  }
+
+  /**
+   * Stop listening and remove the socket
+   */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    try {
+      unlinkSync(this.socketPath);
+    } catch {}
+  }
+
+  /**
+   * Handle one request
+   */
+  async handle(request: ControlRequest): Promise<ControlResponse> {
+    try {
+      switch (request.command) {
+        case 'ping':
+          return { ok: true, result: { pid: process.pid } };
+        case 'list':
+          return { ok: true, result: await this.list() };
+        case 'status':
+          return { ok: true, result: this.heartbeatManager.getStatus() };
+        case 'start':
+          return { ok: true, result: await this.startBots(this.requireBotId(request)) };
+        case 'stop':
+          return { ok: true, result: await this.stopBots(this.requireBotId(request)) };
+        case 'reconfigure':
+          return { ok: true, result: await this.reconfigure(this.requireBotId(request), request.config ?? {}, request.bot) };
+        case 'delete':
+          return { ok: true, result: await this.deleteBot(this.requireBotId(request)) };
+        case 'liquidate':
+          return { ok: true, result: await this.liquidate(this.requireBotId(request)) };
+        case 'circuit-breaker':
+          return { ok: true, result: await this.updateCircuitBreaker(request) };
+        default:
+          return { ok: false, error: `Unknown command: ${(request as any).command}` };
+      }
+    } catch (error: any) {
+      return { ok: false, error: error.message };
+    }
+  }
+
+  private serve(socket: Socket): void {
+    let buffer = '';
+    socket.setEncoding('utf8');
+    socket.on('data', chunk => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line) continue;
+
+        let request: ControlRequest;
+        try {
+          request = JSON.parse(line);
+        } catch {
+          socket.write(encodeMessage({ ok: false, error: 'Malformed request' }));
+          continue;
+        }
+        this.handle(request).then(response => {
+          if (!socket.destroyed) socket.write(encodeMessage(response));
+        });
+      }
+    });
+    socket.on('error', () => {
+      // Ignore - the client went away
+    });
+  }
+
+  private requireBotId(request: ControlRequest): string {
+    if (!request.botId) throw new Error(`${request.command} needs a botId`);
+    return request.botId;
+  }
+
+  private async list(): Promise<ControlBotSummary[]> {
+    const bots = await this.storage.getAllBots();
+    return bots.map(stored => {
+      // Managed bots report their live state
+      const bot = this.heartbeatManager.getBot(stored.id)?.getInstance() ?? stored;
+      return {
+        id: bot.id,
+        name: bot.name,
+        tokenSymbol: bot.tokenSymbol,
+        enabled: bot.enabled,
+        isRunning: bot.isRunning,
+        managed: this.heartbeatManager.getBot(bot.id) !== undefined,
+      };
+    });
+  }
+
+  private async startBots(botId: string): Promise<string[]> {
+    const bots = await this.storage.getAllBots();
+    const targets = botId === 'all' ? bots.filter(b => b.enabled) : bots.filter(b => b.id === botId);
+    if (targets.length === 0) throw new Error(`Bot not found: ${botId}`);
+
+    const started: string[] = [];
+    for (const bot of targets) {
+      if (!bot.enabled) throw new Error(`${bot.name} is disabled`);
+      if (this.heartbeatManager.getBot(bot.id)) continue;
+      await this.heartbeatManager.addBot(bot);
+      started.push(bot.name);
+    }
+
+    this.heartbeatManager.start();
+    return started;
+  }
+
+  private async stopBots(botId: string): Promise<string[]> {
+    const managed = this.heartbeatManager.getAllBots().map(b => b.getInstance());
+    const targets = botId === 'all' ? managed : managed.filter(b => b.id === botId);
+
+    for (const bot of targets) {
+      // Waits out an in-flight trade, so the state saved below is settled
+      await this.heartbeatManager.drainBot(bot.id);
+      // Written before replying, so the caller reads the bot's final state
+      await this.storage.saveBot(bot);
+    }
+    return targets.map(b => b.name);
+  }
+
+  private async reconfigure(botId: string, config: ControlRequest['config'], edited?: BotInstance): Promise<BotInstance> {
+    const live = this.heartbeatManager.getBot(botId)?.getInstance();
+    const stored = await this.storage.getBot(botId);
+    if (!live && !stored) throw new Error(`Bot not found: ${botId}`);
+    if (edited && edited.id !== botId) throw new Error(`Edited bot is not ${botId}`);
+    if (edited && live) throw new Error(`Stop ${live.name} before replacing it`);
+    // An edited copy from the CLI replaces ours, which would otherwise be written back over it
+    const bot = edited ?? live ?? stored!;
+
+    // The old bot's tick must finish before the new one can run, or both could trade
+    if (live) await this.heartbeatManager.drainBot(botId);
+    bot.config = { ...bot.config, ...config };
+    bot.lastUpdated = Date.now();
+    await this.storage.saveBot(bot);
+
+    // Rebuilt so the new config is read from scratch
+    if (live) await this.heartbeatManager.addBot(bot);
+    return bot;
+  }
+
+  private async deleteBot(botId: string): Promise<string> {
+    const bot = this.heartbeatManager.getBot(botId)?.getInstance() ?? await this.storage.getBot(botId);
+    if (!bot) throw new Error(`Bot not found: ${botId}`);
+
+    await this.heartbeatManager.drainBot(botId);
+    await this.storage.deleteBot(botId);
+    return bot.name;
+  }
+
+  private async liquidate(botId: string): Promise<{ success: number; failed: number; totalProfit: string }> {
+    if (!this.heartbeatManager.getBot(botId)) throw new Error('Bot is not running in the daemon');
+    // A tick still running could sell the same positions; the bot stays stopped so it doesn't buy back in
+    const bot = (await this.heartbeatManager.drainBot(botId))!;
+    const result = await bot.liquidateAll();
+    await this.storage.saveBot(bot.getInstance());
+    return result;
+  }
+
+  private async updateCircuitBreaker(request: ControlRequest): Promise<ReturnType<CircuitBreaker['getStatus']>> {
+    const breaker = this.heartbeatManager.getCircuitBreaker();
+    if (!breaker) throw new Error('The daemon has no circuit breaker');
+
+    if (request.breakerConfig) {
+      breaker.updateConfig(request.breakerConfig);
+      await breaker.saveConfig();
+    }
+    if (request.reset) await breaker.reset();
+    // Applied to the bots now rather than on the next scheduled check
+    await this.heartbeatManager.checkCircuitBreaker(true);
+    return breaker.getStatus();
+  }
+
+  private static isAnswering(socketPath: string): Promise<boolean> {
+    return new Promise(resolve => {
+      const socket = createConnection(socketPath);
+      socket.once('connect', () => {
+        socket.end();
+        resolve(true);
+      });
+      socket.once('error', () => resolve(false));
+    });
+  }
+}
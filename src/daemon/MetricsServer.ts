@@ -0,0 +1,269 @@
+// src/daemon/MetricsServer.ts
+// Local HTTP endpoint with the daemon's health check and Prometheus metrics
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { HeartbeatManager } from '../bot/HeartbeatManager.js';
+import { QuoteCurrency } from '../api/QuoteCurrency.js';
+import { RpcStats } from '../api/RpcStats.js';
+import { RpcPool } from '../api/RpcPool.js';
+import { PrivateRelay } from '../wallet/PrivateRelay.js';
+import { Chain } from '../types/index.js';
+
+/**
+ * Result of the last RPC probe of a chain
+ */
+export interface RpcCheck {
+  ok: boolean;
+  /** Host of the endpoint that answered */
+  endpoint?: string;
+  blockNumber?: string;
+  error?: string;
+  checkedAt: number;
+}
+
+/**
+ * Body of /healthz
+ */
+export interface HealthReport {
+  ok: boolean;
+  /** Heartbeat is dispatching (or there is nothing to run) */
+  heartbeat: boolean;
+  /** Running bots whose ticks have stalled or hung */
+  stalledBots: string[];
+  /** By chain the running bots trade on */
+  rpc: Partial<Record<Chain, RpcCheck>>;
+}
+
+type Labels = Record<string, string>;
+
+/**
+ * Serves /healthz and /metrics for the daemon
+ * @class MetricsServer
+ * @description /healthz answers 503 when the heartbeat has stopped, a running bot hasn't
+ * finished a tick in STALL_INTERVALS of its interval (or has a hung tick), or no endpoint
+ * in the RPC pool of a chain the bots trade on returns a block number. /metrics is the Prometheus text format; counters count
+ * from daemon start. Binds to localhost unless told otherwise - neither endpoint is
+ * authenticated.
+ */
+export class MetricsServer {
+  // A running bot is stalled after this many of its intervals without a finished tick...
+  static readonly STALL_INTERVALS = 3;
+  // ...but never sooner than this, so fast bots aren't flagged by one slow tick
+  static readonly MIN_STALL_MS = 60000;
+  // Probe result reused for this long, so scrapes don't hammer the RPC
+  static readonly RPC_CHECK_MS = 15000;
+
+  private heartbeatManager: HeartbeatManager;
+  private rpcPool: RpcPool;
+  private rpcStats: RpcStats;
+  private server: Server | null = null;
+  private rpcChecks: Map<Chain, RpcCheck> = new Map();
+  private rpcChecksInFlight: Map<Chain, Promise<RpcCheck>> = new Map();
+
+  constructor(
+    heartbeatManager: HeartbeatManager,
+    rpcPool: RpcPool = RpcPool.getInstance(),
+    rpcStats: RpcStats = RpcStats.getInstance()
+  ) {
+    this.heartbeatManager = heartbeatManager;
+    this.rpcPool = rpcPool;
+    this.rpcStats = rpcStats;
+  }
+
+  /**
+   * Start listening
+   * @returns The port listened on (useful with port 0)
+   */
+  async start(port: number, host: string = '127.0.0.1'): Promise<number> {
+    const server = createServer((req, res) => {
+      this.serve(req, res).catch(error => {
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end(`${error.message}\n`);
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    return (server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Check the heartbeat, each running bot's ticks and the RPC
+   */
+  async health(): Promise<HealthReport> {
+    const now = Date.now();
+    const status = this.heartbeatManager.getStatus();
+    const stalledBots = status.bots
+      .filter(b => b.isRunning)
+      .filter(b => {
+        const stallMs = Math.max(b.intervalMs * MetricsServer.STALL_INTERVALS, MetricsServer.MIN_STALL_MS);
+        return b.hung || (b.lastTickAt > 0 && now - b.lastTickAt > stallMs);
+      })
+      .map(b => b.name);
+
+    const heartbeat = status.isRunning || status.totalBots === 0;
+    const rpc: Partial<Record<Chain, RpcCheck>> = {};
+    for (const chain of this.chains()) {
+      rpc[chain] = await this.checkRpc(chain);
+    }
+    const rpcOk = Object.values(rpc).every(check => check.ok);
+    return { ok: heartbeat && stalledBots.length === 0 && rpcOk, heartbeat, stalledBots, rpc };
+  }
+
+  /**
+   * Current metrics in the Prometheus text format
+   */
+  metrics(): string {
+    const now = Date.now();
+    const status = this.heartbeatManager.getStatus();
+    const ticks = new Map(status.bots.map(b => [b.id, b]));
+    const bots = this.heartbeatManager.getAllBots().map(bot => {
+      const instance = bot.getInstance();
+      return {
+        instance,
+        errors: bot.getErrorCounts(),
+        tick: ticks.get(instance.id),
+        labels: { bot: instance.id, name: instance.name, token: instance.tokenSymbol },
+      };
+    });
+    const rpc = this.rpcStats.getStatus();
+    const lines: string[] = [];
+
+    writeMetric(lines, 'basebot_heartbeat_running', 'gauge', 'Heartbeat is dispatching ticks', [[{}, status.isRunning ? 1 : 0]]);
+    writeMetric(lines, 'basebot_bots', 'gauge', 'Bots managed by the heartbeat', [[{}, status.totalBots]]);
+    writeMetric(lines, 'basebot_active_ticks', 'gauge', 'Ticks in flight (excluding hung ones)', [[{}, status.activeTicks]]);
+    writeMetric(lines, 'basebot_circuit_breaker_halted', 'gauge', 'Circuit breaker is halting trades', [[{}, status.circuitBreaker === 'none' ? 0 : 1]]);
+
+    writeMetric(lines, 'basebot_bot_running', 'gauge', 'Bot is running', bots.map(b => [b.labels, b.instance.isRunning ? 1 : 0]));
+    writeMetric(lines, 'basebot_bot_price', 'gauge', 'Last token price in the quote token', bots.map(b => [b.labels, b.instance.currentPrice || 0]));
+    writeMetric(lines, 'basebot_bot_holding_positions', 'gauge', 'Positions holding tokens', bots.map(b => [
+      b.labels,
+      b.instance.positions.filter(p => p.status === 'HOLDING').length,
+    ]));
+    writeMetric(lines, 'basebot_bot_realized_profit', 'gauge', 'Realized profit in the quote token', bots.map(b => [
+      { ...b.labels, quote: QuoteCurrency.symbol(b.instance.quoteToken) },
+      Number(QuoteCurrency.format(BigInt(b.instance.totalProfitEth || '0'), b.instance.quoteToken)),
+    ]));
+    writeMetric(lines, 'basebot_bot_consecutive_errors', 'gauge', 'Trade failures in a row', bots.map(b => [b.labels, b.errors.consecutive]));
+    writeMetric(lines, 'basebot_bot_last_tick_age_seconds', 'gauge', 'Seconds since the last tick finished', bots
+      .filter(b => b.tick && b.tick.lastTickAt > 0)
+      .map(b => [b.labels, (now - b.tick!.lastTickAt) / 1000]));
+
+    writeMetric(lines, 'basebot_bot_trades_total', 'counter', 'Trades executed', bots.flatMap(b => [
+      [{ ...b.labels, side: 'buy' }, b.instance.totalBuys],
+      [{ ...b.labels, side: 'sell' }, b.instance.totalSells],
+    ] as [Labels, number][]));
+    writeMetric(lines, 'basebot_bot_trade_failures_total', 'counter', 'Failed trades since the bot was started', bots.map(b => [b.labels, b.errors.total]));
+    writeMetric(lines, 'basebot_bot_tick_errors_total', 'counter', 'Ticks that threw since the bot was started', bots.map(b => [b.labels, b.tick?.errors ?? 0]));
+
+    writeMetric(lines, 'basebot_zerox_requests_total', 'counter', '0x API requests sent', Object.entries(status.rateLimit.requests).map(
+      ([endpoint, count]) => [{ endpoint }, count]
+    ));
+    writeMetric(lines, 'basebot_zerox_failures_total', 'counter', '0x API requests that failed (excluding 429s)', [[{}, status.rateLimit.failures]]);
+    writeMetric(lines, 'basebot_zerox_throttles_total', 'counter', '0x API 429 responses', [[{}, status.rateLimit.totalThrottles]]);
+    writeMetric(lines, 'basebot_rpc_requests_total', 'counter', 'JSON-RPC calls', Object.entries(rpc.requests).map(
+      ([method, count]) => [{ method }, count]
+    ));
+    writeMetric(lines, 'basebot_rpc_failures_total', 'counter', 'JSON-RPC calls that failed after retries', [[{}, rpc.failures]]);
+
+    const endpoints = this.chains().flatMap(chain => this.rpcPool.getStatus(chain).map(e => ({
+      e,
+      labels: { chain, endpoint: PrivateRelay.label(e.url) },
+    })));
+    writeMetric(lines, 'basebot_rpc_endpoint_up', 'gauge', 'RPC endpoint is not cooling down after failures', endpoints.map(
+      ({ e, labels }) => [labels, e.healthy ? 1 : 0]
+    ));
+    writeMetric(lines, 'basebot_rpc_endpoint_current', 'gauge', 'RPC endpoint requests go to first', endpoints.map(
+      ({ e, labels }) => [labels, e.current ? 1 : 0]
+    ));
+    writeMetric(lines, 'basebot_rpc_endpoint_latency_seconds', 'gauge', 'Moving average RPC endpoint latency', endpoints
+      .filter(({ e }) => e.latencyMs !== null)
+      .map(({ e, labels }) => [labels, e.latencyMs! / 1000]));
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private async serve(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url ?? '/').split('?')[0];
+    if (req.method !== 'GET') {
+      res.writeHead(405, { 'Content-Type': 'text/plain', Allow: 'GET' });
+      res.end('Method not allowed\n');
+      return;
+    }
+
+    if (path === '/healthz') {
+      const report = await this.health();
+      res.writeHead(report.ok ? 200 : 503, { 'Content-Type': 'application/json' });
+      res.end(`${JSON.stringify(report)}\n`);
+    } else if (path === '/metrics') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(this.metrics());
+    } else {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found\n');
+    }
+  }
+
+  /**
+   * Chains the managed bots trade on (base when there are none)
+   */
+  private chains(): Chain[] {
+    const chains = new Set(this.heartbeatManager.getAllBots().map(b => b.getInstance().chain ?? 'base'));
+    return chains.size > 0 ? Array.from(chains) : ['base'];
+  }
+
+  private checkRpc(chain: Chain): Promise<RpcCheck> {
+    const cached = this.rpcChecks.get(chain);
+    if (cached && Date.now() - cached.checkedAt < MetricsServer.RPC_CHECK_MS) {
+      return Promise.resolve(cached);
+    }
+    let inFlight = this.rpcChecksInFlight.get(chain);
+    if (!inFlight) {
+      inFlight = this.probeRpc(chain).finally(() => {
+        this.rpcChecksInFlight.delete(chain);
+      });
+      this.rpcChecksInFlight.set(chain, inFlight);
+    }
+    return inFlight;
+  }
+
+  private async probeRpc(chain: Chain): Promise<RpcCheck> {
+    const result = await this.rpcPool.probe(chain);
+    const check: RpcCheck = result
+      ? { ok: true, endpoint: PrivateRelay.label(result.url), blockNumber: result.blockNumber.toString(), checkedAt: Date.now() }
+      : { ok: false, error: `No ${chain} RPC endpoint answered`, checkedAt: Date.now() };
+    this.rpcChecks.set(chain, check);
+    return check;
+  }
+}
+
+/**
+ * Append one metric family (HELP, TYPE and a line per sample)
+ */
+function writeMetric(lines: string[], name: string, type: 'gauge' | 'counter', help: string, samples: [Labels, number][]): void {
+  lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  for (const [labels, value] of samples) {
+    const pairs = Object.entries(labels).map(([key, v]) => `${key}="${escapeLabel(v)}"`);
+    lines.push(`${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${Number.isFinite(value) ? value : 0}`);
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -3,11 +3,18 @@
 // Background daemon process that runs bots persistently
 
 import { WalletManager } from '../wallet/WalletManager.js';
+import { NonceManager } from '../wallet/NonceManager.js';
 import { ZeroXApi } from '../api/ZeroXApi.js';
 import { JsonStorage } from '../storage/JsonStorage.js';
 import { HeartbeatManager } from '../bot/HeartbeatManager.js';
-import { NotificationService } from '../notifications/NotificationService.js';
+import { NotificationService, NOTIFICATION_SETTINGS_CONFIG_KEY } from '../notifications/NotificationService.js';
 import { PnLTracker } from '../analytics/PnLTracker.js';
+import { CircuitBreaker } from '../risk/index.js';
+import { ControlServer } from './ControlServer.js';
+import { ConfigReloader } from './ConfigReloader.js';
+import { MetricsServer } from './MetricsServer.js';
+import { RpcPool } from '../api/RpcPool.js';
+import { PrivateRelay } from '../wallet/PrivateRelay.js';
 import { join } from 'path';
 import { homedir } from 'os';
 import dotenv from 'dotenv';
@@ -15,8 +22,10 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 const DATA_DIR = join(homedir(), '.base-trading-bot');
-const RPC_URL = process.env.BASE_RPC_URL || 'https://base.llamarpc.com';
 const ZEROX_API_KEY = process.env.ZEROX_API_KEY || '';
+// Health/metrics endpoint is off unless a port is set
+const METRICS_PORT = process.env.METRICS_PORT ? parseInt(process.env.METRICS_PORT) : null;
+const METRICS_HOST = process.env.METRICS_HOST || '127.0.0.1';
 
 console.log(`[${new Date().toISOString()}] Bot Daemon Starting...`);
 console.log(`[${new Date().toISOString()}] Data directory: ${DATA_DIR}`);
@@ -25,16 +34,30 @@ console.log(`[${new Date().toISOString()}] Data directory: ${DATA_DIR}`);
 const storage = new JsonStorage(join(DATA_DIR, 'bots.json'));
 const walletManager = new WalletManager();
 const zeroXApi = new ZeroXApi(ZEROX_API_KEY);
+// Endpoints per chain (BASE_RPC_URL / ETH_RPC_URL first), shared by every bot
+const rpcPool = RpcPool.getInstance();
 const heartbeatManager = new HeartbeatManager(
   walletManager,
   zeroXApi,
   storage,
-  RPC_URL
+  rpcPool
 );
 
+// Control socket for the CLI (start/stop/reconfigure bots without a second heartbeat)
+const controlServer = new ControlServer(heartbeatManager, storage);
+
+// Applies bots.json edits on SIGHUP
+const configReloader = new ConfigReloader(heartbeatManager, storage);
+
+// /healthz and /metrics for monitoring
+const metricsServer = new MetricsServer(heartbeatManager, rpcPool);
+
 // Track if we're shutting down
 let shuttingDown = false;
 
+// Reload in progress; SIGHUPs arriving mid-reload queue behind it
+let reloading: Promise<void> = Promise.resolve();
+
 // Graceful shutdown
 async function shutdown(signal: string) {
   if (shuttingDown) return;
@@ -42,7 +65,11 @@ async function shutdown(signal: string) {
   
   console.log(`[${new Date().toISOString()}] Received ${signal}, shutting down gracefully...`);
   
-  // Stop all bots
+  // Refuse further control requests, then stop all bots
+  await controlServer.stop().catch(() => {
+    // Ignore - the socket file is replaced on next start
+  });
+  await metricsServer.stop();
   heartbeatManager.stop();
   
   // Give time for cleanup
@@ -57,9 +84,37 @@ process.on('SIGTERM', () => shutdown('SIGTERM'));
 process.on('SIGINT', () => shutdown('SIGINT'));
 process.on('SIGHUP', () => {
   console.log(`[${new Date().toISOString()}] SIGHUP received, reloading...`);
-  // Reload configuration if needed
+  reloading = reloading.then(reload);
 });
 
+// Re-read .env, notification settings and bots.json without restarting
+async function reload() {
+  if (shuttingDown) return;
+  try {
+    dotenv.config({ override: true });
+    const notificationService = NotificationService.getInstance();
+    notificationService.reload(await storage.getConfig(NOTIFICATION_SETTINGS_CONFIG_KEY));
+    heartbeatManager.setMaxConcurrency(await storage.getConfig('maxConcurrentTicks', HeartbeatManager.DEFAULT_MAX_CONCURRENCY));
+
+    // Breaker settings and state as saved (a reset or config change made elsewhere)
+    const circuitBreaker = heartbeatManager.getCircuitBreaker();
+    if (circuitBreaker) {
+      await circuitBreaker.init();
+      await heartbeatManager.checkCircuitBreaker(true);
+    }
+
+    const summary = ConfigReloader.describe(await configReloader.reload());
+    const status = heartbeatManager.getStatus();
+    console.log(`[${new Date().toISOString()}] Reloaded: ${summary} (${status.totalBots} bots running, notifications ${notificationService.isConfigured() ? 'on' : 'off'})`);
+
+    if (notificationService.isConfigured()) {
+      await notificationService.sendMessage(`♻️ Bot Daemon Reloaded\n${summary}\n${status.totalBots} bots running`);
+    }
+  } catch (error: any) {
+    console.error(`[${new Date().toISOString()}] Reload failed:`, error.message);
+  }
+}
+
 // Handle uncaught errors
 process.on('uncaughtException', (error) => {
   console.error(`[${new Date().toISOString()}] Uncaught exception:`, error);
@@ -79,7 +134,7 @@ async function main() {
     
     // Initialize notifications if configured
     const notificationService = NotificationService.getInstance();
-    notificationService.initializeFromEnv();
+    notificationService.reload(await storage.getConfig(NOTIFICATION_SETTINGS_CONFIG_KEY));
     
     // Initialize wallet manager (requires password from environment or file)
     // In daemon mode, we need the password stored securely
@@ -99,9 +154,32 @@ async function main() {
     await pnLTracker.init();
     console.log(`[${new Date().toISOString()}] PnL tracker initialized`);
     
+    // Initialize circuit breaker (settings shared with the CLI via storage)
+    const circuitBreaker = new CircuitBreaker(storage);
+    await circuitBreaker.init();
+    heartbeatManager.setCircuitBreaker(circuitBreaker);
+    console.log(`[${new Date().toISOString()}] Circuit breaker initialized`);
+    
+    // Concurrency limit shared with the CLI via storage
+    heartbeatManager.setMaxConcurrency(await storage.getConfig('maxConcurrentTicks', HeartbeatManager.DEFAULT_MAX_CONCURRENCY));
+
     // Load and start bots
     await heartbeatManager.loadBots();
     heartbeatManager.start();
+    await configReloader.snapshot();
+
+    await controlServer.start();
+    console.log(`[${new Date().toISOString()}] Control socket listening`);
+
+    if (METRICS_PORT !== null) {
+      try {
+        const port = await metricsServer.start(METRICS_PORT, METRICS_HOST);
+        console.log(`[${new Date().toISOString()}] Health and metrics on http://${METRICS_HOST}:${port}/healthz, /metrics`);
+      } catch (error: any) {
+        // Monitoring is optional - keep trading without it
+        console.error(`[${new Date().toISOString()}] Metrics server failed to start:`, error.message);
+      }
+    }
     
     const bots = await storage.getAllBots();
     const runningBots = bots.filter(b => b.enabled && b.isRunning).length;
@@ -120,7 +198,29 @@ async function main() {
     // Periodic status log
     setInterval(async () => {
       const status = heartbeatManager.getStatus();
-      console.log(`[${new Date().toISOString()}] Heartbeat: ${status.isRunning ? 'running' : 'stopped'}, bots: ${status.totalBots}`);
+      console.log(`[${new Date().toISOString()}] Heartbeat: ${status.isRunning ? 'running' : 'stopped'}, bots: ${status.totalBots}, circuit breaker: ${status.circuitBreaker}, 0x API: ${status.rateLimit.throttled ? 'throttled' : 'ok'}`);
+
+      // Bots whose ticks take longer than their interval fall behind
+      for (const bot of status.bots.filter(b => b.hung || b.avgTickMs > b.intervalMs)) {
+        console.warn(`[${new Date().toISOString()}] ${bot.name}: ${bot.hung ? 'tick hung' : `ticks average ${bot.avgTickMs}ms`} (interval ${bot.intervalMs}ms)`);
+      }
+
+      // Endpoints cooling down after failures, for chains bots trade on
+      const chains = new Set(heartbeatManager.getAllBots().map(b => b.getInstance().chain ?? 'base'));
+      for (const chain of chains) {
+        const endpoints = rpcPool.getStatus(chain);
+        const down = endpoints.filter(e => !e.healthy);
+        if (down.length > 0) {
+          console.warn(`[${new Date().toISOString()}] ${chain} RPC on ${PrivateRelay.label(endpoints[0].url)}, ${down.length}/${endpoints.length} endpoints down: ${down.map(e => `${PrivateRelay.label(e.url)} (${e.lastError})`).join(', ')}`);
+        }
+      }
+
+      // Bots share one nonce queue per wallet; surface gaps and stuck transactions
+      for (const report of await NonceManager.getInstance().inspectAll()) {
+        for (const issue of report.issues) {
+          console.warn(`[${new Date().toISOString()}] Nonce ${report.address.slice(0, 10)}... on ${report.chain}: ${issue}`);
+        }
+      }
     }, 60000); // Every minute
     
   } catch (error) {
@@ -4,7 +4,45 @@
  * @version 1.4.0
  */
 
-import { Position, GridConfig } from '../types/index.js';
+import { Position, GridConfig, PositionCycle, TakeProfitTier, TakeProfitFill, ExitReason } from '../types/index.js';
+
+/**
+ * Outcome of shifting a grid to follow price
+ * @interface GridShiftResult
+ */
+export interface GridShiftResult {
+  /** New position list: kept HOLDING/SOLD positions plus the rebuilt levels, by buyMin */
+  positions: Position[];
+  /** Range before the shift */
+  from: { floor: number; ceiling: number };
+  /** Range after the shift */
+  to: { floor: number; ceiling: number };
+  /** Multiplier applied to the range (above 1 shifts up) */
+  factor: number;
+  /** Number of new EMPTY levels */
+  added: number;
+  /** Number of EMPTY levels dropped */
+  removed: number;
+  /** Number of HOLDING positions carried over unchanged */
+  holding: number;
+}
+
+/**
+ * What the next sell of a HOLDING position should be
+ * @interface SellPlan
+ */
+export interface SellPlan {
+  /** Tokens to sell in wei */
+  tokenAmount: string;
+  /** Share of the position's ethCost allocated to those tokens in wei */
+  costEth: string;
+  /** Tokens kept back as the moon bag in wei */
+  moonBag: string;
+  /** Take-profit tier number (1 = first) when scaling out */
+  tier?: number;
+  /** True if only the moon bag is left after this sell */
+  final: boolean;
+}
 
 /**
  * Calculates and manages grid trading positions
@@ -19,12 +57,14 @@ export class GridCalculator {
    * @param {GridConfig} config - Grid configuration parameters
    * @returns {Position[]} Array of positions with continuous coverage
    * @description Each position covers [buyMin, buyMax] with no gaps between positions.
-   * The grid spans from floorPrice to ceilingPrice divided into numPositions segments.
+   * The grid spans from floorPrice to ceilingPrice divided into numPositions segments,
+   * spaced according to config.gridSpacing (see calculateBreakpoints).
    * @example
    * const positions = GridCalculator.generateGrid(0.0001, {
    *   numPositions: 24,
    *   floorPrice: 0.00001,
    *   ceilingPrice: 0.0004,
+   *   gridSpacing: 'geometric',
    *   takeProfitPercent: 8
    * });
    */
@@ -32,41 +72,18 @@ export class GridCalculator {
     currentPrice: number,
     config: GridConfig
   ): Position[] {
-    // Validate numPositions
-    if (config.numPositions <= 0) {
-      throw new Error(`Invalid numPositions: ${config.numPositions}. Must be greater than 0.`);
-    }
-
+    const breakpoints = this.calculateBreakpoints(currentPrice, config);
+    const ceilingPrice = breakpoints[breakpoints.length - 1];
     const positions: Position[] = [];
 
-    // Determine floor and ceiling
-    let floorPrice: number;
-    let ceilingPrice: number;
-
-    if (config.floorPrice && config.ceilingPrice) {
-      floorPrice = config.floorPrice;
-      ceilingPrice = config.ceilingPrice;
-    } else {
-      // Auto-calculate based on current price
-      floorPrice = currentPrice / 10;  // 1/10 of current
-      ceilingPrice = currentPrice * 4;  // 4x current
-    }
-
-    // Calculate total range
-    const totalRange = ceilingPrice - floorPrice;
-
     // Generate positions with continuous ranges
-    for (let i = 0; i < config.numPositions; i++) {
-      // Calculate position's share of the range
-      const rangeStart = floorPrice + (totalRange * i) / config.numPositions;
-      const rangeEnd = floorPrice + (totalRange * (i + 1)) / config.numPositions;
-
-      const buyMin = rangeStart;
+    for (let i = 0; i < breakpoints.length - 1; i++) {
+      const buyMin = breakpoints[i];
       // Clamp buyMax to ceiling to handle floating point precision issues
-      const buyMax = Math.min(rangeEnd, ceilingPrice);
+      const buyMax = Math.min(breakpoints[i + 1], ceilingPrice);
 
       // Sell price is based on buyMax for minimum guaranteed profit
-      const sellPrice = buyMax * (1 + config.takeProfitPercent / 100);
+      const sellPrice = this.getTakeProfitPrice(buyMax, config);
 
       // Stop loss is based on buyMin
       // Clamp stopLossPercent to valid range (0-100) to prevent negative prices
@@ -89,6 +106,100 @@ export class GridCalculator {
     return positions;
   }
 
+  /**
+   * Calculate the price boundaries of every grid level
+   * @static
+   * @param {number} currentPrice - Current token price in ETH
+   * @param {GridConfig} config - Grid configuration parameters
+   * @returns {number[]} Ascending boundaries - numPositions + 1 values
+   * @description Level i covers [breakpoints[i], breakpoints[i + 1]].
+   * - 'arithmetic': equal price width per level (default)
+   * - 'geometric': constant ratio between levels, so each level spans the same % move
+   * - 'custom': config.customBreakpoints as given (numPositions is ignored)
+   * @throws {Error} If the layout cannot produce at least one level
+   */
+  static calculateBreakpoints(currentPrice: number, config: GridConfig): number[] {
+    const spacing = config.gridSpacing || 'arithmetic';
+
+    if (spacing === 'custom') {
+      const breakpoints = this.normalizeBreakpoints(config.customBreakpoints || []);
+      if (breakpoints.length < 2) {
+        throw new Error('Custom grid spacing needs at least 2 distinct positive breakpoints.');
+      }
+      return breakpoints;
+    }
+
+    // Validate numPositions
+    if (config.numPositions <= 0) {
+      throw new Error(`Invalid numPositions: ${config.numPositions}. Must be greater than 0.`);
+    }
+
+    // Determine floor and ceiling
+    let floorPrice: number;
+    let ceilingPrice: number;
+
+    if (config.floorPrice && config.ceilingPrice) {
+      floorPrice = config.floorPrice;
+      ceilingPrice = config.ceilingPrice;
+    } else {
+      // Auto-calculate based on current price
+      floorPrice = currentPrice / 10;  // 1/10 of current
+      ceilingPrice = currentPrice * 4;  // 4x current
+    }
+
+    const breakpoints: number[] = [];
+
+    if (spacing === 'geometric') {
+      if (floorPrice <= 0) {
+        throw new Error(`Invalid floorPrice: ${floorPrice}. Geometric spacing needs a positive floor.`);
+      }
+      const ratio = Math.pow(ceilingPrice / floorPrice, 1 / config.numPositions);
+      for (let i = 0; i <= config.numPositions; i++) {
+        breakpoints.push(floorPrice * Math.pow(ratio, i));
+      }
+    } else {
+      const totalRange = ceilingPrice - floorPrice;
+      for (let i = 0; i <= config.numPositions; i++) {
+        breakpoints.push(floorPrice + (totalRange * i) / config.numPositions);
+      }
+    }
+
+    // Pin the last boundary to the ceiling exactly
+    breakpoints[breakpoints.length - 1] = ceilingPrice;
+
+    return breakpoints;
+  }
+
+  /**
+   * Parse a comma/space separated list of price breakpoints
+   * @static
+   * @param {string} input - e.g. "0.00001, 0.00002, 0.00005, 0.0001"
+   * @returns {number[]} Sorted, de-duplicated positive breakpoints
+   * @throws {Error} If any entry is not a positive number
+   */
+  static parseBreakpoints(input: string): number[] {
+    const values = input
+      .split(/[\s,]+/)
+      .filter(v => v.length > 0)
+      .map(v => {
+        const value = parseFloat(v);
+        if (isNaN(value) || value <= 0) {
+          throw new Error(`Invalid breakpoint: ${v}`);
+        }
+        return value;
+      });
+    return this.normalizeBreakpoints(values);
+  }
+
+  /**
+   * Sort ascending and drop duplicates / non-positive values
+   * @private
+   * @static
+   */
+  private static normalizeBreakpoints(values: number[]): number[] {
+    return [...new Set(values.filter(v => v > 0))].sort((a, b) => a - b);
+  }
+
   /**
    * Find position that should buy at current price
    * @static
@@ -96,8 +207,8 @@ export class GridCalculator {
    * @param {number} currentPrice - Current token price
    * @param {number} [tolerance] - Optional price tolerance buffer
    * @returns {Position | null} Position to buy or null if no match
-   * @description Returns the first EMPTY position where currentPrice is within
-   * [buyMin, buyMax] range. Includes optional tolerance for floating point precision.
+   * @description Returns the first EMPTY position (without a pending buy) where currentPrice
+   * is within [buyMin, buyMax] range. Includes optional tolerance for floating point precision.
    */
   static findBuyPosition(
     positions: Position[],
@@ -105,7 +216,7 @@ export class GridCalculator {
     tolerance?: number
   ): Position | null {
     for (const position of positions) {
-      if (position.status !== 'EMPTY') continue;
+      if (position.status !== 'EMPTY' || position.pendingTx) continue;
 
       // Check if price is within the buy range [buyMin, buyMax]
       // Allow small buffer at boundaries for floating point precision
@@ -127,7 +238,8 @@ export class GridCalculator {
    * @param {number} currentPrice - Current token price
    * @returns {Position[]} Array of positions ready to sell
    * @description Returns all HOLDING positions where currentPrice >= sellPrice
-   * or currentPrice <= stopLossPrice (if stop loss enabled).
+   * or currentPrice <= stopLossPrice (if stop loss enabled). Positions with a
+   * pending sell are skipped until it resolves.
    */
   static findSellPositions(
     positions: Position[],
@@ -136,7 +248,7 @@ export class GridCalculator {
     const sellPositions: Position[] = [];
 
     for (const position of positions) {
-      if (position.status !== 'HOLDING') continue;
+      if (position.status !== 'HOLDING' || position.pendingTx) continue;
 
       // Sell when price reaches target (based on buyMax)
       if (currentPrice >= position.sellPrice) {
@@ -153,6 +265,193 @@ export class GridCalculator {
     return sellPositions;
   }
 
+  /**
+   * Parse a take-profit ladder
+   * @static
+   * @param {string} input - "percent@profit" pairs, e.g. "30@5, 40@10, 30@20"
+   * @returns {TakeProfitTier[]} Validated tiers in ascending profit order
+   * @throws {Error} If an entry is malformed or the ladder is invalid
+   */
+  static parseTakeProfitTiers(input: string): TakeProfitTier[] {
+    const tiers = input
+      .split(/[\s,]+/)
+      .filter(v => v.length > 0)
+      .map(v => {
+        const [percent, profitPercent] = v.split('@').map(part => parseFloat(part.replace('%', '')));
+        if (isNaN(percent) || isNaN(profitPercent)) {
+          throw new Error(`Invalid take-profit tier: ${v} (expected percent@profit, e.g. 30@5)`);
+        }
+        return { percent, profitPercent };
+      });
+    this.validateTakeProfitTiers(tiers);
+    return tiers;
+  }
+
+  /**
+   * Validate a take-profit ladder
+   * @static
+   * @param {TakeProfitTier[]} tiers - Tiers to check
+   * @throws {Error} If there are no tiers, a share or profit is out of range,
+   * profits are not strictly ascending or the shares add up to more than 100%
+   * @description Shares may add up to less than 100% - the last tier always sells the rest.
+   */
+  static validateTakeProfitTiers(tiers: TakeProfitTier[]): void {
+    if (tiers.length === 0) {
+      throw new Error('At least one take-profit tier is required');
+    }
+
+    let total = 0;
+    for (let i = 0; i < tiers.length; i++) {
+      const { percent, profitPercent } = tiers[i];
+      if (!(percent > 0 && percent <= 100)) {
+        throw new Error(`Tier ${i + 1}: share must be between 0 and 100% (got ${percent})`);
+      }
+      if (!(profitPercent > 0)) {
+        throw new Error(`Tier ${i + 1}: profit must be positive (got ${profitPercent})`);
+      }
+      if (i > 0 && profitPercent <= tiers[i - 1].profitPercent) {
+        throw new Error(`Tier ${i + 1}: profit must be above tier ${i} (${tiers[i - 1].profitPercent}%)`);
+      }
+      total += percent;
+    }
+
+    if (total > 100 + 1e-9) {
+      throw new Error(`Tier shares add up to ${total}% (max 100%)`);
+    }
+  }
+
+  /**
+   * Format a take-profit ladder for display
+   * @static
+   * @param {TakeProfitTier[]} tiers - Tiers to format
+   * @returns {string} e.g. "30% @ +5%, 40% @ +10%, rest @ +20%"
+   */
+  static formatTakeProfitTiers(tiers: TakeProfitTier[]): string {
+    return tiers
+      .map((tier, i) => `${i === tiers.length - 1 ? 'rest' : `${tier.percent}%`} @ +${tier.profitPercent}%`)
+      .join(', ');
+  }
+
+  /**
+   * Target sell price of a level
+   * @static
+   * @param {number} buyMax - Top of the level's buy range
+   * @param {GridConfig} config - Grid configuration
+   * @param {number} [tierIndex] - Take-profit tier (0-based) when scaling out (default: first)
+   * @returns {number} buyMax raised by the tier's profit, or by takeProfitPercent without tiers
+   */
+  static getTakeProfitPrice(buyMax: number, config: GridConfig, tierIndex: number = 0): number {
+    const tiers = config.takeProfitTiers;
+    const profitPercent = tiers && tiers.length > 0
+      ? tiers[Math.min(tierIndex, tiers.length - 1)].profitPercent
+      : config.takeProfitPercent;
+    return buyMax * (1 + profitPercent / 100);
+  }
+
+  /**
+   * Work out how much of a HOLDING position the next sell should cover
+   * @static
+   * @param {Position} position - HOLDING position
+   * @param {GridConfig} config - Grid configuration (moon bag, takeProfitTiers)
+   * @param {ExitReason} exitReason - Why the position is being sold
+   * @returns {SellPlan} Tokens to sell and the cost basis they carry
+   * @description Take-profit sells with tiers configured sell the next tier's share of
+   * the sellable tokens (tokensReceived minus moon bag), carrying the same share of
+   * ethCost. The last tier, and every stop/trailing/liquidation exit, sells whatever is
+   * left with the remaining cost basis.
+   */
+  static getSellPlan(position: Position, config: GridConfig, exitReason: ExitReason): SellPlan {
+    const received = BigInt(position.tokensReceived || '0');
+    const moonBag = config.moonBagEnabled
+      ? (received * BigInt(config.moonBagPercent)) / BigInt(100)
+      : BigInt(0);
+    const sellable = received - moonBag;
+    const ethCost = BigInt(position.ethCost || '0');
+
+    const fills = position.tierFills || [];
+    const sold = fills.reduce((sum, f) => sum + BigInt(f.tokensSold), BigInt(0));
+    const costUsed = fills.reduce((sum, f) => sum + BigInt(f.costEth), BigInt(0));
+    const remaining = sellable > sold ? sellable - sold : BigInt(0);
+    const remainingCost = ethCost > costUsed ? ethCost - costUsed : BigInt(0);
+
+    const tiers = config.takeProfitTiers || [];
+    const tierIndex = Math.min(fills.length, tiers.length - 1);
+    const scaling = exitReason === 'take-profit' && tiers.length > 0;
+
+    if (scaling && tierIndex < tiers.length - 1) {
+      const amount = (sellable * BigInt(Math.round(tiers[tierIndex].percent * 100))) / BigInt(10000);
+      if (amount > BigInt(0) && amount < remaining) {
+        return {
+          tokenAmount: amount.toString(),
+          costEth: (sellable > BigInt(0) ? (ethCost * amount) / sellable : BigInt(0)).toString(),
+          moonBag: moonBag.toString(),
+          tier: tierIndex + 1,
+          final: false,
+        };
+      }
+    }
+
+    return {
+      tokenAmount: remaining.toString(),
+      costEth: remainingCost.toString(),
+      moonBag: moonBag.toString(),
+      ...(scaling ? { tier: tierIndex + 1 } : {}),
+      final: true,
+    };
+  }
+
+  /**
+   * Book a sell against a position
+   * @static
+   * @param {Position} position - Position sold from (mutated)
+   * @param {GridConfig} config - Grid configuration
+   * @param {SellPlan} plan - Plan the sell was made from
+   * @param {Omit<TakeProfitFill, 'tier' | 'costEth'>} fill - Sell outcome; profitEth is computed by the caller
+   * @description A partial tier fill keeps the position HOLDING, tracks tokensRemaining and
+   * realizedProfitEth, and moves sellPrice to the next tier. A final sell marks it SOLD; for a
+   * position that scaled out, ethReceived and profitEth are the blended totals of every fill.
+   */
+  static applySell(
+    position: Position,
+    config: GridConfig,
+    plan: SellPlan,
+    fill: Omit<TakeProfitFill, 'tier' | 'costEth'>
+  ): void {
+    const scaled = plan.tier !== undefined || position.tierFills !== undefined;
+
+    if (scaled) {
+      position.tierFills = [
+        ...(position.tierFills || []),
+        { ...(plan.tier !== undefined ? { tier: plan.tier } : {}), ...fill, costEth: plan.costEth },
+      ];
+    }
+    const fills = position.tierFills || [];
+    const realized = fills.reduce((sum, f) => sum + BigInt(f.profitEth), BigInt(0));
+
+    if (!plan.final) {
+      const sold = fills.reduce((sum, f) => sum + BigInt(f.tokensSold), BigInt(0));
+      position.tokensRemaining = (BigInt(position.tokensReceived || '0') - sold).toString();
+      position.realizedProfitEth = realized.toString();
+      position.sellPrice = this.getTakeProfitPrice(position.buyMax, config, fills.length);
+      return;
+    }
+
+    const profit = scaled ? realized : BigInt(fill.profitEth);
+    const ethCost = BigInt(position.ethCost || '0');
+
+    position.status = 'SOLD';
+    position.sellTxHash = fill.txHash;
+    position.sellTimestamp = fill.timestamp;
+    position.ethReceived = scaled
+      ? fills.reduce((sum, f) => sum + BigInt(f.ethReceived), BigInt(0)).toString()
+      : fill.ethReceived;
+    position.profitEth = profit.toString();
+    position.profitPercent = ethCost > BigInt(0) ? Number((profit * BigInt(10000)) / ethCost) / 100 : 0;
+    position.exitReason = fill.exitReason;
+    delete position.tokensRemaining;
+    delete position.realizedProfitEth;
+  }
+
   /**
    * Find next buy opportunity (closest empty position above current price)
    * @static
@@ -195,12 +494,12 @@ export class GridCalculator {
    * Count active (holding) positions
    * @static
    * @param {Position[]} positions - Array of grid positions
-   * @returns {number} Count of positions with HOLDING status
-   * @description Returns the number of positions currently holding tokens.
-   * Used to enforce maxActivePositions limit.
+   * @returns {number} Count of HOLDING positions plus pending buys
+   * @description Returns the number of positions currently holding tokens or
+   * waiting on a buy. Used to enforce maxActivePositions limit.
    */
   static countActivePositions(positions: Position[]): number {
-    return positions.filter(p => p.status === 'HOLDING').length;
+    return positions.filter(p => p.status === 'HOLDING' || p.pendingTx?.side === 'buy').length;
   }
 
   /**
@@ -256,7 +555,8 @@ export class GridCalculator {
    * @returns {number} returns.holding - Count of HOLDING positions
    * @returns {number} returns.sold - Count of SOLD positions
    * @returns {number} returns.empty - Count of EMPTY positions
-   * @returns {number} returns.avgProfit - Average profit percentage
+   * @returns {number} returns.completedCycles - Completed buy/sell cycles across all positions
+   * @returns {number} returns.avgProfit - Average profit percentage per completed cycle
    * @returns {string} returns.totalProfitEth - Total profit in ETH (wei string)
    */
   static calculateGridStats(positions: Position[]) {
@@ -264,15 +564,118 @@ export class GridCalculator {
     const sold = positions.filter(p => p.status === 'SOLD');
     const empty = positions.filter(p => p.status === 'EMPTY');
 
-    const totalProfit = sold.reduce((sum, p) => sum + (p.profitPercent || 0), 0);
+    // Completed cycles = archived history plus the current sell on SOLD positions
+    const completed = positions.flatMap(p => this.getCompletedCycles(p));
+    const totalProfit = completed.reduce((sum, c) => sum + (c.profitPercent || 0), 0);
 
     return {
       total: positions.length,
       holding: holding.length,
       sold: sold.length,
       empty: empty.length,
-      avgProfit: sold.length > 0 ? totalProfit / sold.length : 0,
-      totalProfitEth: sold.reduce((sum, p) => sum + BigInt(p.profitEth || '0'), BigInt(0)).toString(),
+      completedCycles: completed.length,
+      avgProfit: completed.length > 0 ? totalProfit / completed.length : 0,
+      totalProfitEth: completed.reduce((sum, c) => sum + BigInt(c.profitEth || '0'), BigInt(0)).toString(),
+    };
+  }
+
+  /**
+   * Get all completed buy/sell cycles for a position
+   * @static
+   * @param {Position} position - Grid position
+   * @returns {PositionCycle[]} Archived cycles plus the current one if the position is SOLD
+   */
+  static getCompletedCycles(position: Position): PositionCycle[] {
+    const cycles = [...(position.cycles || [])];
+    if (position.status === 'SOLD') {
+      cycles.push(this.toCycle(position));
+    }
+    return cycles;
+  }
+
+  /**
+   * Re-arm SOLD positions so they can buy again
+   * @static
+   * @param {Position[]} positions - Array of grid positions (mutated in place)
+   * @param {number} currentPrice - Current token price
+   * @param {GridConfig} config - Grid configuration (recycleMode, recycleCooldownSeconds)
+   * @param {number} [now] - Current time in ms (default: Date.now())
+   * @returns {Position[]} Positions that were re-armed
+   * @description Archives the finished buy/sell into position.cycles, clears the
+   * trade fields and sets status back to EMPTY. Depends on config.recycleMode:
+   * - 'none': never re-arm (default)
+   * - 'immediate': re-arm on the next check after the sell
+   * - 'cooldown': re-arm once recycleCooldownSeconds have passed since the sell
+   * - 'below-buy-max': re-arm once price is back at or below the level's buyMax
+   */
+  static recycleSoldPositions(
+    positions: Position[],
+    currentPrice: number,
+    config: GridConfig,
+    now: number = Date.now()
+  ): Position[] {
+    const mode = config.recycleMode || 'none';
+    if (mode === 'none') return [];
+
+    const cooldownMs = (config.recycleCooldownSeconds ?? 300) * 1000;
+    const recycled: Position[] = [];
+
+    for (const position of positions) {
+      if (position.status !== 'SOLD') continue;
+
+      let ready = false;
+      if (mode === 'immediate') {
+        ready = true;
+      } else if (mode === 'cooldown') {
+        ready = now - (position.sellTimestamp || 0) >= cooldownMs;
+      } else if (mode === 'below-buy-max') {
+        ready = currentPrice <= position.buyMax;
+      }
+
+      if (!ready) continue;
+
+      position.cycles = [...(position.cycles || []), this.toCycle(position)];
+      position.status = 'EMPTY';
+      delete position.buyTxHash;
+      delete position.buyTimestamp;
+      delete position.tokensReceived;
+      delete position.ethCost;
+      delete position.sellTxHash;
+      delete position.sellTimestamp;
+      delete position.ethReceived;
+      delete position.profitEth;
+      delete position.profitPercent;
+      delete position.exitReason;
+      delete position.simulated;
+      if (position.tierFills) {
+        position.sellPrice = this.getTakeProfitPrice(position.buyMax, config);
+        delete position.tierFills;
+      }
+      recycled.push(position);
+    }
+
+    return recycled;
+  }
+
+  /**
+   * Snapshot the trade fields of a position as a cycle record
+   * @private
+   * @static
+   */
+  private static toCycle(position: Position): PositionCycle {
+    return {
+      buyTxHash: position.buyTxHash,
+      buyTimestamp: position.buyTimestamp,
+      tokensReceived: position.tokensReceived,
+      ethCost: position.ethCost,
+      sellTxHash: position.sellTxHash,
+      sellTimestamp: position.sellTimestamp,
+      ethReceived: position.ethReceived,
+      profitEth: position.profitEth,
+      profitPercent: position.profitPercent,
+      exitReason: position.exitReason,
+      ...(position.simulated ? { simulated: true } : {}),
+      ...(position.tierFills ? { tierFills: position.tierFills } : {}),
     };
   }
 
@@ -280,11 +683,14 @@ export class GridCalculator {
    * Validate that grid has continuous coverage (no gaps)
    * @static
    * @param {Position[]} positions - Array of grid positions
+   * @param {GridConfig} [config] - If given, also checks levels follow config.gridSpacing
    * @returns {boolean} True if positions are continuous (no gaps)
    * @description Checks that position[i].buyMax equals position[i+1].buyMin
-   * within a small tolerance for floating point precision.
+   * within a small tolerance for floating point precision. With a config, arithmetic
+   * grids must have equal widths, geometric grids equal ratios and custom grids
+   * boundaries matching customBreakpoints.
    */
-  static validateContinuousCoverage(positions: Position[]): boolean {
+  static validateContinuousCoverage(positions: Position[], config?: GridConfig): boolean {
     if (positions.length < 2) return true;
 
     // Sort by buyMin
@@ -301,19 +707,53 @@ export class GridCalculator {
       }
     }
 
-    return true;
+    if (!config) return true;
+
+    const spacing = config.gridSpacing || 'arithmetic';
+    const isClose = (a: number, b: number) => Math.abs(a - b) <= Math.abs(b) * 0.001;
+
+    if (spacing === 'custom') {
+      const expected = this.normalizeBreakpoints(config.customBreakpoints || []);
+      const actual = [...sorted.map(p => p.buyMin), sorted[sorted.length - 1].buyMax];
+      return expected.length === actual.length && actual.every((v, i) => isClose(v, expected[i]));
+    }
+
+    const step = (p: Position) => spacing === 'geometric'
+      ? p.buyMax / p.buyMin
+      : p.buyMax - p.buyMin;
+    const first = step(sorted[0]);
+
+    return sorted.every(p => isClose(step(p), first));
   }
 
   /**
    * Get the price range covered by the grid
    * @static
    * @param {Position[]} positions - Array of grid positions
+   * @param {GridConfig} [config] - Used when positions is empty (e.g. before generation)
    * @returns {{floor: number, ceiling: number} | null} Grid range or null if empty
    * @description Returns the floor (lowest buyMin) and ceiling (highest buyMax)
-   * covered by the grid positions.
+   * covered by the grid positions. Without positions, falls back to the custom
+   * breakpoints or configured floor/ceiling.
    */
-  static getGridRange(positions: Position[]): { floor: number; ceiling: number } | null {
-    if (positions.length === 0) return null;
+  static getGridRange(
+    positions: Position[],
+    config?: GridConfig
+  ): { floor: number; ceiling: number } | null {
+    if (positions.length === 0) {
+      if (!config) return null;
+
+      if (config.gridSpacing === 'custom') {
+        const breakpoints = this.normalizeBreakpoints(config.customBreakpoints || []);
+        if (breakpoints.length < 2) return null;
+        return { floor: breakpoints[0], ceiling: breakpoints[breakpoints.length - 1] };
+      }
+
+      if (config.floorPrice && config.ceilingPrice) {
+        return { floor: config.floorPrice, ceiling: config.ceilingPrice };
+      }
+      return null;
+    }
 
     const sorted = [...positions].sort((a, b) => a.buyMin - b.buyMin);
     return {
@@ -321,4 +761,99 @@ export class GridCalculator {
       ceiling: sorted[sorted.length - 1].buyMax,
     };
   }
+
+  /**
+   * Get the range the grid is currently trading
+   * @static
+   * @param {Position[]} positions - Array of grid positions
+   * @param {GridConfig} config - Grid configuration
+   * @returns {{floor: number, ceiling: number} | null} Configured range, or the
+   * positions' range for grids generated around the price (no floor/ceiling set)
+   */
+  static getActiveRange(
+    positions: Position[],
+    config: GridConfig
+  ): { floor: number; ceiling: number } | null {
+    return this.getGridRange([], config) ?? this.getGridRange(positions);
+  }
+
+  /**
+   * Move the grid range to follow price
+   * @static
+   * @param {Position[]} positions - Current grid positions (not mutated)
+   * @param {number} currentPrice - Current token price, outside the active range
+   * @param {GridConfig} config - Grid configuration (mutated: range, custom breakpoints, market caps)
+   * @returns {GridShiftResult} New positions and a summary of the shift
+   * @description Scales the active range by currentPrice / geometric midpoint so the
+   * grid keeps its shape (same level count and ceiling/floor ratio) centred on the
+   * new price. EMPTY levels are rebuilt around it (see rebuildEmptyLevels).
+   * @throws {Error} If the grid has no range to shift
+   */
+  static shiftGrid(
+    positions: Position[],
+    currentPrice: number,
+    config: GridConfig
+  ): GridShiftResult {
+    const from = this.getActiveRange(positions, config);
+    if (!from) {
+      throw new Error('Cannot shift a grid without a price range');
+    }
+
+    const factor = currentPrice / Math.sqrt(from.floor * from.ceiling);
+    const to = { floor: from.floor * factor, ceiling: from.ceiling * factor };
+
+    if (config.gridSpacing === 'custom') {
+      config.customBreakpoints = (config.customBreakpoints || []).map(b => b * factor);
+    }
+    config.floorPrice = to.floor;
+    config.ceilingPrice = to.ceiling;
+    if (config.useMarketCap && config.marketCapFloor && config.marketCapCeiling) {
+      config.marketCapFloor *= factor;
+      config.marketCapCeiling *= factor;
+    }
+
+    const rebuilt = this.rebuildEmptyLevels(positions, currentPrice, config);
+
+    return {
+      positions: rebuilt.positions,
+      from,
+      to,
+      factor,
+      added: rebuilt.added,
+      removed: rebuilt.removed,
+      holding: positions.filter(p => p.status === 'HOLDING' || p.pendingTx).length,
+    };
+  }
+
+  /**
+   * Lay out a new grid, keeping every position that carries state
+   * @static
+   * @param {Position[]} positions - Current grid positions (not mutated)
+   * @param {number} currentPrice - Current token price
+   * @param {GridConfig} config - Grid configuration with the new layout
+   * @returns New positions sorted by price, and how many levels were added and removed
+   * @description EMPTY levels are rebuilt from config; HOLDING and SOLD positions are kept
+   * as they are, with their cost basis, and so are levels with a pending transaction. New
+   * levels overlapping any kept range are skipped so the same price band is never bought
+   * twice (a SOLD level recycles to EMPTY in place). New ids continue after the highest
+   * existing id so trade history and trailing stops stay unambiguous.
+   */
+  static rebuildEmptyLevels(
+    positions: Position[],
+    currentPrice: number,
+    config: GridConfig
+  ): { positions: Position[]; added: number; removed: number } {
+    const kept = positions.filter(p => p.status !== 'EMPTY' || p.pendingTx);
+    let nextId = positions.reduce((max, p) => Math.max(max, p.id), -1) + 1;
+
+    const added = this.generateGrid(currentPrice, config)
+      .filter(level => !kept.some(k => level.buyMin < k.buyMax && level.buyMax > k.buyMin))
+      .map(level => ({ ...level, id: nextId++ }));
+
+    return {
+      positions: [...kept, ...added].sort((a, b) => a.buyMin - b.buyMin),
+      added: added.length,
+      removed: positions.length - kept.length,
+    };
+  }
 }
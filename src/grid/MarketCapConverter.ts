@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Market-cap denominated grid support
+ * @module grid/MarketCapConverter
+ * @version 1.0.0
+ */
+
+import { PublicClient, erc20Abi } from 'viem';
+import { GridConfig } from '../types/index.js';
+
+/** Holders that never count towards circulating supply */
+const BURN_ADDRESSES = [
+  '0x0000000000000000000000000000000000000000',
+  '0x000000000000000000000000000000000000dEaD',
+];
+
+/**
+ * Converts between market cap and per-token price
+ * @class MarketCapConverter
+ * @description Market caps are ETH-denominated: marketCap = price * circulatingSupply
+ */
+export class MarketCapConverter {
+  /**
+   * Read circulating supply on-chain
+   * @static
+   * @param {PublicClient} publicClient - Client for the token's chain
+   * @param {string} tokenAddress - ERC-20 token address
+   * @param {string[]} [excludedAddresses=[]] - Burn/locked holders to subtract
+   * @returns {Promise<number>} Circulating supply in whole tokens
+   * @throws {Error} If nothing is left in circulation
+   */
+  static async fetchCirculatingSupply(
+    publicClient: PublicClient,
+    tokenAddress: string,
+    excludedAddresses: string[] = []
+  ): Promise<number> {
+    const token = tokenAddress as `0x${string}`;
+
+    const [totalSupply, decimals] = await Promise.all([
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'totalSupply' }),
+      publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }),
+    ]);
+
+    const holders = this.getExcludedAddresses(excludedAddresses);
+    const excludedBalances = await Promise.all(
+      holders.map(holder =>
+        publicClient.readContract({
+          address: token,
+          abi: erc20Abi,
+          functionName: 'balanceOf',
+          args: [holder as `0x${string}`],
+        })
+      )
+    );
+
+    const excluded = excludedBalances.reduce((sum, balance) => sum + balance, BigInt(0));
+    const circulating = totalSupply - excluded;
+
+    if (circulating <= BigInt(0)) {
+      throw new Error('Circulating supply is zero after exclusions');
+    }
+
+    return Number(circulating) / Math.pow(10, decimals);
+  }
+
+  /**
+   * Burn addresses plus configured exclusions, de-duplicated
+   * @static
+   * @param {string[]} [extra=[]] - Configured burn/locked addresses
+   * @returns {string[]} Addresses whose balances are excluded
+   */
+  static getExcludedAddresses(extra: string[] = []): string[] {
+    const seen = new Set<string>();
+    return [...BURN_ADDRESSES, ...extra].filter(address => {
+      const key = address.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Convert a market cap to a per-token price
+   * @static
+   * @param {number} marketCap - Market cap in ETH
+   * @param {number} supply - Circulating supply in whole tokens
+   * @returns {number} Price per token in ETH
+   */
+  static toPrice(marketCap: number, supply: number): number {
+    if (supply <= 0) {
+      throw new Error(`Invalid circulating supply: ${supply}`);
+    }
+    return marketCap / supply;
+  }
+
+  /**
+   * Convert a per-token price to market cap
+   * @static
+   * @param {number} price - Price per token in ETH
+   * @param {number} supply - Circulating supply in whole tokens
+   * @returns {number} Market cap in ETH
+   */
+  static toMarketCap(price: number, supply: number): number {
+    return price * supply;
+  }
+
+  /**
+   * Set floorPrice/ceilingPrice from the configured market-cap range
+   * @static
+   * @param {GridConfig} config - Grid configuration (mutated)
+   * @param {number} supply - Circulating supply in whole tokens
+   * @returns {boolean} True if the price range was updated
+   */
+  static applyToConfig(config: GridConfig, supply: number): boolean {
+    if (!config.useMarketCap || !config.marketCapFloor || !config.marketCapCeiling) {
+      return false;
+    }
+    config.floorPrice = this.toPrice(config.marketCapFloor, supply);
+    config.ceilingPrice = this.toPrice(config.marketCapCeiling, supply);
+    return true;
+  }
+
+  /**
+   * Format a market cap for display
+   * @static
+   * @param {number} marketCap - Market cap in ETH
+   * @returns {string} e.g. "12.50K ETH"
+   */
+  static format(marketCap: number): string {
+    const abs = Math.abs(marketCap);
+    if (abs >= 1e9) return `${(marketCap / 1e9).toFixed(2)}B ETH`;
+    if (abs >= 1e6) return `${(marketCap / 1e6).toFixed(2)}M ETH`;
+    if (abs >= 1e3) return `${(marketCap / 1e3).toFixed(2)}K ETH`;
+    return `${marketCap.toFixed(2)} ETH`;
+  }
+
+  /**
+   * Format a price level the way the bot is configured to show it
+   * @static
+   * @param {number} price - Price per token in ETH
+   * @param {GridConfig} config - Grid configuration
+   * @param {number} [supply] - Circulating supply in whole tokens
+   * @returns {string} Market cap when useMarketCap and supply are set, otherwise the price
+   */
+  static formatLevel(price: number, config: GridConfig, supply?: number): string {
+    if (config.useMarketCap && supply && supply > 0) {
+      return this.format(this.toMarketCap(price, supply));
+    }
+    return `${price.toExponential(6)} ETH`;
+  }
+}
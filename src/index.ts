@@ -4,135 +4,224 @@
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import { WalletManager } from './wallet/WalletManager.js';
+import { NonceManager } from './wallet/NonceManager.js';
+import { ApprovalRegistry, OutstandingApproval } from './wallet/ApprovalRegistry.js';
+import { PrivateRelay, KNOWN_RELAYS, PRIVATE_RELAY_CONFIG_KEY } from './wallet/PrivateRelay.js';
 import { ZeroXApi } from './api/ZeroXApi.js';
+import { FallbackSwapProvider } from './api/FallbackSwapProvider.js';
+import { QuoteCurrency, KNOWN_QUOTE_TOKENS } from './api/QuoteCurrency.js';
+import { RpcPool } from './api/RpcPool.js';
 import { JsonStorage } from './storage/JsonStorage.js';
 import { HeartbeatManager } from './bot/HeartbeatManager.js';
+import { PaperWallet } from './bot/PaperWallet.js';
+import { GasBudget } from './bot/GasBudget.js';
 import { GridCalculator } from './grid/GridCalculator.js';
-import { BotInstance, GridConfig, Position, Chain } from './types/index.js';
-import { NotificationService } from './notifications/NotificationService.js';
+import { MarketCapConverter } from './grid/MarketCapConverter.js';
+import { BotInstance, GridConfig, Position, Chain, SwapProviderName, QuoteToken, SubmissionRoute } from './types/index.js';
+import { NotificationService, NOTIFICATION_SETTINGS_CONFIG_KEY } from './notifications/NotificationService.js';
 import { TelegramBot } from './notifications/TelegramBot.js';
 import { PriceOracle } from './oracle/index.js';
-import { formatEther, createPublicClient } from 'viem';
+import { formatEther, formatUnits, maxUint256, createPublicClient } from 'viem';
 import { randomUUID } from 'crypto';
-import { PnLTracker, CsvExporter } from './analytics/index.js';
+import { PnLTracker, CsvExporter, QuoteValuation, QuoteRates } from './analytics/index.js';
+import { CircuitBreaker, CircuitBreakerConfig, TokenSafety, TokenSafetyReport } from './risk/index.js';
+import { Backtester, PriceSeries } from './backtest/index.js';
 import { BotDaemon } from './daemon/BotDaemon.js';
+import { ControlClient } from './daemon/ControlClient.js';
 import { runScreener } from './tools/grid-screener.js';
-import { writeFileSync } from 'fs';
+import { writeFileSync, existsSync } from 'fs';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
-const RPC_URL = process.env.BASE_RPC_URL || 'https://base.llamarpc.com';
-const ETH_RPC_URL = process.env.ETH_RPC_URL || 'https://eth.llamarpc.com';
 const ZEROX_API_KEY = process.env.ZEROX_API_KEY;
 
-// Fallback RPC endpoints for resilience
-const RPC_FALLBACKS: Record<Chain, string[]> = {
-  base: [
-    'https://base.llamarpc.com',
-    'https://mainnet.base.org',
-    'https://base.publicnode.com',
-    'https://base.drpc.org',
-    'https://1rpc.io/base',
-  ],
-  ethereum: [
-    'https://eth.llamarpc.com',
-    'https://eth.drpc.org',
-    'https://rpc.ankr.com/eth',
-    'https://ethereum.publicnode.com',
-    'https://1rpc.io/eth',
-  ],
-};
-
-// Track working RPC per chain
-const currentRpcUrls: Record<Chain, string> = {
-  base: RPC_URL,
-  ethereum: ETH_RPC_URL,
-};
+/**
+ * Parse a comma separated address list ('' gives []); null if any entry is invalid
+ */
+function parseAddressList(input: string | undefined): string[] | null {
+  const addresses = (input || '').split(',').map(a => a.trim()).filter(a => a.length > 0);
+  return addresses.every(a => /^0x[0-9a-fA-F]{40}$/.test(a)) ? addresses : null;
+}
 
 /**
- * Get default RPC URL for a chain
+ * True when a bot's levels should be shown as market cap
  */
-function getDefaultRpc(chain: Chain): string {
-  return chain === 'base' ? RPC_URL : ETH_RPC_URL;
+function usesMarketCap(bot: BotInstance): boolean {
+  return !!bot.config.useMarketCap && !!bot.circulatingSupply;
 }
 
-// Cache for working RPC to avoid repeated testing
-let workingRpcCache: Record<Chain, string | null> = {
-  base: null,
-  ethereum: null,
-};
-let lastRpcCheck: Record<Chain, number> = {
-  base: 0,
-  ethereum: 0,
-};
-const RPC_CACHE_TTL = 60000; // 1 minute cache
+/**
+ * Format a price level - market cap for market-cap bots, otherwise exponential ETH price
+ */
+function formatLevel(bot: BotInstance, price: number, digits: number = 4): string {
+  return usesMarketCap(bot)
+    ? MarketCapConverter.format(MarketCapConverter.toMarketCap(price, bot.circulatingSupply!))
+    : price.toExponential(digits);
+}
 
 /**
- * Get a working RPC URL with fallback support for a specific chain
- * Uses timeout to prevent hanging on slow/unresponsive RPCs
- * Caches results to speed up repeated calls
+ * [PAPER] tag for paper-trading bots ('' for live bots)
  */
-async function getWorkingRpc(chain: Chain = 'base', forceCheck: boolean = false): Promise<string> {
-  const now = Date.now();
-  const cached = workingRpcCache[chain];
-  const cacheAge = now - lastRpcCheck[chain];
-  
-  // Use cached RPC if fresh and not forcing a check
-  if (!forceCheck && cached && cacheAge < RPC_CACHE_TTL) {
-    return cached;
+function paperLabel(bot: BotInstance): string {
+  return bot.paperTrading ? chalk.yellow('[PAPER] ') : '';
+}
+
+/**
+ * One-line paper ledger summary valued at the bot's current price
+ */
+function formatPaperLedger(bot: BotInstance): string {
+  if (!bot.paperLedger) return 'Paper ledger not funded yet';
+  const paper = PaperWallet.getSummary(bot.paperLedger, bot.currentPrice, QuoteCurrency.decimals(bot.quoteToken));
+  const symbol = QuoteCurrency.symbol(bot.quoteToken);
+  const pnlColor = paper.pnlEth >= 0 ? chalk.green : chalk.red;
+  return `Paper: ${paper.ethBalance.toFixed(6)} ${symbol} + ${paper.tokenBalance.toFixed(2)} ${bot.tokenSymbol}` +
+    ` = ${paper.equityEth.toFixed(6)} ${symbol} ` +
+    pnlColor(`(${paper.pnlEth >= 0 ? '+' : ''}${paper.pnlPercent.toFixed(2)}%)`);
+}
+
+/**
+ * Gas line: a trade held back by gas, and today's spend against the daily budget
+ * ('' when the bot has no gas rules and no hold)
+ */
+function formatGasStatus(bot: BotInstance): string {
+  const parts: string[] = [];
+  if (bot.gasHold) {
+    parts.push(chalk.yellow(`HELD ${bot.gasHold.side}: ${bot.gasHold.reason}`));
   }
-  
-  const defaultRpc = getDefaultRpc(chain);
-  const fallbacks = RPC_FALLBACKS[chain];
-  
-  // First try the current/preferred RPC
-  const rpcsToTry = [currentRpcUrls[chain], ...fallbacks.filter(r => r !== currentRpcUrls[chain])];
-  
-  for (let i = 0; i < rpcsToTry.length; i++) {
-    const rpc = rpcsToTry[i];
-    try {
-      const { createPublicClient, http } = await import('viem');
-      const chainConfig = chain === 'base' 
-        ? (await import('viem/chains')).base 
-        : (await import('viem/chains')).mainnet;
-      
-      const client = createPublicClient({
-        chain: chainConfig,
-        transport: http(rpc, { timeout: 3000 }), // 3 second timeout (was 5)
-      });
-      
-      // Test connection with a simple block number request (with timeout)
-      const blockNumberPromise = client.getBlockNumber();
-      const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Timeout')), 3000)
-      );
-      await Promise.race([blockNumberPromise, timeoutPromise]);
-      
-      // Success! Update current RPC and cache
-      currentRpcUrls[chain] = rpc;
-      workingRpcCache[chain] = rpc;
-      lastRpcCheck[chain] = now;
-      
-      if (i > 0 && forceCheck) {
-        console.log(chalk.green(`✓ Switched to working RPC: ${rpc}`));
-      }
-      
-      return rpc;
-    } catch (error: any) {
-      // Only log if not a timeout (timeouts are expected with public RPCs)
-      if (!error.message?.includes('Timeout') && forceCheck) {
-        console.log(chalk.dim(`  RPC unavailable: ${rpc.slice(0, 30)}...`));
-      }
-      continue;
-    }
+  if (bot.config.dailyGasBudgetEth) {
+    const spent = parseFloat(formatEther(GasBudget.spentToday(bot)));
+    parts.push(chalk.dim(`today ${spent.toFixed(6)} / ${bot.config.dailyGasBudgetEth} ETH`));
   }
-  
-  // All RPCs failed, return default and let it fail later with proper error
-  if (forceCheck) {
-    console.log(chalk.red(`✗ All ${chain} RPC endpoints failed. Using default.`));
+  return parts.length > 0 ? `⛽ ${parts.join(' | ')}` : '';
+}
+
+/**
+ * Realized slippage for one submission route ('no fills yet' before the first measured fill)
+ */
+function formatSlippage(bot: BotInstance, route: SubmissionRoute): string {
+  const stats = bot.slippage?.[route];
+  if (!stats || stats.fills === 0) return chalk.dim('no fills yet');
+  const average = stats.totalPercent / stats.fills;
+  return `avg ${average.toFixed(2)}%, worst ${stats.worstPercent.toFixed(2)}% ${chalk.dim(`(${stats.fills} fill${stats.fills === 1 ? '' : 's'})`)}`;
+}
+
+/**
+ * Take-profit summary: the tier ladder when scaling out, else the single target
+ */
+function formatTakeProfit(config: GridConfig): string {
+  return config.takeProfitTiers?.length
+    ? `scale out ${GridCalculator.formatTakeProfitTiers(config.takeProfitTiers)}`
+    : `${config.takeProfitPercent}%`;
+}
+
+/**
+ * Swap routing choices (value is the comma-joined provider chain)
+ */
+const SWAP_PROVIDER_CHOICES = [
+  { name: '0x only', value: '0x' },
+  { name: 'Uniswap V3 only (on-chain, no API key)', value: 'uniswap-v3' },
+  { name: '0x, falling back to Uniswap V3', value: '0x,uniswap-v3' },
+  { name: 'Uniswap V3, falling back to 0x', value: 'uniswap-v3,0x' },
+];
+
+/**
+ * Swap provider chain of a bot, e.g. "0x → uniswap-v3"
+ */
+function formatSwapProviders(config: GridConfig): string {
+  return (config.swapProviders?.length ? config.swapProviders : ['0x']).join(' → ');
+}
+
+/**
+ * Tokens a HOLDING position still has and the cost basis they carry after any tier fills
+ */
+function openHolding(pos: Position): { tokens: bigint; cost: bigint } {
+  const soldCost = (pos.tierFills || []).reduce((sum, f) => sum + BigInt(f.costEth), BigInt(0));
+  return {
+    tokens: BigInt(pos.tokensRemaining ?? pos.tokensReceived ?? '0'),
+    cost: BigInt(pos.ethCost || '0') - soldCost,
+  };
+}
+
+/**
+ * Validate a take-profit ladder typed at a prompt
+ */
+function validateTakeProfitTiers(input: string): true | string {
+  try {
+    GridCalculator.parseTakeProfitTiers(input);
+    return true;
+  } catch (error: any) {
+    return error.message;
   }
-  return defaultRpc;
+}
+
+/**
+ * Read a token's circulating supply (whole tokens) for market-cap grids
+ */
+async function fetchCirculatingSupply(tokenAddress: string, excludedAddresses: string[] = [], chain: Chain = 'base'): Promise<number> {
+  const workingRpc = await getWorkingRpc(chain);
+  const { http } = await import('viem');
+  const { base, mainnet } = await import('viem/chains');
+  const publicClient = createPublicClient({
+    chain: chain === 'base' ? base : mainnet,
+    transport: http(workingRpc),
+  });
+  return MarketCapConverter.fetchCirculatingSupply(publicClient as any, tokenAddress, excludedAddresses);
+}
+
+/**
+ * Read symbol and decimals of an ERC-20 to quote a bot in
+ */
+async function fetchQuoteToken(address: string, chain: Chain = 'base'): Promise<QuoteToken> {
+  const workingRpc = await getWorkingRpc(chain);
+  const { http } = await import('viem');
+  const { base, mainnet } = await import('viem/chains');
+  const publicClient = createPublicClient({
+    chain: chain === 'base' ? base : mainnet,
+    transport: http(workingRpc),
+  });
+  return QuoteCurrency.fetch(publicClient, address);
+}
+
+/**
+ * Symbol for amount prompts while a bot is being configured
+ */
+function quoteSymbolFor(answers: { quoteCurrency?: string }): string {
+  const known = KNOWN_QUOTE_TOKENS.base.find(q => q.address === answers.quoteCurrency);
+  if (known) return known.symbol;
+  return answers.quoteCurrency === 'custom' ? 'quote token' : 'ETH';
+}
+
+/**
+ * Honeypot/tax check for a token through a bot's swap routing (cached per token)
+ */
+async function checkTokenSafety(
+  storage: JsonStorage,
+  tokenAddress: string,
+  walletAddress: string,
+  swapProviders: SwapProviderName[] | undefined,
+  chain: Chain = 'base',
+  force: boolean = false
+): Promise<TokenSafetyReport> {
+  const workingRpc = await getWorkingRpc(chain);
+  const { http } = await import('viem');
+  const { base, mainnet } = await import('viem/chains');
+  const publicClient = createPublicClient({
+    chain: chain === 'base' ? base : mainnet,
+    transport: http(workingRpc),
+  });
+  const zeroXApi = new ZeroXApi(ZEROX_API_KEY);
+  zeroXApi.setChain(chain);
+  const swapProvider = FallbackSwapProvider.create(swapProviders, zeroXApi, publicClient, chain);
+  return new TokenSafety(storage, publicClient, swapProvider, chain).check(tokenAddress, walletAddress, force);
+}
+
+/**
+ * Get a working RPC URL for a chain from the shared RPC pool
+ * Probes endpoints best first (at most once a minute unless forced)
+ */
+async function getWorkingRpc(chain: Chain = 'base', forceCheck: boolean = false): Promise<string> {
+  return RpcPool.getInstance().check(chain, forceCheck);
 }
 
 console.log(chalk.cyan.bold('\n🤖 Multi-Chain Grid Trading Bot\n'));
@@ -180,10 +269,10 @@ async function main() {
     }
   }
 
-  // Initialize Notification Service from environment
+  // Initialize Notification Service from environment and saved settings
   console.log(chalk.dim('  Initializing services...'));
   const notificationService = NotificationService.getInstance();
-  notificationService.initializeFromEnv();
+  notificationService.reload(await storage.getConfig(NOTIFICATION_SETTINGS_CONFIG_KEY));
   if (notificationService.isConfigured()) {
     console.log(chalk.green('✓ Telegram notifications configured'));
   }
@@ -229,21 +318,32 @@ async function main() {
     walletManager,
     zeroXApi,
     storage,
-    RPC_URL,
+    RpcPool.getInstance(),
     1000, // heartbeatMs
     pnLTracker
   );
+  heartbeatManager.setMaxConcurrency(await storage.getConfig('maxConcurrentTicks', HeartbeatManager.DEFAULT_MAX_CONCURRENCY));
 
-  // Load existing bots
-  console.log(chalk.dim('  Loading bots...'));
-  await heartbeatManager.loadBots();
+  // Circuit breaker is evaluated on every heartbeat
+  const circuitBreaker = new CircuitBreaker(storage);
+  await circuitBreaker.init();
+  heartbeatManager.setCircuitBreaker(circuitBreaker);
 
-  // Check if any bots were loaded and are running - auto-start heartbeat
-  const loadedBots = await storage.getAllBots();
-  const runningBots = loadedBots.filter(b => b.isRunning);
-  if (runningBots.length > 0) {
-    console.log(chalk.dim(`  ${runningBots.length} bot(s) already running, reconnecting...`));
-    heartbeatManager.start();
+  // With a daemon running, bots trade there - a second heartbeat here would trade them twice
+  if (await ControlClient.connect()) {
+    console.log(chalk.dim('  Daemon is running - start, stop and reconfigure go through it'));
+  } else {
+    // Load existing bots
+    console.log(chalk.dim('  Loading bots...'));
+    await heartbeatManager.loadBots();
+
+    // Check if any bots were loaded and are running - auto-start heartbeat
+    const loadedBots = await storage.getAllBots();
+    const runningBots = loadedBots.filter(b => b.isRunning);
+    if (runningBots.length > 0) {
+      console.log(chalk.dim(`  ${runningBots.length} bot(s) already running, reconnecting...`));
+      heartbeatManager.start();
+    }
   }
 
   while (true) {
@@ -269,12 +369,15 @@ async function main() {
           { name: '🔧 Manage wallets', value: 'manage_wallets' },
           { name: '🔔 Configure Telegram', value: 'configure_telegram' },
           { name: '🏧 Reclaim funds', value: 'reclaim' },
+          { name: '🔓 Token approvals', value: 'approvals' },
           { name: '🔮 Oracle status', value: 'oracle_status' },
           { name: '⚡ Toggle price validation', value: 'toggle_price_validation' },
           { name: '📊 Diagnostic', value: 'diagnostic' },
+          { name: '🚨 Circuit breaker', value: 'circuit_breaker' },
           { name: '⚙️  System settings', value: 'system_settings' },
           { name: '🧮 View grid positions', value: 'view_grid' },
           { name: '🎯 Token screener', value: 'screener' },
+          { name: '🧪 Backtest grid config', value: 'backtest' },
           { name: '🗑️  Delete bot', value: 'delete' },
           { name: '⏻️  Exit (bots keep running)', value: 'exit_keep' },
           { name: '⏹️  Exit and stop all bots', value: 'exit_stop' },
@@ -321,7 +424,7 @@ async function main() {
           await monitorBots(storage, heartbeatManager);
           break;
         case 'daemon_status':
-          await showDaemonStatus();
+          await showDaemonStatus(heartbeatManager, storage);
           break;
         case 'pnl_report':
           await showPnlReport(pnLTracker, storage);
@@ -347,6 +450,9 @@ async function main() {
         case 'reclaim':
           await reclaimFunds(walletManager, storage);
           break;
+        case 'approvals':
+          await manageApprovals(storage, walletManager, ensureWalletInitialized);
+          break;
         case 'oracle_status':
           await showOracleStatus();
           break;
@@ -356,6 +462,9 @@ async function main() {
         case 'diagnostic':
           await runDiagnostic(storage, heartbeatManager);
           break;
+        case 'circuit_breaker':
+          await manageCircuitBreaker(circuitBreaker, heartbeatManager);
+          break;
         case 'system_settings':
           await systemSettings(storage, heartbeatManager);
           break;
@@ -365,6 +474,9 @@ async function main() {
         case 'screener':
           await runTokenScreener();
           break;
+        case 'backtest':
+          await runBacktest(storage);
+          break;
         case 'delete':
           await deleteBot(heartbeatManager, storage, walletManager);
           break;
@@ -457,25 +569,98 @@ async function createBot(storage: JsonStorage, walletManager: WalletManager) {
       message: 'Token symbol:',
       default: 'TOKEN',
     },
+    {
+      type: 'list',
+      name: 'quoteCurrency',
+      message: 'Quote currency (what the bot buys with and books profit in):',
+      choices: [
+        { name: 'ETH', value: 'ETH' },
+        ...KNOWN_QUOTE_TOKENS.base.map(q => ({ name: q.symbol, value: q.address })),
+        { name: 'Other ERC-20 (enter address)', value: 'custom' },
+      ],
+      default: 'ETH',
+    },
+    {
+      type: 'input',
+      name: 'quoteTokenAddress',
+      message: 'Quote token contract address:',
+      when: (answers) => answers.quoteCurrency === 'custom',
+      validate: (input) => input.startsWith('0x') && input.length === 42 || 'Invalid address',
+    },
     {
       type: 'confirm',
       name: 'useMainWallet',
       message: 'Use main wallet for trading?',
       default: true,
     },
+    {
+      type: 'list',
+      name: 'gridSpacing',
+      message: 'Grid spacing:',
+      choices: [
+        { name: 'Arithmetic - equal price width per level', value: 'arithmetic' },
+        { name: 'Geometric - equal % move per level', value: 'geometric' },
+        { name: 'Custom - enter price breakpoints', value: 'custom' },
+      ],
+      default: 'arithmetic',
+      when: () => !isVolumeBot,
+    },
+    {
+      type: 'input',
+      name: 'customBreakpoints',
+      message: (answers) => `Price breakpoints in ${quoteSymbolFor(answers)} (comma separated, N+1 values for N positions):`,
+      when: (answers) => answers.gridSpacing === 'custom',
+      validate: (input) => {
+        try {
+          return GridCalculator.parseBreakpoints(input).length >= 2 || 'Enter at least 2 distinct prices';
+        } catch (error: any) {
+          return error.message;
+        }
+      },
+    },
     {
       type: 'number',
       name: 'numPositions',
       message: 'Number of grid positions:',
       default: 24,
-      when: () => !isVolumeBot,
+      when: (answers) => !isVolumeBot && answers.gridSpacing !== 'custom',
+    },
+    {
+      type: 'confirm',
+      name: 'useMarketCap',
+      message: (answers) => `Enter floor/ceiling as market cap (${quoteSymbolFor(answers)}) instead of price?`,
+      default: false,
+      when: (answers) => !isVolumeBot && answers.gridSpacing !== 'custom',
+    },
+    {
+      type: 'input',
+      name: 'marketCapFloor',
+      message: (answers) => `Floor market cap (${quoteSymbolFor(answers)}):`,
+      when: (answers) => answers.useMarketCap,
+      validate: (input) => parseFloat(input) > 0 || 'Must be a positive number',
+    },
+    {
+      type: 'input',
+      name: 'marketCapCeiling',
+      message: (answers) => `Ceiling market cap (${quoteSymbolFor(answers)}):`,
+      when: (answers) => answers.useMarketCap,
+      validate: (input, answers) =>
+        parseFloat(input) > parseFloat(answers?.marketCapFloor) || 'Must be above the floor',
+    },
+    {
+      type: 'input',
+      name: 'excludedSupplyAddresses',
+      message: 'Burn/locked addresses to exclude from supply (comma separated, optional):',
+      default: '',
+      when: (answers) => answers.useMarketCap,
+      validate: (input) => parseAddressList(input) !== null || 'Invalid address in list',
     },
     {
       type: 'confirm',
       name: 'autoPriceRange',
       message: 'Auto-calculate price range (floor=1/10 current, ceiling=4x)?',
       default: true,
-      when: () => !isVolumeBot,
+      when: (answers) => !isVolumeBot && answers.gridSpacing !== 'custom' && !answers.useMarketCap,
     },
     {
       type: 'number',
@@ -484,6 +669,21 @@ async function createBot(storage: JsonStorage, walletManager: WalletManager) {
       default: 8,
       when: () => !isVolumeBot,
     },
+    {
+      type: 'confirm',
+      name: 'useTakeProfitTiers',
+      message: 'Scale out in take-profit tiers instead of one sell?',
+      default: false,
+      when: () => !isVolumeBot,
+    },
+    {
+      type: 'input',
+      name: 'takeProfitTiers',
+      message: 'Tiers as share@profit% - the last tier sells the rest:',
+      default: '30@5, 40@10, 30@20',
+      when: (answers) => !isVolumeBot && answers.useTakeProfitTiers,
+      validate: validateTakeProfitTiers,
+    },
     {
       type: 'number',
       name: 'maxActivePositions',
@@ -491,6 +691,42 @@ async function createBot(storage: JsonStorage, walletManager: WalletManager) {
       default: 4,
       when: () => !isVolumeBot,
     },
+    {
+      type: 'list',
+      name: 'recycleMode',
+      message: 'Re-arm positions after they sell?',
+      choices: [
+        { name: 'No - each level trades once', value: 'none' },
+        { name: 'Immediately after the sell', value: 'immediate' },
+        { name: 'After a cooldown', value: 'cooldown' },
+        { name: 'Once price is back below the level', value: 'below-buy-max' },
+      ],
+      default: 'none',
+      when: () => !isVolumeBot,
+    },
+    {
+      type: 'number',
+      name: 'recycleCooldownSeconds',
+      message: 'Cooldown before re-arming (seconds):',
+      default: 300,
+      when: (answers) => answers.recycleMode === 'cooldown',
+      validate: (input) => input >= 0 || 'Must be 0 or greater',
+    },
+    {
+      type: 'confirm',
+      name: 'autoShiftEnabled',
+      message: 'Shift the grid to follow price when it leaves the range?',
+      default: false,
+      when: () => !isVolumeBot,
+    },
+    {
+      type: 'number',
+      name: 'autoShiftDelaySeconds',
+      message: 'Seconds outside the range before shifting:',
+      default: 600,
+      when: (answers) => answers.autoShiftEnabled,
+      validate: (input) => input >= 0 || 'Must be 0 or greater',
+    },
     // Volume Bot specific settings
     {
       type: 'number',
@@ -503,21 +739,29 @@ async function createBot(storage: JsonStorage, walletManager: WalletManager) {
     {
       type: 'input',
       name: 'volumeBuyAmount',
-      message: 'ETH amount per buy:',
+      message: (answers) => `${quoteSymbolFor(answers)} amount per buy:`,
       default: '0.001',
       when: () => isVolumeBot,
       validate: (input) => !isNaN(parseFloat(input)) && parseFloat(input) > 0 || 'Invalid amount',
     },
+    {
+      type: 'number',
+      name: 'volumeBuyIntervalSeconds',
+      message: 'Seconds between buys (and before the sell):',
+      default: 60,
+      when: () => isVolumeBot,
+      validate: (input) => input >= 0 || 'Must be 0 or greater',
+    },
     {
       type: 'confirm',
       name: 'useFixedBuyAmount',
-      message: 'Use fixed ETH amount per buy?',
+      message: (answers) => `Use fixed ${quoteSymbolFor(answers)} amount per buy?`,
       default: false,
     },
     {
       type: 'input',
       name: 'buyAmount',
-      message: 'ETH amount per buy (e.g., 0.001):',
+      message: (answers) => `${quoteSymbolFor(answers)} amount per buy (e.g., 0.001):`,
       default: '0.001',
       when: (answers) => answers.useFixedBuyAmount,
       validate: (input) => !isNaN(parseFloat(input)) && parseFloat(input) > 0 || 'Invalid amount',
@@ -536,6 +780,34 @@ async function createBot(storage: JsonStorage, walletManager: WalletManager) {
       when: (answers) => answers.moonBagEnabled,
       validate: (input) => input >= 0 && input <= 50 || 'Must be 0-50%',
     },
+    {
+      type: 'list',
+      name: 'swapProviders',
+      message: 'Route swaps through:',
+      choices: SWAP_PROVIDER_CHOICES,
+      default: '0x',
+    },
+    {
+      type: 'number',
+      name: 'maxRoundTripTaxPercent',
+      message: 'Max round-trip token tax before refusing to buy (%):',
+      default: TokenSafety.DEFAULT_MAX_TAX_PERCENT,
+      validate: (input) => (input >= 0 && input <= 100) || 'Must be 0-100%',
+    },
+    {
+      type: 'confirm',
+      name: 'paperTrading',
+      message: 'Paper trade (simulated wallet, live 0x prices)?',
+      default: false,
+    },
+    {
+      type: 'input',
+      name: 'paperStartingEth',
+      message: (answers) => `Virtual starting balance (${quoteSymbolFor(answers)}):`,
+      default: '1',
+      when: (answers) => answers.paperTrading,
+      validate: (input) => !isNaN(parseFloat(input)) && parseFloat(input) > 0 || 'Invalid amount',
+    },
     {
       type: 'confirm',
       name: 'startImmediately',
@@ -544,6 +816,48 @@ async function createBot(storage: JsonStorage, walletManager: WalletManager) {
     },
   ]);
 
+  // Resolve the quote token (undefined = native ETH)
+  let quoteToken: QuoteToken | undefined = KNOWN_QUOTE_TOKENS.base.find(q => q.address === answers.quoteCurrency);
+  if (answers.quoteCurrency === 'custom') {
+    try {
+      quoteToken = await fetchQuoteToken(answers.quoteTokenAddress);
+      console.log(chalk.dim(`\n  Quote token: ${quoteToken.symbol} (${quoteToken.decimals} decimals)`));
+    } catch (error: any) {
+      console.log(chalk.red(`\n✗ Could not read quote token: ${error.message}\n`));
+      return;
+    }
+  }
+
+  // Pre-flight: can the token be sold, and what does the round trip cost in taxes?
+  console.log(chalk.dim('\n  Simulating a buy and sell of the token...'));
+  try {
+    const report = await checkTokenSafety(
+      storage,
+      answers.tokenAddress,
+      mainWallet!.address,
+      answers.swapProviders.split(',') as SwapProviderName[]
+    );
+    console.log(`  🍯 ${TokenSafety.format(report)}`);
+    const verdict = TokenSafety.evaluate(report, answers.maxRoundTripTaxPercent);
+    if (!verdict.allowed) {
+      console.log(chalk.red(`  ${verdict.reason} - the bot won't arm its grid for this token`));
+      const { createAnyway } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'createAnyway',
+          message: 'Create the bot anyway?',
+          default: false,
+        },
+      ]);
+      if (!createAnyway) {
+        console.log(chalk.dim('\nCancelled.\n'));
+        return;
+      }
+    }
+  } catch (error: any) {
+    console.log(chalk.yellow(`  ⚠ Token check failed: ${error.message}`));
+  }
+
   // Create bot wallet if not using main
   let botWalletAddress = mainWallet!.address;
   if (!answers.useMainWallet) {
@@ -561,6 +875,21 @@ async function createBot(storage: JsonStorage, walletManager: WalletManager) {
   const defaultSlippage = await storage.getConfig('slippageBps', 100);
   const defaultRetryDelay = await storage.getConfig('retryDelaySeconds', 30);
 
+  const customBreakpoints = answers.gridSpacing === 'custom'
+    ? GridCalculator.parseBreakpoints(answers.customBreakpoints)
+    : undefined;
+
+  // Market-cap grids need circulating supply to convert to prices
+  let circulatingSupply: number | undefined;
+  const excludedSupplyAddresses = answers.useMarketCap
+    ? parseAddressList(answers.excludedSupplyAddresses) || []
+    : undefined;
+  if (answers.useMarketCap) {
+    console.log(chalk.dim('  Reading circulating supply...'));
+    circulatingSupply = await fetchCirculatingSupply(answers.tokenAddress, excludedSupplyAddresses);
+    console.log(chalk.dim(`  Circulating supply: ${circulatingSupply.toLocaleString()} ${answers.tokenSymbol}`));
+  }
+
   // Create config
   const config: GridConfig = isVolumeBot
     ? {
@@ -585,20 +914,31 @@ async function createBot(storage: JsonStorage, walletManager: WalletManager) {
         strictProfitMode: defaultStrictMode,
         strictProfitPercent: defaultStrictPercent,
         slippageBps: defaultSlippage,
+        swapProviders: answers.swapProviders.split(',') as SwapProviderName[],
+        maxRoundTripTaxPercent: answers.maxRoundTripTaxPercent,
         retryDelaySeconds: defaultRetryDelay,
         volumeMode: true,
         volumeBuysPerCycle: answers.volumeBuysPerCycle || 3,
         volumeBuyAmount: parseFloat(answers.volumeBuyAmount || '0.001'),
+        volumeBuyIntervalSeconds: answers.volumeBuyIntervalSeconds ?? 60,
         heartbeatMs: 1000,
         skipHeartbeats: 0,
       }
     : {
         // Grid Bot Config
-        numPositions: answers.numPositions,
-        floorPrice: 0, // Will be calculated from current price
-        ceilingPrice: 0,
-        useMarketCap: false,
+        numPositions: customBreakpoints ? customBreakpoints.length - 1 : answers.numPositions,
+        floorPrice: customBreakpoints ? customBreakpoints[0] : 0, // Otherwise calculated from current price
+        ceilingPrice: customBreakpoints ? customBreakpoints[customBreakpoints.length - 1] : 0,
+        useMarketCap: answers.useMarketCap || false,
+        marketCapFloor: answers.useMarketCap ? parseFloat(answers.marketCapFloor) : undefined,
+        marketCapCeiling: answers.useMarketCap ? parseFloat(answers.marketCapCeiling) : undefined,
+        excludedSupplyAddresses,
+        gridSpacing: answers.gridSpacing || 'arithmetic',
+        customBreakpoints,
         takeProfitPercent: answers.takeProfitPercent,
+        takeProfitTiers: answers.useTakeProfitTiers
+          ? GridCalculator.parseTakeProfitTiers(answers.takeProfitTiers)
+          : undefined,
         stopLossPercent: 10,
         stopLossEnabled: false,
         buysEnabled: true,
@@ -614,11 +954,21 @@ async function createBot(storage: JsonStorage, walletManager: WalletManager) {
         strictProfitMode: defaultStrictMode,
         strictProfitPercent: defaultStrictPercent,
         slippageBps: defaultSlippage,
+        swapProviders: answers.swapProviders.split(',') as SwapProviderName[],
+        maxRoundTripTaxPercent: answers.maxRoundTripTaxPercent,
         retryDelaySeconds: defaultRetryDelay,
+        recycleMode: answers.recycleMode || 'none',
+        recycleCooldownSeconds: answers.recycleCooldownSeconds ?? 300,
+        autoShiftEnabled: answers.autoShiftEnabled || false,
+        autoShiftDelaySeconds: answers.autoShiftDelaySeconds ?? 600,
         heartbeatMs: 1000,
         skipHeartbeats: 0,
       };
 
+  if (circulatingSupply) {
+    MarketCapConverter.applyToConfig(config, circulatingSupply);
+  }
+
   // Generate grid (empty for volume bots)
   const currentPrice = 0.000001; // Placeholder - would fetch real price
   const positions = isVolumeBot ? [] : GridCalculator.generateGrid(currentPrice, config);
@@ -630,6 +980,7 @@ async function createBot(storage: JsonStorage, walletManager: WalletManager) {
     tokenAddress: answers.tokenAddress,
     tokenSymbol: answers.tokenSymbol,
     chain: 'base',
+    quoteToken,
     walletAddress: botWalletAddress,
     useMainWallet: answers.useMainWallet,
     config,
@@ -642,10 +993,16 @@ async function createBot(storage: JsonStorage, walletManager: WalletManager) {
     enabled: true,  // New bots are enabled by default
     lastHeartbeat: 0,
     currentPrice,
+    circulatingSupply,
     // Initialize volume mode state
     volumeBuysInCycle: isVolumeBot ? 0 : undefined,
     volumeAccumulatedTokens: isVolumeBot ? '0' : undefined,
     volumeCycleCount: isVolumeBot ? 0 : undefined,
+    volumeCostBasis: isVolumeBot ? '0' : undefined,
+    paperTrading: answers.paperTrading || undefined,
+    paperLedger: answers.paperTrading
+      ? PaperWallet.create(parseFloat(answers.paperStartingEth), QuoteCurrency.decimals(quoteToken))
+      : undefined,
     createdAt: Date.now(),
     lastUpdated: Date.now(),
   };
@@ -655,19 +1012,40 @@ async function createBot(storage: JsonStorage, walletManager: WalletManager) {
   if (isVolumeBot) {
     console.log(chalk.green(`\n✓ Volume Bot "${answers.name}" created`));
     console.log(chalk.cyan(`  Mode: Buy ${config.volumeBuysPerCycle} times, then sell all`));
-    console.log(chalk.cyan(`  Buy Amount: ${config.volumeBuyAmount} ETH per buy`));
+    console.log(chalk.cyan(`  Buy Amount: ${config.volumeBuyAmount} ${QuoteCurrency.symbol(quoteToken)} per buy`));
+    console.log(chalk.cyan(`  Spacing: ${config.volumeBuyIntervalSeconds}s between trades`));
     console.log(chalk.cyan(`  Wallet: ${botWalletAddress}`));
   } else {
     console.log(chalk.green(`\n✓ Grid Bot "${answers.name}" created with ${positions.length} positions`));
+    console.log(chalk.cyan(`  Spacing: ${config.gridSpacing}`));
+    if (quoteToken) {
+      console.log(chalk.cyan(`  Quote: ${quoteToken.symbol}`));
+    }
+    if (config.useMarketCap) {
+      console.log(chalk.cyan(`  Market cap range: ${MarketCapConverter.format(config.marketCapFloor!)} - ${MarketCapConverter.format(config.marketCapCeiling!)}`));
+    }
     console.log(chalk.cyan(`  Wallet: ${botWalletAddress}`));
+    if (!GridCalculator.validateContinuousCoverage(positions, config)) {
+      console.log(chalk.yellow('⚠️  Generated grid does not match the chosen spacing - check the price range'));
+    }
   }
 
-  if (answers.startImmediately) {
-    console.log(chalk.yellow('\n⚠️  Fund the wallet with ETH before starting'));
+  if (instance.paperTrading) {
+    console.log(chalk.magenta(`  📝 Paper trading with ${answers.paperStartingEth} virtual ${QuoteCurrency.symbol(quoteToken)} - no funding needed`));
+  } else if (answers.startImmediately) {
+    console.log(chalk.yellow(quoteToken
+      ? `\n⚠️  Fund the wallet with ${quoteToken.symbol} (and ETH for gas) before starting`
+      : '\n⚠️  Fund the wallet with ETH before starting'));
   }
 }
 
 async function startBot(heartbeatManager: HeartbeatManager, storage: JsonStorage, ensureWalletInitialized: () => Promise<boolean>) {
+  const daemon = await ControlClient.connect();
+  if (daemon) {
+    await startBotInDaemon(daemon, storage, heartbeatManager);
+    return;
+  }
+
   console.log(chalk.dim('  Checking wallet...'));
   // Ensure wallet is initialized before starting bots
   if (!await ensureWalletInitialized()) {
@@ -740,7 +1118,7 @@ async function startBot(heartbeatManager: HeartbeatManager, storage: JsonStorage
         : bot.config.useFixedBuyAmount 
           ? `${bot.config.buyAmount} ETH/buy`
           : 'auto-buy';
-      console.log(`   ${botType} ${chalk.bold(bot.name)} (${bot.tokenSymbol}) - ${buyInfo}`);
+      console.log(`   ${botType} ${paperLabel(bot)}${chalk.bold(bot.name)} (${bot.tokenSymbol}) - ${buyInfo}`);
     }
     console.log();
   }
@@ -750,7 +1128,75 @@ async function startBot(heartbeatManager: HeartbeatManager, storage: JsonStorage
   await monitorBots(storage, heartbeatManager);
 }
 
-async function stopBot(heartbeatManager: HeartbeatManager, _storage: JsonStorage) {
+/**
+ * Start bots in the running daemon (it holds the unlocked wallets)
+ */
+async function startBotInDaemon(daemon: ControlClient, storage: JsonStorage, heartbeatManager: HeartbeatManager) {
+  const bots = (await daemon.list()).filter(b => b.enabled && !b.managed);
+  if (bots.length === 0) {
+    console.log(chalk.yellow('\nEvery enabled bot is already running in the daemon.\n'));
+    return;
+  }
+
+  const { botId } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'botId',
+      message: 'Select bot to start in the daemon:',
+      choices: [
+        { name: 'All enabled bots', value: 'all' },
+        ...bots.map(b => ({ name: `${b.name} (${b.tokenSymbol})`, value: b.id })),
+        { name: '⬅️  Back', value: 'back' },
+      ],
+    },
+  ]);
+
+  if (botId === 'back') {
+    console.log(chalk.dim('\nCancelled.\n'));
+    return;
+  }
+
+  const started = await daemon.start(botId);
+  console.log(chalk.green(`\n✅ Started in the daemon: ${started.length > 0 ? started.join(', ') : 'nothing new'}\n`));
+
+  console.log(chalk.dim('Opening monitoring dashboard...\n'));
+  await monitorBots(storage, heartbeatManager);
+}
+
+async function stopBot(heartbeatManager: HeartbeatManager, storage: JsonStorage) {
+  const daemon = await ControlClient.connect();
+  if (daemon) {
+    const running = (await daemon.list()).filter(b => b.managed);
+    if (running.length === 0) {
+      console.log(chalk.yellow('\nNo bots running in the daemon\n'));
+      return;
+    }
+
+    const { botId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'botId',
+        message: 'Select bot to stop in the daemon:',
+        choices: [
+          { name: 'All running bots', value: 'all' },
+          ...running.map(b => ({ name: `${b.name} (${b.tokenSymbol})`, value: b.id })),
+          { name: '⬅️  Back', value: 'back' },
+        ],
+      },
+    ]);
+
+    if (botId === 'back') {
+      console.log(chalk.dim('\nCancelled.\n'));
+      return;
+    }
+
+    const stopped = await daemon.stop(botId);
+    // The daemon saved their final state; drop our stale copy of bots.json
+    await storage.reload();
+    console.log(chalk.green(`\n✓ Stopped in the daemon: ${stopped.join(', ')}\n`));
+    return;
+  }
+
   const status = heartbeatManager.getStatus();
   if (status.totalBots === 0) {
     console.log(chalk.yellow('\nNo running bots\n'));
@@ -826,6 +1272,22 @@ async function toggleBotStatus(storage: JsonStorage, heartbeatManager: Heartbeat
     return;
   }
 
+  // The daemon holds its own copy of every bot, so the change is saved through it
+  const daemon = await ControlClient.connect();
+  if (daemon) {
+    // A bot running there is stopped first, so its final state isn't overwritten
+    if (!newStatus && (await daemon.stop(bot.id)).length > 0) {
+      console.log(chalk.yellow(`  Stopped ${bot.name} in the daemon`));
+    }
+    await storage.reload();
+    const latest = (await storage.getBot(bot.id)) ?? bot;
+    latest.enabled = newStatus;
+    await daemon.reconfigure(bot.id, {}, latest);
+    await storage.reload();
+    console.log(chalk.green(`\n✓ Bot ${bot.name} is now ${newStatus ? chalk.green('ENABLED') : chalk.red('DISABLED')} (via daemon)\n`));
+    return;
+  }
+
   // Update bot status
   bot.enabled = newStatus;
   bot.lastUpdated = Date.now();
@@ -849,7 +1311,16 @@ async function showStatus(heartbeatManager: HeartbeatManager, storage: JsonStora
   console.log(chalk.cyan('\n📊 System Status\n'));
   console.log(`CLI Heartbeat: ${status.isRunning ? chalk.green('CONNECTED') : chalk.yellow('STANDBY')}`);
   console.log(chalk.dim(`  (Controls bot monitoring, bots run independently in daemon mode)`));
-  console.log(`Total bots: ${stats.totalBots}`);
+  if (status.circuitBreaker !== 'none') {
+    console.log(chalk.red(`Circuit breaker: TRIGGERED (${status.circuitBreaker === 'all' ? 'all trading' : 'buys'} halted)`));
+  }
+  if (status.rateLimit.throttled) {
+    const retryIn = Math.ceil((status.rateLimit.throttledUntil! - Date.now()) / 1000);
+    console.log(chalk.yellow(`0x API: THROTTLED (retrying in ${retryIn}s, ${status.rateLimit.consecutiveThrottles} rate limit(s) in a row)`));
+  } else if (status.rateLimit.totalThrottles > 0) {
+    console.log(chalk.dim(`0x API: OK (${status.rateLimit.totalThrottles} rate limit(s) since start)`));
+  }
+  console.log(`Total bots: ${stats.totalBots}`);
   console.log(`Running: ${stats.runningBots}`);
   console.log(`Total profit: ${formatEther(BigInt(stats.totalProfitEth))} ETH`);
   console.log(`Total trades: ${stats.totalTrades}\n`);
@@ -879,38 +1350,42 @@ async function showStatus(heartbeatManager: HeartbeatManager, storage: JsonStora
           ? chalk.dim(`[${bot.config.buyAmount} ETH/buy]`)
           : chalk.dim('[auto-buy]');
       
-      console.log(`  ${enabledStatus} ${bot.name}: ${botTypeLabel} ${runningStatus} ${buyAmountInfo} ${!bot.enabled ? chalk.red('[DISABLED]') : ''}`);
+      console.log(`  ${enabledStatus} ${bot.name}: ${botTypeLabel} ${paperLabel(bot)}${runningStatus} ${buyAmountInfo} ${!bot.enabled ? chalk.red('[DISABLED]') : ''}`);
       console.log(`     Token: ${bot.tokenSymbol} (${bot.tokenAddress.slice(0, 10)}...)`);
       console.log(`     Wallet: ${bot.walletAddress}`);
       
-      // Fetch balances
+      // Fetch balances (paper bots trade against their virtual ledger)
       try {
-        const ethBalance = await publicClient.getBalance({
-          address: bot.walletAddress as `0x${string}`,
-        });
-        console.log(`     ETH Balance: ${formatEther(ethBalance)} ETH`);
-        
-        // Get token decimals
-        let decimals = 18;
-        try {
-          decimals = await publicClient.readContract({
+        if (bot.paperTrading) {
+          console.log(`     ${formatPaperLedger(bot)}`);
+        } else {
+          const ethBalance = await publicClient.getBalance({
+            address: bot.walletAddress as `0x${string}`,
+          });
+          console.log(`     ETH Balance: ${formatEther(ethBalance)} ETH`);
+          
+          // Get token decimals
+          let decimals = 18;
+          try {
+            decimals = await publicClient.readContract({
+              address: bot.tokenAddress as `0x${string}`,
+              abi: erc20Abi,
+              functionName: 'decimals',
+            });
+          } catch {
+            // Use default 18
+          }
+          
+          // Get token balance
+          const tokenBalance = await publicClient.readContract({
             address: bot.tokenAddress as `0x${string}`,
             abi: erc20Abi,
-            functionName: 'decimals',
+            functionName: 'balanceOf',
+            args: [bot.walletAddress as `0x${string}`],
           });
-        } catch {
-          // Use default 18
+          console.log(`     ${bot.tokenSymbol} Balance: ${formatUnits(tokenBalance, decimals)}`);
         }
         
-        // Get token balance
-        const tokenBalance = await publicClient.readContract({
-          address: bot.tokenAddress as `0x${string}`,
-          abi: erc20Abi,
-          functionName: 'balanceOf',
-          args: [bot.walletAddress as `0x${string}`],
-        });
-        console.log(`     ${bot.tokenSymbol} Balance: ${formatUnits(tokenBalance, decimals)}`);
-        
         // Show active positions or volume status
         if (isVolumeBot) {
           const accumulated = formatEther(BigInt(bot.volumeAccumulatedTokens || '0'));
@@ -1015,15 +1490,21 @@ async function monitorAllBots(enabledBots: BotInstance[], heartbeatManager: Hear
     const holdingTotal = enabledBots.reduce((acc, b) => acc + b.positions.filter(p => p.status === 'HOLDING').length, 0);
     const totalBuys = enabledBots.reduce((acc, b) => acc + (b.totalBuys || 0), 0);
     const totalSells = enabledBots.reduce((acc, b) => acc + (b.totalSells || 0), 0);
-    const totalProfit = enabledBots.reduce((acc, b) => acc + BigInt(b.totalProfitEth || '0'), BigInt(0));
+    const paperBots = enabledBots.filter(b => b.paperTrading).length;
+    const totalProfit = enabledBots
+      .filter(b => !b.paperTrading && !b.quoteToken) // ETH-quoted bots (others report in their own asset)
+      .reduce((acc, b) => acc + BigInt(b.totalProfitEth || '0'), BigInt(0));
 
     console.log(chalk.yellow('📊 FLEET SUMMARY'));
     console.log(chalk.yellow('═'.repeat(66)));
     console.log(`  Fleet Status:     ${chalk.green(runningBots + ' RUNNING')} / ${enabledBots.length} bots`);
-    console.log(`  Heartbeat:        ${status.isRunning ? chalk.green('● ACTIVE') : chalk.red('○ STOPPED')}`);
+    console.log(`  Heartbeat:        ${status.isRunning ? chalk.green('● ACTIVE') : chalk.red('○ STOPPED')} ${chalk.dim(`(${status.activeTicks}/${status.maxConcurrency} ticking)`)}`);
+    if (status.rateLimit.throttled) {
+      console.log(`  0x API:           ${chalk.yellow('⏳ THROTTLED')} ${chalk.dim('(prices from cache, quotes paused)')}`);
+    }
     console.log(`  Total Positions:  ${chalk.cyan(holdingTotal + ' holding')} across all bots`);
     console.log(`  Total Trades:     ${chalk.magenta(totalBuys + ' buys')} | ${chalk.magenta(totalSells + ' sells')}`);
-    console.log(`  Total Profit:     ${chalk.green(formatEther(totalProfit) + ' ETH')}`);
+    console.log(`  Total Profit:     ${chalk.green(formatEther(totalProfit) + ' ETH')}${paperBots > 0 ? chalk.dim(` (excludes ${paperBots} paper bot(s))`) : ''}`);
     console.log();
 
     // Bot Summary Table
@@ -1052,12 +1533,35 @@ async function monitorAllBots(enabledBots: BotInstance[], heartbeatManager: Hear
         .sort((a, b) => a.sellPrice - b.sellPrice)[0];
 
       // Bot header line
-      console.log(`\n  ${chalk.bold(bot.name.slice(0, 15).padEnd(15))} ${statusStr} ${chalk.cyan(bot.tokenSymbol)}`);
+      const ticks = status.bots.find(b => b.id === bot.id);
+      const tickStr = ticks && ticks.ticks > 0
+        ? (ticks.hung ? chalk.red(' ⏱ tick hung') : chalk.dim(` ⏱ ${ticks.avgTickMs}ms/${ticks.intervalMs / 1000}s`))
+        : '';
+      console.log(`\n  ${chalk.bold(bot.name.slice(0, 15).padEnd(15))} ${statusStr} ${paperLabel(bot)}${chalk.cyan(bot.tokenSymbol)}${tickStr}`);
       console.log(`  ${chalk.dim('─'.repeat(76))}`);
+      if (bot.paperTrading) {
+        console.log(`  ${formatPaperLedger(bot)}`);
+      }
+      const gasStatus = formatGasStatus(bot);
+      if (gasStatus) {
+        console.log(`  ${gasStatus}`);
+      }
       
       // Current price
       console.log(`  Price: ${chalk.magenta(bot.currentPrice.toExponential(6))} ETH ${chalk.dim(`(${(bot.currentPrice * 1000000).toFixed(2)} µETH)`)}`);
+      if (usesMarketCap(bot)) {
+        console.log(`  MCap:  ${chalk.magenta(formatLevel(bot, bot.currentPrice))}`);
+      }
       
+      if (bot.config.volumeMode) {
+        const accumulated = formatEther(BigInt(bot.volumeAccumulatedTokens || '0'));
+        console.log(`  Volume:    ${bot.volumeBuysInCycle || 0}/${bot.config.volumeBuysPerCycle || 3} buys | ${accumulated.slice(0, 12)} tokens | ${chalk.cyan((bot.volumeCycleCount || 0) + ' cycles')}`);
+        if (bot.totalProfitEth && BigInt(bot.totalProfitEth) > 0) {
+          console.log(`  Profit:    ${chalk.green('+' + QuoteCurrency.format(BigInt(bot.totalProfitEth), bot.quoteToken).slice(0, 8) + ' ' + QuoteCurrency.symbol(bot.quoteToken))}`);
+        }
+        continue;
+      }
+
       // Positions summary
       console.log(`  Positions: ${chalk.green(holding + ' holding')} | ${chalk.yellow(emptyPositions.length + ' empty')}`);
       
@@ -1072,7 +1576,7 @@ async function monitorAllBots(enabledBots: BotInstance[], heartbeatManager: Hear
           : distPercent > 0 
             ? chalk.yellow(`+${distPercent.toFixed(1)}%`)
             : chalk.green(`${Math.abs(distPercent).toFixed(1)}%`);
-        console.log(`  Next Buy:  Position ${nextBuy.id} @ ${buyMin.toExponential(4)}-${buyMax.toExponential(4)} (${distStr})`);
+        console.log(`  Next Buy:  Position ${nextBuy.id} @ ${formatLevel(bot, buyMin)}-${formatLevel(bot, buyMax)} (${distStr})`);
       } else {
         console.log(`  Next Buy:  ${chalk.dim('None - all positions filled')}`);
       }
@@ -1080,14 +1584,14 @@ async function monitorAllBots(enabledBots: BotInstance[], heartbeatManager: Hear
       // Next sell info
       if (nextSell) {
         const profit = ((nextSell.sellPrice - nextSell.buyPrice) / nextSell.buyPrice * 100);
-        console.log(`  Next Sell: Position ${nextSell.id} @ ${nextSell.sellPrice.toExponential(4)} (${chalk.green('+' + profit.toFixed(1) + '%')})`);
+        console.log(`  Next Sell: Position ${nextSell.id} @ ${formatLevel(bot, nextSell.sellPrice)} (${chalk.green('+' + profit.toFixed(1) + '%')})`);
       } else {
         console.log(`  Next Sell: ${chalk.dim('None - no holding positions')}`);
       }
       
       // Profit
       if (bot.totalProfitEth && BigInt(bot.totalProfitEth) > 0) {
-        console.log(`  Profit:    ${chalk.green('+' + formatEther(BigInt(bot.totalProfitEth)).slice(0, 8) + ' ETH')}`);
+        console.log(`  Profit:    ${chalk.green('+' + QuoteCurrency.format(BigInt(bot.totalProfitEth), bot.quoteToken).slice(0, 8) + ' ' + QuoteCurrency.symbol(bot.quoteToken))}`);
       }
     }
 
@@ -1271,16 +1775,58 @@ async function monitorSingleBot(enabledBots: BotInstance[], _heartbeatManager: H
     console.log(`  ${bot.tokenSymbol.padEnd(7)}  ${chalk.green(formatUnits(tokenBalance, decimals).padEnd(12))} tokens`);
     console.log();
 
+    // PAPER LEDGER SECTION
+    if (bot.paperTrading) {
+      console.log(chalk.yellow('📝 PAPER TRADING (simulated fills, wallet untouched)'));
+      console.log(chalk.yellow('─'.repeat(66)));
+      if (bot.paperLedger) {
+        const paper = PaperWallet.getSummary(bot.paperLedger, bot.currentPrice, QuoteCurrency.decimals(bot.quoteToken));
+        const unit = bot.quoteToken ? bot.quoteToken.symbol : 'Ξ';
+        console.log(`  ${(QuoteCurrency.symbol(bot.quoteToken) + ':').padEnd(9)} ${chalk.green(paper.ethBalance.toFixed(6))} ${unit} ${chalk.dim(`(started ${QuoteCurrency.format(BigInt(bot.paperLedger.startingEth), bot.quoteToken)})`)}`);
+        console.log(`  ${bot.tokenSymbol.padEnd(8)}  ${chalk.green(paper.tokenBalance.toFixed(2))} tokens`);
+        console.log(`  Equity:   ${paper.equityEth.toFixed(6)} ${unit} ${(paper.pnlEth >= 0 ? chalk.green : chalk.red)(`(${paper.pnlEth >= 0 ? '+' : ''}${paper.pnlEth.toFixed(6)} ${unit}, ${paper.pnlPercent.toFixed(2)}%)`)}`);
+        console.log(`  Gas:      ${paper.gasSpentEth.toFixed(6)} ${unit} quoted`);
+      } else {
+        console.log(chalk.dim('  Ledger is funded when the bot starts'));
+      }
+      console.log();
+    }
+
+    // GAS SECTION
+    const gasStatus = formatGasStatus(bot);
+    if (gasStatus || bot.gasSpentEth) {
+      console.log(chalk.cyan('⛽ GAS'));
+      console.log(chalk.cyan('─'.repeat(66)));
+      console.log(`  Today:    ${formatEther(GasBudget.spentToday(bot))} ETH${bot.config.dailyGasBudgetEth ? chalk.dim(` of ${bot.config.dailyGasBudgetEth} ETH budget`) : ''}`);
+      console.log(`  Total:    ${formatEther(BigInt(bot.gasSpentEth || '0'))} ETH`);
+      if (bot.gasHold) {
+        const waited = Math.floor((Date.now() - bot.gasHold.since) / 1000);
+        console.log(chalk.yellow(`  Held:     ${bot.gasHold.side} for ${waited}s - ${bot.gasHold.reason}`));
+      }
+      console.log();
+    }
+
+    // SUBMISSION SECTION
+    if (bot.config.privateSubmission || bot.slippage) {
+      console.log(chalk.cyan('🛡️  SUBMISSION & SLIPPAGE'));
+      console.log(chalk.cyan('─'.repeat(66)));
+      console.log(`  Route:    ${bot.config.privateSubmission ? chalk.green('private relay') : 'public RPC'}`);
+      console.log(`  Private:  ${formatSlippage(bot, 'private')}`);
+      console.log(`  Public:   ${formatSlippage(bot, 'public')}`);
+      console.log();
+    }
+
     // CONFIGURATION SECTION
     console.log(chalk.cyan('⚙️  CONFIGURATION'));
     console.log(chalk.cyan('─'.repeat(66)));
     console.log(`  Token:        ${chalk.yellow(bot.tokenSymbol)} ${chalk.dim(`(${bot.tokenAddress})`)}`);
     console.log(`  Grid:         ${bot.config.numPositions} positions`);
-    console.log(`  Take Profit:  ${bot.config.takeProfitPercent}% per position`);
+    console.log(`  Take Profit:  ${formatTakeProfit(bot.config)} per position`);
     console.log(`  Max Active:   ${bot.config.maxActivePositions} concurrent buys`);
     console.log(`  Moon Bag:     ${bot.config.moonBagEnabled ? bot.config.moonBagPercent + '% kept on sell' : 'Disabled'}`);
     console.log(`  Buy Amount:   ${bot.config.useFixedBuyAmount ? bot.config.buyAmount + ' ETH fixed' : 'Auto-calculated'}`);
     console.log(`  Min Profit:   ${bot.config.minProfitPercent}% after gas`);
+    console.log(`  Swaps via:    ${formatSwapProviders(bot.config)}`);
     console.log();
 
     // PRICE & MARKET SECTION
@@ -1293,10 +1839,30 @@ async function monitorSingleBot(enabledBots: BotInstance[], _heartbeatManager: H
     console.log(chalk.cyan('─'.repeat(66)));
     console.log(`  Current Price: ${chalk.magenta(bot.currentPrice.toExponential(4))} ETH`);
     console.log(`                 ${chalk.dim(`(${(bot.currentPrice * 1000000).toFixed(2)} µETH)`)}`);
-    console.log(`  Grid Range:    ${chalk.dim('Floor:')} ${gridRange.floor.toExponential(4)}  ${chalk.dim('Ceiling:')} ${gridRange.ceiling.toExponential(4)}`);
+    if (usesMarketCap(bot)) {
+      console.log(`  Market Cap:    ${chalk.magenta(formatLevel(bot, bot.currentPrice))} ${chalk.dim(`(supply ${bot.circulatingSupply!.toLocaleString()})`)}`);
+    }
+    console.log(`  Grid Range:    ${chalk.dim('Floor:')} ${formatLevel(bot, gridRange.floor)}  ${chalk.dim('Ceiling:')} ${formatLevel(bot, gridRange.ceiling)}`);
     console.log(`  Coverage:      ${chalk.green('Continuous')} (no gaps between positions)`);
     console.log();
 
+    // VOLUME CYCLE SECTION
+    if (bot.config.volumeMode) {
+      const buysPerCycle = bot.config.volumeBuysPerCycle || 3;
+      const buysInCycle = bot.volumeBuysInCycle || 0;
+      const intervalMs = (bot.config.volumeBuyIntervalSeconds ?? 60) * 1000;
+      const nextLegIn = Math.max(0, (bot.volumeLastTradeAt || 0) + intervalMs - Date.now());
+
+      console.log(chalk.cyan('📈 VOLUME CYCLE'));
+      console.log(chalk.cyan('─'.repeat(66)));
+      console.log(`  Cycle:         #${(bot.volumeCycleCount || 0) + 1} (${bot.volumeCycleCount || 0} completed)`);
+      console.log(`  Buys:          ${buysInCycle}/${buysPerCycle} @ ${bot.config.volumeBuyAmount} ETH`);
+      console.log(`  Accumulated:   ${formatUnits(BigInt(bot.volumeAccumulatedTokens || '0'), decimals)} tokens`);
+      console.log(`  Cost Basis:    ${formatEther(BigInt(bot.volumeCostBasis || '0'))} ETH`);
+      console.log(`  Next Leg:      ${buysInCycle < buysPerCycle ? 'Buy' : 'Distribution sell'} in ${Math.ceil(nextLegIn / 1000)}s`);
+      console.log();
+    }
+
     // GRID POSITIONS SECTION
     const holdingPositions = bot.positions.filter(p => p.status === 'HOLDING').sort((a, b) => (b.buyMax || b.buyPrice) - (a.buyMax || a.buyPrice));
     const emptyPositions = bot.positions.filter(p => p.status === 'EMPTY').sort((a, b) => (b.buyMax || b.buyPrice) - (a.buyMax || a.buyPrice));
@@ -1317,7 +1883,8 @@ async function monitorSingleBot(enabledBots: BotInstance[], _heartbeatManager: H
         const buyMax = pos.buyMax || pos.buyPrice;
         const buyMin = pos.buyMin || buyMax;
         const profit = ((pos.sellPrice - buyMax) / buyMax * 100);
-        const tokens = pos.tokensReceived ? formatUnits(BigInt(pos.tokensReceived), decimals).slice(0, 10) : '---';
+        const held = pos.tokensRemaining ?? pos.tokensReceived;
+        const tokens = held ? formatUnits(BigInt(held), decimals).slice(0, 10) : '---';
         const rangeStr = `${buyMin.toExponential(2)}-${buyMax.toExponential(2)}`;
         console.log(`     ${String(pos.id).padStart(2)}  ${rangeStr.padEnd(20)}  ${buyMax.toExponential(4)}  ${pos.sellPrice.toExponential(4)}  ${tokens.padStart(10)}  ${chalk.green('+' + profit.toFixed(1) + '%')}`);
       }
@@ -1352,7 +1919,10 @@ async function monitorSingleBot(enabledBots: BotInstance[], _heartbeatManager: H
         const inRange = bot.currentPrice >= buyMin && bot.currentPrice <= buyMax
           ? chalk.green(' ← CURRENTLY IN RANGE!')
           : '';
-        console.log(`     Position ${pos.id}: ${buyMin.toExponential(4)}-${buyMax.toExponential(4)} ETH (${distStr})${inRange}`);
+        const rangeLabel = usesMarketCap(bot)
+          ? `${formatLevel(bot, buyMin)}-${formatLevel(bot, buyMax)}`
+          : `${buyMin.toExponential(4)}-${buyMax.toExponential(4)} ETH`;
+        console.log(`     Position ${pos.id}: ${rangeLabel} (${distStr})${inRange}`);
       }
       console.log();
     }
@@ -1373,24 +1943,25 @@ async function monitorSingleBot(enabledBots: BotInstance[], _heartbeatManager: H
     console.log(chalk.cyan('─'.repeat(66)));
     console.log(`  Total Buys:     ${bot.totalBuys || 0}`);
     console.log(`  Total Sells:    ${bot.totalSells || 0}`);
-    console.log(`  Realized P&L:   ${chalk.green(formatEther(BigInt(bot.totalProfitEth || '0')) + ' ETH')}`);
+    console.log(`  Realized P&L:   ${chalk.green(QuoteCurrency.label(BigInt(bot.totalProfitEth || '0'), bot.quoteToken))}`);
 
     // Calculate unrealized P&L
     let unrealizedPnl = BigInt(0);
     for (const pos of holdingPositions) {
       if (pos.tokensReceived) {
-        const currentValue = BigInt(pos.tokensReceived) * BigInt(Math.floor(bot.currentPrice * 1e18)) / BigInt(1e18);
-        const cost = BigInt(pos.ethCost || '0');
+        const { tokens, cost } = openHolding(pos);
+        const currentValue = QuoteCurrency.value(tokens, bot.currentPrice, bot.quoteToken);
         unrealizedPnl += currentValue - cost;
       }
     }
 
     if (unrealizedPnl > 0) {
-      console.log(`  Unrealized P&L: ${chalk.yellow(formatEther(unrealizedPnl) + ' ETH')} (if sold now)`);
+      console.log(`  Unrealized P&L: ${chalk.yellow(QuoteCurrency.label(unrealizedPnl, bot.quoteToken))} (if sold now)`);
     }
 
     const totalPnl = BigInt(bot.totalProfitEth || '0') + unrealizedPnl;
-    console.log(`  Combined P&L:   ${totalPnl >= 0 ? chalk.green('+' + formatEther(totalPnl)) : chalk.red(formatEther(totalPnl))} ETH`);
+    const totalPnlStr = QuoteCurrency.format(totalPnl, bot.quoteToken);
+    console.log(`  Combined P&L:   ${totalPnl >= 0 ? chalk.green('+' + totalPnlStr) : chalk.red(totalPnlStr)} ${QuoteCurrency.symbol(bot.quoteToken)}`);
     console.log();
 
     // ACTIVITY LOG
@@ -1481,7 +2052,9 @@ async function monitorStaticView(enabledBots: BotInstance[], heartbeatManager: H
   const holdingTotal = enabledBots.reduce((acc, b) => acc + b.positions.filter(p => p.status === 'HOLDING').length, 0);
   const totalBuys = enabledBots.reduce((acc, b) => acc + (b.totalBuys || 0), 0);
   const totalSells = enabledBots.reduce((acc, b) => acc + (b.totalSells || 0), 0);
-  const totalProfit = enabledBots.reduce((acc, b) => acc + BigInt(b.totalProfitEth || '0'), BigInt(0));
+  const totalProfit = enabledBots
+    .filter(b => !b.paperTrading && !b.quoteToken) // ETH-quoted bots (others report in their own asset)
+    .reduce((acc, b) => acc + BigInt(b.totalProfitEth || '0'), BigInt(0));
 
   const timestamp = new Date().toLocaleTimeString();
   const dateStr = new Date().toLocaleDateString();
@@ -1518,7 +2091,7 @@ async function monitorStaticView(enabledBots: BotInstance[], heartbeatManager: H
       : 'auto-buy';
     const nameStr = bot.name.slice(0, 13).padEnd(13, ' ');
 
-    console.log(`  ${nameStr} ${statusStr} ${posStr}    ${typeStr} ${buyConfig}`);
+    console.log(`  ${nameStr} ${statusStr} ${posStr}    ${typeStr} ${buyConfig} ${paperLabel(bot)}${bot.gasHold ? chalk.yellow(`⛽ ${bot.gasHold.side} held`) : ''}`);
   }
 
   console.log();
@@ -2592,6 +3165,36 @@ async function reconfigureBot(storage: JsonStorage) {
   const bot = bots.find(b => b.id === botId);
   if (!bot) return;
 
+  // A bot running in the daemon is paused there (saving its latest state) while it is edited
+  const daemon = await ControlClient.connect();
+  if (daemon && (await daemon.list()).some(b => b.id === botId && b.managed)) {
+    console.log(chalk.dim(`\n  Pausing ${bot.name} in the daemon while it is reconfigured...`));
+    await daemon.stop(botId);
+    await storage.reload();
+    const latest = (await storage.getBot(botId)) ?? bot;
+    try {
+      await reconfigureBotSettings(storage, latest);
+    } finally {
+      try {
+        // The daemon saves our edited copy, or its next write would revert the edit
+        await daemon.reconfigure(botId, {}, latest);
+        await daemon.start(botId);
+        await storage.reload();
+        console.log(chalk.green(`✓ ${bot.name} is running again in the daemon\n`));
+      } catch (error: any) {
+        console.log(chalk.yellow(`⚠️  ${bot.name} was not restarted in the daemon: ${error.message}\n`));
+      }
+    }
+    return;
+  }
+
+  await reconfigureBotSettings(storage, bot);
+}
+
+/**
+ * Reconfigure menu for one bot (bots.json is edited directly)
+ */
+async function reconfigureBotSettings(storage: JsonStorage, bot: BotInstance) {
   // Warn if bot is running
   if (bot.isRunning) {
     console.log(chalk.yellow('\n⚠️  This bot is currently running.'));
@@ -2612,11 +3215,14 @@ async function reconfigureBot(storage: JsonStorage) {
 
   console.log(chalk.cyan(`\nCurrent Configuration for ${bot.name}:`));
   console.log(`  Token: ${bot.tokenSymbol} (${bot.tokenAddress})`);
-  console.log(`  Positions: ${bot.config.numPositions}`);
-  console.log(`  Take Profit: ${bot.config.takeProfitPercent}%`);
+  console.log(`  Positions: ${bot.config.numPositions} (${bot.config.gridSpacing || 'arithmetic'})`);
+  console.log(`  Take Profit: ${formatTakeProfit(bot.config)}`);
   console.log(`  Max Active: ${bot.config.maxActivePositions}`);
+  console.log(`  Recycling: ${bot.config.recycleMode || 'none'}`);
+  console.log(`  Auto-shift: ${bot.config.autoShiftEnabled ? `after ${bot.config.autoShiftDelaySeconds ?? 600}s out of range` : 'off'}`);
   console.log(`  Moon Bag: ${bot.config.moonBagEnabled ? bot.config.moonBagPercent + '%' : 'Disabled'}`);
-  console.log(`  Buy Amount: ${bot.config.useFixedBuyAmount ? bot.config.buyAmount + ' ETH' : 'Auto'}\n`);
+  console.log(`  Buy Amount: ${bot.config.useFixedBuyAmount ? bot.config.buyAmount + ' ETH' : 'Auto'}`);
+  console.log(`  Swaps via: ${formatSwapProviders(bot.config)}\n`);
 
   const { action } = await inquirer.prompt([
     {
@@ -2627,6 +3233,16 @@ async function reconfigureBot(storage: JsonStorage) {
         { name: '📊 Change grid settings (positions, profit %)', value: 'grid' },
         { name: '💰 Change buy settings (fixed amount, moon bag)', value: 'buy' },
         { name: '📈 Update profit targets (all positions)', value: 'profit' },
+        { name: '🪜 Take-profit tiers (scale out)', value: 'tiers' },
+        { name: '🛡️  Trailing stop loss', value: 'trailing' },
+        { name: '🧭 Range following (auto-shift grid)', value: 'autoshift' },
+        { name: '🔀 Swap routing (0x / Uniswap V3)', value: 'routing' },
+        { name: '⛽ Gas fees & stuck transactions', value: 'fees' },
+        { name: '🧮 Gas budget & scheduling', value: 'gasbudget' },
+        { name: '🍯 Honeypot & tax check', value: 'safety' },
+        { name: '🔓 Token approvals (exact / capped)', value: 'approvals' },
+        { name: '🛡️  Private transaction submission (MEV protection)', value: 'private' },
+        { name: bot.paperTrading ? '🚀 Promote paper bot to live trading' : '📝 Switch to paper trading', value: 'paper' },
         { name: '🔄 Regenerate positions (preserve balances)', value: 'regenerate' },
         { name: '⬅️  Back', value: 'back' },
       ],
@@ -2642,6 +3258,11 @@ async function reconfigureBot(storage: JsonStorage) {
     console.log(chalk.cyan('\n📈 Update Profit Targets\n'));
     console.log(chalk.dim('This updates the sell price for ALL existing positions.'));
     console.log(chalk.dim('Use this to change profit % without regenerating the grid.\n'));
+    if (bot.config.takeProfitTiers?.length) {
+      console.log(chalk.yellow(`Take-profit tiers are set (${GridCalculator.formatTakeProfitTiers(bot.config.takeProfitTiers)}).`));
+      console.log(chalk.yellow('Change them with "Take-profit tiers", or remove them there to use a single target.\n'));
+      return;
+    }
     console.log(chalk.dim(`Current take profit: ${bot.config.takeProfitPercent}%`));
 
     const { newProfitPercent, confirm } = await inquirer.prompt([
@@ -2687,6 +3308,444 @@ async function reconfigureBot(storage: JsonStorage) {
     console.log(chalk.dim(`  Grid structure: Unchanged\n`));
   }
 
+  if (action === 'tiers') {
+    const tiers = bot.config.takeProfitTiers;
+    console.log(chalk.cyan('\n🪜 Take-Profit Tiers\n'));
+    console.log(chalk.dim('Sell each position in steps as profit grows, e.g. 30% at +5%, 40% at +10%, the rest at +20%.'));
+    console.log(chalk.dim('Shares are of the tokens left after the moon bag; stop-loss and trailing exits sell whatever is left.'));
+    console.log(chalk.dim(`Current: ${tiers?.length ? GridCalculator.formatTakeProfitTiers(tiers) : `single sell at +${bot.config.takeProfitPercent}%`}\n`));
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'useTakeProfitTiers',
+        message: 'Scale out in take-profit tiers?',
+        default: !!tiers?.length,
+      },
+      {
+        type: 'input',
+        name: 'takeProfitTiers',
+        message: 'Tiers as share@profit% - the last tier sells the rest:',
+        default: tiers?.length
+          ? tiers.map(t => `${t.percent}@${t.profitPercent}`).join(', ')
+          : '30@5, 40@10, 30@20',
+        when: (a) => a.useTakeProfitTiers,
+        validate: validateTakeProfitTiers,
+      },
+    ]);
+
+    if (answers.useTakeProfitTiers) {
+      bot.config.takeProfitTiers = GridCalculator.parseTakeProfitTiers(answers.takeProfitTiers);
+    } else {
+      delete bot.config.takeProfitTiers;
+    }
+
+    // Point every open level at its next target; partly sold positions keep their fills
+    for (const position of bot.positions) {
+      if (position.status === 'SOLD') continue;
+      position.sellPrice = GridCalculator.getTakeProfitPrice(position.buyMax, bot.config, position.tierFills?.length ?? 0);
+    }
+
+    bot.lastUpdated = Date.now();
+    await storage.saveBot(bot);
+
+    console.log(chalk.green(`\n✓ Take profit: ${formatTakeProfit(bot.config)}`));
+    console.log(chalk.dim('  Restart the bot to apply.\n'));
+  }
+
+  if (action === 'routing') {
+    console.log(chalk.cyan('\n🔀 Swap Routing\n'));
+    console.log(chalk.dim('Quotes, prices and swaps come from the first provider; the next is tried when it has no quote.'));
+    console.log(chalk.dim('Uniswap V3 trades the deepest token/WETH pool directly and needs no API key.'));
+    console.log(chalk.dim(`Current: ${formatSwapProviders(bot.config)}\n`));
+
+    const { swapProviders } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'swapProviders',
+        message: 'Route swaps through:',
+        choices: SWAP_PROVIDER_CHOICES,
+        default: (bot.config.swapProviders || ['0x']).join(','),
+      },
+    ]);
+
+    bot.config.swapProviders = swapProviders.split(',') as SwapProviderName[];
+    bot.lastUpdated = Date.now();
+    await storage.saveBot(bot);
+
+    console.log(chalk.green(`\n✓ Swaps via: ${formatSwapProviders(bot.config)}`));
+    console.log(chalk.dim('  Restart the bot to apply.\n'));
+  }
+
+  if (action === 'safety') {
+    console.log(chalk.cyan('\n🍯 Honeypot & Tax Check\n'));
+    console.log(chalk.dim('Before buying, the bot simulates a buy and a sell from its wallet (eth_simulateV1).'));
+    console.log(chalk.dim('It refuses to arm the grid if the sell fails or the round-trip tax is above the limit.\n'));
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'tokenSafetyCheck',
+        message: 'Check the token before buying?',
+        default: bot.config.tokenSafetyCheck !== false,
+      },
+      {
+        type: 'number',
+        name: 'maxRoundTripTaxPercent',
+        message: 'Max round-trip tax (%):',
+        default: bot.config.maxRoundTripTaxPercent ?? TokenSafety.DEFAULT_MAX_TAX_PERCENT,
+        when: (a) => a.tokenSafetyCheck,
+        validate: (input) => (input >= 0 && input <= 100) || 'Must be 0-100%',
+      },
+      {
+        type: 'confirm',
+        name: 'recheck',
+        message: 'Re-run the check now?',
+        default: true,
+        when: (a) => a.tokenSafetyCheck,
+      },
+    ]);
+
+    bot.config.tokenSafetyCheck = answers.tokenSafetyCheck;
+    if (answers.tokenSafetyCheck) {
+      bot.config.maxRoundTripTaxPercent = answers.maxRoundTripTaxPercent;
+    }
+    bot.lastUpdated = Date.now();
+    await storage.saveBot(bot);
+
+    if (answers.recheck) {
+      try {
+        const report = await checkTokenSafety(storage, bot.tokenAddress, bot.walletAddress, bot.config.swapProviders, bot.chain || 'base', true);
+        console.log(`\n  ${TokenSafety.format(report)}`);
+        const verdict = TokenSafety.evaluate(report, bot.config.maxRoundTripTaxPercent);
+        if (!verdict.allowed) {
+          console.log(chalk.red(`  ${verdict.reason} - buys stay off`));
+        }
+      } catch (error: any) {
+        console.log(chalk.yellow(`\n  ⚠ Token check failed: ${error.message}`));
+      }
+    }
+
+    console.log(chalk.green(`\n✓ Token check: ${bot.config.tokenSafetyCheck ? `on, max ${bot.config.maxRoundTripTaxPercent ?? TokenSafety.DEFAULT_MAX_TAX_PERCENT}% round-trip tax` : 'off'}`));
+    console.log(chalk.dim('  Restart the bot to apply.\n'));
+  }
+
+  if (action === 'approvals') {
+    console.log(chalk.cyan('\n🔓 Token Approvals\n'));
+    console.log(chalk.dim('Sells (and buys paid in a quote token) need an allowance for the swap contract.'));
+    console.log(chalk.dim('Exact approves only the amount being swapped; capped approves a multiple of it so the next trades skip the approval.\n'));
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'approvalMode',
+        message: 'Approval size:',
+        choices: [
+          { name: 'Exact - the amount of each swap', value: 'exact' },
+          { name: 'Capped - a multiple of the swap amount', value: 'capped' },
+        ],
+        default: bot.config.approvalMode ?? 'exact',
+      },
+      {
+        type: 'number',
+        name: 'approvalCapMultiple',
+        message: 'Approve this many times the swap amount:',
+        default: bot.config.approvalCapMultiple ?? ApprovalRegistry.DEFAULT_CAP_MULTIPLE,
+        when: (a) => a.approvalMode === 'capped',
+        validate: (input) => (input >= 1 && input <= 100) || 'Must be between 1 and 100',
+      },
+    ]);
+
+    bot.config.approvalMode = answers.approvalMode;
+    if (answers.approvalMode === 'capped') {
+      bot.config.approvalCapMultiple = answers.approvalCapMultiple;
+    }
+    bot.lastUpdated = Date.now();
+    await storage.saveBot(bot);
+
+    console.log(chalk.green(`\n✓ Approvals: ${bot.config.approvalMode === 'capped' ? `${bot.config.approvalCapMultiple}× the swap amount` : 'exact swap amount'}`));
+    console.log(chalk.dim('  Review or revoke outstanding allowances from the main menu (🔓 Token approvals).'));
+    console.log(chalk.dim('  Restart the bot to apply.\n'));
+  }
+
+  if (action === 'private') {
+    const chain = bot.chain || 'base';
+    const relayUrl = PrivateRelay.resolve(chain, await storage.getConfig(PRIVATE_RELAY_CONFIG_KEY, {}));
+
+    console.log(chalk.cyan('\n🛡️  Private Transaction Submission\n'));
+    console.log(chalk.dim('Signed swaps go to a private relay instead of the public mempool, out of reach of sandwich bots.'));
+    console.log(chalk.dim('Prices, nonces and receipts are still read from the public RPC.\n'));
+    console.log(`  ${chain} relay: ${relayUrl ? chalk.green(PrivateRelay.label(relayUrl)) : chalk.yellow('not configured (System settings → Private relay endpoints)')}`);
+    console.log(`  Realized slippage vs. quote:`);
+    console.log(`    Private: ${formatSlippage(bot, 'private')}`);
+    console.log(`    Public:  ${formatSlippage(bot, 'public')}\n`);
+
+    const { privateSubmission } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'privateSubmission',
+        message: 'Submit this bot\'s transactions privately?',
+        default: bot.config.privateSubmission ?? false,
+      },
+    ]);
+
+    bot.config.privateSubmission = privateSubmission;
+    bot.lastUpdated = Date.now();
+    await storage.saveBot(bot);
+
+    console.log(chalk.green(`\n✓ Private submission ${privateSubmission ? 'enabled' : 'disabled'}`));
+    if (privateSubmission && !relayUrl) {
+      console.log(chalk.yellow(`  ⚠️  No ${chain} relay configured yet - the bot sends publicly until one is set`));
+    }
+    console.log(chalk.dim('  Restart the bot to apply.\n'));
+  }
+
+  if (action === 'fees') {
+    console.log(chalk.cyan('\n⛽ Gas Fees & Stuck Transactions\n'));
+    console.log(chalk.dim('Fees are EIP-1559: max fee = 2 × next base fee + median recent tip, clamped to the caps below.'));
+    console.log(chalk.dim('A trade unmined after the timeout is sped up (+12.5% fees), then cancelled once the speed-ups run out.\n'));
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'number',
+        name: 'maxFeePerGasGwei',
+        message: 'Max fee per gas cap (gwei, 0 = no cap):',
+        default: bot.config.maxFeePerGasGwei ?? 0,
+        validate: (input) => input >= 0 || 'Must be 0 or greater',
+      },
+      {
+        type: 'number',
+        name: 'maxPriorityFeePerGasGwei',
+        message: 'Priority fee (tip) cap (gwei, 0 = no cap):',
+        default: bot.config.maxPriorityFeePerGasGwei ?? 0,
+        validate: (input) => input >= 0 || 'Must be 0 or greater',
+      },
+      {
+        type: 'number',
+        name: 'txTimeoutSeconds',
+        message: 'Seconds before an unmined trade is sped up:',
+        default: bot.config.txTimeoutSeconds ?? 60,
+        validate: (input) => input >= 5 || 'Must be at least 5 seconds',
+      },
+      {
+        type: 'number',
+        name: 'maxTxReplacements',
+        message: 'Speed-ups before cancelling:',
+        default: bot.config.maxTxReplacements ?? 2,
+        validate: (input) => (Number.isInteger(input) && input >= 0) || 'Must be a whole number, 0 or more',
+      },
+    ]);
+
+    bot.config.maxFeePerGasGwei = answers.maxFeePerGasGwei || undefined;
+    bot.config.maxPriorityFeePerGasGwei = answers.maxPriorityFeePerGasGwei || undefined;
+    bot.config.txTimeoutSeconds = answers.txTimeoutSeconds;
+    bot.config.maxTxReplacements = answers.maxTxReplacements;
+    bot.lastUpdated = Date.now();
+    await storage.saveBot(bot);
+
+    console.log(chalk.green(`\n✓ Fees: max ${bot.config.maxFeePerGasGwei ?? 'uncapped'} gwei, tip ${bot.config.maxPriorityFeePerGasGwei ?? 'uncapped'} gwei`));
+    console.log(chalk.dim(`  Speed up after ${bot.config.txTimeoutSeconds}s, cancel after ${bot.config.maxTxReplacements} speed-up(s)`));
+    console.log(chalk.dim('  Restart the bot to apply.\n'));
+  }
+
+  if (action === 'gasbudget') {
+    console.log(chalk.cyan('\n🧮 Gas Budget & Scheduling\n'));
+    console.log(chalk.dim('Buys and take-profit sells are held while a rule below is hit; stop-loss, trailing-stop'));
+    console.log(chalk.dim('and liquidation sells always go out. Set a value to 0 to turn its rule off.\n'));
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'number',
+        name: 'maxGasPercentOfTrade',
+        message: 'Skip buys while gas exceeds this % of the buy (0 = off):',
+        default: bot.config.maxGasPercentOfTrade ?? 0,
+        validate: (input) => input >= 0 || 'Must be 0 or greater',
+      },
+      {
+        type: 'number',
+        name: 'dailyGasBudgetEth',
+        message: 'Daily gas budget (ETH, UTC day, 0 = unlimited):',
+        default: bot.config.dailyGasBudgetEth ?? 0,
+        validate: (input) => input >= 0 || 'Must be 0 or greater',
+      },
+      {
+        type: 'number',
+        name: 'gasDeferMultiplier',
+        message: 'Wait for a cheaper block while the base fee is above N × its recent average (0 = off):',
+        default: bot.config.gasDeferMultiplier ?? 0,
+        validate: (input) => (input === 0 || input >= 1) || 'Must be 0 or at least 1',
+      },
+      {
+        type: 'number',
+        name: 'maxGasDeferSeconds',
+        message: 'Longest wait for a cheaper block (seconds):',
+        default: bot.config.maxGasDeferSeconds ?? GasBudget.DEFAULT_MAX_DEFER_SECONDS,
+        when: (a) => a.gasDeferMultiplier > 0,
+        validate: (input) => input > 0 || 'Must be positive',
+      },
+    ]);
+
+    bot.config.maxGasPercentOfTrade = answers.maxGasPercentOfTrade || undefined;
+    bot.config.dailyGasBudgetEth = answers.dailyGasBudgetEth || undefined;
+    bot.config.gasDeferMultiplier = answers.gasDeferMultiplier || undefined;
+    bot.config.maxGasDeferSeconds = answers.gasDeferMultiplier ? answers.maxGasDeferSeconds : undefined;
+    bot.lastUpdated = Date.now();
+    await storage.saveBot(bot);
+
+    console.log(chalk.green(`\n✓ Gas rules: ${bot.config.maxGasPercentOfTrade ? `buys ≤ ${bot.config.maxGasPercentOfTrade}% gas` : 'no gas-to-trade limit'}, ` +
+      `${bot.config.dailyGasBudgetEth ? `${bot.config.dailyGasBudgetEth} ETH/day` : 'no daily budget'}`));
+    if (bot.config.gasDeferMultiplier) {
+      console.log(chalk.dim(`  Waits up to ${bot.config.maxGasDeferSeconds}s while the base fee is above ${bot.config.gasDeferMultiplier}× average`));
+    }
+    console.log(chalk.dim('  Restart the bot to apply.\n'));
+  }
+
+  if (action === 'trailing') {
+    const answers = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'useTrailingStopLoss',
+        message: 'Enable trailing stop loss?',
+        default: bot.config.useTrailingStopLoss ?? false,
+      },
+      {
+        type: 'number',
+        name: 'trailingStopActivation',
+        message: 'Activate once profit reaches (%):',
+        default: bot.config.trailingStopActivation ?? 3,
+        when: (a) => a.useTrailingStopLoss,
+        validate: (input) => input > 0 || 'Must be positive',
+      },
+      {
+        type: 'number',
+        name: 'trailingStopPercent',
+        message: 'Trail distance below peak (%):',
+        default: bot.config.trailingStopPercent ?? 5,
+        when: (a) => a.useTrailingStopLoss,
+        validate: (input) => (input > 0 && input < 100) || 'Must be between 0 and 100',
+      },
+    ]);
+
+    bot.config.useTrailingStopLoss = answers.useTrailingStopLoss;
+    if (answers.useTrailingStopLoss) {
+      bot.config.trailingStopActivation = answers.trailingStopActivation;
+      bot.config.trailingStopPercent = answers.trailingStopPercent;
+    }
+    bot.lastUpdated = Date.now();
+    await storage.saveBot(bot);
+
+    console.log(chalk.green(`\n✓ Trailing stop ${answers.useTrailingStopLoss ? 'enabled' : 'disabled'}`));
+    console.log(chalk.dim('  Restart the bot to apply.\n'));
+  }
+
+  if (action === 'autoshift') {
+    const shifts = (await storage.getEvents(bot.id, 'grid-shift')).slice(-5).reverse();
+    if (shifts.length > 0) {
+      console.log(chalk.cyan(`\nRecent grid shifts (${bot.gridShiftCount ?? shifts.length} total):`));
+      for (const event of shifts) {
+        console.log(chalk.dim(`  ${new Date(event.timestamp).toLocaleString()}  ${event.message}`));
+      }
+      console.log();
+    }
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'autoShiftEnabled',
+        message: 'Shift the grid to follow price when it leaves the range?',
+        default: bot.config.autoShiftEnabled ?? false,
+      },
+      {
+        type: 'number',
+        name: 'autoShiftDelaySeconds',
+        message: 'Seconds outside the range before shifting:',
+        default: bot.config.autoShiftDelaySeconds ?? 600,
+        when: (a) => a.autoShiftEnabled,
+        validate: (input) => input >= 0 || 'Must be 0 or greater',
+      },
+    ]);
+
+    bot.config.autoShiftEnabled = answers.autoShiftEnabled;
+    if (answers.autoShiftEnabled) {
+      bot.config.autoShiftDelaySeconds = answers.autoShiftDelaySeconds;
+    } else {
+      delete bot.outOfRangeSince;
+    }
+    bot.lastUpdated = Date.now();
+    await storage.saveBot(bot);
+
+    console.log(chalk.green(`\n✓ Range following ${answers.autoShiftEnabled ? 'enabled' : 'disabled'}`));
+    console.log(chalk.dim('  HOLDING positions are never moved; only EMPTY levels are rebuilt.'));
+    console.log(chalk.dim('  Restart the bot to apply.\n'));
+  }
+
+  if (action === 'paper' && bot.paperTrading) {
+    if (bot.isRunning) {
+      console.log(chalk.yellow('\n⚠️  Stop the bot before promoting it to live trading.\n'));
+      return;
+    }
+
+    console.log(chalk.cyan('\n🚀 Promote to Live Trading\n'));
+    console.log(`  ${formatPaperLedger(bot)}`);
+    console.log(`  Paper trades: ${bot.totalBuys} buys | ${bot.totalSells} sells | ${QuoteCurrency.label(BigInt(bot.totalProfitEth || '0'), bot.quoteToken)} realized`);
+    console.log(chalk.dim('\n  Simulated positions are cleared and every level re-arms as EMPTY.'));
+    console.log(chalk.dim('  Paper trade records stay in the P&L history, flagged as simulated.\n'));
+
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: `Switch ${bot.name} to live trading with wallet ${bot.walletAddress.slice(0, 10)}...?`,
+        default: false,
+      },
+    ]);
+
+    if (!confirm) {
+      console.log(chalk.dim('\nCancelled.\n'));
+      return;
+    }
+
+    PaperWallet.promoteToLive(bot);
+    await storage.saveBot(bot);
+
+    console.log(chalk.green(`\n✓ ${bot.name} is now trading live`));
+    console.log(chalk.yellow(`⚠️  Fund ${bot.walletAddress} with ETH before starting\n`));
+  } else if (action === 'paper') {
+    if (bot.positions.some(p => p.status === 'HOLDING')) {
+      console.log(chalk.yellow('\n⚠️  This bot holds live positions. Sell or liquidate them before switching to paper trading.\n'));
+      return;
+    }
+
+    const { startingEth, confirm } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'startingEth',
+        message: 'Virtual starting balance (ETH):',
+        default: '1',
+        validate: (input) => !isNaN(parseFloat(input)) && parseFloat(input) > 0 || 'Invalid amount',
+      },
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: 'Switch to paper trading? The wallet will not be used until promoted back to live.',
+        default: false,
+      },
+    ]);
+
+    if (!confirm) {
+      console.log(chalk.dim('\nCancelled.\n'));
+      return;
+    }
+
+    bot.paperTrading = true;
+    bot.paperLedger = PaperWallet.create(parseFloat(startingEth), QuoteCurrency.decimals(bot.quoteToken));
+    bot.lastUpdated = Date.now();
+    await storage.saveBot(bot);
+
+    console.log(chalk.green(`\n✓ ${bot.name} is now paper trading with ${startingEth} virtual ETH`));
+    console.log(chalk.dim('  Restart the bot to apply.\n'));
+  }
+
   if (action === 'grid') {
     const answers = await inquirer.prompt([
       {
@@ -2707,11 +3766,35 @@ async function reconfigureBot(storage: JsonStorage) {
         message: 'Max active positions:',
         default: bot.config.maxActivePositions,
       },
+      {
+        type: 'list',
+        name: 'recycleMode',
+        message: 'Re-arm positions after they sell?',
+        choices: [
+          { name: 'No - each level trades once', value: 'none' },
+          { name: 'Immediately after the sell', value: 'immediate' },
+          { name: 'After a cooldown', value: 'cooldown' },
+          { name: 'Once price is back below the level', value: 'below-buy-max' },
+        ],
+        default: bot.config.recycleMode || 'none',
+      },
+      {
+        type: 'number',
+        name: 'recycleCooldownSeconds',
+        message: 'Cooldown before re-arming (seconds):',
+        default: bot.config.recycleCooldownSeconds ?? 300,
+        when: (a) => a.recycleMode === 'cooldown',
+        validate: (input) => input >= 0 || 'Must be 0 or greater',
+      },
     ]);
 
     bot.config.numPositions = answers.numPositions;
     bot.config.takeProfitPercent = answers.takeProfitPercent;
     bot.config.maxActivePositions = answers.maxActivePositions;
+    bot.config.recycleMode = answers.recycleMode;
+    if (answers.recycleCooldownSeconds !== undefined) {
+      bot.config.recycleCooldownSeconds = answers.recycleCooldownSeconds;
+    }
     bot.lastUpdated = Date.now();
     await storage.saveBot(bot);
 
@@ -2787,6 +3870,40 @@ async function reconfigureBot(storage: JsonStorage) {
       console.log(chalk.dim('Using stored price or auto-calculation.\n'));
     }
 
+    const { gridSpacing } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'gridSpacing',
+        message: 'Grid spacing:',
+        choices: [
+          { name: 'Arithmetic - equal price width per level', value: 'arithmetic' },
+          { name: 'Geometric - equal % move per level', value: 'geometric' },
+          { name: 'Custom - enter price breakpoints', value: 'custom' },
+        ],
+        default: bot.config.gridSpacing || 'arithmetic',
+      },
+    ]);
+
+    let customBreakpoints: number[] | undefined;
+    if (gridSpacing === 'custom') {
+      const { breakpointsInput } = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'breakpointsInput',
+          message: 'Price breakpoints in ETH (comma separated, N+1 values for N positions):',
+          default: bot.config.customBreakpoints?.join(', '),
+          validate: (input) => {
+            try {
+              return GridCalculator.parseBreakpoints(input).length >= 2 || 'Enter at least 2 distinct prices';
+            } catch (error: any) {
+              return error.message;
+            }
+          },
+        },
+      ]);
+      customBreakpoints = GridCalculator.parseBreakpoints(breakpointsInput);
+    }
+
     // Determine floor/ceiling options
     const existingFloor = bot.config.floorPrice;
     const existingCeiling = bot.config.ceilingPrice;
@@ -2818,8 +3935,10 @@ async function reconfigureBot(storage: JsonStorage) {
           ...(currentPrice > 0 ? [{ name: `🎯 Auto (Floor: ${(currentPrice / 10).toExponential(4)}, Ceiling: ${(currentPrice * 4).toExponential(4)})`, value: 'auto' }] : []),
           ...(existingFloor && existingCeiling ? [{ name: `📍 Keep Existing (Floor: ${existingFloor.toExponential(4)}, Ceiling: ${existingCeiling.toExponential(4)})`, value: 'existing' }] : []),
           { name: '✏️  Custom Floor/Ceiling', value: 'custom' },
+          { name: '🏦 Market Cap Floor/Ceiling', value: 'market_cap' },
           { name: '⬅️  Back', value: 'back' },
         ],
+        when: () => !customBreakpoints,
       },
     ]);
 
@@ -2830,6 +3949,7 @@ async function reconfigureBot(storage: JsonStorage) {
 
     let floorPrice: number | undefined;
     let ceilingPrice: number | undefined;
+    let marketCapRange: { floor: number; ceiling: number; excluded: string[]; supply: number } | undefined;
 
     if (rangeChoice === 'auto') {
       if (currentPrice > 0) {
@@ -2875,8 +3995,56 @@ async function reconfigureBot(storage: JsonStorage) {
       console.log(chalk.green(`\n✓ Using custom range:`));
       console.log(`  Floor:   ${floorPrice.toExponential(6)} ETH`);
       console.log(`  Ceiling: ${ceilingPrice.toExponential(6)} ETH`);
+    } else if (rangeChoice === 'market_cap') {
+      const mcAnswers = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'floor',
+          message: 'Floor market cap (ETH):',
+          default: bot.config.marketCapFloor !== undefined ? String(bot.config.marketCapFloor) : undefined,
+          validate: (input) => parseFloat(input) > 0 || 'Must be a positive number',
+        },
+        {
+          type: 'input',
+          name: 'ceiling',
+          message: 'Ceiling market cap (ETH):',
+          default: bot.config.marketCapCeiling !== undefined ? String(bot.config.marketCapCeiling) : undefined,
+          validate: (input, answers) => parseFloat(input) > parseFloat(answers?.floor) || 'Must be above the floor',
+        },
+        {
+          type: 'input',
+          name: 'excluded',
+          message: 'Burn/locked addresses to exclude from supply (comma separated, optional):',
+          default: (bot.config.excludedSupplyAddresses || []).join(', '),
+          validate: (input) => parseAddressList(input) !== null || 'Invalid address in list',
+        },
+      ]);
+
+      const excluded = parseAddressList(mcAnswers.excluded) || [];
+      console.log(chalk.dim('Reading circulating supply...'));
+      const supply = await fetchCirculatingSupply(bot.tokenAddress, excluded, bot.chain || 'base');
+      marketCapRange = {
+        floor: parseFloat(mcAnswers.floor),
+        ceiling: parseFloat(mcAnswers.ceiling),
+        excluded,
+        supply,
+      };
+      floorPrice = MarketCapConverter.toPrice(marketCapRange.floor, supply);
+      ceilingPrice = MarketCapConverter.toPrice(marketCapRange.ceiling, supply);
+
+      console.log(chalk.green(`\n✓ Using market cap range (supply ${supply.toLocaleString()} ${bot.tokenSymbol}):`));
+      console.log(`  Floor:   ${MarketCapConverter.format(marketCapRange.floor)} (${floorPrice.toExponential(6)} ETH)`);
+      console.log(`  Ceiling: ${MarketCapConverter.format(marketCapRange.ceiling)} (${ceilingPrice.toExponential(6)} ETH)`);
+    } else if (customBreakpoints) {
+      floorPrice = customBreakpoints[0];
+      ceilingPrice = customBreakpoints[customBreakpoints.length - 1];
+      console.log(chalk.green(`\n✓ Using ${customBreakpoints.length - 1} custom levels:`));
+      console.log(`  Floor:   ${floorPrice.toExponential(6)} ETH`);
+      console.log(`  Ceiling: ${ceilingPrice.toExponential(6)} ETH`);
     }
 
+    const newNumPositions = customBreakpoints ? customBreakpoints.length - 1 : bot.config.numPositions;
+
     // Store current holding positions
     const holdingPositions = bot.positions.filter(p => p.status === 'HOLDING' && p.tokensReceived);
     
@@ -2892,7 +4060,7 @@ async function reconfigureBot(storage: JsonStorage) {
       {
         type: 'confirm',
         name: 'confirm',
-        message: `\nRegenerate ${bot.config.numPositions} positions with ${holdingPositions.length} balances preserved?`,
+        message: `\nRegenerate ${newNumPositions} ${gridSpacing} positions with ${holdingPositions.length} balances preserved?`,
         default: false,
       },
     ]);
@@ -2907,6 +4075,33 @@ async function reconfigureBot(storage: JsonStorage) {
       bot.config.floorPrice = floorPrice;
       bot.config.ceilingPrice = ceilingPrice;
     }
+    if (marketCapRange) {
+      bot.config.useMarketCap = true;
+      bot.config.marketCapFloor = marketCapRange.floor;
+      bot.config.marketCapCeiling = marketCapRange.ceiling;
+      bot.config.excludedSupplyAddresses = marketCapRange.excluded;
+      bot.circulatingSupply = marketCapRange.supply;
+    } else if (rangeChoice !== 'existing') {
+      // Range was entered as prices
+      bot.config.useMarketCap = false;
+    }
+    bot.config.gridSpacing = gridSpacing;
+    bot.config.numPositions = newNumPositions;
+    if (customBreakpoints) {
+      bot.config.customBreakpoints = customBreakpoints;
+    }
+
+    // Partly sold positions carry only what they still hold into the new grid
+    for (const pos of holdingPositions) {
+      if (!pos.tierFills) continue;
+      const { tokens, cost } = openHolding(pos);
+      pos.tokensReceived = tokens.toString();
+      pos.ethCost = cost.toString();
+      pos.sellPrice = GridCalculator.getTakeProfitPrice(pos.buyMax, bot.config);
+      delete pos.tierFills;
+      delete pos.tokensRemaining;
+      delete pos.realizedProfitEth;
+    }
 
     // Use current price for grid generation
     const gridPrice = currentPrice > 0 ? currentPrice : (floorPrice || 0.000001);
@@ -3031,8 +4226,10 @@ async function reconfigureBot(storage: JsonStorage) {
 
     console.log(chalk.green('\n✓ Positions regenerated successfully'));
     console.log(chalk.cyan(`\n📊 New Grid Configuration:`));
+    const newRange = GridCalculator.getGridRange(newPositions, bot.config);
     console.log(`  Total positions: ${newPositions.length}`);
-    console.log(`  Price range: ${bot.config.floorPrice?.toExponential(6)} - ${bot.config.ceilingPrice?.toExponential(6)} ETH`);
+    console.log(`  Spacing: ${gridSpacing}`);
+    console.log(`  Price range: ${newRange?.floor.toExponential(6)} - ${newRange?.ceiling.toExponential(6)} ETH`);
     console.log(`  Original holdings: ${holdingPositions.length}`);
     if (mergedCount > 0) {
       console.log(`  Final holdings: ${finalHoldingCount} (${mergedCount} merged)`);
@@ -3127,6 +4324,104 @@ async function reclaimFunds(walletManager: WalletManager, storage: JsonStorage)
   console.log(chalk.yellow('Note: Tokens were not sold. Use TradingBot liquidation to sell tokens first.'));
 }
 
+/**
+ * List outstanding ERC-20 allowances across bot wallets and revoke them
+ */
+async function manageApprovals(
+  storage: JsonStorage,
+  walletManager: WalletManager,
+  ensureWalletInitialized: () => Promise<boolean>
+) {
+  console.log(chalk.cyan('\n🔓 Token Approvals\n'));
+
+  const bots = await storage.getAllBots();
+  const recorded = await storage.getApprovals();
+  const chains = Array.from(new Set<Chain>([...bots.map(b => b.chain || 'base'), ...recorded.map(a => a.chain)]));
+  if (chains.length === 0) {
+    console.log(chalk.yellow('No bots or recorded approvals.\n'));
+    return;
+  }
+
+  const { http } = await import('viem');
+  const { base, mainnet } = await import('viem/chains');
+  const clients = new Map<Chain, any>();
+  for (const chain of chains) {
+    clients.set(chain, createPublicClient({
+      chain: chain === 'base' ? base : mainnet,
+      transport: http(await getWorkingRpc(chain)),
+    }));
+  }
+
+  const describe = ({ record, allowance }: OutstandingApproval): string => {
+    const bot = bots.find(b => b.id === record.botId) ?? bots.find(b => b.walletAddress.toLowerCase() === record.walletAddress.toLowerCase());
+    const quote = bots.find(b => b.quoteToken?.address.toLowerCase() === record.tokenAddress.toLowerCase())?.quoteToken;
+    const amount = allowance >= maxUint256 / BigInt(2) ? chalk.red('unlimited') : formatUnits(allowance, quote?.decimals ?? 18);
+    const symbol = record.tokenSymbol ?? `${record.tokenAddress.slice(0, 10)}...`;
+    return `${bot?.name ?? record.walletAddress.slice(0, 10) + '...'}: ${amount} ${symbol} → ${ApprovalRegistry.spenderName(record.chain, record.spender)}${chains.length > 1 ? ` (${record.chain})` : ''}`;
+  };
+
+  while (true) {
+    console.log(chalk.dim('Reading allowances...'));
+    const outstanding: OutstandingApproval[] = [];
+    for (const chain of chains) {
+      const registry = new ApprovalRegistry(storage, chain);
+      outstanding.push(...await registry.outstanding(clients.get(chain), await registry.candidates(bots)));
+    }
+
+    if (outstanding.length === 0) {
+      console.log(chalk.green('\n✓ No outstanding allowances\n'));
+      return;
+    }
+
+    console.log(chalk.bold(`\n${outstanding.length} outstanding allowance(s)\n`));
+    const { choice } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'choice',
+        message: 'Select an allowance to revoke:',
+        choices: [
+          ...outstanding.map((o, i) => ({ name: describe(o), value: i })),
+          { name: '🧹 Revoke all', value: 'all' },
+          { name: '⬅️  Back', value: 'back' },
+        ],
+      },
+    ]);
+
+    if (choice === 'back') return;
+
+    if (choice === 'all') {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: `Send ${outstanding.length} revoke transaction(s)? Each costs gas.`,
+          default: false,
+        },
+      ]);
+      if (!confirm) continue;
+    }
+
+    if (!await ensureWalletInitialized()) return;
+
+    const targets = choice === 'all' ? outstanding : [outstanding[choice]];
+    for (const target of targets) {
+      const { record } = target;
+      try {
+        const wallet = walletManager.getWalletIdForAddress(record.walletAddress);
+        if (!wallet) throw new Error('wallet not found');
+
+        const walletClient = walletManager.getWalletClient(wallet.id, await getWorkingRpc(record.chain), record.chain);
+        console.log(chalk.dim(`  Revoking ${describe(target)}...`));
+        const txHash = await new ApprovalRegistry(storage, record.chain).revoke(walletClient, clients.get(record.chain), record);
+        console.log(chalk.green(`  ✓ Revoked: ${txHash}`));
+      } catch (error: any) {
+        console.log(chalk.red(`  ✗ Revoke failed: ${error.message}`));
+      }
+    }
+    console.log('');
+  }
+}
+
 async function getBotEthBalance(_walletManager: WalletManager, bot: BotInstance): Promise<string> {
   try {
     const workingRpc = await getWorkingRpc();
@@ -3264,8 +4559,15 @@ async function deleteBot(heartbeatManager: HeartbeatManager, storage: JsonStorag
   ]);
 
   if (confirm) {
-    heartbeatManager.removeBot(botId);
-    await storage.deleteBot(botId);
+    // Deleted through the daemon when it runs, or its next write would bring the bot back
+    const daemon = await ControlClient.connect();
+    if (daemon) {
+      await daemon.delete(botId);
+      await storage.reload();
+    } else {
+      heartbeatManager.removeBot(botId);
+      await storage.deleteBot(botId);
+    }
     console.log(chalk.green('\n✓ Bot deleted'));
     console.log(chalk.dim('Note: Bot wallet still exists in storage but is no longer accessible via CLI\n'));
   }
@@ -3429,6 +4731,20 @@ async function configureTelegram() {
   }
 }
 
+/**
+ * ETH rates for the quote tokens of the given bots ({} when every bot is ETH-quoted)
+ */
+async function fetchQuoteRates(bots: BotInstance[]): Promise<QuoteRates> {
+  const quotes = bots.map(b => b.quoteToken).filter(q => q !== undefined);
+  if (quotes.length === 0) return {};
+  try {
+    const oracle = new PriceOracle({ chain: 'base', rpcUrl: await getWorkingRpc('base') });
+    return await QuoteValuation.fetchRates(oracle, quotes);
+  } catch {
+    return {};
+  }
+}
+
 /**
  * Show P&L Report
  */
@@ -3442,7 +4758,9 @@ async function showPnlReport(pnLTracker: PnLTracker, storage: JsonStorage) {
   }
 
   const allTrades = pnLTracker.getAllTrades();
-  const cumulativePnl = pnLTracker.getCumulativePnL();
+  // Bots quoted in USDC/DAI/... are summed in ETH at the oracle's current rate
+  const rates = await fetchQuoteRates(bots);
+  const cumulativePnl = pnLTracker.getCumulativePnL(false, rates);
 
   if (allTrades.length === 0) {
     console.log(chalk.yellow('No trades recorded yet.\n'));
@@ -3459,12 +4777,19 @@ async function showPnlReport(pnLTracker: PnLTracker, storage: JsonStorage) {
   console.log(`  Total Profit:    ${chalk.green(formatEther(BigInt(cumulativePnl.totalProfitEth)) + ' ETH')}`);
   console.log(`  Total Volume:    ${chalk.cyan(formatEther(BigInt(cumulativePnl.totalVolumeEth)) + ' ETH')}`);
   console.log(`  Period:          ${chalk.dim(new Date(cumulativePnl.startDate).toLocaleDateString())} → ${new Date(cumulativePnl.endDate).toLocaleDateString()}`);
+  const paperTrades = allTrades.filter(t => t.simulated).length;
+  if (paperTrades > 0) {
+    console.log(chalk.dim(`  Live trades only - ${paperTrades} paper trade(s) excluded`));
+  }
+  if (cumulativePnl.unpricedTrades) {
+    console.log(chalk.yellow(`  ${cumulativePnl.unpricedTrades} trade(s) in a quote token without an ETH price left out of the totals`));
+  }
   console.log();
 
   // Per-bot breakdown
   console.log(chalk.yellow('📈 PER-BOT BREAKDOWN'));
   console.log(chalk.yellow('─'.repeat(66)));
-  console.log(chalk.dim('  Bot Name              Trades    Buys    Sells    Profit (ETH)'));
+  console.log(chalk.dim('  Bot Name              Trades    Buys    Sells    Profit'));
   console.log(chalk.dim('  ───────────────────────────────────────────────────────────────'));
 
   for (const bot of bots) {
@@ -3473,14 +4798,14 @@ async function showPnlReport(pnLTracker: PnLTracker, storage: JsonStorage) {
     const botSells = botTrades.filter(t => t.action === 'sell');
     const botProfit = botSells.reduce((sum, t) => sum + BigInt(t.profit || '0'), BigInt(0));
     
-    const name = bot.name.slice(0, 20).padEnd(20, ' ');
+    const name = `${bot.paperTrading ? '[P] ' : ''}${bot.name}`.slice(0, 20).padEnd(20, ' ');
     const trades = String(botTrades.length).padStart(6);
     const buys = String(botBuys.length).padStart(6);
     const sells = String(botSells.length).padStart(7);
-    const profit = formatEther(botProfit).slice(0, 10).padStart(12);
+    const profit = QuoteCurrency.format(botProfit, bot.quoteToken).slice(0, 10).padStart(12);
     const profitColor = botProfit > 0 ? chalk.green : botProfit < 0 ? chalk.red : chalk.gray;
     
-    console.log(`  ${name} ${trades} ${buys} ${sells} ${profitColor(profit)}`);
+    console.log(`  ${name} ${trades} ${buys} ${sells} ${profitColor(profit)} ${chalk.dim(QuoteCurrency.symbol(bot.quoteToken))}`);
   }
   console.log();
 
@@ -3496,22 +4821,23 @@ async function showPnlReport(pnLTracker: PnLTracker, storage: JsonStorage) {
     const botName = trade.botName.slice(0, 14).padEnd(14);
     const action = trade.action === 'buy' ? chalk.yellow('BUY ') : chalk.green('SELL');
     const token = trade.tokenSymbol.slice(0, 10).padEnd(10);
-    const profit = trade.profit ? formatEther(BigInt(trade.profit)).slice(0, 10).padStart(10) : chalk.gray('      —   ');
+    const profit = trade.profit ? QuoteCurrency.format(BigInt(trade.profit), trade.quote).slice(0, 10).padStart(10) : chalk.gray('      —   ');
     const profitColor = trade.profit && BigInt(trade.profit) > 0 ? chalk.green : chalk.gray;
+    const paperTag = trade.simulated ? chalk.yellow(' [PAPER]') : '';
     
-    console.log(`  ${time} ${botName} ${action}    ${token} ${profitColor(profit)}`);
+    console.log(`  ${time} ${botName} ${action}    ${token} ${profitColor(profit)}${paperTag}`);
   }
   console.log();
 
   // Calculate unrealized P&L
   let totalUnrealized = BigInt(0);
   for (const bot of bots) {
-    const holdingPositions = bot.positions.filter(p => p.status === 'HOLDING');
+    const holdingPositions = bot.positions.filter(p => p.status === 'HOLDING' && !p.simulated);
     for (const pos of holdingPositions) {
       if (pos.tokensReceived && pos.ethCost) {
-        const currentValue = BigInt(pos.tokensReceived) * BigInt(Math.floor(bot.currentPrice * 1e18)) / BigInt(1e18);
-        const cost = BigInt(pos.ethCost);
-        totalUnrealized += currentValue - cost;
+        const { tokens, cost } = openHolding(pos);
+        const currentValue = QuoteCurrency.value(tokens, bot.currentPrice, bot.quoteToken);
+        totalUnrealized += QuoteValuation.toEthWei(currentValue - cost, bot.quoteToken, rates) ?? BigInt(0);
       }
     }
   }
@@ -3554,14 +4880,14 @@ async function showPnlReport(pnLTracker: PnLTracker, storage: JsonStorage) {
   if (action === 'export') {
     await exportPnlToCsv(pnLTracker, bots);
   } else if (action === 'daily') {
-    await showDailyPnlBreakdown(pnLTracker);
+    await showDailyPnlBreakdown(pnLTracker, rates);
   }
 }
 
 /**
  * Show daily P&L breakdown
  */
-async function showDailyPnlBreakdown(pnLTracker: PnLTracker) {
+async function showDailyPnlBreakdown(pnLTracker: PnLTracker, rates: QuoteRates = {}) {
   console.log(chalk.cyan('\n📅 Daily P&L Breakdown\n'));
 
   const allTrades = pnLTracker.getAllTrades();
@@ -3584,7 +4910,7 @@ async function showDailyPnlBreakdown(pnLTracker: PnLTracker) {
 
   for (const dateStr of sortedDates.slice(0, 14)) { // Last 14 days
     const date = new Date(dateStr);
-    const dailyPnl = pnLTracker.getDailyPnL(date);
+    const dailyPnl = pnLTracker.getDailyPnL(date, false, rates);
     
     for (const day of dailyPnl) {
       const dateDisplay = dateStr.slice(5); // MM-DD
@@ -3813,6 +5139,15 @@ async function togglePriceValidation(storage: JsonStorage, heartbeatManager: Hea
     return;
   }
 
+  // The daemon applies it to its live bot and restarts it
+  const daemon = await ControlClient.connect();
+  if (daemon) {
+    await daemon.reconfigure(bot.id, { usePriceOracle: newStatus });
+    await storage.reload();
+    console.log(chalk.green(`\n✓ Price validation is now ${newStatus ? chalk.green('ENABLED') : chalk.red('DISABLED')} for ${bot.name} (via daemon)\n`));
+    return;
+  }
+
   // Update bot config
   bot.config.usePriceOracle = newStatus;
   bot.lastUpdated = Date.now();
@@ -3879,7 +5214,7 @@ async function runDiagnostic(storage: JsonStorage, _heartbeatManager: HeartbeatM
   // 2. Grid Configuration
   console.log(chalk.yellow('📏 Grid Configuration:'));
   console.log(`  Positions: ${bot.config.numPositions}`);
-  console.log(`  Take Profit: ${bot.config.takeProfitPercent}%`);
+  console.log(`  Take Profit: ${formatTakeProfit(bot.config)}`);
   console.log(`  Max Active: ${bot.config.maxActivePositions}`);
   if (bot.config.floorPrice && bot.config.ceilingPrice) {
     console.log(`  Floor: ${bot.config.floorPrice.toExponential(6)} ETH`);
@@ -3900,6 +5235,16 @@ async function runDiagnostic(storage: JsonStorage, _heartbeatManager: HeartbeatM
   console.log(`  ${chalk.gray('○ Empty')}: ${emptyPositions.length}`);
   console.log(`  ${chalk.blue('● Sold')}: ${soldPositions.length}`);
   console.log(`  Active/Max: ${holdingPositions.length}/${bot.config.maxActivePositions}`);
+  for (const pos of bot.positions.filter(p => p.pendingTx)) {
+    const pending = pos.pendingTx!;
+    const age = Math.round((Date.now() - pending.submittedAt) / 1000);
+    console.log(chalk.yellow(`  ⏳ Position ${pos.id}: ${pending.side} pending ${age}s (nonce ${pending.nonce}, ${pending.replacements} replacement(s)${pending.cancelHash ? ', cancelling' : ''})`));
+  }
+  const volumePending = bot.volumePendingLeg?.pendingTx;
+  if (volumePending) {
+    const age = Math.round((Date.now() - volumePending.submittedAt) / 1000);
+    console.log(chalk.yellow(`  ⏳ Volume ${volumePending.side}: pending ${age}s (nonce ${volumePending.nonce}, ${volumePending.replacements} replacement(s)${volumePending.cancelHash ? ', cancelling' : ''})`));
+  }
   console.log();
 
   // 4. Buy Settings
@@ -3917,6 +5262,8 @@ async function runDiagnostic(storage: JsonStorage, _heartbeatManager: HeartbeatM
 
   // 5. Try to fetch current price and balances
   console.log(chalk.yellow('💵 Current State:'));
+  const nonceIssues: string[] = [];
+  let safetyIssue: string | null = null;
   try {
     const workingRpc = await getWorkingRpc(bot.chain || 'base');
     const { createPublicClient, http, formatEther } = await import('viem');
@@ -4006,6 +5353,13 @@ async function runDiagnostic(storage: JsonStorage, _heartbeatManager: HeartbeatM
             console.log(chalk.red(`    Price is ABOVE ceiling (${bot.config.ceilingPrice.toExponential(6)} ETH)`));
             console.log(chalk.yellow(`    Consider regenerating grid with higher ceiling`));
           }
+          if (bot.config.autoShiftEnabled) {
+            const delaySeconds = bot.config.autoShiftDelaySeconds ?? 600;
+            const waited = bot.outOfRangeSince ? Math.floor((Date.now() - bot.outOfRangeSince) / 1000) : 0;
+            console.log(chalk.cyan(`    Auto-shift is on: grid follows price after ${delaySeconds}s outside (${waited}s so far)`));
+          } else {
+            console.log(chalk.dim(`    Or enable auto-shift under Reconfigure → Range following`));
+          }
         }
       } else {
         console.log(chalk.dim(`  Grid range: Auto-calculated (no floor/ceiling set)`));
@@ -4014,16 +5368,57 @@ async function runDiagnostic(storage: JsonStorage, _heartbeatManager: HeartbeatM
       console.log(chalk.yellow(`  Current Price: Unknown (not fetched yet)`));
     }
 
+    // 7. Nonces - bots sharing this wallet send through one queue
+    if (!bot.paperTrading) {
+      console.log();
+      console.log(chalk.yellow('🔢 Nonces:'));
+      const sharing = bots.filter(b => b.id !== bot.id && !b.paperTrading &&
+        b.walletAddress.toLowerCase() === bot.walletAddress.toLowerCase());
+      const report = await NonceManager.getInstance().inspect(bot.chain || 'base', bot.walletAddress, publicClient);
+      console.log(`  Confirmed: ${report.confirmed}  Pending: ${report.pending}  Next (this process): ${report.localNext ?? chalk.dim('not sending')}`);
+      if (sharing.length > 0) {
+        console.log(chalk.dim(`  Wallet shared with: ${sharing.map(b => b.name).join(', ')}`));
+      }
+      for (const tx of report.inFlight) {
+        console.log(chalk.dim(`  #${tx.nonce} ${tx.label} ${tx.txHash.slice(0, 12)}... sent ${Math.round((Date.now() - tx.sentAt) / 1000)}s ago`));
+      }
+      if (report.issues.length === 0) {
+        console.log(chalk.green('  ✓ No nonce gaps or stuck transactions'));
+      }
+      report.issues.forEach(issue => {
+        console.log(chalk.red(`  ✗ ${issue}`));
+        nonceIssues.push(chalk.red(`• ${issue}`));
+      });
+    }
+
+    // 8. Token Safety - the same (cached) check the bot runs before buying
+    console.log();
+    console.log(chalk.yellow('🍯 Token Safety:'));
+    if (bot.config.tokenSafetyCheck === false) {
+      console.log(chalk.dim('  Check disabled for this bot'));
+    } else {
+      const safety = await checkTokenSafety(storage, bot.tokenAddress, bot.walletAddress, bot.config.swapProviders, bot.chain || 'base');
+      console.log(`  ${TokenSafety.format(safety)}`);
+      console.log(chalk.dim(`  Checked ${Math.round((Date.now() - safety.checkedAt) / 60000)} min ago, limit ${bot.config.maxRoundTripTaxPercent ?? TokenSafety.DEFAULT_MAX_TAX_PERCENT}%`));
+      const verdict = TokenSafety.evaluate(safety, bot.config.maxRoundTripTaxPercent);
+      if (!verdict.allowed) {
+        safetyIssue = verdict.reason;
+      }
+    }
+
   } catch (error: any) {
     console.log(chalk.red(`  Error fetching state: ${error.message}`));
   }
 
   console.log();
 
-  // 7. Issues Summary
+  // 9. Issues Summary
   console.log(chalk.yellow('🔍 Issues Summary:'));
-  const issues: string[] = [];
+  const issues: string[] = [...nonceIssues];
 
+  if (safetyIssue) {
+    issues.push(chalk.red(`• Grid won't arm: ${safetyIssue}`));
+  }
   if (!bot.enabled) {
     issues.push(chalk.red('• Bot is DISABLED'));
   }
@@ -4033,6 +5428,10 @@ async function runDiagnostic(storage: JsonStorage, _heartbeatManager: HeartbeatM
   if (holdingPositions.length >= bot.config.maxActivePositions) {
     issues.push(chalk.yellow(`• Max active positions reached (${holdingPositions.length}/${bot.config.maxActivePositions})`));
   }
+  if (bot.lastFillDeviation) {
+    const fill = bot.lastFillDeviation;
+    issues.push(chalk.yellow(`• Last ${fill.side} filled ${fill.shortfallPercent.toFixed(2)}% below its quote (${new Date(fill.timestamp).toLocaleString()}) - transfer tax?`));
+  }
 
   if (issues.length === 0) {
     console.log(chalk.green('  ✓ No issues detected'));
@@ -4042,7 +5441,7 @@ async function runDiagnostic(storage: JsonStorage, _heartbeatManager: HeartbeatM
 
   console.log();
 
-  // 8. Recommendations
+  // 10. Recommendations
   console.log(chalk.yellow('💡 Recommendations:'));
   const recommendations: string[] = [];
 
@@ -4055,6 +5454,12 @@ async function runDiagnostic(storage: JsonStorage, _heartbeatManager: HeartbeatM
   if (holdingPositions.length >= bot.config.maxActivePositions) {
     recommendations.push('Wait for sells or increase maxActivePositions');
   }
+  if (safetyIssue) {
+    recommendations.push('Pick another token, or raise the tax limit under Reconfigure → Honeypot & tax check');
+  }
+  if (nonceIssues.length > 0) {
+    recommendations.push('Let pending transactions confirm, or speed up / replace the stuck nonce from your wallet');
+  }
 
   if (recommendations.length === 0) {
     console.log(chalk.green('  ✓ Bot should be trading normally'));
@@ -4068,6 +5473,143 @@ async function runDiagnostic(storage: JsonStorage, _heartbeatManager: HeartbeatM
 /**
  * System settings configuration
  */
+async function manageCircuitBreaker(circuitBreaker: CircuitBreaker, heartbeatManager: HeartbeatManager) {
+  // While the daemon runs its breaker halts the bots; ours only mirrors what it saved
+  const daemon = await ControlClient.connect();
+  if (daemon) await circuitBreaker.init();
+
+  const apply = async (changes: { config?: Partial<CircuitBreakerConfig>; reset?: boolean }) => {
+    if (daemon) {
+      await daemon.circuitBreaker(changes);
+      await circuitBreaker.init();
+      return;
+    }
+    if (changes.config) {
+      circuitBreaker.updateConfig(changes.config);
+      await circuitBreaker.saveConfig();
+    }
+    if (changes.reset) await circuitBreaker.reset();
+    await heartbeatManager.checkCircuitBreaker(true);
+  };
+
+  const status = circuitBreaker.getStatus();
+  const state = circuitBreaker.getState();
+  const config = status.config;
+
+  console.log(chalk.cyan('\n🚨 Circuit Breaker\n'));
+  console.log(`Enabled: ${config.enabled ? chalk.green('YES') : chalk.yellow('NO')}`);
+  if (status.triggered) {
+    console.log(`Status: ${chalk.red('TRIGGERED')} (${config.haltMode === 'all' ? 'all trading halted' : 'buys halted'})`);
+    console.log(`Reason: ${status.reason}`);
+    if (status.triggeredAt) {
+      console.log(`Triggered at: ${new Date(status.triggeredAt).toLocaleString()}`);
+    }
+    console.log(`Cooldown remaining: ${status.cooldownRemaining ?? 0} min`);
+  } else {
+    console.log(`Status: ${chalk.green('OK')}`);
+  }
+  console.log(`Daily loss: ${status.dailyLossPercent.toFixed(2)}% (limit: ${config.maxDailyLossPercent}%)`);
+  console.log(`Total loss: ${status.totalLossPercent.toFixed(2)}% (limit: ${config.maxTotalLossPercent}%)`);
+  console.log(`Daily start value: ${formatEther(BigInt(state.dailyStartValue))} ETH`);
+  console.log(`Halt mode: ${config.haltMode === 'all' ? 'Halt all trading' : 'Halt buys only'}`);
+  console.log(`Cooldown: ${config.cooldownMinutes} min`);
+  console.log(chalk.dim('Bots with circuit breaker disabled in their config are not halted.\n'));
+
+  const { action } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'action',
+      message: 'Circuit breaker:',
+      choices: [
+        ...(status.triggered ? [{ name: '🔄 Reset (resume trading)', value: 'reset' }] : []),
+        { name: `${config.enabled ? '⏸️  Disable' : '▶️  Enable'} circuit breaker`, value: 'toggle' },
+        { name: '⚙️  Configure limits', value: 'configure' },
+        { name: '⬅️  Back', value: 'back' },
+      ],
+    },
+  ]);
+
+  if (action === 'back') return;
+
+  if (action === 'reset') {
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: 'Reset circuit breaker and resume trading?',
+        default: false,
+      },
+    ]);
+    if (!confirm) {
+      console.log(chalk.dim('\nCancelled.\n'));
+      return;
+    }
+    await apply({ reset: true });
+    console.log(chalk.green('\n✓ Circuit breaker reset\n'));
+    return;
+  }
+
+  if (action === 'toggle') {
+    await apply({ config: { enabled: !config.enabled } });
+    console.log(chalk.green(`\n✓ Circuit breaker ${config.enabled ? 'disabled' : 'enabled'}\n`));
+    return;
+  }
+
+  if (action === 'configure') {
+    const percentValidate = (input: string) => {
+      const val = parseFloat(input);
+      return (!isNaN(val) && val > 0 && val <= 100) || 'Must be between 0 and 100';
+    };
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'maxDailyLossPercent',
+        message: 'Max daily loss (%):',
+        default: String(config.maxDailyLossPercent),
+        validate: percentValidate,
+      },
+      {
+        type: 'input',
+        name: 'maxTotalLossPercent',
+        message: 'Max total loss (%):',
+        default: String(config.maxTotalLossPercent),
+        validate: percentValidate,
+      },
+      {
+        type: 'list',
+        name: 'haltMode',
+        message: 'When triggered:',
+        choices: [
+          { name: 'Halt buys only (sells continue)', value: 'buys' },
+          { name: 'Halt all trading', value: 'all' },
+        ],
+        default: config.haltMode,
+      },
+      {
+        type: 'input',
+        name: 'cooldownMinutes',
+        message: 'Cooldown before auto-resume (minutes):',
+        default: String(config.cooldownMinutes),
+        validate: (input: string) => {
+          const val = parseInt(input);
+          return (!isNaN(val) && val >= 1) || 'Must be at least 1 minute';
+        },
+      },
+    ]);
+
+    await apply({
+      config: {
+        maxDailyLossPercent: parseFloat(answers.maxDailyLossPercent),
+        maxTotalLossPercent: parseFloat(answers.maxTotalLossPercent),
+        haltMode: answers.haltMode,
+        cooldownMinutes: parseInt(answers.cooldownMinutes),
+      },
+    });
+    console.log(chalk.green('\n✓ Circuit breaker settings saved\n'));
+  }
+}
+
 async function systemSettings(storage: JsonStorage, heartbeatManager: HeartbeatManager) {
   console.log(chalk.cyan('\n⚙️  System Settings\n'));
 
@@ -4086,12 +5628,14 @@ async function systemSettings(storage: JsonStorage, heartbeatManager: HeartbeatM
       message: 'What would you like to configure?',
       choices: [
         { name: `⏱️  Heartbeat interval (current: ${heartbeatManager.getInterval()}ms)`, value: 'heartbeat' },
+        { name: `🔀 Concurrent bot ticks (current: ${heartbeatManager.getMaxConcurrency()})`, value: 'concurrency' },
         { name: '📺 Live monitor refresh rate', value: 'monitor_refresh' },
         { name: `⛽ Gas reserve (current: ${currentGasReserve} ETH)`, value: 'gas_reserve' },
         { name: `🔧 Fallback gas estimate (current: ${currentFallbackGas} ETH)`, value: 'fallback_gas' },
         { name: `🔒 Strict profit mode (${currentStrictMode ? 'ON' : 'OFF'} ${currentStrictPercent}%)`, value: 'strict_profit' },
         { name: `📉 Slippage tolerance (${currentSlippage/100}%)`, value: 'slippage' },
         { name: `⏳ Retry delay (${currentRetryDelay}s)`, value: 'retry_delay' },
+        { name: '🛡️  Private relay endpoints', value: 'private_relay' },
         { name: '📊 Default price oracle confidence', value: 'confidence' },
         { name: '🔔 Global notification settings', value: 'notifications' },
         { name: '⬅️  Back', value: 'back' },
@@ -4107,6 +5651,7 @@ async function systemSettings(storage: JsonStorage, heartbeatManager: HeartbeatM
   if (setting === 'heartbeat') {
     const currentInterval = heartbeatManager.getInterval();
     console.log(chalk.dim(`\nCurrent heartbeat interval: ${currentInterval}ms`));
+    console.log(chalk.dim('Each bot ticks on its own interval; this is the shortest any bot may use.'));
     console.log(chalk.dim(`Status: ${heartbeatManager.getStatus().isRunning ? 'Running' : 'Stopped'}\n`));
 
     const { interval } = await inquirer.prompt([
@@ -4136,6 +5681,27 @@ async function systemSettings(storage: JsonStorage, heartbeatManager: HeartbeatM
     console.log(chalk.dim('Change applied immediately to all running bots.\n'));
   }
 
+  if (setting === 'concurrency') {
+    console.log(chalk.cyan('\n🔀 Concurrent Bot Ticks\n'));
+    console.log(chalk.dim('How many bots may be mid-tick at once. A bot waiting on a receipt holds one slot;'));
+    console.log(chalk.dim('a tick stuck for over two minutes gives its slot up.\n'));
+
+    const { maxConcurrency } = await inquirer.prompt([
+      {
+        type: 'number',
+        name: 'maxConcurrency',
+        message: 'Concurrent ticks:',
+        default: heartbeatManager.getMaxConcurrency(),
+        validate: (input) => (Number.isInteger(input) && input >= 1 && input <= 32) || 'Must be a whole number, 1-32',
+      },
+    ]);
+
+    heartbeatManager.setMaxConcurrency(maxConcurrency);
+    await storage.setConfig('maxConcurrentTicks', maxConcurrency);
+    console.log(chalk.green(`\n✓ Up to ${maxConcurrency} bots tick at once`));
+    console.log(chalk.dim('Change applied immediately to all running bots.\n'));
+  }
+
   if (setting === 'monitor_refresh') {
     console.log(chalk.cyan('\n📺 Live Monitor Refresh Rate\n'));
     console.log(chalk.dim('This controls how often the live monitor updates when auto-refresh is ON.'));
@@ -4382,33 +5948,117 @@ async function systemSettings(storage: JsonStorage, heartbeatManager: HeartbeatM
     console.log(chalk.dim('Running bots will apply on next price check.\n'));
   }
 
+  if (setting === 'private_relay') {
+    const saved: Partial<Record<Chain, string>> = await storage.getConfig(PRIVATE_RELAY_CONFIG_KEY, {});
+
+    console.log(chalk.cyan('\n🛡️  Private Relay Endpoints\n'));
+    console.log(chalk.dim('Bots with private submission on send signed transactions here; reads stay on the public RPC.'));
+    console.log(chalk.dim('BASE_PRIVATE_RPC_URL / ETH_PRIVATE_RPC_URL in .env are used when nothing is saved.\n'));
+    for (const chain of ['base', 'ethereum'] as Chain[]) {
+      const url = PrivateRelay.resolve(chain, saved);
+      console.log(`  ${chain.padEnd(9)} ${url ? chalk.green(PrivateRelay.label(url)) : chalk.dim('not configured')}`);
+    }
+    console.log();
+
+    const { chain } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'chain',
+        message: 'Chain to configure:',
+        choices: [
+          { name: 'Base', value: 'base' },
+          { name: 'Ethereum', value: 'ethereum' },
+          { name: '⬅️  Back', value: 'back' },
+        ],
+      },
+    ]);
+
+    if (chain === 'back') {
+      console.log(chalk.dim('\nCancelled.\n'));
+      return;
+    }
+
+    const { relay } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'relay',
+        message: `Private relay for ${chain}:`,
+        choices: [
+          ...KNOWN_RELAYS[chain as Chain].map(r => ({ name: `${r.name} (${r.url})`, value: r.url })),
+          { name: 'Custom URL', value: 'custom' },
+          { name: 'None (clear)', value: 'none' },
+          { name: '⬅️  Back', value: 'back' },
+        ],
+      },
+    ]);
+
+    if (relay === 'back') {
+      console.log(chalk.dim('\nCancelled.\n'));
+      return;
+    }
+
+    let url: string | undefined = relay === 'none' ? undefined : relay;
+    if (relay === 'custom') {
+      const { customUrl } = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'customUrl',
+          message: 'Relay URL (https://...):',
+          default: saved[chain as Chain],
+          validate: (input) => /^https?:\/\/\S+$/.test(input.trim()) || 'Enter an http(s) URL',
+        },
+      ]);
+      url = customUrl.trim();
+    }
+
+    const updated = { ...saved };
+    if (url) {
+      updated[chain as Chain] = url;
+    } else {
+      delete updated[chain as Chain];
+    }
+    await storage.setConfig(PRIVATE_RELAY_CONFIG_KEY, updated);
+
+    console.log(chalk.green(`\n✓ ${chain} relay: ${url ? PrivateRelay.label(url) : 'none'}`));
+    console.log(chalk.dim('Enable it per bot under Reconfigure → Private transaction submission. Restart bots to apply.\n'));
+  }
+
   if (setting === 'notifications') {
     const notificationService = NotificationService.getInstance();
-    const isConfigured = notificationService.isConfigured();
+    const config = notificationService.getConfig();
+    const hasChannels = config.telegramConfigured || config.discordConfigured;
 
     console.log(chalk.cyan('\n🔔 Global Notification Settings\n'));
-    console.log(`Current Status: ${isConfigured ? chalk.green('Configured') : chalk.yellow('Not configured')}`);
+    console.log(`Current Status: ${!hasChannels ? chalk.yellow('Not configured') : config.enabled ? chalk.green('Enabled') : chalk.yellow('Disabled')}`);
 
-    if (isConfigured) {
+    if (hasChannels) {
       const { action } = await inquirer.prompt([
         {
           type: 'list',
           name: 'action',
           message: 'What would you like to do?',
           choices: [
-            { name: '🔕 Disable notifications', value: 'disable' },
+            config.enabled
+              ? { name: '🔕 Disable notifications', value: 'disable' }
+              : { name: '🔔 Enable notifications', value: 'enable' },
             { name: '📋 View current config', value: 'view' },
             { name: '⬅️  Back', value: 'back' },
           ],
         },
       ]);
 
-      if (action === 'disable') {
-        // Note: Can't truly disable without storing in config
-        // This is a placeholder for future implementation
-        console.log(chalk.yellow('\nNote: Use "Configure Telegram" from main menu to change settings.\n'));
+      if (action === 'disable' || action === 'enable') {
+        const enabled = action === 'enable';
+        notificationService.updateSettings(enabled, config.alertLevel);
+        // Saved so the daemon picks it up on its next reload
+        await storage.setConfig(NOTIFICATION_SETTINGS_CONFIG_KEY, { enabled, alertLevel: config.alertLevel });
+        console.log(chalk.green(`\n✓ Notifications ${enabled ? 'enabled' : 'disabled'}`));
+        console.log(chalk.dim('  A running daemon applies this on reload (SIGHUP).\n'));
       } else if (action === 'view') {
-        console.log(chalk.dim('\nView notification config in .env file\n'));
+        console.log(chalk.dim(`\n  Telegram: ${config.telegramConfigured ? 'configured' : 'not configured'}`));
+        console.log(chalk.dim(`  Discord: ${config.discordConfigured ? 'configured' : 'not configured'}`));
+        console.log(chalk.dim(`  Alert level: ${config.alertLevel}`));
+        console.log(chalk.dim('  Channel credentials are read from the .env file\n'));
       }
     } else {
       console.log(chalk.yellow('\nNotifications not configured.'));
@@ -4420,6 +6070,142 @@ async function systemSettings(storage: JsonStorage, heartbeatManager: HeartbeatM
 /**
  * Run token screener for grid trading candidates
  */
+async function runBacktest(storage: JsonStorage) {
+  console.log(chalk.cyan('\n🧪 Backtest Grid Config\n'));
+  console.log(chalk.dim('Replays a CSV/JSON price series offline (timestamp,price or timestamp,open,high,low,close).\n'));
+
+  const gridBots = (await storage.getAllBots()).filter(b => !b.config.volumeMode);
+
+  const { source, file } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'source',
+      message: 'Config to test:',
+      choices: [
+        ...gridBots.map(b => ({ name: `${b.name} (${b.tokenSymbol})`, value: b.id })),
+        { name: '✏️  New config', value: 'new' },
+        { name: '⬅️  Back', value: 'back' },
+      ],
+    },
+    {
+      type: 'input',
+      name: 'file',
+      message: 'Price series file (.csv or .json):',
+      when: (answers) => answers.source !== 'back',
+      validate: (input) => existsSync(input) || 'File not found',
+    },
+  ]);
+
+  if (source === 'back') {
+    console.log(chalk.dim('\nCancelled.\n'));
+    return;
+  }
+
+  const series = await PriceSeries.loadFile(file);
+  if (series.length === 0) {
+    console.log(chalk.yellow('\nPrice series is empty.\n'));
+    return;
+  }
+
+  const bot = gridBots.find(b => b.id === source);
+  let config: GridConfig;
+  if (bot) {
+    config = { ...bot.config };
+  } else {
+    const gridAnswers = await inquirer.prompt([
+      { type: 'number', name: 'numPositions', message: 'Number of grid positions:', default: 24 },
+      { type: 'number', name: 'takeProfitPercent', message: 'Take profit % per position:', default: 8 },
+      { type: 'number', name: 'maxActivePositions', message: 'Max active positions:', default: 4 },
+      {
+        type: 'list',
+        name: 'gridSpacing',
+        message: 'Grid spacing:',
+        choices: [
+          { name: 'Arithmetic', value: 'arithmetic' },
+          { name: 'Geometric', value: 'geometric' },
+        ],
+      },
+      { type: 'input', name: 'floorPrice', message: 'Floor price in ETH (blank = 1/10 of first price):', default: '' },
+      { type: 'input', name: 'ceilingPrice', message: 'Ceiling price in ETH (blank = 4x first price):', default: '' },
+    ]);
+    config = {
+      numPositions: gridAnswers.numPositions,
+      floorPrice: parseFloat(gridAnswers.floorPrice) || 0,
+      ceilingPrice: parseFloat(gridAnswers.ceilingPrice) || 0,
+      useMarketCap: false,
+      gridSpacing: gridAnswers.gridSpacing,
+      takeProfitPercent: gridAnswers.takeProfitPercent,
+      stopLossPercent: 10,
+      stopLossEnabled: false,
+      buysEnabled: true,
+      sellsEnabled: true,
+      moonBagEnabled: false,
+      moonBagPercent: 0,
+      minProfitPercent: 2,
+      maxActivePositions: gridAnswers.maxActivePositions,
+      buyAmount: 0,
+      useFixedBuyAmount: false,
+      heartbeatMs: 1000,
+      skipHeartbeats: 0,
+    };
+  }
+
+  // Market-cap grids need a supply to convert their range
+  if (config.useMarketCap && bot?.circulatingSupply) {
+    MarketCapConverter.applyToConfig(config, bot.circulatingSupply);
+  }
+
+  const swapAnswers = await inquirer.prompt([
+    { type: 'number', name: 'startingEth', message: 'Starting ETH balance:', default: 1 },
+    { type: 'number', name: 'feeBps', message: 'Swap fee (bps):', default: 30 },
+    { type: 'number', name: 'slippageBps', message: 'Slippage per fill (bps):', default: 50 },
+    { type: 'input', name: 'gasEth', message: 'Gas per swap (ETH):', default: '0.00002' },
+  ]);
+
+  const result = new Backtester(config, {
+    startingEth: swapAnswers.startingEth,
+    feeBps: swapAnswers.feeBps,
+    slippageBps: swapAnswers.slippageBps,
+    gasEthPerTrade: parseFloat(swapAnswers.gasEth) || 0,
+    botName: bot ? bot.name : 'Backtest',
+    tokenSymbol: bot ? bot.tokenSymbol : 'TOKEN',
+  }).run(series);
+
+  const pnlColor = (wei: string) => BigInt(wei) >= 0n ? chalk.green : chalk.red;
+
+  console.log(chalk.cyan('\n📊 Backtest Results\n'));
+  console.log(`  Period:        ${new Date(result.startTime).toLocaleString()} → ${new Date(result.endTime).toLocaleString()} (${result.ticks} ticks)`);
+  console.log(`  Price:         ${result.startPrice.toExponential(4)} → ${result.endPrice.toExponential(4)} ETH`);
+  console.log(`  Trades:        ${result.totalBuys} buys, ${result.totalSells} sells (${result.winRate.toFixed(1)}% winning)`);
+  console.log(`  Realized:      ${pnlColor(result.realizedPnlEth)(formatEther(BigInt(result.realizedPnlEth)) + ' ETH')}`);
+  console.log(`  Unrealized:    ${pnlColor(result.unrealizedPnlEth)(formatEther(BigInt(result.unrealizedPnlEth)) + ' ETH')}`);
+  console.log(`  Gas:           ${formatEther(BigInt(result.totalGasEth))} ETH`);
+  console.log(`  Equity:        ${formatEther(BigInt(result.startEquityEth))} → ${formatEther(BigInt(result.endEquityEth))} ETH (${result.returnPercent >= 0 ? '+' : ''}${result.returnPercent.toFixed(2)}%)`);
+  console.log(`  Max Drawdown:  ${chalk.red(result.maxDrawdownPercent.toFixed(2) + '%')}`);
+  console.log();
+
+  if (result.trades.length === 0) return;
+
+  const { exportCsv } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'exportCsv',
+      message: 'Export simulated trades to CSV?',
+      default: false,
+    },
+  ]);
+
+  if (exportCsv) {
+    const filename = `backtest-${Date.now()}.csv`;
+    try {
+      writeFileSync(filename, CsvExporter.exportToCsv(result.trades, { includeHeaders: true }));
+      console.log(chalk.green(`\n✓ Exported to ${filename}\n`));
+    } catch (error: any) {
+      console.log(chalk.red(`\n✗ Export failed: ${error.message}\n`));
+    }
+  }
+}
+
 async function runTokenScreener() {
   console.log(chalk.cyan('\n🎯 Token Discovery Options\n'));
 
@@ -4506,9 +6292,20 @@ async function viewGridPositions(storage: JsonStorage) {
   console.log(chalk.yellow('Bot Configuration:'));
   console.log(`  Token: ${bot.tokenSymbol} (${bot.tokenAddress})`);
   console.log(`  Total Positions: ${bot.config.numPositions}`);
-  console.log(`  Take Profit: ${bot.config.takeProfitPercent}%`);
+  console.log(`  Spacing: ${bot.config.gridSpacing || 'arithmetic'}`);
+  console.log(`  Take Profit: ${formatTakeProfit(bot.config)}`);
   console.log(`  Max Active: ${bot.config.maxActivePositions}`);
-  if (bot.config.floorPrice && bot.config.ceilingPrice) {
+  console.log(`  Recycling: ${bot.config.recycleMode || 'none'}`);
+  if (bot.config.autoShiftEnabled) {
+    console.log(`  Auto-shift: after ${bot.config.autoShiftDelaySeconds ?? 600}s out of range (${bot.gridShiftCount ?? 0} shifts so far)`);
+  }
+  if (bot.config.useMarketCap && bot.config.marketCapFloor && bot.config.marketCapCeiling) {
+    console.log(`  Floor: ${MarketCapConverter.format(bot.config.marketCapFloor)} market cap`);
+    console.log(`  Ceiling: ${MarketCapConverter.format(bot.config.marketCapCeiling)} market cap`);
+    if (bot.circulatingSupply) {
+      console.log(`  Circulating Supply: ${bot.circulatingSupply.toLocaleString()} ${bot.tokenSymbol}`);
+    }
+  } else if (bot.config.floorPrice && bot.config.ceilingPrice) {
     console.log(`  Floor: ${bot.config.floorPrice.toExponential(6)} ETH`);
     console.log(`  Ceiling: ${bot.config.ceilingPrice.toExponential(6)} ETH`);
   }
@@ -4518,6 +6315,9 @@ async function viewGridPositions(storage: JsonStorage) {
   if (bot.currentPrice && bot.currentPrice > 0) {
     console.log(chalk.yellow('Current Market:'));
     console.log(`  Price: ${bot.currentPrice.toExponential(6)} ETH`);
+    if (usesMarketCap(bot)) {
+      console.log(`  Market Cap: ${formatLevel(bot, bot.currentPrice)}`);
+    }
     console.log();
   }
 
@@ -4526,19 +6326,20 @@ async function viewGridPositions(storage: JsonStorage) {
 
   // Full Position Table
   console.log(chalk.yellow('All Positions (sorted by buy price, highest first):'));
-  console.log(chalk.dim('─'.repeat(100)));
+  console.log(chalk.dim('─'.repeat(108)));
   console.log(
     chalk.dim(
       '  ID  '.padEnd(6) +
       'Status    '.padEnd(10) +
-      'Buy Range (ETH)          '.padEnd(26) +
+      (usesMarketCap(bot) ? 'Buy Range (MCap)         ' : 'Buy Range (ETH)          ').padEnd(26) +
       'Buy@        '.padEnd(12) +
       'Sell@       '.padEnd(12) +
       'Tokens      '.padEnd(14) +
-      'ETH Cost'
+      'ETH Cost  '.padEnd(11) +
+      'Cycles'
     )
   );
-  console.log(chalk.dim('─'.repeat(100)));
+  console.log(chalk.dim('─'.repeat(108)));
 
   for (const pos of sortedPositions) {
     const id = String(pos.id).padStart(3, ' ').padEnd(6, ' ');
@@ -4559,9 +6360,11 @@ async function viewGridPositions(storage: JsonStorage) {
         statusColor = chalk.gray;
     }
 
-    const buyRange = `${pos.buyMin.toExponential(3)}-${pos.buyMax.toExponential(3)}`.padEnd(25, ' ');
-    const buyAt = pos.buyPrice.toExponential(4).padEnd(12, ' ');
-    const sellAt = pos.sellPrice.toExponential(4).padEnd(12, ' ');
+    const buyRange = usesMarketCap(bot)
+      ? `${formatLevel(bot, pos.buyMin)}-${formatLevel(bot, pos.buyMax)}`.padEnd(25, ' ')
+      : `${pos.buyMin.toExponential(3)}-${pos.buyMax.toExponential(3)}`.padEnd(25, ' ');
+    const buyAt = formatLevel(bot, pos.buyPrice).padEnd(12, ' ');
+    const sellAt = formatLevel(bot, pos.sellPrice).padEnd(12, ' ');
     
     const tokens = pos.tokensReceived 
       ? (Number(pos.tokensReceived) / 1e18).toFixed(4).padEnd(14, ' ')
@@ -4571,6 +6374,8 @@ async function viewGridPositions(storage: JsonStorage) {
       ? (Number(pos.ethCost) / 1e18).toFixed(6).padEnd(10, ' ')
       : chalk.gray('-'.padEnd(10, ' '));
 
+    const cycles = String(GridCalculator.getCompletedCycles(pos).length).padEnd(6, ' ');
+
     // Highlight positions near current price
     let highlight = '';
     if (bot.currentPrice && pos.status === 'EMPTY') {
@@ -4579,10 +6384,10 @@ async function viewGridPositions(storage: JsonStorage) {
       }
     }
 
-    console.log(`  ${id}${statusColor(status)} ${buyRange} ${buyAt} ${sellAt} ${tokens} ${ethCost}${highlight}`);
+    console.log(`  ${id}${statusColor(status)} ${buyRange} ${buyAt} ${sellAt} ${tokens} ${ethCost} ${cycles}${highlight}`);
   }
 
-  console.log(chalk.dim('─'.repeat(100)));
+  console.log(chalk.dim('─'.repeat(108)));
   console.log();
 
   // Position Summary
@@ -4594,6 +6399,8 @@ async function viewGridPositions(storage: JsonStorage) {
   console.log(`  ${chalk.green('HOLDING')}: ${holding.length} positions`);
   console.log(`  ${chalk.gray('EMPTY')}: ${empty.length} positions`);
   console.log(`  ${chalk.blue('SOLD')}: ${sold.length} positions`);
+  const gridStats = GridCalculator.calculateGridStats(bot.positions);
+  console.log(`  Completed Cycles: ${gridStats.completedCycles} (${(Number(gridStats.totalProfitEth) / 1e18).toFixed(6)} ETH profit)`);
   console.log();
 
   // Holding positions detail
@@ -4608,6 +6415,11 @@ async function viewGridPositions(storage: JsonStorage) {
       console.log(`    Tokens: ${tokens} ${bot.tokenSymbol}`);
       console.log(`    Cost: ${cost} ETH @ ${pos.buyPrice.toExponential(6)} ETH/token`);
       console.log(`    Target Sell: ${pos.sellPrice.toExponential(6)} ETH/token`);
+      if (pos.tierFills?.length) {
+        const left = (Number(pos.tokensRemaining || '0') / 1e18).toFixed(6);
+        const realized = (Number(pos.realizedProfitEth || '0') / 1e18).toFixed(6);
+        console.log(`    Scaled Out: ${pos.tierFills.length} tier(s) filled, ${left} left, ${realized} ETH realized`);
+      }
       console.log(`    Buy Date: ${buyDate}`);
       if (pos.buyTxHash) {
         console.log(`    TX: ${pos.buyTxHash.slice(0, 20)}...`);
@@ -4626,10 +6438,12 @@ async function viewGridPositions(storage: JsonStorage) {
     .sort((a, b) => a.sellPrice - b.sellPrice)[0];
 
   if (nextBuy) {
-    console.log(`  Next Buy: Position ${nextBuy.id} @ ${nextBuy.buyMin.toExponential(4)}-${nextBuy.buyMax.toExponential(4)} ETH`);
+    const unit = usesMarketCap(bot) ? '' : ' ETH';
+    console.log(`  Next Buy: Position ${nextBuy.id} @ ${formatLevel(bot, nextBuy.buyMin)}-${formatLevel(bot, nextBuy.buyMax)}${unit}`);
   }
   if (nextSell) {
-    console.log(`  Next Sell: Position ${nextSell.id} @ ${nextSell.sellPrice.toExponential(4)} ETH`);
+    const unit = usesMarketCap(bot) ? '' : ' ETH';
+    console.log(`  Next Sell: Position ${nextSell.id} @ ${formatLevel(bot, nextSell.sellPrice)}${unit}`);
   }
   if (!nextBuy && !nextSell) {
     console.log('  No pending actions');
@@ -4640,7 +6454,7 @@ async function viewGridPositions(storage: JsonStorage) {
 /**
  * Show daemon status
  */
-async function showDaemonStatus() {
+async function showDaemonStatus(heartbeatManager: HeartbeatManager, storage: JsonStorage) {
   console.log(chalk.cyan('\n👁️  Daemon Status\n'));
 
   const daemon = new BotDaemon();
@@ -4652,6 +6466,14 @@ async function showDaemonStatus() {
     if (status.uptime) {
       console.log(`  Uptime: ${status.uptime}`);
     }
+
+    const control = await ControlClient.connect();
+    if (control) {
+      const managed = (await control.list()).filter(b => b.managed);
+      console.log(`  Bots: ${managed.length > 0 ? managed.map(b => b.name).join(', ') : chalk.dim('none running')}`);
+    } else {
+      console.log(chalk.yellow('  Control socket not answering - CLI changes will not reach the daemon'));
+    }
     console.log(chalk.dim('\nBots will continue trading even if you exit the CLI.\n'));
     
     const { action } = await inquirer.prompt([
@@ -4661,6 +6483,7 @@ async function showDaemonStatus() {
         message: 'Daemon actions:',
         choices: [
           { name: '📋 View recent logs', value: 'logs' },
+          { name: '♻️  Reload config', value: 'reload' },
           { name: '🔄 Restart daemon', value: 'restart' },
           { name: '⏹️  Stop daemon', value: 'stop' },
           { name: '⬅️  Back', value: 'back' },
@@ -4672,6 +6495,12 @@ async function showDaemonStatus() {
       console.log(chalk.dim('\n--- Recent Daemon Logs ---\n'));
       console.log(daemon.getLogs(30));
       console.log(chalk.dim('\n--- End of Logs ---\n'));
+    } else if (action === 'reload') {
+      if (daemon.reload()) {
+        console.log(chalk.green('\n♻️  Reload requested - the daemon logs a summary when done\n'));
+      } else {
+        console.log(chalk.red('\n✗ Failed to signal the daemon\n'));
+      }
     } else if (action === 'restart') {
       daemon.restart();
       console.log(chalk.yellow('\n🔄 Daemon restarting...\n'));
@@ -4706,12 +6535,30 @@ async function showDaemonStatus() {
     ]);
 
     if (action === 'start') {
+      // The daemon loads running bots from bots.json - ours must stop first or both would trade them
+      const local = heartbeatManager.getAllBots().map(b => b.getInstance()).filter(b => b.isRunning);
+      if (local.length > 0) {
+        console.log(chalk.dim(`\nHanding ${local.length} running bot(s) over to the daemon...`));
+      }
+      for (const bot of local) {
+        await heartbeatManager.drainBot(bot.id);
+        // Left marked running so the daemon picks it up
+        bot.isRunning = true;
+        await storage.saveBot(bot);
+      }
+      heartbeatManager.stop();
+
       const success = daemon.start();
       if (success) {
         console.log(chalk.green('\n▶️  Daemon started\n'));
         console.log(chalk.dim('Bots will now continue trading in the background.\n'));
       } else {
         console.log(chalk.red('\n✗ Failed to start daemon\n'));
+        // Take our bots back rather than leave them idle
+        if (local.length > 0) {
+          await heartbeatManager.loadBots();
+          heartbeatManager.start();
+        }
       }
     }
   }
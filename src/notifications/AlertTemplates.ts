@@ -2,6 +2,15 @@
 // Predefined alert message templates with emojis
 
 import { TelegramNotifier } from './TelegramNotifier.js';
+import { ExitReason } from '../types/index.js';
+import { MarketCapConverter } from '../grid/MarketCapConverter.js';
+
+const EXIT_LABELS: Record<ExitReason, string> = {
+  'take-profit': '💰 <b>PROFIT REALIZED</b>',
+  'stop-loss': '🛑 <b>STOP LOSS EXIT</b>',
+  'trailing-stop': '📉 <b>TRAILING STOP EXIT</b>',
+  'liquidation': '🚨 <b>LIQUIDATION SELL</b>',
+};
 
 export class AlertTemplates {
   /**
@@ -13,16 +22,23 @@ export class AlertTemplates {
     tokenSymbol: string,
     tokenAmount: string | number,
     ethAmount: string | number,
-    positionId?: number
+    positionId?: number,
+    marketCap?: number
   ): string {
     const formattedTokens = TelegramNotifier.formatNumber(tokenAmount, 2);
     const formattedEth = TelegramNotifier.formatNumber(ethAmount, 6);
     const positionInfo = positionId !== undefined ? ` (Position ${positionId})` : '';
     
-    return `✅ <b>BUY EXECUTED</b>${positionInfo}\n\n` +
-           `🤖 Bot: ${botName}\n` +
-           `💎 Bought: ${formattedTokens} ${tokenSymbol}\n` +
-           `💵 Cost: ${formattedEth} ETH`;
+    let message = `✅ <b>BUY EXECUTED</b>${positionInfo}\n\n` +
+                  `🤖 Bot: ${botName}\n` +
+                  `💎 Bought: ${formattedTokens} ${tokenSymbol}\n` +
+                  `💵 Cost: ${formattedEth} ETH`;
+
+    if (marketCap !== undefined) {
+      message += `\n🏦 Market Cap: ${MarketCapConverter.format(marketCap)}`;
+    }
+
+    return message;
   }
 
   /**
@@ -35,13 +51,15 @@ export class AlertTemplates {
     profitPercent: number,
     profitEth: string | bigint,
     totalEth?: string | bigint,
-    positionId?: number
+    positionId?: number,
+    exitReason: ExitReason = 'take-profit',
+    marketCap?: number
   ): string {
     const formattedProfit = TelegramNotifier.formatEth(profitEth, 6);
     const percentStr = TelegramNotifier.formatPercent(profitPercent);
     const positionInfo = positionId !== undefined ? ` (Position ${positionId})` : '';
     
-    let message = `💰 <b>PROFIT REALIZED</b>${positionInfo}\n\n` +
+    let message = `${EXIT_LABELS[exitReason]}${positionInfo}\n\n` +
                   `🤖 Bot: ${botName}\n` +
                   `💎 Sold: ${tokenSymbol}\n` +
                   `📈 Profit: ${percentStr} (${formattedProfit} ETH)`;
@@ -49,6 +67,10 @@ export class AlertTemplates {
     if (totalEth !== undefined) {
       message += `\n💵 Total Received: ${TelegramNotifier.formatEth(totalEth, 6)} ETH`;
     }
+
+    if (marketCap !== undefined) {
+      message += `\n🏦 Market Cap: ${MarketCapConverter.format(marketCap)}`;
+    }
     
     return message;
   }
@@ -184,6 +206,28 @@ export class AlertTemplates {
            `📈 Ceiling: ${TelegramNotifier.formatNumber(ceilingPrice, 8)} ETH`;
   }
 
+  /**
+   * Grid shifted to follow price out of its range
+   */
+  static gridShifted(
+    botName: string,
+    tokenSymbol: string,
+    currentPrice: number,
+    from: { floor: number; ceiling: number },
+    to: { floor: number; ceiling: number },
+    added: number,
+    holding: number
+  ): string {
+    const direction = to.floor > from.floor ? '⬆️ UP' : '⬇️ DOWN';
+    return `🧭 <b>GRID SHIFTED ${direction}</b>\n\n` +
+           `🤖 Bot: ${botName}\n` +
+           `💎 Token: ${tokenSymbol}\n` +
+           `💵 Price: ${TelegramNotifier.formatNumber(currentPrice, 8)} ETH\n` +
+           `📉 Old Range: ${TelegramNotifier.formatNumber(from.floor, 8)} - ${TelegramNotifier.formatNumber(from.ceiling, 8)} ETH\n` +
+           `📈 New Range: ${TelegramNotifier.formatNumber(to.floor, 8)} - ${TelegramNotifier.formatNumber(to.ceiling, 8)} ETH\n` +
+           `📊 Levels Rebuilt: ${added} (${holding} holding kept)`;
+  }
+
   /**
    * Low balance warning
    */
@@ -1,7 +1,8 @@
 // src/notifications/DiscordNotifier.ts
 // Discord webhook notifications for trading bot
 
-import { AlertLevel } from '../types/index.js';
+import { AlertLevel, ExitReason } from '../types/index.js';
+import { MarketCapConverter } from '../grid/MarketCapConverter.js';
 
 export interface DiscordConfig {
   webhookUrl: string;
@@ -134,7 +135,8 @@ export class DiscordNotifier {
     amount: string,
     ethValue: string,
     positionId?: number,
-    txHash?: string
+    txHash?: string,
+    marketCap?: number
   ): Promise<boolean> {
     if (!this.shouldSend('trade')) return false;
 
@@ -161,6 +163,11 @@ export class DiscordNotifier {
           value: `#${positionId}`,
           inline: true,
         }] : []),
+        ...(marketCap !== undefined ? [{
+          name: '🏦 Market Cap',
+          value: MarketCapConverter.format(marketCap),
+          inline: true,
+        }] : []),
         ...(txHash ? [{
           name: '🔗 Transaction',
           value: `[View on BaseScan](https://basescan.org/tx/${txHash})`,
@@ -184,16 +191,19 @@ export class DiscordNotifier {
     tokenSymbol: string,
     profitPercent: number,
     profitEth: string,
-    positionId?: number
+    positionId?: number,
+    exitReason: ExitReason = 'take-profit',
+    marketCap?: number
   ): Promise<boolean> {
     if (!this.shouldSend('profit')) return false;
 
     const isPositive = profitPercent >= 0;
     const color = isPositive ? 0x00ff00 : 0xff0000;
     const emoji = isPositive ? '💰' : '📉';
+    const exitLabel = exitReason === 'take-profit' ? '' : ` (${exitReason.replace('-', ' ')})`;
 
     const embed: DiscordEmbed = {
-      title: `${emoji} Profit Realized`,
+      title: `${emoji} Profit Realized${exitLabel}`,
       description: `**${botName}** sold **${tokenSymbol}** with profit!`,
       color,
       fields: [
@@ -212,6 +222,11 @@ export class DiscordNotifier {
           value: `#${positionId}`,
           inline: true,
         }] : []),
+        ...(marketCap !== undefined ? [{
+          name: '🏦 Market Cap',
+          value: MarketCapConverter.format(marketCap),
+          inline: true,
+        }] : []),
       ],
       timestamp: new Date().toISOString(),
       footer: {
@@ -351,11 +366,14 @@ export class DiscordNotifier {
   async notifyCircuitBreaker(
     reason: string,
     dailyLossPercent: number,
-    cooldownMinutes: number
+    cooldownMinutes: number,
+    haltMode: 'buys' | 'all' = 'all'
   ): Promise<boolean> {
     const embed: DiscordEmbed = {
       title: '🚨 Circuit Breaker Triggered',
-      description: 'All trading has been stopped due to risk limits.',
+      description: haltMode === 'buys'
+        ? 'New buys have been paused due to risk limits.'
+        : 'All trading has been stopped due to risk limits.',
       color: 0xff0000,
       fields: [
         {
@@ -4,7 +4,8 @@
 import { TelegramNotifier, TelegramConfig, NotificationPayload } from './TelegramNotifier.js';
 import { DiscordNotifier, DiscordConfig } from './DiscordNotifier.js';
 import { AlertTemplates } from './AlertTemplates.js';
-import { BotInstance, AlertLevel } from '../types/index.js';
+import { BotInstance, AlertLevel, ExitReason } from '../types/index.js';
+import { MarketCapConverter } from '../grid/MarketCapConverter.js';
 
 export interface NotificationServiceConfig {
   // Telegram
@@ -17,6 +18,19 @@ export interface NotificationServiceConfig {
   alertLevel?: AlertLevel;
 }
 
+/**
+ * Global notification settings saved in storage, shared by the CLI and the daemon
+ */
+export interface NotificationSettings {
+  enabled: boolean;
+  alertLevel: AlertLevel;
+}
+
+/**
+ * Storage config key holding the saved NotificationSettings
+ */
+export const NOTIFICATION_SETTINGS_CONFIG_KEY = 'notificationSettings';
+
 export class NotificationService {
   private static instance: NotificationService;
   private telegramNotifier: TelegramNotifier | null = null;
@@ -63,6 +77,22 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Rebuild the channels from the environment, then apply saved global settings
+   * @description Channels no longer in the environment are dropped.
+   */
+  reload(saved?: Partial<NotificationSettings>): void {
+    this.telegramNotifier = null;
+    this.discordNotifier = null;
+    this.globalEnabled = false;
+    this.globalAlertLevel = 'all';
+    this.initializeFromEnv();
+
+    if (saved) {
+      this.updateSettings(saved.enabled ?? this.globalEnabled, saved.alertLevel ?? this.globalAlertLevel);
+    }
+  }
+
   /**
    * Configure the notification service
    */
@@ -252,6 +282,14 @@ export class NotificationService {
     return this.globalAlertLevel;
   }
 
+  /**
+   * Market cap at the bot's last price, for bots with market-cap grids
+   */
+  private getMarketCap(bot: BotInstance): number | undefined {
+    if (!bot.config.useMarketCap || !bot.circulatingSupply) return undefined;
+    return MarketCapConverter.toMarketCap(bot.currentPrice, bot.circulatingSupply);
+  }
+
   /**
    * Send trade executed notification
    */
@@ -263,6 +301,8 @@ export class NotificationService {
   ): Promise<boolean> {
     const results: boolean[] = [];
 
+    const marketCap = this.getMarketCap(bot);
+
     // Telegram
     if (this.telegramNotifier) {
       const message = AlertTemplates.tradeExecuted(
@@ -270,7 +310,8 @@ export class NotificationService {
         bot.tokenSymbol,
         tokenAmount,
         ethAmount,
-        positionId
+        positionId,
+        marketCap
       );
 
       results.push(await this.notify(bot, {
@@ -289,7 +330,9 @@ export class NotificationService {
         'buy',
         tokenAmount,
         ethAmount,
-        positionId
+        positionId,
+        undefined,
+        marketCap
       ));
     }
 
@@ -304,9 +347,11 @@ export class NotificationService {
     profitPercent: number,
     profitEth: string | bigint,
     totalEth?: string | bigint,
-    positionId?: number
+    positionId?: number,
+    exitReason: ExitReason = 'take-profit'
   ): Promise<boolean> {
     const results: boolean[] = [];
+    const marketCap = this.getMarketCap(bot);
 
     // Telegram
     if (this.telegramNotifier) {
@@ -316,14 +361,16 @@ export class NotificationService {
         profitPercent,
         profitEth,
         totalEth,
-        positionId
+        positionId,
+        exitReason,
+        marketCap
       );
 
       results.push(await this.notify(bot, {
         type: 'profit',
         message,
         timestamp: Date.now(),
-        metadata: { positionId, profitPercent, profitEth, totalEth },
+        metadata: { positionId, profitPercent, profitEth, totalEth, exitReason },
       }));
     }
 
@@ -334,7 +381,9 @@ export class NotificationService {
         bot.tokenSymbol,
         profitPercent,
         profitEth.toString(),
-        positionId
+        positionId,
+        exitReason,
+        marketCap
       ));
     }
 
@@ -534,19 +583,66 @@ export class NotificationService {
     return results.some(r => r);
   }
 
+  /**
+   * Send grid shift notification
+   */
+  async notifyGridShift(
+    bot: BotInstance,
+    from: { floor: number; ceiling: number },
+    to: { floor: number; ceiling: number },
+    added: number,
+    holding: number
+  ): Promise<boolean> {
+    const results: boolean[] = [];
+
+    // Telegram
+    if (this.telegramNotifier) {
+      const message = AlertTemplates.gridShifted(
+        bot.name,
+        bot.tokenSymbol,
+        bot.currentPrice,
+        from,
+        to,
+        added,
+        holding
+      );
+
+      results.push(await this.notify(bot, {
+        type: 'warning',
+        message,
+        timestamp: Date.now(),
+        metadata: { from, to, added, holding },
+      }));
+    }
+
+    // Discord
+    if (this.discordNotifier) {
+      results.push(await this.discordNotifier.notifyWarning(
+        bot.name,
+        `Grid shifted ${to.floor > from.floor ? 'up' : 'down'} to ${to.floor.toExponential(4)} - ${to.ceiling.toExponential(4)} ETH`,
+        `Rebuilt ${added} levels, kept ${holding} holding`
+      ));
+    }
+
+    return results.some(r => r);
+  }
+
   /**
    * Send circuit breaker notification
    */
   async notifyCircuitBreaker(
     reason: string,
     dailyLossPercent: number,
-    cooldownMinutes: number
+    cooldownMinutes: number,
+    haltMode: 'buys' | 'all' = 'all'
   ): Promise<boolean> {
     const results: boolean[] = [];
 
     const message = `🚨 CIRCUIT BREAKER TRIGGERED\n` +
       `Reason: ${reason}\n` +
-      `All trading bots have been stopped.\n` +
+      (haltMode === 'buys'
+        ? `New buys are paused on all bots (sells continue).\n`
+        : `All trading bots have been stopped.\n`) +
       `Cooldown: ${cooldownMinutes} minutes`;
 
     if (this.telegramNotifier) {
@@ -557,7 +653,8 @@ export class NotificationService {
       results.push(await this.discordNotifier.notifyCircuitBreaker(
         reason,
         dailyLossPercent,
-        cooldownMinutes
+        cooldownMinutes,
+        haltMode
       ));
     }
 
@@ -3,6 +3,6 @@
 
 export { TelegramNotifier, type TelegramConfig, type AlertLevel, type NotificationPayload } from './TelegramNotifier.js';
 export { AlertTemplates } from './AlertTemplates.js';
-export { NotificationService, type NotificationServiceConfig } from './NotificationService.js';
+export { NotificationService, NOTIFICATION_SETTINGS_CONFIG_KEY, type NotificationServiceConfig, type NotificationSettings } from './NotificationService.js';
 export { TelegramBot, type TelegramBotConfig } from './TelegramBot.js';
 export { DiscordNotifier, type DiscordConfig, type DiscordEmbed, type DiscordMessage } from './DiscordNotifier.js';
@@ -3,6 +3,8 @@
 // Provides reliable price data with confidence scoring and fallback mechanisms
 
 import { createPublicClient, http } from 'viem';
+import { RpcStats } from '../api/RpcStats.js';
+import { RpcPool } from '../api/RpcPool.js';
 import { base, mainnet } from 'viem/chains';
 import { ChainlinkFeed, ChainlinkPriceData } from './ChainlinkFeed.js';
 import { UniswapV3TWAP, TWAPResult, DEFAULT_TWAP_SECONDS } from './UniswapV3TWAP.js';
@@ -21,7 +23,7 @@ export interface PriceOracleConfig {
   chain?: Chain;                 // Default: 'base'
   
   // RPC configuration
-  rpcUrl?: string;
+  rpcUrl?: string;                // Default: the chain's RpcPool
 
   // Price source preferences
   preferChainlink?: boolean;      // Default: true
@@ -69,14 +71,14 @@ export class PriceOracle {
   private publicClient: any;
   private chainlink: ChainlinkFeed;
   private uniswap: UniswapV3TWAP;
-  private config: Required<PriceOracleConfig>;
+  private config: Required<Omit<PriceOracleConfig, 'rpcUrl'>> & Pick<PriceOracleConfig, 'rpcUrl'>;
   private chain: Chain;
 
   constructor(config: PriceOracleConfig = {}) {
     this.chain = config.chain ?? 'base';
     this.config = {
       chain: this.chain,
-      rpcUrl: config.rpcUrl ?? (this.chain === 'base' ? 'https://mainnet.base.org' : 'https://eth.llamarpc.com'),
+      rpcUrl: config.rpcUrl,
       preferChainlink: config.preferChainlink ?? true,
       preferTWAP: config.preferTWAP ?? false,
       currency: config.currency ?? 'USD',
@@ -91,7 +93,7 @@ export class PriceOracle {
     const chainConfig = CHAIN_CONFIG[this.chain];
     this.publicClient = createPublicClient({
       chain: chainConfig,
-      transport: http(this.config.rpcUrl),
+      transport: RpcStats.track(this.config.rpcUrl ? http(this.config.rpcUrl) : RpcPool.getInstance().transport(this.chain)),
     });
 
     // Initialize price feed modules
@@ -120,13 +122,13 @@ export class PriceOracle {
   setChain(chain: Chain, rpcUrl?: string): void {
     this.chain = chain;
     this.config.chain = chain;
-    this.config.rpcUrl = rpcUrl ?? (chain === 'base' ? 'https://mainnet.base.org' : 'https://eth.llamarpc.com');
+    this.config.rpcUrl = rpcUrl;
     
     // Re-initialize clients
     const chainConfig = CHAIN_CONFIG[chain];
     this.publicClient = createPublicClient({
       chain: chainConfig,
-      transport: http(this.config.rpcUrl),
+      transport: RpcStats.track(this.config.rpcUrl ? http(this.config.rpcUrl) : RpcPool.getInstance().transport(this.chain)),
     });
 
     // Re-initialize modules with new chain
@@ -361,6 +363,32 @@ export class PriceOracle {
     return ethPrice;
   }
 
+  /**
+   * Get an ERC-20 quote token's value in ETH per whole token (values USDC/DAI-quoted bots in ETH)
+   * @description Chainlink USD feed divided by ETH/USD when the token has a feed, otherwise
+   * the Uniswap V3 TWAP against WETH.
+   */
+  async getQuoteTokenPriceEth(tokenAddress: string, decimals: number = 18): Promise<number | null> {
+    try {
+      const [usd, ethUsd] = await Promise.all([
+        this.chainlink.getPriceForToken(tokenAddress),
+        this.chainlink.getEthPrice(),
+      ]);
+      if (usd && usd.price > 0 && ethUsd && ethUsd > 0) {
+        return usd.price / ethUsd;
+      }
+    } catch {
+      // No feed - fall back to the pool
+    }
+
+    try {
+      const twap = await this.uniswap.getTokenPriceInETH(tokenAddress, this.config.twapSeconds, decimals);
+      return twap && twap.price > 0 ? twap.price : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Get CAD/USD conversion rate
    */
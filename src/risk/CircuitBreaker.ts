@@ -5,8 +5,12 @@ import { BotInstance } from '../types/index.js';
 import { JsonStorage } from '../storage/JsonStorage.js';
 import { NotificationService } from '../notifications/NotificationService.js';
 
+// What stops when the breaker trips: new buys only, or every trade
+export type CircuitBreakerHaltMode = 'buys' | 'all';
+
 export interface CircuitBreakerConfig {
   enabled: boolean;
+  haltMode: CircuitBreakerHaltMode; // What to halt when triggered (default: 'buys')
   maxDailyLossPercent: number;     // Stop if portfolio drops X% in a day (default: 10%)
   maxTotalLossPercent: number;     // Stop if portfolio drops X% total (default: 20%)
   cooldownMinutes: number;         // How long to wait before allowing restart (default: 60)
@@ -28,11 +32,14 @@ export class CircuitBreaker {
   private state: CircuitBreakerState;
   private storage: JsonStorage;
   private lastCheckTime: number = 0;
+  private overrides: Partial<CircuitBreakerConfig>;
 
   constructor(storage: JsonStorage, config?: Partial<CircuitBreakerConfig>) {
     this.storage = storage;
+    this.overrides = config || {};
     this.config = {
       enabled: true,
+      haltMode: 'buys',
       maxDailyLossPercent: 10,
       maxTotalLossPercent: 20,
       cooldownMinutes: 60,
@@ -59,6 +66,12 @@ export class CircuitBreaker {
     if (saved) {
       this.state = { ...this.state, ...saved };
     }
+
+    // Saved settings apply, constructor overrides still win
+    const savedConfig = await this.storage.getConfig('circuitBreakerConfig');
+    if (savedConfig) {
+      this.config = { ...this.config, ...savedConfig, ...this.overrides };
+    }
     
     // Check if we need to reset for a new day
     this.checkDailyReset();
@@ -78,6 +91,20 @@ export class CircuitBreaker {
     this.config = { ...this.config, ...config };
   }
 
+  /**
+   * Persist current configuration so CLI and daemon share it
+   */
+  async saveConfig(): Promise<void> {
+    await this.storage.setConfig('circuitBreakerConfig', this.config);
+  }
+
+  /**
+   * What trading is halted right now ('none' when not triggered or cooled down)
+   */
+  getHaltMode(): CircuitBreakerHaltMode | 'none' {
+    return this.config.enabled && this.isTriggered() ? this.config.haltMode : 'none';
+  }
+
   /**
    * Get current state
    */
@@ -141,8 +168,8 @@ export class CircuitBreaker {
       // Add wallet ETH balance
       // Note: This is a simplified calculation - in production you'd query actual balances
       
-      // Add realized profits
-      totalProfit += BigInt(bot.totalProfitEth);
+      // Add realized profits, net of realized losses
+      totalProfit += BigInt(bot.totalProfitEth) - BigInt(bot.totalLossEth || '0');
       
       // Track positions
       for (const pos of bot.positions) {
@@ -167,7 +194,12 @@ export class CircuitBreaker {
   }> {
     // Check daily reset first
     this.checkDailyReset();
-    
+
+    // Disabling lifts an active halt too
+    if (!this.config.enabled) {
+      return { triggered: false, dailyLossPercent: 0, totalLossPercent: 0 };
+    }
+
     // Already triggered?
     if (this.isTriggered()) {
       return { 
@@ -178,10 +210,6 @@ export class CircuitBreaker {
       };
     }
 
-    if (!this.config.enabled) {
-      return { triggered: false, dailyLossPercent: 0, totalLossPercent: 0 };
-    }
-
     // Rate limit checks to once per minute
     if (Date.now() - this.lastCheckTime < 60000) {
       return { 
@@ -221,14 +249,16 @@ export class CircuitBreaker {
     // Check thresholds
     if (dailyLossPercent >= this.config.maxDailyLossPercent) {
       await this.trigger(
-        `Daily loss limit reached: ${dailyLossPercent.toFixed(2)}% (limit: ${this.config.maxDailyLossPercent}%)`
+        `Daily loss limit reached: ${dailyLossPercent.toFixed(2)}% (limit: ${this.config.maxDailyLossPercent}%)`,
+        dailyLossPercent
       );
       return { triggered: true, reason: this.state.reason!, dailyLossPercent, totalLossPercent };
     }
 
     if (totalLossPercent >= this.config.maxTotalLossPercent) {
       await this.trigger(
-        `Total loss limit reached: ${totalLossPercent.toFixed(2)}% (limit: ${this.config.maxTotalLossPercent}%)`
+        `Total loss limit reached: ${totalLossPercent.toFixed(2)}% (limit: ${this.config.maxTotalLossPercent}%)`,
+        dailyLossPercent
       );
       return { triggered: true, reason: this.state.reason!, dailyLossPercent, totalLossPercent };
     }
@@ -252,7 +282,7 @@ export class CircuitBreaker {
   /**
    * Trigger the circuit breaker
    */
-  private async trigger(reason: string): Promise<void> {
+  private async trigger(reason: string, dailyLossPercent: number = 0): Promise<void> {
     this.state.triggered = true;
     this.state.triggeredAt = Date.now();
     this.state.reason = reason;
@@ -261,11 +291,11 @@ export class CircuitBreaker {
 
     // Send notification
     const notificationService = NotificationService.getInstance();
-    await notificationService.sendMessage(
-      `🚨 CIRCUIT BREAKER TRIGGERED\n` +
-      `Reason: ${reason}\n` +
-      `All trading bots have been stopped.\n` +
-      `Cooldown: ${this.config.cooldownMinutes} minutes`
+    await notificationService.notifyCircuitBreaker(
+      reason,
+      dailyLossPercent,
+      this.config.cooldownMinutes,
+      this.config.haltMode
     );
   }
 
@@ -312,6 +342,8 @@ export class CircuitBreaker {
   getStatus(): {
     enabled: boolean;
     triggered: boolean;
+    reason: string | null;
+    triggeredAt: number | null;
     dailyLossPercent: number;
     totalLossPercent: number;
     cooldownRemaining: number | null;
@@ -329,6 +361,8 @@ export class CircuitBreaker {
     return {
       enabled: this.config.enabled,
       triggered: this.state.triggered,
+      reason: this.state.reason,
+      triggeredAt: this.state.triggeredAt,
       dailyLossPercent: this.calculatePercent(this.state.dailyLoss, this.state.dailyStartValue),
       totalLossPercent: this.calculatePercent(this.state.totalLoss, this.state.dailyStartValue),
       cooldownRemaining,
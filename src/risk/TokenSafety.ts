@@ -0,0 +1,229 @@
+// src/risk/TokenSafety.ts
+// Pre-trade honeypot and transfer-tax check - simulates a buy then a sell from the bot's wallet
+
+import { erc20Abi, maxUint256, parseAbi, parseEther } from 'viem';
+import chalk from 'chalk';
+import { Chain } from '../types/index.js';
+import { SwapProvider } from '../api/SwapProvider.js';
+import { JsonStorage } from '../storage/JsonStorage.js';
+
+// sellable: the round trip went through (taxes measured); honeypot: the sell failed or paid nothing;
+// unknown: no route, or the RPC can't simulate (eth_simulateV1)
+export type TokenSafetyStatus = 'sellable' | 'honeypot' | 'unknown';
+
+export interface TokenSafetyReport {
+  chain: Chain;
+  tokenAddress: string;
+  status: TokenSafetyStatus;
+  buyTaxPercent: number | null;    // Tokens withheld on the buy vs. the quote
+  sellTaxPercent: number | null;   // ETH withheld on the sell vs. the quote
+  roundTripTaxPercent: number | null;
+  route: string | null;            // Swap provider that was simulated
+  reason: string | null;           // Why the check failed or couldn't run
+  checkedAt: number;
+}
+
+export interface TokenSafetyVerdict {
+  allowed: boolean;
+  reason: string | null;
+}
+
+// ETH spent by the simulated buy (0.001 ETH, same as the price probe)
+const PROBE_WEI = parseEther('0.001');
+
+// Balance given to the wallet for the simulation - it needs no real funds
+const SIMULATED_BALANCE = parseEther('1');
+
+// Slippage for simulated swaps: wide enough that a tax shows up as a tax, not a revert
+const SIMULATION_SLIPPAGE_BPS = 5000;
+
+// Multicall3 (same address on every chain) reads native balances inside the simulation
+const MULTICALL3 = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const MULTICALL3_ABI = parseAbi([
+  'function getEthBalance(address addr) external view returns (uint256 balance)',
+]);
+
+export class TokenSafety {
+  static readonly DEFAULT_MAX_TAX_PERCENT = 10;
+  static readonly CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+  private storage: JsonStorage;
+  private publicClient: any;
+  private swapProvider: SwapProvider;
+  private chain: Chain;
+
+  constructor(storage: JsonStorage, publicClient: any, swapProvider: SwapProvider, chain: Chain = 'base') {
+    this.storage = storage;
+    this.publicClient = publicClient;
+    this.swapProvider = swapProvider;
+    this.chain = chain;
+  }
+
+  /**
+   * Cached check for a token - simulates again once the cached result is older than CACHE_TTL_MS
+   * @param tokenAddress - Token to check
+   * @param walletAddress - Wallet the swaps are simulated from (the bot's own, so wallet-based blocks show)
+   * @param force - Ignore the cache
+   */
+  async check(tokenAddress: string, walletAddress: string, force: boolean = false): Promise<TokenSafetyReport> {
+    if (!force) {
+      const cached = await this.storage.getTokenSafety(this.chain, tokenAddress);
+      if (cached && Date.now() - cached.checkedAt < TokenSafety.CACHE_TTL_MS) {
+        return cached;
+      }
+    }
+
+    const report = await this.simulate(tokenAddress, walletAddress);
+
+    // Unknown usually means a flaky RPC or quote API - try again next time
+    if (report.status !== 'unknown') {
+      await this.storage.saveTokenSafety(report);
+    }
+    return report;
+  }
+
+  /**
+   * Simulate a buy followed by a sell of everything received (eth_simulateV1 with a balance override)
+   * @description Two simulations: the first measures the tokens the buy delivers, the second
+   * repeats the buy, approves and sells exactly that amount, measuring the ETH that comes back.
+   * Taxes are measured against the provider's quotes, so pool fees and price impact don't count.
+   */
+  async simulate(tokenAddress: string, walletAddress: string): Promise<TokenSafetyReport> {
+    const report: TokenSafetyReport = {
+      chain: this.chain,
+      tokenAddress,
+      status: 'unknown',
+      buyTaxPercent: null,
+      sellTaxPercent: null,
+      roundTripTaxPercent: null,
+      route: this.swapProvider.name,
+      reason: null,
+      checkedAt: Date.now(),
+    };
+    const wallet = walletAddress as `0x${string}`;
+    const token = tokenAddress as `0x${string}`;
+
+    const buyQuote = await this.swapProvider.getBuyQuote(tokenAddress, PROBE_WEI.toString(), walletAddress, SIMULATION_SLIPPAGE_BPS);
+    if (!buyQuote) {
+      return { ...report, reason: 'No buy route' };
+    }
+
+    const buyCall = {
+      to: buyQuote.to as `0x${string}`,
+      data: buyQuote.data as `0x${string}`,
+      value: BigInt(buyQuote.value || '0'),
+    };
+    const tokenBalance = { to: token, abi: erc20Abi, functionName: 'balanceOf', args: [wallet] };
+    const stateOverrides = [{ address: wallet, balance: SIMULATED_BALANCE }];
+
+    // 1. Buy: how many tokens actually arrive
+    let received: bigint;
+    try {
+      const { results } = await this.publicClient.simulateCalls({
+        account: wallet,
+        stateOverrides,
+        calls: [tokenBalance, buyCall, tokenBalance],
+      });
+      if (results[1].status !== 'success') {
+        return { ...report, reason: `Simulated buy reverted: ${this.errorMessage(results[1].error)}` };
+      }
+      received = BigInt(results[2].result) - BigInt(results[0].result);
+    } catch (error: any) {
+      return { ...report, reason: `Simulation unavailable: ${this.errorMessage(error)}` };
+    }
+
+    if (received <= BigInt(0)) {
+      return { ...report, status: 'honeypot', reason: 'Buy delivered no tokens' };
+    }
+    const buyTax = this.shortfall(received, BigInt(buyQuote.buyAmount));
+
+    const sellQuote = await this.swapProvider.getSellQuote(tokenAddress, received.toString(), walletAddress, SIMULATION_SLIPPAGE_BPS);
+    if (!sellQuote) {
+      return { ...report, buyTaxPercent: buyTax, reason: 'No sell route' };
+    }
+    const spender = (sellQuote.allowanceTarget || sellQuote.to) as `0x${string}`;
+    const ethBalance = { to: MULTICALL3, abi: MULTICALL3_ABI, functionName: 'getEthBalance', args: [wallet] };
+
+    // 2. Buy again, then sell what arrived: how much ETH comes back
+    let returned: bigint;
+    try {
+      const { results } = await this.publicClient.simulateCalls({
+        account: wallet,
+        stateOverrides,
+        calls: [
+          buyCall,
+          { to: token, abi: erc20Abi, functionName: 'approve', args: [spender, maxUint256] },
+          ethBalance,
+          { to: sellQuote.to as `0x${string}`, data: sellQuote.data as `0x${string}`, value: BigInt(sellQuote.value || '0') },
+          ethBalance,
+        ],
+      });
+      if (results[1].status !== 'success') {
+        return { ...report, status: 'honeypot', buyTaxPercent: buyTax, reason: `Approve reverted: ${this.errorMessage(results[1].error)}` };
+      }
+      if (results[3].status !== 'success') {
+        return { ...report, status: 'honeypot', buyTaxPercent: buyTax, reason: `Sell reverted: ${this.errorMessage(results[3].error)}` };
+      }
+      returned = BigInt(results[4].result) - BigInt(results[2].result);
+    } catch (error: any) {
+      return { ...report, buyTaxPercent: buyTax, reason: `Simulation unavailable: ${this.errorMessage(error)}` };
+    }
+
+    if (returned <= BigInt(0)) {
+      return { ...report, status: 'honeypot', buyTaxPercent: buyTax, sellTaxPercent: 100, roundTripTaxPercent: 100, reason: 'Sell returned no ETH' };
+    }
+    const sellTax = this.shortfall(returned, BigInt(sellQuote.buyAmount));
+
+    return {
+      ...report,
+      status: 'sellable',
+      buyTaxPercent: buyTax,
+      sellTaxPercent: sellTax,
+      roundTripTaxPercent: (1 - (1 - buyTax / 100) * (1 - sellTax / 100)) * 100,
+    };
+  }
+
+  /**
+   * Decide whether a bot may arm its grid on this report
+   * @param report - Check result
+   * @param maxTaxPercent - Bot's maxRoundTripTaxPercent (default: DEFAULT_MAX_TAX_PERCENT)
+   * @description Honeypots and taxes above the bot's limit block buys. An unknown result
+   * doesn't - the check is advisory when the RPC can't simulate.
+   */
+  static evaluate(report: TokenSafetyReport, maxTaxPercent?: number): TokenSafetyVerdict {
+    const maxTax = maxTaxPercent ?? TokenSafety.DEFAULT_MAX_TAX_PERCENT;
+
+    if (report.status === 'honeypot') {
+      return { allowed: false, reason: `Token can't be sold (${report.reason})` };
+    }
+    if (report.status === 'sellable' && report.roundTripTaxPercent! > maxTax) {
+      return { allowed: false, reason: `Round-trip tax ${report.roundTripTaxPercent!.toFixed(1)}% exceeds the ${maxTax}% limit` };
+    }
+    return { allowed: true, reason: report.status === 'unknown' ? report.reason : null };
+  }
+
+  /**
+   * One-line, colored summary for menus and logs
+   */
+  static format(report: TokenSafetyReport): string {
+    switch (report.status) {
+      case 'sellable':
+        return chalk.green(`✓ Sellable - round-trip tax ${report.roundTripTaxPercent!.toFixed(1)}%`) +
+          chalk.dim(` (buy ${report.buyTaxPercent!.toFixed(1)}%, sell ${report.sellTaxPercent!.toFixed(1)}%, via ${report.route})`);
+      case 'honeypot':
+        return chalk.red(`✗ Honeypot - ${report.reason}`);
+      default:
+        return chalk.yellow(`? Not verified - ${report.reason}`);
+    }
+  }
+
+  // Percent of the quoted amount that didn't arrive (never negative: a better fill isn't a tax)
+  private shortfall(actual: bigint, quoted: bigint): number {
+    if (quoted <= BigInt(0) || actual >= quoted) return 0;
+    return Number(((quoted - actual) * BigInt(10000)) / quoted) / 100;
+  }
+
+  private errorMessage(error: any): string {
+    return error?.shortMessage || error?.message || 'unknown error';
+  }
+}
@@ -1,5 +1,6 @@
 // src/risk/index.ts
 // Risk management exports
 
-export { CircuitBreaker, CircuitBreakerConfig, CircuitBreakerState } from './CircuitBreaker.js';
+export { CircuitBreaker, CircuitBreakerConfig, CircuitBreakerState, CircuitBreakerHaltMode } from './CircuitBreaker.js';
 export { TrailingStopLoss, TrailingStopConfig, TrailingStopState } from './TrailingStopLoss.js';
+export { TokenSafety, TokenSafetyReport, TokenSafetyStatus, TokenSafetyVerdict } from './TokenSafety.js';
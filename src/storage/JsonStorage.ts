@@ -2,15 +2,24 @@
 
 import { Low } from 'lowdb';
 import { JSONFile } from 'lowdb/node';
-import { BotStorage, BotInstance, WalletData, WalletDictionary } from '../types/index.js';
+import { ApprovalRecord, BotStorage, BotInstance, BotEvent, BotEventType, Chain, WalletData, WalletDictionary } from '../types/index.js';
 import { TradeRecord } from '../analytics/PnLTracker.js';
 import { CircuitBreakerState } from '../risk/CircuitBreaker.js';
+import { TokenSafetyReport } from '../risk/TokenSafety.js';
 
 const DEFAULT_DATA: BotStorage = {
   walletDictionary: {},
   bots: [],
 };
 
+/** Oldest events are dropped beyond this many */
+const MAX_EVENTS = 1000;
+
+/** Approvals are unique per chain, wallet, token and spender */
+function approvalKey(record: ApprovalRecord): string {
+  return [record.chain, record.walletAddress, record.tokenAddress, record.spender].join(':').toLowerCase();
+}
+
 interface TradeStorageData {
   trades: TradeRecord[];
 }
@@ -89,6 +98,21 @@ export class JsonStorage {
     await this.tradeDb.write();
   }
 
+  /**
+   * Re-read bots.json, picking up edits made by another process
+   */
+  async reload(): Promise<void> {
+    return this.queueWrite(async () => {
+      await this.db.read();
+      if (!this.db.data) {
+        this.db.data = DEFAULT_DATA;
+      }
+      if (!this.db.data.bots) {
+        this.db.data.bots = [];
+      }
+    });
+  }
+
   // Primary/Main Wallet (backward compatibility)
   async getMainWallet(): Promise<WalletData | undefined> {
     // First check primaryWalletId
@@ -331,6 +355,70 @@ export class JsonStorage {
     });
   }
 
+  // Token Safety Methods
+  async getTokenSafety(chain: string, tokenAddress: string): Promise<TokenSafetyReport | undefined> {
+    await this.db.read();
+    return this.db.data?.tokenSafety?.[`${chain}:${tokenAddress.toLowerCase()}`];
+  }
+
+  async saveTokenSafety(report: TokenSafetyReport): Promise<void> {
+    return this.queueWrite(async () => {
+      if (!this.db.data) await this.init();
+      if (!this.db.data!.tokenSafety) {
+        this.db.data!.tokenSafety = {};
+      }
+      this.db.data!.tokenSafety[`${report.chain}:${report.tokenAddress.toLowerCase()}`] = report;
+      await this.db.write();
+    });
+  }
+
+  // Token Approval Methods
+  async getApprovals(chain?: Chain, walletAddress?: string): Promise<ApprovalRecord[]> {
+    await this.db.read();
+    return Object.values(this.db.data?.approvals || {}).filter(a =>
+      (!chain || a.chain === chain) &&
+      (!walletAddress || a.walletAddress.toLowerCase() === walletAddress.toLowerCase())
+    );
+  }
+
+  async saveApproval(record: ApprovalRecord): Promise<void> {
+    return this.queueWrite(async () => {
+      if (!this.db.data) await this.init();
+      if (!this.db.data!.approvals) {
+        this.db.data!.approvals = {};
+      }
+      this.db.data!.approvals[approvalKey(record)] = record;
+      await this.db.write();
+    });
+  }
+
+  async deleteApproval(record: ApprovalRecord): Promise<void> {
+    return this.queueWrite(async () => {
+      if (!this.db.data) await this.init();
+      if (this.db.data!.approvals) {
+        delete this.db.data!.approvals[approvalKey(record)];
+        await this.db.write();
+      }
+    });
+  }
+
+  // Event Log Methods
+  async appendEvent(event: BotEvent): Promise<void> {
+    return this.queueWrite(async () => {
+      if (!this.db.data) await this.init();
+      const events = [...(this.db.data!.events || []), event];
+      this.db.data!.events = events.slice(-MAX_EVENTS);
+      await this.db.write();
+    });
+  }
+
+  async getEvents(botId?: string, type?: BotEventType): Promise<BotEvent[]> {
+    await this.db.read();
+    return (this.db.data?.events || []).filter(e =>
+      (!botId || e.botId === botId) && (!type || e.type === type)
+    );
+  }
+
   // General Config Methods
   async getConfig(key: string, defaultValue?: any): Promise<any> {
     await this.db.read();
@@ -17,6 +17,56 @@ export type Chain = 'base' | 'ethereum';
  */
 export type AlertLevel = 'all' | 'trades-only' | 'errors-only' | 'none';
 
+/**
+ * How grid levels are spaced between floor and ceiling
+ * @typedef {('arithmetic' | 'geometric' | 'custom')} GridSpacing
+ * @description 'arithmetic' - equal price width per level, 'geometric' - constant ratio between levels,
+ * 'custom' - explicit list of price breakpoints
+ */
+export type GridSpacing = 'arithmetic' | 'geometric' | 'custom';
+
+/**
+ * Why a position was sold
+ * @typedef {('take-profit' | 'stop-loss' | 'trailing-stop' | 'liquidation')} ExitReason
+ */
+export type ExitReason = 'take-profit' | 'stop-loss' | 'trailing-stop' | 'liquidation';
+
+/**
+ * Swap backends a bot can route quotes and trades through
+ * @typedef {('0x' | 'uniswap-v3')} SwapProviderName
+ * @description '0x' - 0x Protocol aggregator API, 'uniswap-v3' - direct Uniswap V3 SwapRouter02/QuoterV2 against the best WETH pool
+ */
+export type SwapProviderName = '0x' | 'uniswap-v3';
+
+/**
+ * ERC-20 a bot prices its grid in and pays for buys with, instead of native ETH
+ * @interface QuoteToken
+ */
+export interface QuoteToken {
+  /** Token contract address */
+  address: string;
+  /** Token symbol (e.g., 'USDC') */
+  symbol: string;
+  /** Token decimals (6 for USDC) */
+  decimals: number;
+}
+
+/**
+ * How much a bot approves when a swap needs an ERC-20 allowance
+ * @typedef {('exact' | 'capped')} ApprovalMode
+ * @description 'exact' - exactly the amount being swapped, 'capped' - approvalCapMultiple times
+ * that amount, so the next few trades skip the approval transaction
+ */
+export type ApprovalMode = 'exact' | 'capped';
+
+/**
+ * How a SOLD grid position is re-armed for another buy
+ * @typedef {('none' | 'immediate' | 'cooldown' | 'below-buy-max')} RecycleMode
+ * @description 'none' - each level trades once, 'immediate' - re-arm right after the sell,
+ * 'cooldown' - re-arm after recycleCooldownSeconds, 'below-buy-max' - re-arm once price drops back to buyMax
+ */
+export type RecycleMode = 'none' | 'immediate' | 'cooldown' | 'below-buy-max';
+
 /**
  * Configuration for Telegram notifications per bot
  * @interface NotificationConfig
@@ -45,10 +95,22 @@ export interface GridConfig {
   ceilingPrice: number;
   /** Use market cap instead of price (default: false) */
   useMarketCap: boolean;
+  /** Lowest buy level as market cap in ETH - converted to floorPrice (useMarketCap) */
+  marketCapFloor?: number;
+  /** Highest buy level as market cap in ETH - converted to ceilingPrice (useMarketCap) */
+  marketCapCeiling?: number;
+  /** Burn/locked holders excluded from circulating supply (dead and zero address always excluded) */
+  excludedSupplyAddresses?: string[];
+  /** Level spacing between floor and ceiling (default: 'arithmetic') */
+  gridSpacing?: GridSpacing;
+  /** Ascending price boundaries for 'custom' spacing - N+1 values give N positions */
+  customBreakpoints?: number[];
 
   // Trading settings
   /** Target profit percentage per position (default: 8%) */
   takeProfitPercent: number;
+  /** Scale out in tiers instead of one sell at takeProfitPercent - the last tier sells the rest */
+  takeProfitTiers?: TakeProfitTier[];
   /** Stop loss percentage below buyMin (default: 10%) */
   stopLossPercent: number;
   /** Enable stop loss protection (default: false) */
@@ -99,9 +161,9 @@ export interface GridConfig {
   useCircuitBreaker?: boolean;
 
   // Timing
-  /** Milliseconds between heartbeats (default: 1000) */
+  /** Milliseconds between this bot's ticks, never below the manager interval (default: 1000) */
   heartbeatMs: number;
-  /** Number of heartbeats to skip (default: 0) */
+  /** Heartbeats to skip between ticks - the interval is multiplied by skipHeartbeats + 1 (default: 0) */
   skipHeartbeats: number;
 
   // Volume mode settings
@@ -111,6 +173,8 @@ export interface GridConfig {
   volumeBuysPerCycle?: number;
   /** ETH amount per buy in volume mode (default: 0.001) */
   volumeBuyAmount?: number;
+  /** Seconds between volume legs - buys and the distribution sell (default: 60) */
+  volumeBuyIntervalSeconds?: number;
 
   // Gas estimate fallback
   /** Fallback gas cost in ETH when 0x API doesn't provide estimates (default: 0.00001) */
@@ -126,9 +190,165 @@ export interface GridConfig {
   /** Slippage tolerance in basis points (100 = 1%, default: 100) */
   slippageBps?: number;
 
+  // Swap routing
+  /** Swap providers tried in order, falling through when one has no quote (default: ['0x']) */
+  swapProviders?: SwapProviderName[];
+
+  // Transaction fees (EIP-1559)
+  /** Cap on maxFeePerGas in gwei, speed-ups included (default: no cap) */
+  maxFeePerGasGwei?: number;
+  /** Cap on maxPriorityFeePerGas in gwei (default: no cap) */
+  maxPriorityFeePerGasGwei?: number;
+  /** Seconds a transaction may stay unmined before it is sped up (default: 60) */
+  txTimeoutSeconds?: number;
+  /** Speed-ups before a stuck transaction is cancelled (default: 2) */
+  maxTxReplacements?: number;
+
+  // Gas budget (stop-loss, trailing-stop and liquidation sells are exempt)
+  /** Skip buys while the quoted gas exceeds this % of the buy amount (default: off) */
+  maxGasPercentOfTrade?: number;
+  /** Most ETH the bot may spend on gas per UTC day (default: no budget) */
+  dailyGasBudgetEth?: number;
+  /** Defer trades while the base fee is above this multiple of its recent average (default: off) */
+  gasDeferMultiplier?: number;
+  /** Longest a trade waits for a cheaper block before going anyway (default: 600) */
+  maxGasDeferSeconds?: number;
+
+  // Transaction submission
+  /** Send signed transactions through the chain's private relay instead of the public RPC (default: false) */
+  privateSubmission?: boolean;
+
+  // Token safety
+  /** Simulate a buy and sell before the first buy and refuse honeypots (default: true) */
+  tokenSafetyCheck?: boolean;
+  /** Highest combined buy+sell transfer tax the grid will arm on, in % (default: 10) */
+  maxRoundTripTaxPercent?: number;
+
+  // Token approvals
+  /** How much to approve when a swap needs an allowance (default: 'exact') */
+  approvalMode?: ApprovalMode;
+  /** Multiple of the swap amount approved in 'capped' mode (default: 5) */
+  approvalCapMultiple?: number;
+
   // Retry settings
   /** Seconds to wait after failed trade before retrying (default: 30) */
   retryDelaySeconds?: number;
+
+  // Position recycling
+  /** How SOLD positions are re-armed for another buy (default: 'none') */
+  recycleMode?: RecycleMode;
+  /** Seconds after a sell before the level re-arms in 'cooldown' mode (default: 300) */
+  recycleCooldownSeconds?: number;
+
+  // Range following
+  /** Rebuild EMPTY levels around price once it leaves the grid range (default: false) */
+  autoShiftEnabled?: boolean;
+  /** Seconds price must stay outside the grid before it shifts (default: 600) */
+  autoShiftDelaySeconds?: number;
+}
+
+/**
+ * One rung of a scale-out take-profit ladder
+ * @interface TakeProfitTier
+ */
+export interface TakeProfitTier {
+  /** Share of the position's sellable tokens (moon bag excluded) sold at this tier */
+  percent: number;
+  /** Profit over buyMax that triggers the tier, like takeProfitPercent */
+  profitPercent: number;
+}
+
+/**
+ * A single sell filled against a position that scales out in tiers
+ * @interface TakeProfitFill
+ */
+export interface TakeProfitFill {
+  /** Take-profit tier number (1 = first); undefined for a stop/trailing/liquidation exit */
+  tier?: number;
+  /** Transaction hash of the sell */
+  txHash: string;
+  /** Unix timestamp of the sell */
+  timestamp: number;
+  /** Tokens sold in wei */
+  tokensSold: string;
+  /** ETH received in wei */
+  ethReceived: string;
+  /** Gas paid in wei */
+  gasCost: string;
+  /** Share of the position's ethCost allocated to the tokens sold in wei */
+  costEth: string;
+  /** Net profit of this fill in wei */
+  profitEth: string;
+  /** Why the tokens were sold */
+  exitReason: ExitReason;
+}
+
+/**
+ * Broadcast transaction a position is waiting on
+ * @interface PendingTransaction
+ * @description Persisted with the position so a buy or sell that is still unmined (or
+ * being sped up/cancelled) is never repeated, including across restarts.
+ */
+export interface PendingTransaction {
+  /** What the transaction does to the position */
+  side: 'buy' | 'sell';
+  /** Nonce shared by the original and every replacement */
+  nonce: number;
+  /** Every broadcast hash, oldest first - any of them may be the one mined */
+  hashes: string[];
+  /** Hash of the cancel (0 ETH self-transfer) replacement, if one was sent */
+  cancelHash?: string;
+  /** Unix timestamp of the first broadcast */
+  submittedAt: number;
+  /** Unix timestamp of the latest broadcast */
+  lastBroadcastAt: number;
+  /** Fees of the latest broadcast in wei */
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  /** Speed-ups sent so far */
+  replacements: number;
+  /** Transaction request, re-sent with higher fees on speed-up */
+  to: string;
+  data: string;
+  value: string;
+  gas: string;
+  /** Buy: ETH spent in wei; sell: tokens sold in wei */
+  amountIn: string;
+  /** Quoted output in wei (tokens for a buy, ETH for a sell) */
+  expectedOut: string;
+  /** Sell only: why the position is being sold */
+  exitReason?: ExitReason;
+}
+
+/**
+ * A completed buy/sell round trip on a single grid level
+ * @interface PositionCycle
+ */
+export interface PositionCycle {
+  /** Transaction hash of buy execution */
+  buyTxHash?: string;
+  /** Unix timestamp when bought */
+  buyTimestamp?: number;
+  /** Raw token amount received in wei */
+  tokensReceived?: string;
+  /** ETH spent in wei */
+  ethCost?: string;
+  /** Transaction hash of sell execution */
+  sellTxHash?: string;
+  /** Unix timestamp when sold */
+  sellTimestamp?: number;
+  /** ETH received from sale in wei */
+  ethReceived?: string;
+  /** Net profit in ETH in wei */
+  profitEth?: string;
+  /** Profit percentage relative to cost */
+  profitPercent?: number;
+  /** Why the position was sold */
+  exitReason?: ExitReason;
+  /** True if the cycle was filled by the paper-trading ledger */
+  simulated?: boolean;
+  /** Scale-out fills that made up the sell, oldest first */
+  tierFills?: TakeProfitFill[];
 }
 
 /**
@@ -147,7 +367,7 @@ export interface Position {
   // Legacy support (buyPrice = buyMax for backward compatibility)
   /** Kept for compatibility - equals buyMax */
   buyPrice: number;
-  /** Target sell price = buyMax * (1 + takeProfitPercent/100) */
+  /** Target sell price = buyMax * (1 + takeProfitPercent/100) - the next tier target when scaling out */
   sellPrice: number;
   /** Stop loss trigger = buyMin * (1 - stopLossPercent/100) */
   stopLossPrice: number;
@@ -161,9 +381,9 @@ export interface Position {
   buyTxHash?: string;
   /** Unix timestamp when bought */
   buyTimestamp?: number;
-  /** Raw token amount received in wei */
+  /** Raw token amount received in wei (from the receipt's Transfer logs when available) */
   tokensReceived?: string;
-  /** ETH spent including gas in wei */
+  /** ETH spent on the swap in wei (gas is recorded with the trade) */
   ethCost?: string;
 
   // Sell data (populated when sold)
@@ -177,6 +397,24 @@ export interface Position {
   profitEth?: string;
   /** Profit percentage relative to cost */
   profitPercent?: number;
+  /** Why the position was sold (default: 'take-profit') */
+  exitReason?: ExitReason;
+  /** True if the current buy/sell was filled by the paper-trading ledger */
+  simulated?: boolean;
+  /** Buy or sell broadcast but not yet mined - the position is locked until it resolves */
+  pendingTx?: PendingTransaction;
+
+  // Scale-out data (populated by take-profit tiers)
+  /** Scale-out fills so far, oldest first - sellPrice moves to the next tier after each */
+  tierFills?: TakeProfitFill[];
+  /** Tokens still held in wei (moon bag included) while the position is partly sold */
+  tokensRemaining?: string;
+  /** Blended profit realized by the fills so far in wei */
+  realizedProfitEth?: string;
+
+  // Recycling history
+  /** Completed buy/sell round trips on this level, oldest first */
+  cycles?: PositionCycle[];
 }
 
 /**
@@ -197,6 +435,11 @@ export interface BotInstance {
   // Chain selection
   /** Blockchain to trade on ('base' | 'ethereum') */
   chain: Chain;
+  /**
+   * Quote asset (default: native ETH). When set, prices, buy amounts, costs and P&L -
+   * every "ETH" field of the config, positions and stats - are in this token's units
+   */
+  quoteToken?: QuoteToken;
 
   // Wallet
   /** Ethereum address for trading */
@@ -217,6 +460,8 @@ export interface BotInstance {
   totalSells: number;
   /** Cumulative profit in ETH (wei string) */
   totalProfitEth: string;
+  /** Cumulative realized loss in ETH (wei string) - sell profits are floored at 0, losses land here */
+  totalLossEth?: string;
   /** Cumulative profit in USD */
   totalProfitUsd: number;
 
@@ -237,6 +482,24 @@ export interface BotInstance {
   consecutiveErrors?: number;
   /** Unix timestamp of last trade */
   lastTradeAt?: number;
+  /** Circulating supply in whole tokens, used for market-cap grids */
+  circulatingSupply?: number;
+  /** Unix timestamp when price left the grid range (cleared once it returns) */
+  outOfRangeSince?: number;
+  /** Number of automatic grid shifts */
+  gridShiftCount?: number;
+  /** Most recent fill that came in materially below its quote (fee-on-transfer or rebasing token?) */
+  lastFillDeviation?: FillDeviation;
+  /** Gas paid by the bot's transactions in wei, all time */
+  gasSpentEth?: string;
+  /** UTC day (YYYY-MM-DD) that gasSpentTodayEth counts */
+  gasSpentDay?: string;
+  /** Gas paid on gasSpentDay in wei */
+  gasSpentTodayEth?: string;
+  /** Set while the gas rules are holding trades back */
+  gasHold?: GasHold;
+  /** Realized slippage vs. the quote, by how the trades were submitted */
+  slippage?: Partial<Record<SubmissionRoute, SlippageStats>>;
 
   // Volume Bot Mode State
   /** Current buy count in volume cycle */
@@ -245,6 +508,18 @@ export interface BotInstance {
   volumeAccumulatedTokens?: string;
   /** Number of completed volume cycles */
   volumeCycleCount?: number;
+  /** ETH spent on buys in current cycle (wei string) */
+  volumeCostBasis?: string;
+  /** Unix timestamp of last volume leg (buy or sell) */
+  volumeLastTradeAt?: number;
+  /** Volume leg whose transaction hasn't resolved yet - no new leg is sent until it does */
+  volumePendingLeg?: Position;
+
+  // Paper Trading
+  /** If true, trades are filled against a virtual ledger instead of the wallet */
+  paperTrading?: boolean;
+  /** Virtual ETH/token balances used while paperTrading is on */
+  paperLedger?: PaperLedger;
 
   // Timing
   /** Unix timestamp when bot was created */
@@ -253,6 +528,89 @@ export interface BotInstance {
   lastUpdated: number;
 }
 
+/**
+ * A fill whose receipt amount fell short of the quote by more than the slippage tolerance
+ * @interface FillDeviation
+ */
+export interface FillDeviation {
+  /** Buy (tokens received) or sell (ETH received) */
+  side: 'buy' | 'sell';
+  /** Quoted amount in wei */
+  quoted: string;
+  /** Amount the receipt shows in wei */
+  actual: string;
+  /** Shortfall vs. the quote in % */
+  shortfallPercent: number;
+  /** Transaction hash */
+  txHash: string;
+  /** Unix timestamp */
+  timestamp: number;
+}
+
+/**
+ * Where a bot's signed transactions were sent
+ * @typedef {('public' | 'private')} SubmissionRoute
+ * @description 'public' - the read RPC (public mempool), 'private' - the chain's private relay
+ */
+export type SubmissionRoute = 'public' | 'private';
+
+/**
+ * Running realized slippage of a bot's fills for one submission route
+ * @interface SlippageStats
+ * @description Slippage is the % a fill came in below its quote; negative when it beat the quote.
+ */
+export interface SlippageStats {
+  /** Fills measured */
+  fills: number;
+  /** Sum of slippage over all fills in % (average = totalPercent / fills) */
+  totalPercent: number;
+  /** Worst single fill in % */
+  worstPercent: number;
+  /** Unix timestamp of the last fill */
+  lastFillAt: number;
+}
+
+/**
+ * Why the gas rules are holding a bot's trades back
+ * @typedef {('budget' | 'ratio' | 'base-fee')} GasHoldKind
+ * @description 'budget' - daily gas budget used up, 'ratio' - gas too large a share of the buy,
+ * 'base-fee' - waiting for a cheaper block
+ */
+export type GasHoldKind = 'budget' | 'ratio' | 'base-fee';
+
+/**
+ * A trade held back by the gas rules
+ * @interface GasHold
+ */
+export interface GasHold {
+  /** Rule that is holding the trade */
+  kind: GasHoldKind;
+  /** Trade being held */
+  side: 'buy' | 'sell';
+  /** Human readable explanation */
+  reason: string;
+  /** Unix timestamp the hold started */
+  since: number;
+}
+
+/**
+ * Virtual balances for a paper-trading bot
+ * @interface PaperLedger
+ * @description Fills are priced from live 0x quotes; all amounts are wei strings
+ */
+export interface PaperLedger {
+  /** Virtual ETH balance in wei */
+  ethBalance: string;
+  /** Virtual token balance in wei */
+  tokenBalance: string;
+  /** ETH balance the ledger was funded with in wei */
+  startingEth: string;
+  /** Quoted gas charged to the ledger so far in wei */
+  gasSpent: string;
+  /** Unix timestamp when the ledger was funded */
+  createdAt: number;
+}
+
 /**
  * Wallet information with encrypted private key
  * @interface WalletData
@@ -296,8 +654,66 @@ export interface BotStorage {
   circuitBreaker?: any;
   /** Trailing stop loss states per bot */
   trailingStopStates?: Record<string, any>;
+  /** Honeypot/tax check results keyed by chain:token */
+  tokenSafety?: Record<string, any>;
+  /** ERC-20 approvals granted by bot wallets, keyed by chain:wallet:token:spender */
+  approvals?: Record<string, ApprovalRecord>;
   /** General configuration settings */
   config?: Record<string, any>;
+  /** Bot event log, oldest first */
+  events?: BotEvent[];
+}
+
+/**
+ * Kinds of entries in the bot event log
+ * @typedef {('grid-shift')} BotEventType
+ */
+export type BotEventType = 'grid-shift';
+
+/**
+ * An entry in the bot event log
+ * @interface BotEvent
+ */
+export interface BotEvent {
+  /** Unique identifier */
+  id: string;
+  /** Bot the event belongs to */
+  botId: string;
+  /** Bot name at the time of the event */
+  botName: string;
+  /** Event kind */
+  type: BotEventType;
+  /** Unix timestamp */
+  timestamp: number;
+  /** Human readable summary */
+  message: string;
+  /** Event specific details */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * An ERC-20 approval granted by a bot wallet
+ * @interface ApprovalRecord
+ */
+export interface ApprovalRecord {
+  /** Chain the approval is on */
+  chain: Chain;
+  /** Wallet that granted it */
+  walletAddress: string;
+  /** Approved token */
+  tokenAddress: string;
+  /** Token symbol, for display */
+  tokenSymbol?: string;
+  /** Contract allowed to spend (swap allowance target) */
+  spender: string;
+  /** Allowance granted in the token's smallest units (last known) */
+  amount: string;
+  /** Bot that granted it, if any */
+  botId?: string;
+  /** Approval transaction */
+  txHash?: string;
+  /** Unix timestamp of the approval */
+  approvedAt: number;
 }
 
 /**
@@ -318,7 +734,8 @@ export interface PriceData {
 /**
  * Swap quote from 0x API
  * @interface ZeroXQuote
- * @description Contains all data needed to execute a swap through 0x Protocol
+ * @description Contains all data needed to execute a swap. Every swap provider returns
+ * quotes in this shape so the bot executes them the same way.
  */
 export interface ZeroXQuote {
   /** Token address to buy */
@@ -343,6 +760,8 @@ export interface ZeroXQuote {
   value: string;
   /** Address to approve for spending */
   allowanceTarget?: string;
+  /** Provider that produced the quote (default: '0x') */
+  source?: SwapProviderName;
 }
 
 /**
@@ -358,6 +777,10 @@ export interface TradeResult {
   gasUsed?: bigint;
   /** Gas cost in ETH (wei string) */
   gasCostEth?: string;
+  /** Profit booked by this swap in wei (sells only) */
+  profitEth?: string;
+  /** Held back by the gas rules rather than failed - retried later */
+  deferred?: boolean;
   /** Error message if failed */
   error?: string;
 }
@@ -0,0 +1,193 @@
+// src/wallet/ApprovalRegistry.ts
+// Sizes the ERC-20 approvals bots grant, records them per wallet and token, and revokes them
+
+import { erc20Abi } from 'viem';
+import { ApprovalRecord, BotInstance, Chain, GridConfig } from '../types/index.js';
+import { JsonStorage } from '../storage/JsonStorage.js';
+import { NonceManager } from './NonceManager.js';
+import { SWAP_ROUTER_02 } from '../api/UniswapV3Provider.js';
+
+/**
+ * Spender a bot may have approved before approvals were recorded
+ */
+export interface KnownSpender {
+  name: string;
+  address: string;
+}
+
+/**
+ * A recorded (or discovered) approval with its current on-chain allowance
+ */
+export interface OutstandingApproval {
+  record: ApprovalRecord;
+  allowance: bigint;
+}
+
+/**
+ * Swap contracts the bot routes through, by chain
+ */
+export const KNOWN_SPENDERS: Record<Chain, KnownSpender[]> = {
+  base: [
+    { name: '0x AllowanceHolder', address: '0x0000000000001fF3684f28c67538d4D072C22734' },
+    { name: '0x Exchange Proxy', address: '0xDef1C0ded9bec7F1a1670819833240f027b25EfF' },
+    { name: 'Uniswap SwapRouter02', address: SWAP_ROUTER_02.base },
+  ],
+  ethereum: [
+    { name: '0x AllowanceHolder', address: '0x0000000000001fF3684f28c67538d4D072C22734' },
+    { name: '0x Exchange Proxy', address: '0xDef1C0ded9bec7F1a1670819833240f027b25EfF' },
+    { name: 'Uniswap SwapRouter02', address: SWAP_ROUTER_02.ethereum },
+  ],
+};
+
+/**
+ * Registry of approvals granted by bot wallets on one chain
+ * @class ApprovalRegistry
+ * @description Bots only approve what a swap needs (or a bounded multiple of it) and record
+ * each approval here. The record keeps the last amount granted; outstanding() reads the live
+ * allowance, which swaps spend down, and drops records that have reached zero.
+ */
+export class ApprovalRegistry {
+  static readonly DEFAULT_CAP_MULTIPLE = 5;
+
+  private storage: JsonStorage;
+  private chain: Chain;
+
+  constructor(storage: JsonStorage, chain: Chain = 'base') {
+    this.storage = storage;
+    this.chain = chain;
+  }
+
+  /**
+   * Amount to approve for a swap that needs `needed`
+   * @param needed - Amount the swap spends
+   * @param config - Bot config (approvalMode, approvalCapMultiple)
+   */
+  static approvalAmount(needed: bigint, config: Pick<GridConfig, 'approvalMode' | 'approvalCapMultiple'>): bigint {
+    if (config.approvalMode !== 'capped') return needed;
+
+    // Hundredths, so multiples like 2.5 work; never below the amount needed
+    const multiple = Math.max(1, config.approvalCapMultiple ?? ApprovalRegistry.DEFAULT_CAP_MULTIPLE);
+    return (needed * BigInt(Math.round(multiple * 100))) / BigInt(100);
+  }
+
+  /**
+   * Describe a spender address ('0x AllowanceHolder', or the shortened address)
+   */
+  static spenderName(chain: Chain, spender: string): string {
+    const known = KNOWN_SPENDERS[chain].find(s => s.address.toLowerCase() === spender.toLowerCase());
+    return known?.name ?? `${spender.slice(0, 10)}...`;
+  }
+
+  /**
+   * Record an approval a bot just granted
+   */
+  async record(approval: Omit<ApprovalRecord, 'chain' | 'approvedAt'>): Promise<void> {
+    await this.storage.saveApproval({ ...approval, chain: this.chain, approvedAt: Date.now() });
+  }
+
+  /**
+   * Recorded approvals plus each bot's token and quote token against the known spenders
+   * @param bots - Bots whose wallets to cover (other chains are ignored)
+   * @description The bot-derived entries catch approvals granted before they were recorded.
+   */
+  async candidates(bots: BotInstance[]): Promise<ApprovalRecord[]> {
+    const byKey = new Map<string, ApprovalRecord>();
+    const add = (record: ApprovalRecord) => {
+      const key = [record.walletAddress, record.tokenAddress, record.spender].join(':').toLowerCase();
+      if (!byKey.has(key)) byKey.set(key, record);
+    };
+
+    for (const record of await this.storage.getApprovals(this.chain)) {
+      add(record);
+    }
+
+    for (const bot of bots.filter(b => (b.chain ?? 'base') === this.chain)) {
+      const tokens = [{ address: bot.tokenAddress, symbol: bot.tokenSymbol }];
+      if (bot.quoteToken) tokens.push(bot.quoteToken);
+
+      for (const token of tokens) {
+        for (const spender of KNOWN_SPENDERS[this.chain]) {
+          add({
+            chain: this.chain,
+            walletAddress: bot.walletAddress,
+            tokenAddress: token.address,
+            tokenSymbol: token.symbol,
+            spender: spender.address,
+            amount: '0',
+            botId: bot.id,
+            approvedAt: 0,
+          });
+        }
+      }
+    }
+
+    return Array.from(byKey.values());
+  }
+
+  /**
+   * Read the live allowance of each candidate and keep those above zero
+   * @description Recorded approvals that have been spent or revoked elsewhere are forgotten;
+   * discovered ones that are still open are recorded.
+   */
+  async outstanding(publicClient: any, candidates: ApprovalRecord[]): Promise<OutstandingApproval[]> {
+    const results: OutstandingApproval[] = [];
+
+    for (const record of candidates) {
+      let allowance: bigint;
+      try {
+        allowance = BigInt(await publicClient.readContract({
+          address: record.tokenAddress as `0x${string}`,
+          abi: erc20Abi,
+          functionName: 'allowance',
+          args: [record.walletAddress as `0x${string}`, record.spender as `0x${string}`],
+        }));
+      } catch {
+        // Not an ERC-20, or the RPC failed - leave the record as it is
+        continue;
+      }
+
+      if (allowance === BigInt(0)) {
+        if (record.approvedAt > 0) await this.storage.deleteApproval(record);
+        continue;
+      }
+
+      if (record.approvedAt === 0) {
+        await this.storage.saveApproval({ ...record, amount: allowance.toString() });
+      }
+      results.push({ record, allowance });
+    }
+
+    return results;
+  }
+
+  /**
+   * Set an allowance back to zero and forget it
+   * @param walletClient - Wallet client for the approving wallet
+   * @param publicClient - viem public client
+   * @param record - Approval to revoke
+   * @returns Revoke transaction hash
+   */
+  async revoke(walletClient: any, publicClient: any, record: ApprovalRecord): Promise<`0x${string}`> {
+    const txHash = await NonceManager.getInstance().send(
+      this.chain,
+      record.walletAddress,
+      publicClient,
+      `revoke ${record.tokenSymbol ?? record.tokenAddress.slice(0, 10)}`,
+      nonce => walletClient.writeContract({
+        address: record.tokenAddress as `0x${string}`,
+        abi: erc20Abi,
+        functionName: 'approve',
+        args: [record.spender as `0x${string}`, BigInt(0)],
+        nonce,
+      })
+    );
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    if (receipt.status !== 'success') {
+      throw new Error(`Revoke transaction reverted: ${txHash}`);
+    }
+
+    await this.storage.deleteApproval(record);
+    return txHash;
+  }
+}
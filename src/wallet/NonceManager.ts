@@ -0,0 +1,278 @@
+// src/wallet/NonceManager.ts
+// Per-address transaction queue and nonce allocation shared by every bot in the process
+
+import chalk from 'chalk';
+import { Chain } from '../types/index.js';
+
+// A transaction unconfirmed for this long blocks everything behind it
+const STUCK_AFTER_MS = 3 * 60 * 1000;
+
+// Handed-out nonces the node still doesn't know after this long were dropped
+const GAP_RESYNC_MS = 60 * 1000;
+
+// Relayed transactions skip the public mempool and can take minutes to land
+const RELAY_GAP_RESYNC_MS = 15 * 60 * 1000;
+
+/**
+ * Transaction submitted through the manager and not yet seen confirmed
+ */
+export interface TrackedTransaction {
+  nonce: number;
+  label: string;
+  txHash: string;
+  sentAt: number;
+  /** Sent through a private relay - the public node doesn't see it until it is mined */
+  relayed?: boolean;
+}
+
+/**
+ * Nonce health of one address on one chain
+ */
+export interface NonceReport {
+  chain: Chain;
+  address: string;
+  /** Transactions mined (next nonce the chain will accept) */
+  confirmed: number;
+  /** Transactions mined plus those in the node's mempool */
+  pending: number;
+  /** Next nonce this process will hand out (null = not sending from here yet) */
+  localNext: number | null;
+  /** Our transactions the chain hasn't confirmed yet */
+  inFlight: TrackedTransaction[];
+  /** Nonces handed out here that the node doesn't know about */
+  gaps: number[];
+  /** Lowest unconfirmed transaction when it has been waiting too long */
+  stuck: TrackedTransaction | null;
+  /** Human-readable problems (empty when healthy) */
+  issues: string[];
+}
+
+interface NonceState {
+  chain: Chain;
+  address: string;
+  next: number | null;
+  queue: Promise<unknown>;
+  inFlight: Map<number, TrackedTransaction>;
+  publicClient: any;
+}
+
+/**
+ * Serializes transaction submission per address and assigns nonces locally
+ * @class NonceManager
+ * @description Bots sharing a wallet (useMainWallet) each have their own wallet client, so
+ * letting viem pick nonces makes concurrent sends collide. Every send for an address goes
+ * through one queue: the nonce is max(local next, chain pending count), the submit callback
+ * broadcasts with it, and the queue moves on once the node has accepted the transaction
+ * (receipts are awaited outside the queue). Nonce errors trigger one resync-and-retry.
+ */
+export class NonceManager {
+  private static instance: NonceManager;
+  private states: Map<string, NonceState> = new Map();
+
+  /**
+   * Get the process-wide instance shared by all bots
+   */
+  static getInstance(): NonceManager {
+    if (!NonceManager.instance) {
+      NonceManager.instance = new NonceManager();
+    }
+    return NonceManager.instance;
+  }
+
+  /**
+   * Queue a transaction for an address and submit it with a managed nonce
+   * @param chain - Chain the transaction is sent on
+   * @param address - Sending address
+   * @param publicClient - Client used to read the on-chain transaction count
+   * @param label - Who is sending (bot name), for logs and diagnostics
+   * @param submit - Broadcasts the transaction with the given nonce and returns its hash
+   * @param relayed - Whether submit sends through a private relay rather than the public RPC
+   * @returns Transaction hash once the node accepted it
+   */
+  async send(
+    chain: Chain,
+    address: string,
+    publicClient: any,
+    label: string,
+    submit: (nonce: number) => Promise<`0x${string}`>,
+    relayed: boolean = false
+  ): Promise<`0x${string}`> {
+    const state = this.getState(chain, address);
+    state.publicClient = publicClient;
+
+    const run = state.queue.then(() => this.submitNext(state, label, submit, relayed));
+    state.queue = run.catch(() => {
+      // Failures are returned to the caller; the queue keeps going
+    });
+    return run;
+  }
+
+  /**
+   * Check an address for nonce gaps and stuck transactions
+   * @param chain - Chain to inspect
+   * @param address - Address to inspect
+   * @param publicClient - Client for the chain
+   */
+  async inspect(chain: Chain, address: string, publicClient: any): Promise<NonceReport> {
+    const [confirmed, pending] = await this.readCounts(publicClient, address);
+    const state = this.states.get(this.key(chain, address));
+
+    if (state) {
+      this.prune(state, confirmed);
+    }
+
+    const localNext = state?.next ?? null;
+    const inFlight = state ? [...state.inFlight.values()].sort((a, b) => a.nonce - b.nonce) : [];
+    const gaps: number[] = [];
+    if (localNext !== null) {
+      for (let nonce = pending; nonce < localNext; nonce++) {
+        const tx = state!.inFlight.get(nonce);
+        // Still with the relay, not missing
+        if (tx?.relayed && !(await this.isDropped(publicClient, tx))) continue;
+        gaps.push(nonce);
+      }
+    }
+
+    const head = state?.inFlight.get(confirmed);
+    const stuck = head && pending > confirmed && Date.now() - head.sentAt > STUCK_AFTER_MS ? head : null;
+
+    const issues: string[] = [];
+    if (gaps.length > 0) {
+      issues.push(`Nonce gap: ${gaps.join(', ')} handed out but unknown to the node (dropped transaction?)`);
+    }
+    if (stuck) {
+      issues.push(`Nonce ${stuck.nonce} (${stuck.label}) pending for ${Math.round((Date.now() - stuck.sentAt) / 1000)}s - blocks ${pending - confirmed - 1} later transaction(s)`);
+    } else if (pending > confirmed && !head) {
+      issues.push(`${pending - confirmed} transaction(s) pending from outside this process, starting at nonce ${confirmed}`);
+    }
+
+    return { chain, address, confirmed, pending, localNext, inFlight, gaps, stuck, issues };
+  }
+
+  /**
+   * Inspect every address this process has sent from
+   */
+  async inspectAll(): Promise<NonceReport[]> {
+    const reports: NonceReport[] = [];
+    for (const state of this.states.values()) {
+      try {
+        reports.push(await this.inspect(state.chain, state.address, state.publicClient));
+      } catch {
+        // RPC unavailable - skip this address
+      }
+    }
+    return reports;
+  }
+
+  /**
+   * Forget the local nonce for an address so the next send resyncs from the chain
+   */
+  resync(chain: Chain, address: string): void {
+    const state = this.states.get(this.key(chain, address));
+    if (state) state.next = null;
+  }
+
+  private async submitNext(
+    state: NonceState,
+    label: string,
+    submit: (nonce: number) => Promise<`0x${string}`>,
+    relayed: boolean
+  ): Promise<`0x${string}`> {
+    for (let attempt = 0; ; attempt++) {
+      const nonce = await this.reserve(state);
+      try {
+        const txHash = await submit(nonce);
+        state.next = nonce + 1;
+        state.inFlight.set(nonce, { nonce, label, txHash, sentAt: Date.now(), relayed });
+        return txHash;
+      } catch (error: any) {
+        // Whether the nonce was consumed is unknown - ask the chain next time
+        state.next = null;
+        if (attempt === 0 && NonceManager.isNonceError(error)) {
+          console.log(chalk.yellow(`   ⚠ Nonce ${nonce} rejected for ${label} - resyncing and retrying`));
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Pick the nonce for the next transaction
+   */
+  private async reserve(state: NonceState): Promise<number> {
+    const [confirmed, pending] = await this.readCounts(state.publicClient, state.address);
+    this.prune(state, confirmed);
+
+    if (state.next === null || pending >= state.next) {
+      return pending;
+    }
+
+    // The node is missing nonces we handed out; once they are old enough they were dropped
+    const missing = state.inFlight.get(pending);
+    if (missing && !(await this.isDropped(state.publicClient, missing))) {
+      return state.next;
+    }
+
+    console.log(chalk.yellow(`   ⚠ Nonce gap on ${state.address.slice(0, 10)}... (${pending}-${state.next - 1}) - refilling from ${pending}`));
+    for (let nonce = pending; nonce < state.next; nonce++) state.inFlight.delete(nonce);
+    return pending;
+  }
+
+  /**
+   * Whether a transaction missing from the node's pending count was dropped
+   * @description A relayed one is given the relay's inclusion window, then only written
+   * off if the node has no record of its hash either.
+   */
+  private async isDropped(publicClient: any, tx: TrackedTransaction): Promise<boolean> {
+    const age = Date.now() - tx.sentAt;
+    if (!tx.relayed) return age > GAP_RESYNC_MS;
+    if (age <= RELAY_GAP_RESYNC_MS) return false;
+
+    try {
+      await publicClient.getTransaction({ hash: tx.txHash as `0x${string}` });
+      return false;
+    } catch (error: any) {
+      if (error?.name === 'TransactionNotFoundError') return true;
+      throw error;
+    }
+  }
+
+  private async readCounts(publicClient: any, address: string): Promise<[number, number]> {
+    const [confirmed, pending] = await Promise.all([
+      publicClient.getTransactionCount({ address: address as `0x${string}`, blockTag: 'latest' }),
+      publicClient.getTransactionCount({ address: address as `0x${string}`, blockTag: 'pending' }),
+    ]);
+    return [Number(confirmed), Number(pending)];
+  }
+
+  private prune(state: NonceState, confirmed: number): void {
+    for (const nonce of state.inFlight.keys()) {
+      if (nonce < confirmed) state.inFlight.delete(nonce);
+    }
+  }
+
+  private getState(chain: Chain, address: string): NonceState {
+    const key = this.key(chain, address);
+    let state = this.states.get(key);
+    if (!state) {
+      state = { chain, address, next: null, queue: Promise.resolve(), inFlight: new Map(), publicClient: null };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  private key(chain: Chain, address: string): string {
+    return `${chain}:${address.toLowerCase()}`;
+  }
+
+  /**
+   * Whether a send failed because of its nonce (collision, replay or underpriced replacement)
+   * @description "already known" is not one: that transaction is already in the mempool, and
+   * resending with a fresh nonce would broadcast it twice.
+   */
+  static isNonceError(error: any): boolean {
+    const message = `${error?.shortMessage || ''} ${error?.details || ''} ${error?.message || ''}`.toLowerCase();
+    return /nonce too (low|high)|nonce has already been used|replacement transaction underpriced|invalid nonce/.test(message);
+  }
+}
@@ -0,0 +1,94 @@
+// src/wallet/PrivateRelay.ts
+// Routes signed transactions to a private relay while reads stay on the public RPC
+
+import { custom, http, Transport } from 'viem';
+import { Chain } from '../types/index.js';
+import { RpcStats } from '../api/RpcStats.js';
+
+/**
+ * A private submission endpoint offered as a preset
+ */
+export interface KnownRelay {
+  name: string;
+  url: string;
+}
+
+/**
+ * Storage config key holding the relay URL per chain
+ */
+export const PRIVATE_RELAY_CONFIG_KEY = 'privateRelayUrls';
+
+/**
+ * Relays that keep transactions out of the public mempool, by chain
+ * @description Base has no widely used public relay yet; paste a provider's protected endpoint.
+ */
+export const KNOWN_RELAYS: Record<Chain, KnownRelay[]> = {
+  base: [],
+  ethereum: [
+    { name: 'Flashbots Protect', url: 'https://rpc.flashbots.net/fast' },
+    { name: 'MEV Blocker', url: 'https://rpc.mevblocker.io' },
+  ],
+};
+
+// Environment overrides, used when no relay is saved in settings
+const RELAY_ENV: Record<Chain, string> = {
+  base: 'BASE_PRIVATE_RPC_URL',
+  ethereum: 'ETH_PRIVATE_RPC_URL',
+};
+
+/**
+ * Methods that broadcast a transaction; only these go to the relay - every read stays on the public RPC
+ */
+export const SUBMIT_METHODS = ['eth_sendRawTransaction'];
+
+/**
+ * Private transaction submission
+ * @class PrivateRelay
+ * @description Wallet clients built with transport() sign locally and send the raw
+ * transaction to the relay; nonce, fee, receipt and balance reads use the public RPC.
+ * A relay that rejects or cannot be reached fails the send - the bot never falls back
+ * to the public mempool on its own.
+ */
+export class PrivateRelay {
+  /**
+   * Transport sending raw transactions to `relayUrl` and everything else to `rpc`
+   * @param rpc - Public RPC URL, or transport (e.g. a chain's RpcPool), for reads
+   * @param relayUrl - Private submission endpoint (reads only when omitted)
+   */
+  static transport(rpc: string | Transport, relayUrl?: string): Transport {
+    const reads = typeof rpc === 'string' ? http(rpc) : rpc;
+    if (!relayUrl) return RpcStats.track(reads);
+
+    const submits = http(relayUrl);
+    return RpcStats.track((options) => {
+      const read = reads(options);
+      const submit = submits(options);
+      // Each side retries on its own
+      return custom(
+        { request: (args: any) => (SUBMIT_METHODS.includes(args.method) ? submit : read).request(args) },
+        { key: 'privateRelay', name: 'Private Relay', retryCount: 0 }
+      )(options);
+    });
+  }
+
+  /**
+   * Relay URL for a chain: the saved setting, else the environment override
+   * @param chain - Chain to submit on
+   * @param saved - Saved relay URLs (storage config PRIVATE_RELAY_CONFIG_KEY)
+   * @returns The URL, or null when none is configured
+   */
+  static resolve(chain: Chain, saved: Partial<Record<Chain, string>> = {}): string | null {
+    return saved[chain] || process.env[RELAY_ENV[chain]] || null;
+  }
+
+  /**
+   * Host of a relay URL, for logs (never prints API keys in the path or query)
+   */
+  static label(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch {
+      return 'private relay';
+    }
+  }
+}
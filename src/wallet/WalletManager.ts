@@ -1,10 +1,11 @@
 // src/wallet/WalletManager.ts
 
 import { generatePrivateKey, privateKeyToAccount, Account } from 'viem/accounts';
-import { createWalletClient, http, publicActions } from 'viem';
+import { createWalletClient, publicActions, Transport } from 'viem';
 import { base, mainnet } from 'viem/chains';
 import CryptoJS from 'crypto-js';
 import { WalletData, WalletDictionary, Chain } from '../types/index.js';
+import { PrivateRelay } from './PrivateRelay.js';
 
 const PBKDF2_ITERATIONS = 600000;
 const SALT_LENGTH = 32;
@@ -190,35 +191,39 @@ export class WalletManager {
 
   /**
    * Get wallet client for any wallet with specified chain
+   * @param rpc - RPC URL, or transport such as RpcPool.transport(chain)
+   * @param relayUrl - Private relay for signed transactions (reads stay on rpc)
    */
-  getWalletClient(walletId: string, rpcUrl: string, chain: Chain = 'base') {
+  getWalletClient(walletId: string, rpc: string | Transport, chain: Chain = 'base', relayUrl?: string) {
     const account = this.getAccount(walletId);
     const chainConfig = CHAIN_CONFIG[chain];
     return createWalletClient({
       account,
       chain: chainConfig,
-      transport: http(rpcUrl),
+      transport: PrivateRelay.transport(rpc, relayUrl),
     }).extend(publicActions);
   }
 
   /**
    * Get wallet client for primary wallet (backward compatibility)
+   * @param rpc - RPC URL, or transport such as RpcPool.transport(chain)
+   * @param relayUrl - Private relay for signed transactions (reads stay on rpc)
    */
-  getMainWalletClient(rpcUrl: string, chain: Chain = 'base') {
+  getMainWalletClient(rpc: string | Transport, chain: Chain = 'base', relayUrl?: string) {
     const account = this.getMainAccount();
     const chainConfig = CHAIN_CONFIG[chain];
     return createWalletClient({
       account,
       chain: chainConfig,
-      transport: http(rpcUrl),
+      transport: PrivateRelay.transport(rpc, relayUrl),
     }).extend(publicActions);
   }
 
   /**
    * Get wallet client for bot wallet with chain support
    */
-  getBotWalletClient(botId: string, rpcUrl: string, chain: Chain = 'base') {
-    return this.getWalletClient(botId, rpcUrl, chain);
+  getBotWalletClient(botId: string, rpc: string | Transport, chain: Chain = 'base', relayUrl?: string) {
+    return this.getWalletClient(botId, rpc, chain, relayUrl);
   }
 
   /**
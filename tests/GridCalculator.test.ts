@@ -74,6 +74,59 @@ describe('GridCalculator', () => {
     });
   });
 
+  describe('grid spacing', () => {
+    it('should space geometric levels at a constant ratio', () => {
+      const config: GridConfig = { ...baseConfig, gridSpacing: 'geometric' };
+      const positions = GridCalculator.generateGrid(0.0005, config);
+
+      const ratio = positions[0].buyMax / positions[0].buyMin;
+      positions.forEach(p => {
+        expect(p.buyMax / p.buyMin).toBeCloseTo(ratio, 10);
+      });
+      expect(positions[0].buyMin).toBeCloseTo(baseConfig.floorPrice, 12);
+      expect(positions[positions.length - 1].buyMax).toBe(baseConfig.ceilingPrice);
+      expect(GridCalculator.validateContinuousCoverage(positions, config)).toBe(true);
+    });
+
+    it('should use custom breakpoints as level boundaries', () => {
+      const config: GridConfig = {
+        ...baseConfig,
+        gridSpacing: 'custom',
+        customBreakpoints: [0.0004, 0.0001, 0.0002, 0.001],
+      };
+      const positions = GridCalculator.generateGrid(0.0005, config);
+
+      expect(positions).toHaveLength(3);
+      expect(positions.map(p => p.buyMin)).toEqual([0.0001, 0.0002, 0.0004]);
+      expect(positions[2].buyMax).toBe(0.001);
+      expect(GridCalculator.validateContinuousCoverage(positions, config)).toBe(true);
+    });
+
+    it('should reject custom spacing without enough breakpoints', () => {
+      const config: GridConfig = { ...baseConfig, gridSpacing: 'custom', customBreakpoints: [0.0001] };
+      expect(() => GridCalculator.generateGrid(0.0005, config)).toThrow();
+    });
+
+    it('should detect a grid that does not match its spacing', () => {
+      const positions = GridCalculator.generateGrid(0.0005, baseConfig);
+      const geometric: GridConfig = { ...baseConfig, gridSpacing: 'geometric' };
+
+      expect(GridCalculator.validateContinuousCoverage(positions, baseConfig)).toBe(true);
+      expect(GridCalculator.validateContinuousCoverage(positions, geometric)).toBe(false);
+    });
+
+    it('should parse breakpoint input', () => {
+      expect(GridCalculator.parseBreakpoints('0.002, 0.001 0.003,0.001')).toEqual([0.001, 0.002, 0.003]);
+      expect(() => GridCalculator.parseBreakpoints('0.001, abc')).toThrow();
+    });
+
+    it('should derive grid range from custom breakpoints before generation', () => {
+      const config: GridConfig = { ...baseConfig, gridSpacing: 'custom', customBreakpoints: [0.0002, 0.0008] };
+      expect(GridCalculator.getGridRange([], config)).toEqual({ floor: 0.0002, ceiling: 0.0008 });
+      expect(GridCalculator.getGridRange([])).toBeNull();
+    });
+  });
+
   describe('findBuyPosition', () => {
     it('should find position when price is at buy level', () => {
       const positions = GridCalculator.generateGrid(0.0005, baseConfig);
@@ -189,6 +242,260 @@ describe('GridCalculator', () => {
     });
   });
 
+  describe('recycleSoldPositions', () => {
+    const sell = (position: Position, sellTimestamp: number) => {
+      position.status = 'SOLD';
+      position.buyTxHash = '0xbuy';
+      position.tokensReceived = '1000000000000000000';
+      position.ethCost = '1000000000000000';
+      position.sellTxHash = '0xsell';
+      position.sellTimestamp = sellTimestamp;
+      position.ethReceived = '1100000000000000';
+      position.profitEth = '100000000000000';
+      position.profitPercent = 10;
+    };
+
+    it('should not recycle when mode is none', () => {
+      const positions = GridCalculator.generateGrid(0.0005, baseConfig);
+      sell(positions[0], 0);
+
+      const recycled = GridCalculator.recycleSoldPositions(positions, 0.0005, baseConfig);
+
+      expect(recycled).toHaveLength(0);
+      expect(positions[0].status).toBe('SOLD');
+    });
+
+    it('should re-arm immediately and archive the cycle', () => {
+      const config = { ...baseConfig, recycleMode: 'immediate' as const };
+      const positions = GridCalculator.generateGrid(0.0005, config);
+      sell(positions[0], Date.now());
+
+      const recycled = GridCalculator.recycleSoldPositions(positions, 0.0005, config);
+
+      expect(recycled).toHaveLength(1);
+      expect(positions[0].status).toBe('EMPTY');
+      expect(positions[0].buyTxHash).toBeUndefined();
+      expect(positions[0].sellTxHash).toBeUndefined();
+      expect(positions[0].cycles).toHaveLength(1);
+      expect(positions[0].cycles![0].sellTxHash).toBe('0xsell');
+    });
+
+    it('should wait for cooldown before re-arming', () => {
+      const config = { ...baseConfig, recycleMode: 'cooldown' as const, recycleCooldownSeconds: 60 };
+      const positions = GridCalculator.generateGrid(0.0005, config);
+      sell(positions[0], 1_000_000);
+
+      expect(GridCalculator.recycleSoldPositions(positions, 0.0005, config, 1_030_000)).toHaveLength(0);
+      expect(GridCalculator.recycleSoldPositions(positions, 0.0005, config, 1_060_000)).toHaveLength(1);
+    });
+
+    it('should re-arm once price is back below buyMax', () => {
+      const config = { ...baseConfig, recycleMode: 'below-buy-max' as const };
+      const positions = GridCalculator.generateGrid(0.0005, config);
+      sell(positions[0], Date.now());
+
+      expect(GridCalculator.recycleSoldPositions(positions, positions[0].sellPrice, config)).toHaveLength(0);
+      expect(GridCalculator.recycleSoldPositions(positions, positions[0].buyMax, config)).toHaveLength(1);
+    });
+
+    it('should count archived cycles in grid stats', () => {
+      const config = { ...baseConfig, recycleMode: 'immediate' as const };
+      const positions = GridCalculator.generateGrid(0.0005, config);
+      sell(positions[0], Date.now());
+      GridCalculator.recycleSoldPositions(positions, 0.0005, config);
+      sell(positions[0], Date.now());
+
+      const stats = GridCalculator.calculateGridStats(positions);
+
+      expect(GridCalculator.getCompletedCycles(positions[0])).toHaveLength(2);
+      expect(stats.completedCycles).toBe(2);
+      expect(stats.totalProfitEth).toBe('200000000000000');
+      expect(stats.avgProfit).toBe(10);
+    });
+  });
+
+  describe('shiftGrid', () => {
+    const hold = (position: Position) => {
+      position.status = 'HOLDING';
+      position.tokensReceived = '1000000000000000000';
+      position.ethCost = '1000000000000000';
+    };
+
+    it('should re-centre EMPTY levels on price and keep holdings', () => {
+      const config = { ...baseConfig };
+      const positions = GridCalculator.generateGrid(0.0005, config);
+      hold(positions[9]);
+      const held = positions[9];
+
+      const shift = GridCalculator.shiftGrid(positions, 0.004, config);
+
+      expect(shift.factor).toBeGreaterThan(1);
+      expect(Math.sqrt(shift.to.floor * shift.to.ceiling)).toBeCloseTo(0.004, 12);
+      expect(shift.to.ceiling / shift.to.floor).toBeCloseTo(10, 9);
+      expect(config.floorPrice).toBe(shift.to.floor);
+      expect(shift.removed).toBe(9);
+      expect(shift.added).toBe(10);
+      expect(shift.holding).toBe(1);
+      expect(shift.positions).toHaveLength(11);
+      expect(shift.positions).toContain(held);
+      expect(held.ethCost).toBe('1000000000000000');
+      expect(shift.positions.filter(p => p.status === 'EMPTY').map(p => p.id)).toEqual(
+        [10, 11, 12, 13, 14, 15, 16, 17, 18, 19]
+      );
+    });
+
+    it('should not rebuild levels over a holding range', () => {
+      const config = { ...baseConfig };
+      const positions = GridCalculator.generateGrid(0.0005, config);
+      hold(positions[0]);
+
+      const shift = GridCalculator.shiftGrid(positions, 0.00009, config);
+      const added = shift.positions.filter(p => p.status === 'EMPTY');
+
+      expect(shift.added).toBeLessThan(10);
+      expect(added.every(p => p.buyMax <= positions[0].buyMin || p.buyMin >= positions[0].buyMax)).toBe(true);
+    });
+
+    it('should not rebuild levels over a sold range that recycles in place', () => {
+      const config = { ...baseConfig, recycleMode: 'immediate' as const };
+      const positions = GridCalculator.generateGrid(0.0005, config);
+      const sold = positions[0];
+      sold.status = 'SOLD';
+      sold.tokensReceived = '1000000000000000000';
+      sold.ethCost = '1000000000000000';
+      sold.sellTimestamp = Date.now();
+
+      const shift = GridCalculator.shiftGrid(positions, 0.00009, config);
+      GridCalculator.recycleSoldPositions(shift.positions, 0.00009, config);
+      const empty = shift.positions.filter(p => p.status === 'EMPTY');
+
+      expect(shift.positions).toContain(sold);
+      expect(sold.status).toBe('EMPTY');
+      expect(empty.filter(p => p.buyMin < sold.buyMax && p.buyMax > sold.buyMin)).toEqual([sold]);
+    });
+
+    it('should scale custom breakpoints and market caps', () => {
+      const config: GridConfig = {
+        ...baseConfig,
+        gridSpacing: 'custom',
+        customBreakpoints: [0.0001, 0.0004, 0.0009],
+        useMarketCap: true,
+        marketCapFloor: 100,
+        marketCapCeiling: 900,
+      };
+      const positions = GridCalculator.generateGrid(0.0005, config);
+
+      const shift = GridCalculator.shiftGrid(positions, 0.0006, config);
+
+      expect(shift.factor).toBeCloseTo(2, 9);
+      expect(config.customBreakpoints![0]).toBeCloseTo(0.0002, 12);
+      expect(config.marketCapCeiling).toBeCloseTo(1800, 6);
+      expect(shift.added).toBe(2);
+    });
+
+    it('should use the positions range when no floor/ceiling is configured', () => {
+      const config = { ...baseConfig, floorPrice: 0, ceilingPrice: 0 };
+      const positions = GridCalculator.generateGrid(0.0001, config);
+
+      expect(GridCalculator.getActiveRange(positions, config)).toEqual({ floor: 0.00001, ceiling: 0.0004 });
+    });
+  });
+
+  describe('take-profit tiers', () => {
+    const tieredConfig: GridConfig = {
+      ...baseConfig,
+      moonBagEnabled: false,
+      takeProfitTiers: [
+        { percent: 30, profitPercent: 5 },
+        { percent: 40, profitPercent: 10 },
+        { percent: 30, profitPercent: 20 },
+      ],
+    };
+    const holding = (config: GridConfig): Position => {
+      const position = GridCalculator.generateGrid(0.0005, config)[0];
+      position.status = 'HOLDING';
+      position.tokensReceived = '1000000000000000000000';
+      position.ethCost = '1000000000000000';
+      return position;
+    };
+    const fill = (position: Position, config: GridConfig, profitEth: string, exitReason: 'take-profit' | 'stop-loss' = 'take-profit') => {
+      const plan = GridCalculator.getSellPlan(position, config, exitReason);
+      GridCalculator.applySell(position, config, plan, {
+        txHash: `0x${position.tierFills?.length ?? 0}`,
+        timestamp: Date.now(),
+        tokensSold: plan.tokenAmount,
+        ethReceived: '400000000000000',
+        gasCost: '0',
+        profitEth,
+        exitReason,
+      });
+      return plan;
+    };
+
+    it('should parse and validate a ladder', () => {
+      expect(GridCalculator.parseTakeProfitTiers('30@5, 40@10%, 30@20')).toEqual(tieredConfig.takeProfitTiers);
+      expect(() => GridCalculator.parseTakeProfitTiers('30@10, 40@5')).toThrow('profit must be above tier 1');
+      expect(() => GridCalculator.parseTakeProfitTiers('60@5, 60@10')).toThrow('add up to 120%');
+      expect(() => GridCalculator.parseTakeProfitTiers('30')).toThrow('Invalid take-profit tier');
+      expect(GridCalculator.formatTakeProfitTiers(tieredConfig.takeProfitTiers!)).toBe('30% @ +5%, 40% @ +10%, rest @ +20%');
+    });
+
+    it('should target the first tier when generating the grid', () => {
+      const positions = GridCalculator.generateGrid(0.0005, tieredConfig);
+      expect(positions[0].sellPrice).toBeCloseTo(positions[0].buyMax * 1.05, 12);
+    });
+
+    it('should scale out tier by tier with proportional cost', () => {
+      const position = holding(tieredConfig);
+
+      const first = fill(position, tieredConfig, '100000000000000');
+      expect(first).toMatchObject({ tokenAmount: '300000000000000000000', costEth: '300000000000000', tier: 1, final: false });
+      expect(position.status).toBe('HOLDING');
+      expect(position.tokensRemaining).toBe('700000000000000000000');
+      expect(position.sellPrice).toBeCloseTo(position.buyMax * 1.1, 12);
+
+      fill(position, tieredConfig, '0');
+      const last = fill(position, tieredConfig, '50000000000000');
+
+      expect(last).toMatchObject({ tokenAmount: '300000000000000000000', costEth: '300000000000000', tier: 3, final: true });
+      expect(position.status).toBe('SOLD');
+      expect(position.tierFills).toHaveLength(3);
+      expect(position.ethReceived).toBe('1200000000000000');
+      expect(position.profitEth).toBe('150000000000000');
+      expect(position.profitPercent).toBe(15);
+      expect(position.tokensRemaining).toBeUndefined();
+    });
+
+    it('should sell the remainder on a stop-loss after a partial fill', () => {
+      const config = { ...tieredConfig, moonBagEnabled: true, moonBagPercent: 10 };
+      const position = holding(config);
+      fill(position, config, '0');
+
+      const plan = GridCalculator.getSellPlan(position, config, 'stop-loss');
+
+      expect(plan.tier).toBeUndefined();
+      expect(plan.final).toBe(true);
+      expect(plan.moonBag).toBe('100000000000000000000');
+      expect(plan.tokenAmount).toBe('630000000000000000000');
+      expect(plan.costEth).toBe('700000000000000');
+    });
+
+    it('should archive fills and re-arm at the first tier', () => {
+      const config = { ...tieredConfig, recycleMode: 'immediate' as const };
+      const position = holding(config);
+      fill(position, config, '0');
+      fill(position, config, '0');
+      fill(position, config, '0');
+
+      GridCalculator.recycleSoldPositions([position], 0.0005, config);
+
+      expect(position.status).toBe('EMPTY');
+      expect(position.tierFills).toBeUndefined();
+      expect(position.sellPrice).toBeCloseTo(position.buyMax * 1.05, 12);
+      expect(position.cycles![0].tierFills).toHaveLength(3);
+    });
+  });
+
   describe('formatPrice', () => {
     it('should format small prices with high precision', () => {
       const formatted = GridCalculator.formatPrice(0.000001234);
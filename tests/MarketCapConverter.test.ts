@@ -0,0 +1,88 @@
+// tests/MarketCapConverter.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { MarketCapConverter } from '../src/grid/MarketCapConverter';
+import { GridCalculator } from '../src/grid/GridCalculator';
+import { createGridConfig } from './utils/factories';
+
+describe('MarketCapConverter', () => {
+  const LOCKER = '0x1111111111111111111111111111111111111111';
+
+  const createClient = (balances: Record<string, bigint>) => ({
+    readContract: vi.fn(async ({ functionName, args }: any) => {
+      if (functionName === 'totalSupply') return 1_000_000n * 10n ** 18n;
+      if (functionName === 'decimals') return 18;
+      return balances[(args[0] as string).toLowerCase()] ?? 0n;
+    }),
+  });
+
+  describe('fetchCirculatingSupply', () => {
+    it('should subtract burn and configured locked balances', async () => {
+      const client = createClient({
+        '0x000000000000000000000000000000000000dead': 100_000n * 10n ** 18n,
+        [LOCKER]: 400_000n * 10n ** 18n,
+      });
+
+      const supply = await MarketCapConverter.fetchCirculatingSupply(client as any, '0xToken', [LOCKER]);
+
+      expect(supply).toBe(500_000);
+    });
+
+    it('should not double count a configured burn address', () => {
+      const excluded = MarketCapConverter.getExcludedAddresses(['0x000000000000000000000000000000000000DEAD', LOCKER]);
+      expect(excluded).toHaveLength(3);
+    });
+
+    it('should reject a fully excluded supply', async () => {
+      const client = createClient({ [LOCKER]: 1_000_000n * 10n ** 18n });
+      await expect(
+        MarketCapConverter.fetchCirculatingSupply(client as any, '0xToken', [LOCKER])
+      ).rejects.toThrow('Circulating supply is zero');
+    });
+  });
+
+  describe('conversion', () => {
+    it('should round-trip market cap and price', () => {
+      const price = MarketCapConverter.toPrice(50, 1_000_000);
+      expect(price).toBeCloseTo(0.00005, 12);
+      expect(MarketCapConverter.toMarketCap(price, 1_000_000)).toBeCloseTo(50, 9);
+    });
+
+    it('should set the grid price range from market caps', () => {
+      const config = createGridConfig({
+        useMarketCap: true,
+        marketCapFloor: 10,
+        marketCapCeiling: 100,
+        numPositions: 9,
+      });
+
+      expect(MarketCapConverter.applyToConfig(config, 1_000_000)).toBe(true);
+      expect(config.floorPrice).toBeCloseTo(0.00001, 12);
+      expect(config.ceilingPrice).toBeCloseTo(0.0001, 12);
+
+      const positions = GridCalculator.generateGrid(0.00005, config);
+      expect(positions[0].buyMin).toBeCloseTo(0.00001, 12);
+      expect(positions[positions.length - 1].buyMax).toBeCloseTo(0.0001, 12);
+    });
+
+    it('should leave price grids untouched', () => {
+      const config = createGridConfig({ floorPrice: 0.001, ceilingPrice: 0.01 });
+      expect(MarketCapConverter.applyToConfig(config, 1_000_000)).toBe(false);
+      expect(config.floorPrice).toBe(0.001);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should abbreviate large market caps', () => {
+      expect(MarketCapConverter.format(12_500)).toBe('12.50K ETH');
+      expect(MarketCapConverter.format(3_200_000)).toBe('3.20M ETH');
+      expect(MarketCapConverter.format(42)).toBe('42.00 ETH');
+    });
+
+    it('should format levels as market cap only when enabled', () => {
+      const mcConfig = createGridConfig({ useMarketCap: true });
+      expect(MarketCapConverter.formatLevel(0.001, mcConfig, 1_000_000)).toBe('1.00K ETH');
+      expect(MarketCapConverter.formatLevel(0.001, createGridConfig(), 1_000_000)).toBe('1.000000e-3 ETH');
+    });
+  });
+});
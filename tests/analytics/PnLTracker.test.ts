@@ -177,6 +177,29 @@ describe('PnLTracker', () => {
       expect(cumulative.totalSells).toBe(3);
     });
 
+    it('should exclude paper trades unless requested', async () => {
+      const bot = {
+        id: 'bot-1',
+        name: 'Test Bot',
+        tokenAddress: '0x1234',
+        tokenSymbol: 'TEST',
+      } as any;
+
+      await pnLTracker.recordBuy(bot, 0, '1000000000000000000', 0.001, '1000000000000000', '0', '0xlive');
+      await pnLTracker.recordBuy(bot, 1, '1000000000000000000', 0.001, '1000000000000000', '0', '0xPAPER_BUY_1', true);
+      await pnLTracker.recordSell(
+        bot, 1, '1000000000000000000', 0.0011, '1100000000000000', '0',
+        '100000000000000', 10, '0xPAPER_SELL_1', 'take-profit', true
+      );
+
+      expect(pnLTracker.getAllTrades().filter(t => t.simulated)).toHaveLength(2);
+      expect(pnLTracker.getCumulativePnL().totalTrades).toBe(1);
+      expect(pnLTracker.getCumulativePnL().totalProfitEth).toBe('0');
+      expect(pnLTracker.getCumulativePnL(true).totalTrades).toBe(3);
+      expect(pnLTracker.getDailyPnL(new Date())[0].sells).toBe(0);
+      expect(pnLTracker.getDailyPnL(new Date(), true)[0].profitEth).toBe('100000000000000');
+    });
+
     it('should handle mixed profitable and losing trades', async () => {
       const bot = {
         id: 'bot-1',
@@ -235,6 +258,32 @@ describe('PnLTracker', () => {
 
       expect(cumulative.totalSells).toBe(2);
     });
+
+    it('should value quote-token trades in ETH and count those without a rate', async () => {
+      const usdc = { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC', decimals: 6 };
+      const bot = {
+        id: 'bot-1',
+        name: 'Test Bot',
+        tokenAddress: '0x1234',
+        tokenSymbol: 'TEST',
+      } as any;
+      const usdcBot = { ...bot, id: 'bot-2', quoteToken: usdc };
+
+      await pnLTracker.recordSell(bot, 1, '1000000000000000000', 0.0011, '1100000000000000', '0', '100000000000000', 10, '0x1');
+      // 25 USDC back, 5 USDC profit
+      await pnLTracker.recordSell(usdcBot, 1, '1000000000000000000', 25, '25000000', '0', '5000000', 25, '0x2');
+
+      expect(pnLTracker.getAllTrades()[1].quote).toEqual(usdc);
+
+      // 2500 USDC per ETH
+      const priced = pnLTracker.getCumulativePnL(false, { [usdc.address.toLowerCase()]: 0.0004 });
+      expect(priced.totalProfitEth).toBe((100000000000000n + 2000000000000000n).toString());
+      expect(priced.unpricedTrades).toBeUndefined();
+
+      const unpriced = pnLTracker.getCumulativePnL();
+      expect(unpriced.totalProfitEth).toBe('100000000000000');
+      expect(unpriced.unpricedTrades).toBe(1);
+    });
   });
 
   describe('getTradesByBot', () => {
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parseEther } from 'viem';
+import { QuoteCurrency, NATIVE_TOKEN_ADDRESS } from '../../src/api/QuoteCurrency.js';
+import { RateLimiter } from '../../src/api/RateLimiter.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+import { QuoteToken } from '../../src/types/index.js';
+
+const TOKEN = '0x1234567890123456789012345678901234567890';
+const TAKER = '0x9876543210987654321098765432109876543210';
+const USDC: QuoteToken = { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC', decimals: 6 };
+
+describe('QuoteCurrency', () => {
+  it('should use the quote token decimals for amounts', () => {
+    expect(QuoteCurrency.parse('25.5', USDC)).toBe(25500000n);
+    expect(QuoteCurrency.parse(0.001)).toBe(parseEther('0.001'));
+    expect(QuoteCurrency.label(25500000n, USDC)).toBe('25.5 USDC');
+    expect(QuoteCurrency.label(parseEther('0.5'))).toBe('0.5 ETH');
+    expect(QuoteCurrency.address()).toBe(NATIVE_TOKEN_ADDRESS);
+  });
+
+  it('should price and value tokens in quote units', () => {
+    // One USDC bought 1000 tokens
+    const price = QuoteCurrency.price(QuoteCurrency.priceProbe(USDC), parseEther('1000'), USDC);
+    expect(price).toBeCloseTo(0.001, 12);
+    expect(QuoteCurrency.value(parseEther('2000'), price, USDC)).toBe(2000000n);
+    expect(QuoteCurrency.value(parseEther('2000'), 0.000001)).toBe(parseEther('0.002'));
+  });
+
+  it('should convert gas into quote units at the quote token price', () => {
+    // 2500 USDC per ETH: a USDC unit is worth 4e8 wei
+    expect(QuoteCurrency.gasInQuote(parseEther('0.0002'), 4e8, USDC)).toBe(500000n);
+    expect(QuoteCurrency.gasInQuote(123n, 4e8)).toBe(123n);
+    expect(() => QuoteCurrency.gasInQuote(123n, 0, USDC)).toThrow('No USDC price');
+  });
+});
+
+describe('ZeroXApi with a quote token', () => {
+  let api: ZeroXApi;
+  let get: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    api = new ZeroXApi('test-key', 'base', new RateLimiter());
+    get = vi.fn(async (path: string, { params }: any) => {
+      if (path.endsWith('/price')) {
+        // 0.001 ETH buys 2.5 USDC
+        return { data: { buyAmount: params.buyToken === USDC.address ? '2500000' : '1000000000000000000000' } };
+      }
+      return { data: { buyAmount: '10600000', gas: '200000', gasPrice: '1000000000', to: TAKER, data: '0x', value: '0' } };
+    });
+    (api as any).client = { get };
+  });
+
+  it('should swap against the quote token instead of ETH', async () => {
+    await api.getBuyQuote(TOKEN, '10000000', TAKER, 100, USDC);
+    await api.getSellQuote(TOKEN, '1000', TAKER, 100, USDC);
+    const price = await api.getTokenPrice(TOKEN, TAKER, USDC);
+
+    expect(get.mock.calls[0][1].params).toMatchObject({ sellToken: USDC.address, buyToken: TOKEN, sellAmount: '10000000' });
+    expect(get.mock.calls[1][1].params).toMatchObject({ sellToken: TOKEN, buyToken: USDC.address });
+    expect(get.mock.calls[2][1].params).toMatchObject({ sellToken: USDC.address, sellAmount: '1000000' });
+    expect(price).toBeCloseTo(0.001, 12);
+  });
+
+  it('should judge profit with gas converted into the quote token', async () => {
+    // 10 USDC cost, 10.6 USDC back, 0.5 USDC of gas: 1% profit
+    const result = await api.isProfitable(TOKEN, '1000', '10000000', 1, TAKER, false, undefined, undefined, true, USDC);
+
+    expect(result.profitable).toBe(true);
+    expect(result.actualProfit).toBeCloseTo(1);
+    expect(get).toHaveBeenCalledWith('/swap/allowance-holder/price', expect.objectContaining({
+      params: expect.objectContaining({ sellToken: NATIVE_TOKEN_ADDRESS, buyToken: USDC.address }),
+    }));
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiter, TokenBucket } from '../../src/api/RateLimiter.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+
+const TOKEN = '0x1234567890123456789012345678901234567890';
+const TAKER = '0x9876543210987654321098765432109876543210';
+
+const rateLimited = (retryAfter?: string) => Object.assign(new Error('Request failed with status code 429'), {
+  response: { status: 429, headers: retryAfter ? { 'retry-after': retryAfter } : {} },
+});
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should refill a token bucket over time', () => {
+    const bucket = new TokenBucket({ capacity: 2, perSecond: 4 });
+    bucket.take();
+    bucket.take();
+
+    expect(bucket.waitTime()).toBe(250);
+    vi.advanceTimersByTime(250);
+    expect(bucket.waitTime()).toBe(0);
+  });
+
+  it('should make requests over the endpoint budget wait their turn', async () => {
+    const limiter = new RateLimiter({ global: { capacity: 10, perSecond: 10 }, endpoints: { quote: { capacity: 1, perSecond: 1 } } });
+    const order: string[] = [];
+
+    const first = limiter.acquire('quote').then(() => order.push('first'));
+    const second = limiter.acquire('quote').then(() => order.push('second'));
+    await vi.advanceTimersByTimeAsync(10);
+    expect(order).toEqual(['first']);
+    expect(limiter.getStatus().waiting).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all([first, second]);
+    expect(order).toEqual(['first', 'second']);
+  });
+
+  it('should back off exponentially and honor Retry-After', () => {
+    const limiter = new RateLimiter({ baseBackoffMs: 1000, maxBackoffMs: 8000 });
+
+    limiter.recordThrottle();
+    expect(limiter.getStatus().throttledUntil).toBe(Date.now() + 1000);
+    vi.advanceTimersByTime(1000);
+    limiter.recordThrottle();
+    expect(limiter.getStatus().throttledUntil).toBe(Date.now() + 2000);
+    limiter.recordThrottle(RateLimiter.parseRetryAfter('30'));
+    expect(limiter.getStatus().throttledUntil).toBe(Date.now() + 30000);
+    expect(limiter.getStatus()).toMatchObject({ throttled: true, consecutiveThrottles: 3, totalThrottles: 3 });
+
+    vi.advanceTimersByTime(30000);
+    limiter.recordSuccess();
+    expect(limiter.getStatus()).toMatchObject({ throttled: false, consecutiveThrottles: 0, totalThrottles: 3 });
+  });
+});
+
+describe('ZeroXApi rate limiting', () => {
+  let limiter: RateLimiter;
+  let api: ZeroXApi;
+  let get: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    limiter = new RateLimiter();
+    api = new ZeroXApi('test-key', 'base', limiter);
+    get = vi.fn().mockResolvedValue({ data: { buyAmount: '1000000000000000000000' } });
+    (api as any).client = { get };
+  });
+
+  it('should merge and cache identical price requests', async () => {
+    const prices = await Promise.all([
+      api.getTokenPrice(TOKEN, TAKER),
+      api.getTokenPrice(TOKEN, '0x00000000000000000000000000000000000000b1'),
+    ]);
+    await api.getTokenPrice(TOKEN.toUpperCase().replace('0X', '0x'), TAKER);
+
+    expect(prices).toEqual([0.000001, 0.000001]);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throttle quietly on a 429 and serve the cached price', async () => {
+    await api.getTokenPrice(TOKEN, TAKER);
+    (api as any).priceCache.forEach((entry: any) => { entry.at -= 5000; });
+    get.mockRejectedValue(rateLimited('10'));
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await api.getSellQuote(TOKEN, '1000', TAKER)).toBeNull();
+    expect(limiter.getStatus().throttled).toBe(true);
+
+    // Backing off: no requests go out, prices come from the cache
+    expect(await api.getTokenPrice(TOKEN, TAKER)).toBe(0.000001);
+    expect(await api.getBuyQuote(TOKEN, '1000', TAKER)).toBeNull();
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(errors).not.toHaveBeenCalled();
+    errors.mockRestore();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createPublicClient, HttpRequestError, TimeoutError } from 'viem';
+import { base } from 'viem/chains';
+import { RpcPool } from '../../src/api/RpcPool.js';
+
+const PRIMARY = 'https://primary.example.com';
+const BACKUP = 'https://backup.example.com';
+
+describe('RpcPool', () => {
+  let pool: RpcPool;
+  let handlers: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    pool = new RpcPool({ base: [PRIMARY, BACKUP] });
+    handlers = {
+      [PRIMARY]: vi.fn().mockResolvedValue('0x10'),
+      [BACKUP]: vi.fn().mockResolvedValue('0x11'),
+    };
+    vi.spyOn(pool as any, 'endpointTransport').mockImplementation(
+      (_chain: any, endpoint: any) => ({ request: handlers[endpoint.url] })
+    );
+  });
+
+  const client = () => createPublicClient({ chain: base, transport: pool.transport('base') });
+
+  it('should fail over to the next endpoint when the current one is unreachable', async () => {
+    handlers[PRIMARY].mockRejectedValue(new HttpRequestError({ url: PRIMARY, details: 'fetch failed' }));
+
+    expect(await client().getBlockNumber({ cacheTime: 0 })).toBe(17n);
+    expect(pool.getUrl('base')).toBe(BACKUP);
+
+    // The primary cools down, so the next call goes straight to the backup
+    await client().getBlockNumber({ cacheTime: 0 });
+    expect(handlers[PRIMARY]).toHaveBeenCalledTimes(1);
+    expect(handlers[BACKUP]).toHaveBeenCalledTimes(2);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('primary.example.com → backup.example.com'));
+
+    const [backup, primary] = pool.getStatus('base');
+    expect(backup).toMatchObject({ url: BACKUP, current: true, healthy: true, requests: 2, failures: 0 });
+    expect(primary).toMatchObject({ url: PRIMARY, current: false, healthy: false, requests: 1, failures: 1 });
+    expect(primary.lastError).toContain('HTTP request failed');
+  });
+
+  it('should pass errors the node answers with through without failing over', async () => {
+    handlers[PRIMARY].mockRejectedValue(Object.assign(new Error('execution reverted'), { code: 3 }));
+
+    await expect(client().getBlockNumber({ cacheTime: 0 })).rejects.toThrow('execution reverted');
+    expect(handlers[BACKUP]).not.toHaveBeenCalled();
+    expect(pool.getStatus('base')[0]).toMatchObject({ url: PRIMARY, current: true, healthy: true });
+  });
+
+  it('should not resend a transaction whose submission timed out', async () => {
+    handlers[PRIMARY].mockRejectedValue(new TimeoutError({ body: {}, url: PRIMARY }));
+    const transport = pool.transport('base')({ chain: base });
+
+    await expect(transport.request({ method: 'eth_sendRawTransaction', params: ['0x02f8'] })).rejects.toThrow('timed out');
+    expect(handlers[BACKUP]).not.toHaveBeenCalled();
+    // Reads still fail over away from the endpoint
+    expect(pool.getUrl('base')).toBe(BACKUP);
+  });
+
+  it('should keep the current endpoint unless another scores clearly better', async () => {
+    const endpoints = (pool as any).pools.base.endpoints;
+    endpoints[0].avgLatencyMs = 120;
+    endpoints[1].avgLatencyMs = 100;
+    expect(pool.getUrl('base')).toBe(PRIMARY);
+
+    endpoints[0].avgLatencyMs = 400;
+    expect(pool.getUrl('base')).toBe(BACKUP);
+  });
+});
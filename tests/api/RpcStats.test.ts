@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { createPublicClient, custom } from 'viem';
+import { base } from 'viem/chains';
+import { RpcStats } from '../../src/api/RpcStats.js';
+
+describe('RpcStats', () => {
+  it('should count calls by method and failures once per call', async () => {
+    const stats = new RpcStats();
+    let attempts = 0;
+    const transport = custom({
+      request: async ({ method }: any) => {
+        attempts++;
+        if (method === 'eth_getBalance') throw new Error('boom');
+        return '0x10';
+      },
+    }, { retryCount: 2, retryDelay: 1 });
+    const client = createPublicClient({ chain: base, transport: RpcStats.track(transport, stats) });
+
+    await client.getBlockNumber({ cacheTime: 0 });
+    await client.getBlockNumber({ cacheTime: 0 });
+    await expect(client.getBalance({ address: '0x0000000000000000000000000000000000000001' })).rejects.toThrow();
+
+    expect(stats.getStatus()).toEqual({ requests: { eth_blockNumber: 2, eth_getBalance: 1 }, failures: 1 });
+    // The wrapped transport still retried on its own
+    expect(attempts).toBe(2 + 3);
+  });
+});
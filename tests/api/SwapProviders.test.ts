@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { decodeFunctionData, parseAbi, parseEther } from 'viem';
+import { UniswapV3Provider } from '../../src/api/UniswapV3Provider.js';
+import { FallbackSwapProvider } from '../../src/api/FallbackSwapProvider.js';
+import { SwapProvider } from '../../src/api/SwapProvider.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+import { createZeroXQuote } from '../utils/factories.js';
+
+const TOKEN = '0x1234567890123456789012345678901234567890';
+const TAKER = '0x9876543210987654321098765432109876543210';
+const POOL = '0x00000000000000000000000000000000000000aa';
+const WETH = '0x4200000000000000000000000000000000000006';
+
+const ROUTER_ABI = parseAbi([
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) external payable returns (uint256 amountOut)',
+  'function unwrapWETH9(uint256 amountMinimum, address recipient) external payable',
+  'function multicall(bytes[] data) external payable returns (bytes[] results)',
+]);
+
+describe('UniswapV3Provider', () => {
+  let publicClient: any;
+  let amountOut: bigint;
+
+  beforeEach(() => {
+    amountOut = parseEther('1000');
+    publicClient = {
+      getGasPrice: vi.fn().mockResolvedValue(1000000000n),
+      readContract: vi.fn().mockImplementation(async ({ functionName, args }: any) => {
+        switch (functionName) {
+          case 'getPool':
+            // Only the 0.3% pool exists
+            return args[2] === 3000 ? POOL : '0x0000000000000000000000000000000000000000';
+          case 'liquidity':
+            return 10n ** 18n;
+          case 'fee':
+            return 3000;
+          case 'quoteExactInputSingle':
+            return [amountOut, 0n, 1, 100000n];
+        }
+      }),
+    };
+  });
+
+  it('should build a router buy through the discovered pool', async () => {
+    const provider = new UniswapV3Provider(publicClient);
+
+    const quote = await provider.getBuyQuote(TOKEN, parseEther('0.001').toString(), TAKER, 100);
+
+    expect(quote).not.toBeNull();
+    expect(quote!.source).toBe('uniswap-v3');
+    expect(quote!.to).toBe('0x2626664c2603336E57B271c5C0b26F421741e481');
+    expect(quote!.value).toBe(parseEther('0.001').toString());
+    expect(quote!.buyAmount).toBe(amountOut.toString());
+    expect(quote!.gas).toBe('180000');
+
+    const { functionName, args } = decodeFunctionData({ abi: ROUTER_ABI, data: quote!.data as `0x${string}` });
+    expect(functionName).toBe('exactInputSingle');
+    const params = (args as any)[0];
+    expect(params.tokenIn.toLowerCase()).toBe(WETH);
+    expect(params.fee).toBe(3000);
+    expect(params.recipient.toLowerCase()).toBe(TAKER);
+    expect(params.amountOutMinimum).toBe(amountOut * 9900n / 10000n);
+  });
+
+  it('should sell into the router and unwrap ETH to the taker', async () => {
+    amountOut = parseEther('0.0015');
+    const provider = new UniswapV3Provider(publicClient);
+
+    const quote = await provider.getSellQuote(TOKEN, parseEther('1000').toString(), TAKER, 50);
+
+    expect(quote!.value).toBe('0');
+    expect(quote!.allowanceTarget).toBe(quote!.to);
+
+    const { functionName, args } = decodeFunctionData({ abi: ROUTER_ABI, data: quote!.data as `0x${string}` });
+    expect(functionName).toBe('multicall');
+    const unwrap = decodeFunctionData({ abi: ROUTER_ABI, data: (args as any)[0][1] });
+    expect(unwrap.functionName).toBe('unwrapWETH9');
+    expect(unwrap.args).toEqual([amountOut * 9950n / 10000n, expect.stringMatching(new RegExp(TAKER, 'i'))]);
+  });
+
+  it('should price from a 0.001 ETH quote and cache the pool', async () => {
+    const provider = new UniswapV3Provider(publicClient);
+
+    expect(await provider.getTokenPrice(TOKEN, TAKER)).toBeCloseTo(0.000001, 12);
+    await provider.getTokenPrice(TOKEN, TAKER);
+
+    const lookups = publicClient.readContract.mock.calls.filter(([c]: any) => c.functionName === 'getPool');
+    expect(lookups).toHaveLength(4);
+  });
+
+  it('should return null when the token has no WETH pool', async () => {
+    publicClient.readContract.mockResolvedValue('0x0000000000000000000000000000000000000000');
+    const provider = new UniswapV3Provider(publicClient);
+
+    expect(await provider.getBuyQuote(TOKEN, '1000', TAKER)).toBeNull();
+    expect(await provider.isProfitable(TOKEN, '1000', '1000', 2, TAKER)).toEqual({
+      profitable: false, quote: null, actualProfit: 0,
+    });
+  });
+
+  it('should judge profit against the quoted gas', async () => {
+    amountOut = parseEther('0.0015');
+    const provider = new UniswapV3Provider(publicClient);
+
+    const result = await provider.isProfitable(TOKEN, parseEther('1000').toString(), parseEther('0.001').toString(), 2, TAKER);
+
+    expect(result.profitable).toBe(true);
+    expect(result.usedFallbackGas).toBe(false);
+    expect(result.quote!.source).toBe('uniswap-v3');
+  });
+});
+
+describe('FallbackSwapProvider', () => {
+  const provider = (name: string, overrides: Partial<SwapProvider> = {}): SwapProvider => ({
+    name,
+    setChain: vi.fn(),
+    getBuyQuote: vi.fn().mockResolvedValue(null),
+    getSellQuote: vi.fn().mockResolvedValue(null),
+    getTokenPrice: vi.fn().mockResolvedValue(null),
+    isProfitable: vi.fn().mockResolvedValue({ profitable: false, quote: null, actualProfit: 0 }),
+    ...overrides,
+  });
+
+  it('should fall through to the next provider without a quote', async () => {
+    const quote = createZeroXQuote('buy');
+    const second = provider('uniswap-v3', { getBuyQuote: vi.fn().mockResolvedValue(quote) });
+    const chain = new FallbackSwapProvider([provider('0x'), second]);
+
+    expect(chain.name).toBe('0x → uniswap-v3');
+    expect(await chain.getBuyQuote(TOKEN, '1000', TAKER, 100)).toBe(quote);
+    expect(second.getBuyQuote).toHaveBeenCalledWith(TOKEN, '1000', TAKER, 100, undefined);
+  });
+
+  it('should treat a throwing provider like a missing quote', async () => {
+    const chain = new FallbackSwapProvider([
+      provider('0x', { getTokenPrice: vi.fn().mockRejectedValue(new Error('429')) }),
+      provider('uniswap-v3', { getTokenPrice: vi.fn().mockResolvedValue(0.001) }),
+    ]);
+
+    expect(await chain.getTokenPrice(TOKEN, TAKER)).toBe(0.001);
+  });
+
+  it('should keep a quoted but unprofitable answer', async () => {
+    const unprofitable = { profitable: false, quote: createZeroXQuote('sell'), actualProfit: -1 };
+    const second = provider('uniswap-v3');
+    const chain = new FallbackSwapProvider([
+      provider('0x', { isProfitable: vi.fn().mockResolvedValue(unprofitable) }),
+      second,
+    ]);
+
+    expect(await chain.isProfitable(TOKEN, '1', '1', 2, TAKER)).toBe(unprofitable);
+    expect(second.isProfitable).not.toHaveBeenCalled();
+  });
+
+  it('should build providers from config names', () => {
+    const zeroX = { name: '0x', setChain: vi.fn() } as unknown as ZeroXApi;
+
+    expect(FallbackSwapProvider.create(undefined, zeroX, {}, 'base')).toBe(zeroX);
+    expect(FallbackSwapProvider.create(['uniswap-v3'], zeroX, {}, 'base')).toBeInstanceOf(UniswapV3Provider);
+    expect(FallbackSwapProvider.create(['uniswap-v3', '0x'], zeroX, {}, 'base').name).toBe('uniswap-v3 → 0x');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { Backtester } from '../../src/backtest/Backtester.js';
+import { PriceSeries, PricePoint } from '../../src/backtest/PriceSeries.js';
+import { createGridConfig } from '../utils/factories.js';
+
+const series = (prices: number[]): PricePoint[] =>
+  prices.map((price, i) => ({ timestamp: 1_700_000_000_000 + i * 60_000, price }));
+
+describe('Backtester', () => {
+  // Levels 0.00009 wide from 0.0001 to 0.001, 8% take profit - prices above 0.001 never buy
+  const config = createGridConfig({
+    moonBagEnabled: false,
+    useFixedBuyAmount: true,
+    buyAmount: 0.01,
+  });
+
+  describe('Trade simulation', () => {
+    it('should buy a level and sell it at the target', () => {
+      const result = new Backtester(config).run(series([0.0005, 0.00105, 0.0011]));
+
+      expect(result.trades.map(t => t.action)).toEqual(['buy', 'sell']);
+      const [buy, sell] = result.trades;
+      expect(buy.positionId).toBe(sell.positionId);
+      expect(buy.ethValue).toBe('10000000000000000');
+      expect(sell.exitReason).toBe('take-profit');
+      expect(BigInt(sell.profit!)).toBeGreaterThan(0n);
+      expect(result.realizedPnlEth).toBe(sell.profit);
+      expect(result.winRate).toBe(100);
+    });
+
+    it('should output records in the PnLTracker TradeRecord shape', () => {
+      const result = new Backtester(config, { botName: 'Sim', tokenSymbol: 'TEST' })
+        .run(series([0.0005, 0.00105]));
+
+      for (const trade of result.trades) {
+        expect(trade).toMatchObject({ botId: 'backtest', botName: 'Sim', tokenSymbol: 'TEST' });
+        expect(typeof trade.amount).toBe('string');
+        expect(typeof trade.gasCost).toBe('string');
+        expect(trade.price).toBeGreaterThan(0);
+        expect(trade.txHash).toMatch(/^backtest-/);
+      }
+    });
+
+    it('should not sell when fees wipe out the strict profit margin', () => {
+      const result = new Backtester(config, { feeBps: 5000 }).run(series([0.0005, 0.00105]));
+
+      expect(result.totalBuys).toBe(1);
+      expect(result.totalSells).toBe(0);
+      expect(result.positions.filter(p => p.status === 'HOLDING')).toHaveLength(1);
+    });
+
+    it('should respect max active positions', () => {
+      const limited = createGridConfig({ ...config, maxActivePositions: 2 });
+      const result = new Backtester(limited).run(series([0.0009, 0.0008, 0.0007, 0.0006, 0.0005]));
+
+      expect(result.totalBuys).toBe(2);
+    });
+
+    it('should keep the moon bag as unrealized holdings', () => {
+      const withMoonBag = createGridConfig({ ...config, moonBagEnabled: true, moonBagPercent: 10 });
+      const result = new Backtester(withMoonBag).run(series([0.0005, 0.00105]));
+
+      const [buy, sell] = result.trades;
+      expect(BigInt(sell.amount)).toBe(BigInt(buy.amount) - BigInt(buy.amount) / 10n);
+      expect(BigInt(result.unrealizedPnlEth)).toBeGreaterThan(0n);
+    });
+    it('should scale out across take-profit tiers', () => {
+      const tiered = createGridConfig({
+        ...config,
+        takeProfitTiers: [{ percent: 50, profitPercent: 5 }, { percent: 50, profitPercent: 20 }],
+      });
+      const result = new Backtester(tiered).run(series([0.00095, 0.00106, 0.00106, 0.00125]));
+
+      const [buy, first, last] = result.trades;
+      expect(result.trades.map(t => t.action)).toEqual(['buy', 'sell', 'sell']);
+      expect(first).toMatchObject({ tier: 1, partial: true });
+      expect(last.tier).toBe(2);
+      expect(last.partial).toBeUndefined();
+      expect(BigInt(first.amount) + BigInt(last.amount)).toBe(BigInt(buy.amount));
+
+      const position = result.positions.find(p => p.id === buy.positionId)!;
+      expect(position.status).toBe('SOLD');
+      expect(position.profitEth).toBe((BigInt(first.profit!) + BigInt(last.profit!)).toString());
+    });
+  });
+
+  describe('Metrics', () => {
+    it('should value a partly scaled-out position against its remaining cost', () => {
+      const tiered = createGridConfig({
+        ...config,
+        takeProfitTiers: [{ percent: 50, profitPercent: 5 }, { percent: 50, profitPercent: 20 }],
+      });
+      const result = new Backtester(tiered).run(series([0.00095, 0.00106]));
+
+      expect(result.trades.map(t => t.action)).toEqual(['buy', 'sell']);
+      const [buy] = result.trades;
+      const position = result.positions.find(p => p.id === buy.positionId)!;
+      expect(position.status).toBe('HOLDING');
+
+      // Half the tokens, marked above their buy price, against half the cost
+      const heldValue = (BigInt(position.tokensRemaining!) * 106n) / 100000n;
+      const remainingCost = BigInt(position.ethCost!) - BigInt(position.tierFills![0].costEth);
+      expect(BigInt(result.unrealizedPnlEth)).toBe(heldValue - remainingCost);
+      expect(BigInt(result.unrealizedPnlEth)).toBeGreaterThan(0n);
+    });
+
+    it('should report drawdown and unrealized loss when price falls', () => {
+      const result = new Backtester(config).run(series([0.0009, 0.0007, 0.0005, 0.0002]));
+
+      expect(result.totalSells).toBe(0);
+      expect(BigInt(result.unrealizedPnlEth)).toBeLessThan(0n);
+      expect(result.maxDrawdownPercent).toBeGreaterThan(0);
+      expect(result.returnPercent).toBeLessThan(0);
+    });
+
+    it('should charge gas on every swap', () => {
+      const result = new Backtester(config, { gasEthPerTrade: 0.0001 }).run(series([0.0005, 0.00105]));
+
+      expect(result.totalGasEth).toBe('200000000000000');
+    });
+  });
+
+  it('should reject volume-mode configs', () => {
+    expect(() => new Backtester(createGridConfig({ volumeMode: true }))).toThrow('volume-mode');
+  });
+});
+
+describe('PriceSeries', () => {
+  it('should parse CSV with a header and unix seconds', () => {
+    const points = PriceSeries.parseCsv('timestamp,price\n1700000060,0.0002\n1700000000,0.0001\n');
+
+    expect(points).toEqual([
+      { timestamp: 1700000000000, price: 0.0001 },
+      { timestamp: 1700000060000, price: 0.0002 },
+    ]);
+  });
+
+  it('should expand OHLC candles in candle direction', () => {
+    const up = PriceSeries.parseCsv('2024-01-01T00:00:00Z,1,3,0.5,2');
+    expect(up.map(p => p.price)).toEqual([1, 0.5, 3, 2]);
+
+    const down = PriceSeries.parseJson(JSON.stringify([
+      { time: 1700000000000, open: 2, high: 3, low: 0.5, close: 1 },
+    ]));
+    expect(down.map(p => p.price)).toEqual([2, 3, 0.5, 1]);
+  });
+
+  it('should parse JSON price pairs', () => {
+    const points = PriceSeries.parseJson(JSON.stringify({ prices: [[1700000000000, 0.001]] }));
+    expect(points).toEqual([{ timestamp: 1700000000000, price: 0.001 }]);
+  });
+
+  it('should reject non-positive prices', () => {
+    expect(() => PriceSeries.parseCsv('1700000000,0')).toThrow('Invalid price');
+  });
+});
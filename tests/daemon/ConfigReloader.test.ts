@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ConfigReloader } from '../../src/daemon/ConfigReloader.js';
+import { HeartbeatManager } from '../../src/bot/HeartbeatManager.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { BotInstance } from '../../src/types/index.js';
+import { GridCalculator } from '../../src/grid/GridCalculator.js';
+import { createBotInstance, createGridConfig } from '../utils/factories.js';
+
+describe('ConfigReloader', () => {
+  let tempDir: string;
+  let storage: JsonStorage;
+  // Another process editing the same bots.json
+  let editor: JsonStorage;
+  let heartbeatManager: HeartbeatManager;
+  let reloader: ConfigReloader;
+  let running: Map<string, BotInstance>;
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'reload-test-'));
+    storage = new JsonStorage(join(tempDir, 'bots.json'), join(tempDir, 'trades.json'));
+    await storage.init();
+    await storage.saveBot(createBotInstance({ id: 'a', name: 'Alpha', isRunning: true, config: createGridConfig() }));
+    await storage.saveBot(createBotInstance({ id: 'b', name: 'Beta', isRunning: true, config: createGridConfig() }));
+    await storage.saveBot(createBotInstance({ id: 'c', name: 'Gamma', enabled: false, config: createGridConfig() }));
+    await storage.saveBot(createBotInstance({ id: 'd', name: 'Delta', isRunning: false, config: createGridConfig() }));
+
+    // Stand-in heartbeat: stopping saves the bot, as TradingBot.stop() does
+    running = new Map();
+    heartbeatManager = {
+      getBot: (id: string) => (running.has(id) ? { getInstance: () => running.get(id)! } : undefined),
+      getAllBots: () => Array.from(running.values()).map(instance => ({ getInstance: () => instance })),
+      addBot: vi.fn(async (instance: BotInstance) => {
+        instance.isRunning = true;
+        running.set(instance.id, instance);
+      }),
+      drainBot: vi.fn(async (id: string) => {
+        const instance = running.get(id)!;
+        running.delete(id);
+        instance.isRunning = false;
+        await storage.saveBot(instance);
+      }),
+      start: vi.fn(),
+    } as unknown as HeartbeatManager;
+
+    for (const bot of (await storage.getAllBots()).filter(b => b.isRunning)) {
+      await heartbeatManager.addBot(bot);
+    }
+    reloader = new ConfigReloader(heartbeatManager, storage);
+    await reloader.snapshot();
+
+    editor = new JsonStorage(join(tempDir, 'bots.json'), join(tempDir, 'trades.json'));
+    await editor.init();
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report no changes when bots.json is untouched', async () => {
+    const summary = await reloader.reload();
+
+    expect(ConfigReloader.describe(summary)).toBe('no bot changes');
+    expect(heartbeatManager.drainBot).not.toHaveBeenCalled();
+    expect(Array.from(running.keys())).toEqual(['a', 'b']);
+  });
+
+  it('should start newly enabled bots, stop disabled and deleted ones, and keep the edits', async () => {
+    const gamma = (await editor.getBot('c'))!;
+    await editor.saveBot({ ...gamma, enabled: true });
+    const alpha = (await editor.getBot('a'))!;
+    await editor.saveBot({ ...alpha, enabled: false });
+    await editor.deleteBot('b');
+
+    const summary = await reloader.reload();
+
+    expect(summary.started).toEqual(['Gamma']);
+    expect(summary.stopped).toEqual(['Alpha', 'Beta']);
+    expect(Array.from(running.keys())).toEqual(['c']);
+
+    // Stopping saved the bots' final state without undoing the edits
+    await editor.reload();
+    expect((await editor.getBot('a'))!.enabled).toBe(false);
+    expect(await editor.getBot('b')).toBeUndefined();
+    // Delta was enabled all along but stopped - a reload leaves it stopped
+    expect(running.has('d')).toBe(false);
+  });
+
+  it('should rebuild a bot with its new config and keep its live state', async () => {
+    running.get('a')!.totalBuys = 7;
+    const alpha = (await editor.getBot('a'))!;
+    await editor.saveBot({ ...alpha, totalBuys: 0, config: { ...alpha.config, takeProfitPercent: 12, gasDeferMultiplier: 1.5 } });
+
+    const summary = await reloader.reload();
+
+    expect(summary.reconfigured).toEqual([{ name: 'Alpha', keys: ['takeProfitPercent', 'gasDeferMultiplier'] }]);
+    expect(heartbeatManager.drainBot).toHaveBeenCalledWith('a');
+    expect(running.get('a')!.config.takeProfitPercent).toBe(12);
+    expect(running.get('a')!.totalBuys).toBe(7);
+    expect(ConfigReloader.describe(summary)).toBe('reconfigured Alpha (takeProfitPercent, gasDeferMultiplier)');
+  });
+
+  it('should lay the EMPTY levels out again when the grid layout changes', async () => {
+    const live = running.get('a')!;
+    live.positions = GridCalculator.generateGrid(live.currentPrice, live.config);
+    const held = live.positions[3];
+    held.status = 'HOLDING';
+    held.ethCost = '1000000000000000';
+    const alpha = (await editor.getBot('a'))!;
+    await editor.saveBot({ ...alpha, config: { ...alpha.config, numPositions: 5, ceilingPrice: alpha.config.ceilingPrice * 2 } });
+
+    const summary = await reloader.reload();
+
+    expect(summary.reconfigured).toEqual([{ name: 'Alpha', keys: ['numPositions', 'ceilingPrice'] }]);
+    const positions = running.get('a')!.positions;
+    expect(positions).toContain(held);
+    const empty = positions.filter(p => p.status === 'EMPTY');
+    expect(empty.length).toBeGreaterThan(0);
+    expect(empty.length).toBeLessThanOrEqual(5);
+    expect(Math.max(...positions.map(p => p.buyMax))).toBeCloseTo(alpha.config.ceilingPrice * 2, 12);
+    expect(empty.every(p => p.buyMax <= held.buyMin || p.buyMin >= held.buyMax)).toBe(true);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ControlServer } from '../../src/daemon/ControlServer.js';
+import { ControlClient } from '../../src/daemon/ControlClient.js';
+import { HeartbeatManager } from '../../src/bot/HeartbeatManager.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { CircuitBreaker } from '../../src/risk/CircuitBreaker.js';
+import { BotInstance } from '../../src/types/index.js';
+import { createBotInstance, createGridConfig } from '../utils/factories.js';
+
+describe('Daemon control socket', () => {
+  let tempDir: string;
+  let socketPath: string;
+  let storage: JsonStorage;
+  let server: ControlServer;
+  let client: ControlClient;
+  let running: Map<string, { getInstance: () => BotInstance; liquidateAll: any }>;
+  let breaker: CircuitBreaker;
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'control-test-'));
+    socketPath = join(tempDir, 'daemon.sock');
+    storage = new JsonStorage(join(tempDir, 'bots.json'), join(tempDir, 'trades.json'));
+    await storage.init();
+    await storage.saveBot(createBotInstance({ id: 'a', name: 'Alpha', config: createGridConfig() }));
+    await storage.saveBot(createBotInstance({ id: 'b', name: 'Beta', enabled: false, config: createGridConfig() }));
+
+    // Stand-in heartbeat: tracks which bots it runs
+    running = new Map();
+    breaker = new CircuitBreaker(storage);
+    await breaker.init();
+    const heartbeatManager = {
+      getBot: (id: string) => running.get(id),
+      getAllBots: () => Array.from(running.values()),
+      addBot: vi.fn(async (instance: BotInstance) => {
+        instance.isRunning = true;
+        running.set(instance.id, {
+          getInstance: () => instance,
+          liquidateAll: vi.fn().mockResolvedValue({ success: 2, failed: 0, totalProfit: '10' }),
+        });
+      }),
+      drainBot: vi.fn(async (id: string) => {
+        const bot = running.get(id);
+        if (bot) bot.getInstance().isRunning = false;
+        running.delete(id);
+        return bot;
+      }),
+      start: vi.fn(),
+      getCircuitBreaker: () => breaker,
+      checkCircuitBreaker: vi.fn().mockResolvedValue(undefined),
+      getStatus: vi.fn().mockReturnValue({ isRunning: true, totalBots: 1 }),
+    } as unknown as HeartbeatManager;
+
+    server = new ControlServer(heartbeatManager, storage, socketPath);
+    await server.start();
+    client = (await ControlClient.connect(socketPath))!;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should start, list and stop bots over the socket', async () => {
+    expect(client).not.toBeNull();
+    expect(statSync(socketPath).mode & 0o777).toBe(0o600);
+
+    expect(await client.start('all')).toEqual(['Alpha']);
+    const listed = await client.list();
+    expect(listed.find(b => b.id === 'a')).toMatchObject({ managed: true, isRunning: true });
+    expect(listed.find(b => b.id === 'b')).toMatchObject({ managed: false, enabled: false });
+    expect(await client.status()).toMatchObject({ totalBots: 1 });
+
+    expect(await client.stop('a')).toEqual(['Alpha']);
+    expect((await storage.getBot('a'))!.isRunning).toBe(false);
+    await expect(client.start('b')).rejects.toThrow('Beta is disabled');
+  });
+
+  it('should wait for an in-flight tick before saving a stopped bot', async () => {
+    await client.start('a');
+    const drain = (server as any).heartbeatManager.drainBot;
+    drain.mockImplementationOnce(async (id: string) => {
+      const bot = running.get(id)!;
+      running.delete(id);
+      // The trade in flight settles while the bot drains
+      await new Promise(resolve => setTimeout(resolve, 20));
+      bot.getInstance().totalSells = 9;
+      bot.getInstance().isRunning = false;
+      return bot;
+    });
+
+    await client.stop('a');
+
+    // Read back from the file, as the CLI does
+    const onDisk = new JsonStorage(join(tempDir, 'bots.json'), join(tempDir, 'trades.json'));
+    await onDisk.init();
+    expect((await onDisk.getBot('a'))!).toMatchObject({ totalSells: 9, isRunning: false });
+  });
+
+  it('should apply a config patch to the live bot and restart it', async () => {
+    await client.start('a');
+
+    await client.reconfigure('a', { usePriceOracle: true, slippageBps: 50 });
+
+    const stored = await storage.getBot('a');
+    expect(stored!.config).toMatchObject({ usePriceOracle: true, slippageBps: 50, numPositions: createGridConfig().numPositions });
+    expect(running.get('a')!.getInstance().config.slippageBps).toBe(50);
+  });
+
+  it('should keep CLI edits made in its own copy of bots.json while the daemon runs', async () => {
+    // The CLI process opens the same file separately
+    const cliStorage = new JsonStorage(join(tempDir, 'bots.json'), join(tempDir, 'trades.json'));
+    await cliStorage.init();
+    await client.start('a');
+
+    // The daemon trades after the CLI loaded the file
+    const live = running.get('a')!.getInstance();
+    live.totalBuys = 3;
+    await storage.saveBot(live);
+
+    await client.stop('a');
+    await cliStorage.reload();
+    const edited = (await cliStorage.getBot('a'))!;
+    expect(edited.totalBuys).toBe(3);
+    edited.config.slippageBps = 77;
+    await cliStorage.saveBot(edited);
+    await client.reconfigure('a', {}, edited);
+    await client.start('a');
+
+    // The daemon's next write keeps the edit and restarts the bot with it
+    running.get('a')!.getInstance().totalBuys = 4;
+    await storage.saveBot(running.get('a')!.getInstance());
+    await cliStorage.reload();
+    expect((await cliStorage.getBot('a'))!).toMatchObject({ totalBuys: 4, config: { slippageBps: 77 } });
+
+    await client.delete('b');
+    await storage.saveBot(running.get('a')!.getInstance());
+    await cliStorage.reload();
+    expect(await cliStorage.getBot('b')).toBeUndefined();
+  });
+
+  it('should liquidate through the daemon and report unknown bots', async () => {
+    await client.start('a');
+
+    const bot = running.get('a')!;
+    expect(await client.liquidate('a')).toEqual({ success: 2, failed: 0, totalProfit: '10' });
+    // Drained first, so no tick sells alongside it, and left stopped
+    expect(bot.liquidateAll).toHaveBeenCalled();
+    expect(running.has('a')).toBe(false);
+    expect((await storage.getBot('a'))!.isRunning).toBe(false);
+    await expect(client.liquidate('b')).rejects.toThrow('not running in the daemon');
+    await expect(client.request({ command: 'stop' })).rejects.toThrow('stop needs a botId');
+  });
+
+  it('should reset and reconfigure the daemon\'s circuit breaker', async () => {
+    await breaker.forceTrigger('Test');
+
+    const status = await client.circuitBreaker({ reset: true, config: { haltMode: 'all', cooldownMinutes: 5 } });
+
+    expect(status).toMatchObject({ triggered: false, config: { haltMode: 'all', cooldownMinutes: 5 } });
+    expect(breaker.isTriggered()).toBe(false);
+    expect(await storage.getConfig('circuitBreakerConfig')).toMatchObject({ haltMode: 'all' });
+    expect((server as any).heartbeatManager.checkCircuitBreaker).toHaveBeenCalledWith(true);
+  });
+
+  it('should replace a stale socket and find no daemon without one', async () => {
+    await server.stop();
+    expect(await ControlClient.connect(socketPath)).toBeNull();
+
+    writeFileSync(socketPath, '');
+    await server.start();
+    expect(await ControlClient.connect(socketPath)).not.toBeNull();
+    await expect(new ControlServer({} as HeartbeatManager, storage, socketPath).start()).rejects.toThrow('Another daemon');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MetricsServer } from '../../src/daemon/MetricsServer.js';
+import { HeartbeatManager } from '../../src/bot/HeartbeatManager.js';
+import { RpcStats } from '../../src/api/RpcStats.js';
+import { RpcPool } from '../../src/api/RpcPool.js';
+import { createBotInstance, createGridConfig, createPosition } from '../utils/factories.js';
+
+describe('MetricsServer', () => {
+  let server: MetricsServer;
+  let status: any;
+  let rpcPool: any;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    const instance = createBotInstance({
+      id: 'bot-1',
+      name: 'Alpha "main"',
+      tokenSymbol: 'TEST',
+      isRunning: true,
+      currentPrice: 0.0025,
+      totalBuys: 5,
+      totalSells: 3,
+      totalProfitEth: '1500000000000000',
+      positions: [
+        createPosition({ id: 0, status: 'HOLDING' }),
+        createPosition({ id: 1, status: 'HOLDING' }),
+        createPosition({ id: 2, status: 'EMPTY' }),
+      ],
+      config: createGridConfig(),
+    });
+    status = {
+      isRunning: true,
+      totalBots: 1,
+      activeTicks: 0,
+      circuitBreaker: 'none',
+      rateLimit: { totalThrottles: 2, failures: 1, requests: { price: 40, quote: 6 } },
+      bots: [{ id: 'bot-1', name: instance.name, isRunning: true, intervalMs: 1000, hung: false, errors: 1, lastTickAt: Date.now() - 2000 }],
+    };
+    const heartbeatManager = {
+      getStatus: () => status,
+      getAllBots: () => [{ getInstance: () => instance, getErrorCounts: () => ({ consecutive: 2, total: 4 }) }],
+    } as unknown as HeartbeatManager;
+
+    const rpcStats = new RpcStats();
+    (rpcStats as any).requests = { eth_call: 12, eth_blockNumber: 3 };
+    (rpcStats as any).failures = 1;
+
+    rpcPool = {
+      probe: vi.fn().mockResolvedValue({ url: 'https://base.example.com/v2/secret-key', blockNumber: 123n }),
+      getStatus: () => [
+        { url: 'https://base.example.com/v2/secret-key', current: true, healthy: true, latencyMs: 250, errorRate: 0, requests: 10, failures: 0 },
+        { url: 'https://mainnet.base.org', current: false, healthy: false, latencyMs: null, errorRate: 0.1, requests: 1, failures: 1 },
+      ],
+    };
+
+    server = new MetricsServer(heartbeatManager, rpcPool as unknown as RpcPool, rpcStats);
+    const port = await server.start(0);
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should export bot gauges and counters in the Prometheus format', async () => {
+    const res = await fetch(`${baseUrl}/metrics`);
+    const body = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('text/plain');
+    const labels = 'bot="bot-1",name="Alpha \\"main\\"",token="TEST"';
+    expect(body).toContain('# TYPE basebot_bot_price gauge');
+    expect(body).toContain(`basebot_bot_price{${labels}} 0.0025`);
+    expect(body).toContain(`basebot_bot_holding_positions{${labels}} 2`);
+    expect(body).toContain(`basebot_bot_realized_profit{${labels},quote="ETH"} 0.0015`);
+    expect(body).toContain(`basebot_bot_consecutive_errors{${labels}} 2`);
+    expect(body).toMatch(new RegExp(`basebot_bot_last_tick_age_seconds\\{[^}]+\\} 2(\\.\\d+)?\\n`));
+    expect(body).toContain('# TYPE basebot_bot_trades_total counter');
+    expect(body).toContain(`basebot_bot_trades_total{${labels},side="buy"} 5`);
+    expect(body).toContain(`basebot_bot_trade_failures_total{${labels}} 4`);
+    expect(body).toContain('basebot_zerox_requests_total{endpoint="price"} 40');
+    expect(body).toContain('basebot_zerox_throttles_total 2');
+    expect(body).toContain('basebot_rpc_requests_total{method="eth_call"} 12');
+    expect(body).toContain('basebot_rpc_failures_total 1');
+    expect(body).toContain('basebot_rpc_endpoint_up{chain="base",endpoint="base.example.com"} 1');
+    expect(body).toContain('basebot_rpc_endpoint_up{chain="base",endpoint="mainnet.base.org"} 0');
+    expect(body).toContain('basebot_rpc_endpoint_current{chain="base",endpoint="base.example.com"} 1');
+    expect(body).toContain('basebot_rpc_endpoint_latency_seconds{chain="base",endpoint="base.example.com"} 0.25');
+    expect(body).not.toContain('secret-key');
+  });
+
+  it('should report healthy while bots tick and the RPC answers', async () => {
+    const res = await fetch(`${baseUrl}/healthz`);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      ok: true, heartbeat: true, stalledBots: [], rpc: { base: { ok: true, endpoint: 'base.example.com', blockNumber: '123' } },
+    });
+  });
+
+  it('should fail the health check when ticks stall or the RPC is down', async () => {
+    status.bots[0].lastTickAt = Date.now() - MetricsServer.MIN_STALL_MS - 1000;
+    let res = await fetch(`${baseUrl}/healthz`);
+    expect(res.status).toBe(503);
+    expect((await res.json()).stalledBots).toEqual(['Alpha "main"']);
+
+    status.bots[0].lastTickAt = Date.now();
+    (server as any).rpcChecks.clear();
+    rpcPool.probe.mockResolvedValue(null);
+    res = await fetch(`${baseUrl}/healthz`);
+    expect(res.status).toBe(503);
+    expect((await res.json()).rpc.base).toMatchObject({ ok: false, error: 'No base RPC endpoint answered' });
+  });
+
+  it('should answer 404 for other paths', async () => {
+    expect((await fetch(`${baseUrl}/`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { parseEther } from 'viem';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { HeartbeatManager } from '../../src/bot/HeartbeatManager.js';
+import { TradingBot } from '../../src/bot/TradingBot.js';
+import { CircuitBreaker } from '../../src/risk/CircuitBreaker.js';
+import { BotInstance } from '../../src/types/index.js';
+import { WalletManager } from '../../src/wallet/WalletManager.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { createBotInstance, createGridConfig, createPosition } from '../utils/factories.js';
+
+describe('Circuit Breaker Enforcement', () => {
+  let walletManager: WalletManager;
+  let zeroXApi: ZeroXApi;
+  let storage: JsonStorage;
+
+  beforeEach(() => {
+    walletManager = {
+      getMainWalletClient: vi.fn(),
+      getBotWalletClient: vi.fn(),
+    } as unknown as WalletManager;
+
+    zeroXApi = {
+      setChain: vi.fn(),
+      getTokenPrice: vi.fn(),
+    } as unknown as ZeroXApi;
+
+    storage = {
+      saveBot: vi.fn().mockResolvedValue(undefined),
+    } as unknown as JsonStorage;
+  });
+
+  const createBot = (instance: BotInstance) =>
+    new TradingBot(instance, walletManager, zeroXApi, storage, 'https://base.llamarpc.com', false);
+
+  const createBreaker = (triggered: boolean, haltMode: 'buys' | 'all') => ({
+    check: vi.fn().mockResolvedValue({
+      triggered,
+      reason: triggered ? 'Daily loss limit reached' : undefined,
+      dailyLossPercent: triggered ? 12 : 0,
+      totalLossPercent: triggered ? 12 : 0,
+    }),
+    getConfig: vi.fn().mockReturnValue({ haltMode }),
+  }) as unknown as CircuitBreaker;
+
+  describe('TradingBot', () => {
+    const runTick = async (halt: 'none' | 'buys' | 'all') => {
+      const bot = createBot(createBotInstance({ isRunning: true, config: createGridConfig() }));
+      (bot as any).isRunning = true;
+      (bot as any).walletClient = {};
+      (bot as any).publicClient = {};
+      (bot as any).getCurrentPrice = vi.fn().mockResolvedValue(0.001);
+      const checkBuys = vi.spyOn(bot as any, 'checkBuys').mockResolvedValue(undefined);
+      const checkSells = vi.spyOn(bot as any, 'checkSells').mockResolvedValue(undefined);
+      bot.setTradingHalt(halt);
+      await bot.tick();
+      return { checkBuys, checkSells };
+    };
+
+    it('should trade normally when not halted', async () => {
+      const { checkBuys, checkSells } = await runTick('none');
+      expect(checkBuys).toHaveBeenCalled();
+      expect(checkSells).toHaveBeenCalled();
+    });
+
+    it('should skip buys but keep selling when buys are halted', async () => {
+      const { checkBuys, checkSells } = await runTick('buys');
+      expect(checkBuys).not.toHaveBeenCalled();
+      expect(checkSells).toHaveBeenCalled();
+    });
+
+    it('should skip buys and sells when all trading is halted', async () => {
+      const { checkBuys, checkSells } = await runTick('all');
+      expect(checkBuys).not.toHaveBeenCalled();
+      expect(checkSells).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Realized losses', () => {
+    let tempFile: string;
+
+    afterEach(async () => {
+      try {
+        await fs.unlink(tempFile);
+      } catch {
+        // Ignore
+      }
+    });
+
+    it('should trip the real breaker after a losing stop-loss sell', async () => {
+      tempFile = join(tmpdir(), `test-breaker-loss-${Date.now()}.json`);
+      const breakerStorage = new JsonStorage(tempFile);
+      await breakerStorage.init();
+      const breaker = new CircuitBreaker(breakerStorage);
+      await breaker.init();
+
+      const position = createPosition({
+        status: 'HOLDING',
+        ethCost: parseEther('1').toString(),
+        tokensReceived: parseEther('2000').toString(),
+      });
+      const instance = createBotInstance({ positions: [position], config: createGridConfig() });
+      const bot = createBot(instance);
+
+      // The day starts with 1 ETH at work
+      expect((await breaker.check([instance])).triggered).toBe(false);
+
+      (bot as any).completeSell(position, '0xloss', position.tokensReceived, parseEther('0.8'), BigInt(0), 'stop-loss');
+      expect(instance.totalProfitEth).toBe('0');
+      expect(instance.totalLossEth).toBe(parseEther('0.2').toString());
+
+      (breaker as any).lastCheckTime = 0;
+      const result = await breaker.check([instance]);
+      expect(result.triggered).toBe(true);
+      expect(result.dailyLossPercent).toBe(20);
+    });
+  });
+
+  describe('HeartbeatManager', () => {
+    let manager: HeartbeatManager;
+    let guarded: TradingBot;
+    let exempt: TradingBot;
+
+    beforeEach(() => {
+      manager = new HeartbeatManager(walletManager, zeroXApi, storage, 'https://base.llamarpc.com');
+      guarded = createBot(createBotInstance({ id: 'guarded', config: createGridConfig() }));
+      exempt = createBot(createBotInstance({
+        id: 'exempt',
+        config: createGridConfig({ useCircuitBreaker: false }),
+      }));
+      (manager as any).bots.set('guarded', guarded);
+      (manager as any).bots.set('exempt', exempt);
+    });
+
+    it('should halt guarded bots when the breaker trips', async () => {
+      const breaker = createBreaker(true, 'buys');
+      manager.setCircuitBreaker(breaker);
+
+      await manager.checkCircuitBreaker(true);
+
+      expect(guarded.getTradingHalt()).toBe('buys');
+      expect(exempt.getTradingHalt()).toBe('none');
+      expect(manager.getStatus().circuitBreaker).toBe('buys');
+    });
+
+    it('should only evaluate bots that opted in', async () => {
+      const breaker = createBreaker(false, 'all');
+      manager.setCircuitBreaker(breaker);
+
+      await manager.checkCircuitBreaker(true);
+
+      const evaluated = (breaker.check as any).mock.calls[0][0] as BotInstance[];
+      expect(evaluated.map(i => i.id)).toEqual(['guarded']);
+    });
+
+    it('should resume trading once the breaker clears', async () => {
+      const breaker = createBreaker(true, 'all');
+      manager.setCircuitBreaker(breaker);
+      await manager.checkCircuitBreaker(true);
+      expect(guarded.getTradingHalt()).toBe('all');
+
+      (breaker.check as any).mockResolvedValue({ triggered: false, dailyLossPercent: 0, totalLossPercent: 0 });
+      await manager.checkCircuitBreaker(true);
+
+      expect(guarded.getTradingHalt()).toBe('none');
+      expect(manager.getStatus().circuitBreaker).toBe('none');
+    });
+
+    it('should throttle unforced checks', async () => {
+      const breaker = createBreaker(false, 'buys');
+      manager.setCircuitBreaker(breaker);
+
+      await manager.checkCircuitBreaker();
+      await manager.checkCircuitBreaker();
+
+      expect(breaker.check).toHaveBeenCalledTimes(1);
+    });
+  });
+});
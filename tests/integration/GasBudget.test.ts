@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parseEther, parseGwei } from 'viem';
+import { TradingBot } from '../../src/bot/TradingBot.js';
+import { GasBudget } from '../../src/bot/GasBudget.js';
+import { PaperWallet } from '../../src/bot/PaperWallet.js';
+import { BotInstance } from '../../src/types/index.js';
+import { WalletManager } from '../../src/wallet/WalletManager.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { createBotInstance, createGridConfig, createPosition, createZeroXQuote } from '../utils/factories.js';
+
+const NOON = Date.parse('2026-03-02T12:00:00Z');
+
+describe('GasBudget', () => {
+  const trend = { next: parseGwei('3'), average: parseGwei('1') };
+
+  it('should hold trades once the daily budget is used, except protective exits', () => {
+    const instance = createBotInstance({ config: createGridConfig({ dailyGasBudgetEth: 0.001 }) });
+    GasBudget.record(instance, parseEther('0.0009'), NOON);
+
+    const buy = GasBudget.evaluate(instance, { side: 'buy', gasWei: parseEther('0.0002') }, NOON);
+    expect(buy.hold).toBe('budget');
+
+    const takeProfit = GasBudget.evaluate(instance, { side: 'sell', exitReason: 'take-profit', gasWei: parseEther('0.0002') }, NOON);
+    expect(takeProfit.hold).toBe('budget');
+
+    const stopLoss = GasBudget.evaluate(instance, { side: 'sell', exitReason: 'stop-loss', gasWei: parseEther('0.0002') }, NOON);
+    expect(stopLoss.hold).toBeNull();
+  });
+
+  it('should start a fresh budget each UTC day and keep the running total', () => {
+    const instance = createBotInstance();
+    GasBudget.record(instance, 100n, NOON);
+    GasBudget.record(instance, 50n, NOON + 24 * 60 * 60 * 1000);
+
+    expect(GasBudget.spentToday(instance, NOON)).toBe(0n);
+    expect(GasBudget.spentToday(instance, NOON + 24 * 60 * 60 * 1000)).toBe(50n);
+    expect(instance.gasSpentEth).toBe('150');
+  });
+
+  it('should skip buys while gas is too large a share of the buy', () => {
+    const instance = createBotInstance({ config: createGridConfig({ maxGasPercentOfTrade: 5 }) });
+    const request = { gasWei: 100n, gasInQuote: 100n, tradeValue: 1000n };
+
+    expect(GasBudget.evaluate(instance, { side: 'buy', ...request }).hold).toBe('ratio');
+    expect(GasBudget.evaluate(instance, { side: 'sell', ...request }).hold).toBeNull();
+    expect(GasBudget.evaluate(instance, { side: 'buy', ...request, tradeValue: 5000n }).hold).toBeNull();
+  });
+
+  it('should wait for a cheaper block no longer than the defer limit', () => {
+    const instance = createBotInstance({ config: createGridConfig({ gasDeferMultiplier: 2, maxGasDeferSeconds: 60 }) });
+
+    expect(GasBudget.evaluate(instance, { side: 'buy', gasWei: 1n, baseFees: trend }, NOON).hold).toBe('base-fee');
+    expect(GasBudget.evaluate(instance, { side: 'buy', gasWei: 1n, baseFees: { ...trend, next: parseGwei('1.5') } }, NOON).hold).toBeNull();
+
+    instance.gasHold = { kind: 'base-fee', side: 'buy', reason: 'waiting', since: NOON };
+    expect(GasBudget.evaluate(instance, { side: 'buy', gasWei: 1n, baseFees: trend }, NOON + 30_000).hold).toBe('base-fee');
+    expect(GasBudget.evaluate(instance, { side: 'buy', gasWei: 1n, baseFees: trend }, NOON + 61_000).hold).toBeNull();
+  });
+});
+
+describe('TradingBot gas rules', () => {
+  let instance: BotInstance;
+  let zeroXApi: ZeroXApi;
+
+  // 200k gas at 1 gwei
+  const QUOTED_GAS = parseEther('0.0002');
+
+  beforeEach(() => {
+    instance = createBotInstance({
+      config: createGridConfig({
+        moonBagEnabled: false,
+        useFixedBuyAmount: true,
+        buyAmount: 0.001,
+      }),
+      positions: [createPosition({ id: 0, buyMin: 0.0009, buyMax: 0.001 })],
+      currentPrice: 0.00095,
+      paperTrading: true,
+      paperLedger: PaperWallet.create(1),
+    });
+
+    zeroXApi = {
+      setChain: vi.fn(),
+      getTokenPrice: vi.fn(),
+      getBuyQuote: vi.fn().mockResolvedValue(createZeroXQuote('buy')),
+      getSellQuote: vi.fn().mockResolvedValue(createZeroXQuote('sell')),
+      isProfitable: vi.fn().mockResolvedValue({
+        profitable: true,
+        quote: createZeroXQuote('sell'),
+        actualProfit: 30,
+      }),
+    } as unknown as ZeroXApi;
+  });
+
+  const createBot = async () => {
+    const bot = new TradingBot(
+      instance,
+      { getMainWalletClient: vi.fn(), getBotWalletClient: vi.fn() } as unknown as WalletManager,
+      zeroXApi,
+      { saveBot: vi.fn().mockResolvedValue(undefined) } as unknown as JsonStorage,
+      'https://base.llamarpc.com',
+      false
+    );
+    await bot.init();
+    (bot as any).publicClient = { getBalance: vi.fn(), readContract: vi.fn(), waitForTransactionReceipt: vi.fn() };
+    return bot;
+  };
+
+  const tickAt = async (bot: TradingBot, price: number) => {
+    vi.mocked(zeroXApi.getTokenPrice).mockResolvedValue(price);
+    await bot.tick();
+  };
+
+  it('should hold a buy while gas exceeds the trade limit without logging an error', async () => {
+    // 0.0002 ETH of gas on a 0.001 ETH buy is 20%
+    instance.config.maxGasPercentOfTrade = 10;
+    const bot = await createBot();
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await tickAt(bot, 0.00095);
+
+    expect(instance.positions[0].status).toBe('EMPTY');
+    expect(instance.gasHold).toMatchObject({ kind: 'ratio', side: 'buy' });
+    expect(errors).not.toHaveBeenCalled();
+    errors.mockRestore();
+
+    // Skip the retry cooldown a held buy leaves behind
+    instance.config.maxGasPercentOfTrade = 25;
+    (bot as any).lastFailedAttempt.clear();
+    await tickAt(bot, 0.00095);
+
+    expect(instance.positions[0].status).toBe('HOLDING');
+    expect(instance.gasHold).toBeUndefined();
+  });
+
+  it('should count gas per bot and hold take-profit sells once the budget is spent', async () => {
+    instance.config.dailyGasBudgetEth = 0.0003;
+    const bot = await createBot();
+
+    await tickAt(bot, 0.00095);
+    expect(instance.positions[0].status).toBe('HOLDING');
+    expect(GasBudget.spentToday(instance)).toBe(QUOTED_GAS);
+
+    await tickAt(bot, 0.002);
+    expect(instance.positions[0].status).toBe('HOLDING');
+    expect(instance.gasHold).toMatchObject({ kind: 'budget', side: 'sell' });
+
+    // Promotion starts the live budget clean
+    PaperWallet.promoteToLive(instance);
+    expect(instance.gasSpentEth).toBeUndefined();
+    expect(instance.gasHold).toBeUndefined();
+  });
+});
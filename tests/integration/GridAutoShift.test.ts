@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TradingBot } from '../../src/bot/TradingBot.js';
+import { GridCalculator } from '../../src/grid/GridCalculator.js';
+import { NotificationService } from '../../src/notifications/NotificationService.js';
+import { BotInstance } from '../../src/types/index.js';
+import { WalletManager } from '../../src/wallet/WalletManager.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { createBotInstance, createGridConfig } from '../utils/factories.js';
+
+describe('TradingBot Grid Auto-Shift', () => {
+  let instance: BotInstance;
+  let storage: JsonStorage;
+
+  beforeEach(() => {
+    const config = createGridConfig({ autoShiftEnabled: true, autoShiftDelaySeconds: 60 });
+    instance = createBotInstance({
+      isRunning: true,
+      config,
+      positions: GridCalculator.generateGrid(0.0005, config),
+    });
+
+    storage = {
+      saveBot: vi.fn().mockResolvedValue(undefined),
+      appendEvent: vi.fn().mockResolvedValue(undefined),
+    } as unknown as JsonStorage;
+  });
+
+  const tickAt = async (price: number) => {
+    const bot = new TradingBot(
+      instance,
+      { getMainWalletClient: vi.fn(), getBotWalletClient: vi.fn() } as unknown as WalletManager,
+      { setChain: vi.fn() } as unknown as ZeroXApi,
+      storage,
+      'https://base.llamarpc.com',
+      false
+    );
+    (bot as any).isRunning = true;
+    (bot as any).walletClient = {};
+    (bot as any).publicClient = {};
+    (bot as any).getCurrentPrice = vi.fn().mockResolvedValue(price);
+    vi.spyOn(bot as any, 'checkBuys').mockResolvedValue(undefined);
+    vi.spyOn(bot as any, 'checkSells').mockResolvedValue(undefined);
+    await bot.tick();
+    return bot;
+  };
+
+  it('should start the timer when price leaves the range without shifting', async () => {
+    await tickAt(0.002);
+
+    expect(instance.outOfRangeSince).toBeDefined();
+    expect(instance.config.ceilingPrice).toBe(0.001);
+    expect(storage.appendEvent).not.toHaveBeenCalled();
+  });
+
+  it('should clear the timer once price returns', async () => {
+    instance.outOfRangeSince = Date.now() - 30_000;
+
+    await tickAt(0.0005);
+
+    expect(instance.outOfRangeSince).toBeUndefined();
+  });
+
+  it('should shift, log and announce after the delay', async () => {
+    const notify = vi.spyOn(NotificationService.getInstance(), 'notifyGridShift').mockResolvedValue(true);
+    instance.positions[9].status = 'HOLDING';
+    instance.positions[9].ethCost = '1000000000000000';
+    instance.outOfRangeSince = Date.now() - 61_000;
+
+    await tickAt(0.002);
+
+    expect(instance.outOfRangeSince).toBeUndefined();
+    expect(instance.gridShiftCount).toBe(1);
+    expect(instance.config.floorPrice).toBeLessThan(0.002);
+    expect(instance.config.ceilingPrice).toBeGreaterThan(0.002);
+    expect(instance.positions.find(p => p.id === 9)?.status).toBe('HOLDING');
+    expect(instance.positions.filter(p => p.status === 'EMPTY').every(p => p.id >= 10)).toBe(true);
+
+    expect(storage.appendEvent).toHaveBeenCalledWith(expect.objectContaining({
+      botId: instance.id,
+      type: 'grid-shift',
+      data: expect.objectContaining({ holding: 1, removed: 9 }),
+    }));
+    expect(notify).toHaveBeenCalledWith(instance, expect.any(Object), expect.any(Object), expect.any(Number), 1);
+    notify.mockRestore();
+  });
+
+  it('should never shift when disabled', async () => {
+    instance.config.autoShiftEnabled = false;
+    instance.outOfRangeSince = Date.now() - 3_600_000;
+
+    await tickAt(0.002);
+
+    expect(instance.config.ceilingPrice).toBe(0.001);
+    expect(storage.appendEvent).not.toHaveBeenCalled();
+  });
+});
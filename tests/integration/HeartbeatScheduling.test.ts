@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HeartbeatManager } from '../../src/bot/HeartbeatManager.js';
+import { WalletManager } from '../../src/wallet/WalletManager.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { createBotInstance, createGridConfig } from '../utils/factories.js';
+
+describe('HeartbeatManager scheduling', () => {
+  let manager: HeartbeatManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    manager = new HeartbeatManager(
+      {} as unknown as WalletManager,
+      {} as unknown as ZeroXApi,
+      {} as unknown as JsonStorage,
+      'https://base.llamarpc.com',
+      1000
+    );
+  });
+
+  afterEach(() => {
+    manager.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // Fake bot whose tick takes `tickMs`
+  const addBot = (id: string, config: { heartbeatMs?: number; skipHeartbeats?: number }, tickMs = 0) => {
+    const instance = createBotInstance({ id, name: id, config: createGridConfig(config) });
+    const bot = {
+      getInstance: () => instance,
+      tick: vi.fn(() => new Promise<boolean>(resolve => setTimeout(() => resolve(true), tickMs))),
+      stop: vi.fn(),
+    };
+    (manager as any).bots.set(id, bot);
+    return bot;
+  };
+
+  it('should run each bot on its own interval, with skipHeartbeats stretching it', async () => {
+    const fast = addBot('fast', { heartbeatMs: 1000 });
+    const slow = addBot('slow', { heartbeatMs: 3000 });
+    const skipping = addBot('skipping', { heartbeatMs: 1000, skipHeartbeats: 1 });
+
+    manager.start();
+    await vi.advanceTimersByTimeAsync(5900);
+
+    // Ticks at 0s, 1s ... 5s / 0s, 3s / 0s, 2s, 4s
+    expect(fast.tick).toHaveBeenCalledTimes(6);
+    expect(slow.tick).toHaveBeenCalledTimes(2);
+    expect(skipping.tick).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not overlap a bot with itself or let it hold up the others', async () => {
+    const stuck = addBot('stuck', { heartbeatMs: 1000 }, 4500);
+    const fast = addBot('fast', { heartbeatMs: 1000 });
+
+    manager.start();
+    await vi.advanceTimersByTimeAsync(4000);
+
+    expect(stuck.tick).toHaveBeenCalledTimes(1);
+    expect(fast.tick).toHaveBeenCalledTimes(5);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    const status = manager.getStatus().bots.find(b => b.id === 'stuck')!;
+    expect(status).toMatchObject({ ticks: 1, lastTickMs: 4500, intervalMs: 1000 });
+    expect(stuck.tick).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bound concurrent ticks and free the slot of a hung bot', async () => {
+    manager.setMaxConcurrency(1);
+    const hung = addBot('hung', { heartbeatMs: 1000 }, 10 * 60 * 1000);
+    const other = addBot('other', { heartbeatMs: 1000 });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    manager.start();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(hung.tick).toHaveBeenCalledTimes(1);
+    expect(other.tick).not.toHaveBeenCalled();
+    expect(manager.getStatus().activeTicks).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(HeartbeatManager.HUNG_TICK_MS);
+
+    expect(manager.getStatus().bots.find(b => b.id === 'hung')).toMatchObject({ ticking: true, hung: true });
+    expect(other.tick).toHaveBeenCalled();
+    expect(hung.tick).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count the ticks a bot reports as failed', async () => {
+    const failing = addBot('failing', { heartbeatMs: 1000 });
+    failing.tick.mockResolvedValueOnce(false);
+
+    manager.start();
+    await vi.advanceTimersByTimeAsync(1500);
+
+    expect(manager.getStatus().bots.find(b => b.id === 'failing')).toMatchObject({ ticks: 2, errors: 1 });
+  });
+
+  it('should drain a bot only after its in-flight tick finishes', async () => {
+    const busy = addBot('busy', { heartbeatMs: 1000 }, 3000);
+
+    manager.start();
+    await vi.advanceTimersByTimeAsync(500);
+
+    let drained = false;
+    const draining = manager.drainBot('busy').then(() => {
+      drained = true;
+    });
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(drained).toBe(false);
+    expect(busy.stop).not.toHaveBeenCalled();
+    expect(manager.getBot('busy')).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await draining;
+    expect(busy.stop).toHaveBeenCalled();
+    expect(busy.tick).toHaveBeenCalledTimes(1);
+  });
+});
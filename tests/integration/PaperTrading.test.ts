@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parseEther } from 'viem';
+import { TradingBot } from '../../src/bot/TradingBot.js';
+import { PaperWallet } from '../../src/bot/PaperWallet.js';
+import { BotInstance } from '../../src/types/index.js';
+import { WalletManager } from '../../src/wallet/WalletManager.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { PnLTracker } from '../../src/analytics/PnLTracker.js';
+import { createBotInstance, createGridConfig, createPosition, createZeroXQuote } from '../utils/factories.js';
+
+describe('TradingBot Paper Trading', () => {
+  let instance: BotInstance;
+  let walletManager: WalletManager;
+  let zeroXApi: ZeroXApi;
+  let storage: JsonStorage;
+  let pnLTracker: PnLTracker;
+
+  const QUOTED_GAS = 200000n * 1000000000n;
+
+  beforeEach(() => {
+    instance = createBotInstance({
+      chain: 'base',
+      config: createGridConfig({
+        moonBagEnabled: false,
+        useFixedBuyAmount: true,
+        buyAmount: 0.001,
+      }),
+      positions: [createPosition({ id: 0, buyMin: 0.0009, buyMax: 0.001 })],
+      currentPrice: 0.00095,
+      paperTrading: true,
+      paperLedger: PaperWallet.create(1),
+    });
+
+    walletManager = {
+      getMainWalletClient: vi.fn(),
+      getBotWalletClient: vi.fn(),
+    } as unknown as WalletManager;
+
+    zeroXApi = {
+      setChain: vi.fn(),
+      getTokenPrice: vi.fn(),
+      getBuyQuote: vi.fn().mockResolvedValue(createZeroXQuote('buy')),
+      getSellQuote: vi.fn().mockResolvedValue(createZeroXQuote('sell')),
+      isProfitable: vi.fn().mockResolvedValue({
+        profitable: true,
+        quote: createZeroXQuote('sell'),
+        actualProfit: 30,
+      }),
+    } as unknown as ZeroXApi;
+
+    storage = {
+      saveBot: vi.fn().mockResolvedValue(undefined),
+    } as unknown as JsonStorage;
+
+    pnLTracker = {
+      recordBuy: vi.fn().mockResolvedValue(undefined),
+      recordSell: vi.fn().mockResolvedValue(undefined),
+    } as unknown as PnLTracker;
+  });
+
+  const createPaperBot = async () => {
+    const bot = new TradingBot(instance, walletManager, zeroXApi, storage, 'https://base.llamarpc.com', false, pnLTracker);
+    await bot.init();
+    (bot as any).publicClient = {
+      getBalance: vi.fn(),
+      readContract: vi.fn(),
+      waitForTransactionReceipt: vi.fn(),
+    };
+    return bot;
+  };
+
+  const tickAt = async (bot: TradingBot, price: number) => {
+    vi.mocked(zeroXApi.getTokenPrice).mockResolvedValue(price);
+    await bot.tick();
+  };
+
+  it('should run without a wallet client', async () => {
+    const bot = await createPaperBot();
+
+    expect(walletManager.getMainWalletClient).not.toHaveBeenCalled();
+    expect(walletManager.getBotWalletClient).not.toHaveBeenCalled();
+
+    await tickAt(bot, 0.00095);
+    expect(instance.positions[0].status).toBe('HOLDING');
+  });
+
+  it('should fund a default ledger if none exists', async () => {
+    delete instance.paperLedger;
+    await createPaperBot();
+
+    expect(instance.paperLedger?.ethBalance).toBe(parseEther(String(PaperWallet.DEFAULT_STARTING_ETH)).toString());
+  });
+
+  it('should fill buys against the ledger at the quoted amount and gas', async () => {
+    const bot = await createPaperBot();
+    const publicClient = (bot as any).publicClient;
+
+    await tickAt(bot, 0.00095);
+
+    const position = instance.positions[0];
+    expect(position.status).toBe('HOLDING');
+    expect(position.simulated).toBe(true);
+    expect(position.buyTxHash).toMatch(/^0xPAPER_BUY_/);
+    expect(position.tokensReceived).toBe('1000000000000000000000');
+    expect(position.ethCost).toBe(parseEther('0.001').toString());
+
+    expect(instance.paperLedger!.ethBalance).toBe((parseEther('1') - parseEther('0.001') - QUOTED_GAS).toString());
+    expect(instance.paperLedger!.tokenBalance).toBe('1000000000000000000000');
+    expect(instance.paperLedger!.gasSpent).toBe(QUOTED_GAS.toString());
+    expect(publicClient.getBalance).not.toHaveBeenCalled();
+
+    expect(pnLTracker.recordBuy).toHaveBeenCalledWith(
+      instance, 0, '1000000000000000000000', expect.any(Number),
+      parseEther('0.001').toString(), QUOTED_GAS.toString(), position.buyTxHash, true
+    );
+  });
+
+  it('should fail a buy the ledger cannot afford', async () => {
+    instance.paperLedger = PaperWallet.create(0.001);
+    const bot = await createPaperBot();
+
+    await tickAt(bot, 0.00095);
+
+    expect(instance.positions[0].status).toBe('EMPTY');
+    expect(instance.paperLedger!.ethBalance).toBe(parseEther('0.001').toString());
+  });
+
+  it('should fill sells against the ledger without approvals', async () => {
+    instance.positions[0] = createPosition({
+      id: 0,
+      buyMin: 0.0009,
+      buyMax: 0.001,
+      status: 'HOLDING',
+      tokensReceived: '1000000000000000000000',
+      ethCost: parseEther('0.001').toString(),
+      simulated: true,
+    });
+    instance.paperLedger!.tokenBalance = '1000000000000000000000';
+    const bot = await createPaperBot();
+    const publicClient = (bot as any).publicClient;
+
+    await tickAt(bot, 0.0011);
+
+    const position = instance.positions[0];
+    expect(position.status).toBe('SOLD');
+    expect(position.sellTxHash).toMatch(/^0xPAPER_SELL_/);
+    expect(position.profitEth).toBe((parseEther('0.0015') - QUOTED_GAS - parseEther('0.001')).toString());
+    expect(instance.paperLedger!.tokenBalance).toBe('0');
+    expect(instance.paperLedger!.ethBalance).toBe((parseEther('1') + parseEther('0.0015') - QUOTED_GAS).toString());
+    expect(publicClient.readContract).not.toHaveBeenCalled();
+
+    const sellArgs = vi.mocked(pnLTracker.recordSell).mock.calls[0];
+    expect(sellArgs[9]).toBe('take-profit');
+    expect(sellArgs[10]).toBe(true);
+  });
+
+  describe('PaperWallet', () => {
+    it('should value the ledger at the current price', () => {
+      const ledger = PaperWallet.create(1);
+      PaperWallet.applyBuy(ledger, parseEther('0.5'), 0n, parseEther('1000'));
+
+      const summary = PaperWallet.getSummary(ledger, 0.0006);
+      expect(summary.ethBalance).toBeCloseTo(0.5, 9);
+      expect(summary.equityEth).toBeCloseTo(1.1, 9);
+      expect(summary.pnlPercent).toBeCloseTo(10, 6);
+    });
+
+    it('should reject sells of tokens the ledger does not hold', () => {
+      const ledger = PaperWallet.create(1);
+      expect(() => PaperWallet.applySell(ledger, 1n, 0n, 0n)).toThrow('Insufficient paper tokens');
+    });
+
+    it('should promote to live with clean positions and stats', () => {
+      instance.positions[0] = createPosition({
+        id: 0,
+        status: 'SOLD',
+        buyTxHash: '0xPAPER_BUY_1',
+        profitEth: '100',
+        simulated: true,
+      });
+      instance.totalBuys = 3;
+      instance.totalProfitEth = '100';
+
+      PaperWallet.promoteToLive(instance);
+
+      expect(instance.paperTrading).toBe(false);
+      expect(instance.paperLedger).toBeUndefined();
+      expect(instance.positions[0].status).toBe('EMPTY');
+      expect(instance.positions[0].buyTxHash).toBeUndefined();
+      expect(instance.positions[0].simulated).toBeUndefined();
+      expect(instance.positions[0].buyMax).toBe(0.0005);
+      expect(instance.totalBuys).toBe(0);
+      expect(instance.totalProfitEth).toBe('0');
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, erc20Abi, parseGwei } from 'viem';
+import { TradingBot } from '../../src/bot/TradingBot.js';
+import { PaperWallet } from '../../src/bot/PaperWallet.js';
+import { BotInstance, QuoteToken } from '../../src/types/index.js';
+import { WalletManager } from '../../src/wallet/WalletManager.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { createBotInstance, createGridConfig, createPosition, createZeroXQuote } from '../utils/factories.js';
+
+const TOKEN = '0x1234567890123456789012345678901234567890';
+const POOL = '0x00000000000000000000000000000000000000aa';
+const USDC: QuoteToken = { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC', decimals: 6 };
+
+// 2500 USDC per ETH: 4e8 wei per smallest USDC unit, so the quoted 0.0002 ETH of gas is 0.5 USDC
+const USDC_RATE = 4e8;
+const GAS_USDC = 500000n;
+
+const transfer = (token: string, from: string, to: string, value: bigint) => ({
+  address: token,
+  topics: encodeEventTopics({ abi: erc20Abi, eventName: 'Transfer', args: { from: from as `0x${string}`, to: to as `0x${string}` } }),
+  data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+});
+
+describe('TradingBot with a USDC quote', () => {
+  let instance: BotInstance;
+  let zeroXApi: ZeroXApi;
+  let wallets = 0;
+
+  beforeEach(() => {
+    instance = createBotInstance({
+      tokenAddress: TOKEN,
+      quoteToken: USDC,
+      // Fresh address per test - the nonce manager is shared across bots
+      walletAddress: `0x${(0xe0 + ++wallets).toString(16).padStart(40, '0')}`,
+      config: createGridConfig({ moonBagEnabled: false, useFixedBuyAmount: true, buyAmount: 10 }),
+      positions: [createPosition({ id: 0, buyMin: 0.0028, buyMax: 0.003 })],
+    });
+
+    zeroXApi = {
+      setChain: vi.fn(),
+      getTokenPrice: vi.fn(async (token: string) => (token === USDC.address ? USDC_RATE : 0.0029)),
+      getBuyQuote: vi.fn().mockResolvedValue(createZeroXQuote('buy', {
+        sellToken: USDC.address,
+        sellAmount: '10000000',
+        value: '0',
+      })),
+      getSellQuote: vi.fn(),
+      isProfitable: vi.fn().mockResolvedValue({ profitable: false, quote: null, actualProfit: 0 }),
+    } as unknown as ZeroXApi;
+  });
+
+  const createBot = async () => {
+    const bot = new TradingBot(
+      instance,
+      { getMainWalletClient: vi.fn(), getBotWalletClient: vi.fn() } as unknown as WalletManager,
+      zeroXApi,
+      { saveBot: vi.fn().mockResolvedValue(undefined) } as unknown as JsonStorage,
+      'https://base.llamarpc.com',
+      false
+    );
+    await bot.init();
+    return bot;
+  };
+
+  it('should buy with USDC from a paper ledger kept in USDC', async () => {
+    instance.paperTrading = true;
+    instance.paperLedger = PaperWallet.create(100, USDC.decimals);
+    const bot = await createBot();
+    (bot as any).publicClient = { getBalance: vi.fn(), readContract: vi.fn() };
+
+    await bot.tick();
+
+    expect(zeroXApi.getBuyQuote).toHaveBeenCalledWith(TOKEN, '10000000', instance.walletAddress, expect.any(Number), USDC);
+    const position = instance.positions[0];
+    expect(position.status).toBe('HOLDING');
+    expect(position.ethCost).toBe('10000000');
+    expect(instance.paperLedger!.ethBalance).toBe((100000000n - 10000000n - GAS_USDC).toString());
+    expect(instance.paperLedger!.gasSpent).toBe(GAS_USDC.toString());
+  });
+
+  it('should book USDC proceeds from the receipt, net of gas in USDC', async () => {
+    instance.positions = [createPosition({
+      id: 0,
+      status: 'HOLDING',
+      tokensReceived: '1000000000000000000000',
+      ethCost: '10000000',
+    })];
+    vi.mocked(zeroXApi.getSellQuote).mockResolvedValue(createZeroXQuote('sell', { buyToken: USDC.address, buyAmount: '12000000' }));
+    const bot = await createBot();
+    (bot as any).walletClient = { sendTransaction: vi.fn().mockResolvedValue(`0x${'1'.padStart(64, '0')}`) };
+    (bot as any).publicClient = {
+      readContract: vi.fn().mockResolvedValue(10n ** 30n),
+      getTransactionCount: vi.fn().mockResolvedValue(7),
+      getFeeHistory: vi.fn().mockResolvedValue({
+        baseFeePerGas: [parseGwei('0.9'), parseGwei('1')],
+        reward: [[parseGwei('0.1')]],
+      }),
+      getBalance: vi.fn(),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({
+        status: 'success',
+        blockNumber: 100n,
+        gasUsed: 200000n,
+        effectiveGasPrice: parseGwei('1'),
+        logs: [
+          transfer(TOKEN, instance.walletAddress, POOL, 10n ** 21n),
+          transfer(USDC.address, POOL, instance.walletAddress, 11500000n),
+        ],
+      }),
+    };
+
+    await bot.liquidateAll();
+
+    expect(zeroXApi.getSellQuote).toHaveBeenCalledWith(TOKEN, '1000000000000000000000', instance.walletAddress, undefined, USDC);
+    expect(instance.totalProfitEth).toBe((11500000n - GAS_USDC - 10000000n).toString());
+    expect(instance.lastFillDeviation).toMatchObject({ side: 'sell', quoted: '12000000', actual: '11500000' });
+  });
+});
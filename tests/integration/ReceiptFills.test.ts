@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, erc20Abi, parseGwei } from 'viem';
+import { TradingBot } from '../../src/bot/TradingBot.js';
+import { ReceiptAmounts } from '../../src/bot/ReceiptAmounts.js';
+import { BotInstance } from '../../src/types/index.js';
+import { WalletManager } from '../../src/wallet/WalletManager.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { createBotInstance, createGridConfig, createPosition, createZeroXQuote } from '../utils/factories.js';
+
+const TOKEN = '0x1234567890123456789012345678901234567890';
+const POOL = '0x00000000000000000000000000000000000000aa';
+
+const transfer = (token: string, from: string, to: string, value: bigint) => ({
+  address: token,
+  topics: encodeEventTopics({ abi: erc20Abi, eventName: 'Transfer', args: { from: from as `0x${string}`, to: to as `0x${string}` } }),
+  data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+});
+
+describe('ReceiptAmounts', () => {
+  const wallet = '0x00000000000000000000000000000000000000c1';
+
+  it('should net the token transfers that touched the wallet', () => {
+    const receipt = {
+      logs: [
+        transfer(TOKEN, POOL, wallet, 1000n),
+        transfer(TOKEN, wallet, POOL, 30n),
+        transfer(TOKEN, POOL, POOL, 500n),
+        transfer(POOL, POOL, wallet, 999n),
+      ],
+    };
+
+    expect(ReceiptAmounts.tokensReceived(receipt, TOKEN.toUpperCase().replace('0X', '0x'), wallet)).toBe(970n);
+    expect(ReceiptAmounts.tokensReceived({ logs: [] }, TOKEN, wallet)).toBeNull();
+  });
+
+  it('should include the L1 data fee in the fees paid', () => {
+    const receipt = { gasUsed: 100000n, effectiveGasPrice: parseGwei('1'), l1Fee: 5000n };
+    expect(ReceiptAmounts.feesPaid(receipt, '0')).toBe(100000n * parseGwei('1') + 5000n);
+    expect(ReceiptAmounts.feesPaid({ gasUsed: 10n }, '3')).toBe(30n);
+  });
+
+  it('should only trust the balance difference when the swap was alone in its block', async () => {
+    const publicClient = {
+      getTransactionCount: vi.fn(async ({ blockNumber }: any) => (blockNumber === 100n ? 6 : 5)),
+      getBalance: vi.fn(async ({ blockNumber }: any) => (blockNumber === 100n ? 800n : 1000n)),
+    };
+
+    expect(await ReceiptAmounts.ethMoved(publicClient, { blockNumber: 100n }, wallet, 50n)).toBe(-150n);
+
+    publicClient.getTransactionCount.mockImplementation(async ({ blockNumber }: any) => (blockNumber === 100n ? 7 : 5));
+    expect(await ReceiptAmounts.ethMoved(publicClient, { blockNumber: 100n }, wallet, 50n)).toBeNull();
+    expect(await ReceiptAmounts.ethMoved(publicClient, {}, wallet, 50n)).toBeNull();
+  });
+});
+
+describe('TradingBot receipt fills', () => {
+  let instance: BotInstance;
+  let publicClient: any;
+  let wallets = 0;
+
+  const gas = 100000n * parseGwei('1');
+
+  beforeEach(() => {
+    instance = createBotInstance({
+      tokenAddress: TOKEN,
+      // Fresh address per test - the nonce manager is shared across bots
+      walletAddress: `0x${(0xd0 + ++wallets).toString(16).padStart(40, '0')}`,
+      config: createGridConfig({ moonBagEnabled: false, slippageBps: 100 }),
+      positions: [createPosition({
+        id: 0,
+        status: 'HOLDING',
+        tokensReceived: '1000000000000000000000',
+        ethCost: '1000000000000000',
+      })],
+    });
+
+    publicClient = {
+      readContract: vi.fn().mockResolvedValue(10n ** 30n),
+      getTransactionCount: vi.fn(async ({ blockNumber }: any) => (blockNumber === 100n ? 8 : 7)),
+      getFeeHistory: vi.fn().mockResolvedValue({
+        baseFeePerGas: [parseGwei('0.9'), parseGwei('1')],
+        reward: [[parseGwei('0.1')]],
+      }),
+      getBalance: vi.fn(),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({
+        status: 'success',
+        blockNumber: 100n,
+        gasUsed: 100000n,
+        effectiveGasPrice: parseGwei('1'),
+        logs: [],
+      }),
+    };
+  });
+
+  const createBot = async (sellQuote: any, walletManager: any = { getMainWalletClient: vi.fn(), getBotWalletClient: vi.fn() }, config: any = {}) => {
+    const bot = new TradingBot(
+      instance,
+      walletManager as WalletManager,
+      {
+        setChain: vi.fn(),
+        getTokenPrice: vi.fn().mockResolvedValue(0.001),
+        getSellQuote: vi.fn().mockResolvedValue(sellQuote),
+      } as unknown as ZeroXApi,
+      {
+        saveBot: vi.fn().mockResolvedValue(undefined),
+        getConfig: vi.fn(async (key: string, fallback: any) => config[key] ?? fallback),
+      } as unknown as JsonStorage,
+      'https://base.llamarpc.com',
+      false
+    );
+    await bot.init();
+    (bot as any).walletClient = { sendTransaction: vi.fn().mockResolvedValue(`0x${'1'.padStart(64, '0')}`) };
+    (bot as any).publicClient = publicClient;
+    return bot;
+  };
+
+  it('should book the ETH a sell actually returned and flag the shortfall', async () => {
+    // Quoted 0.002 ETH, 0.0018 ETH arrived: a 10% sell tax
+    const quote = { ...createZeroXQuote('sell'), buyAmount: '2000000000000000' };
+    publicClient.getBalance.mockImplementation(async ({ blockNumber }: any) =>
+      (blockNumber === 100n ? 10n ** 18n + 1800000000000000n - gas : 10n ** 18n));
+    const bot = await createBot(quote);
+
+    await bot.liquidateAll();
+
+    expect(instance.totalProfitEth).toBe((1800000000000000n - gas - 1000000000000000n).toString());
+    expect(instance.lastFillDeviation).toMatchObject({ side: 'sell', quoted: '2000000000000000', actual: '1800000000000000' });
+    expect(instance.lastFillDeviation!.shortfallPercent).toBeCloseTo(10);
+  });
+
+  it('should send through the private relay and keep its slippage apart', async () => {
+    const relay = 'https://relay.example/rpc';
+    instance.config.privateSubmission = true;
+    const quote = { ...createZeroXQuote('sell'), buyAmount: '2000000000000000' };
+    publicClient.getBalance.mockImplementation(async ({ blockNumber }: any) =>
+      (blockNumber === 100n ? 10n ** 18n + 1990000000000000n - gas : 10n ** 18n));
+    const walletManager = { getMainWalletClient: vi.fn(), getBotWalletClient: vi.fn() };
+    const bot = await createBot(quote, walletManager, { privateRelayUrls: { base: relay } });
+
+    await bot.liquidateAll();
+
+    expect(walletManager.getMainWalletClient).toHaveBeenCalledWith('https://base.llamarpc.com', 'base', relay);
+    expect(instance.slippage?.public).toBeUndefined();
+    expect(instance.slippage?.private).toMatchObject({ fills: 1, worstPercent: 0.5 });
+    expect(instance.slippage!.private!.totalPercent).toBeCloseTo(0.5);
+    // Within tolerance - measured but not flagged
+    expect(instance.lastFillDeviation).toBeUndefined();
+  });
+
+  it('should fall back to the quote when the balance change cannot be isolated', async () => {
+    const quote = { ...createZeroXQuote('sell'), buyAmount: '2000000000000000' };
+    publicClient.getTransactionCount.mockResolvedValue(7);
+    const bot = await createBot(quote);
+
+    await bot.liquidateAll();
+
+    expect(instance.totalProfitEth).toBe((2000000000000000n - gas - 1000000000000000n).toString());
+    expect(instance.lastFillDeviation).toBeUndefined();
+  });
+});
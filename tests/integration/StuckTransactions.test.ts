@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parseGwei, WaitForTransactionReceiptTimeoutError } from 'viem';
+import { TradingBot } from '../../src/bot/TradingBot.js';
+import { FeePolicy } from '../../src/bot/FeePolicy.js';
+import { GridCalculator } from '../../src/grid/GridCalculator.js';
+import { BotInstance } from '../../src/types/index.js';
+import { WalletManager } from '../../src/wallet/WalletManager.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { createBotInstance, createGridConfig, createPosition, createZeroXQuote } from '../utils/factories.js';
+
+describe('TradingBot EIP-1559 Fees and Stuck Transactions', () => {
+  let instance: BotInstance;
+  let walletClient: any;
+  let publicClient: any;
+  let sent: number;
+  let wallets = 0;
+
+  const timeout = () => new WaitForTransactionReceiptTimeoutError({ hash: '0x01' });
+
+  beforeEach(() => {
+    instance = createBotInstance({
+      // Fresh address per test - the nonce manager is shared across bots
+      walletAddress: `0x${(0xb0 + ++wallets).toString(16).padStart(40, '0')}`,
+      config: createGridConfig({ moonBagEnabled: false, maxFeePerGasGwei: 1.5, maxTxReplacements: 1 }),
+      positions: [createPosition({
+        id: 0,
+        status: 'HOLDING',
+        tokensReceived: '1000000000000000000000',
+        ethCost: '1000000000000000',
+      })],
+    });
+
+    sent = 0;
+    walletClient = {
+      sendTransaction: vi.fn(async () => `0x${(++sent).toString(16).padStart(64, '0')}`),
+    };
+    publicClient = {
+      readContract: vi.fn().mockResolvedValue(10n ** 30n),
+      getTransactionCount: vi.fn().mockResolvedValue(7),
+      getFeeHistory: vi.fn().mockResolvedValue({
+        baseFeePerGas: [parseGwei('0.9'), parseGwei('1')],
+        reward: [[parseGwei('0.1')]],
+      }),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({
+        status: 'success',
+        gasUsed: 100000n,
+        effectiveGasPrice: parseGwei('1'),
+      }),
+    };
+  });
+
+  const createBot = async () => {
+    const bot = new TradingBot(
+      instance,
+      { getMainWalletClient: vi.fn(), getBotWalletClient: vi.fn() } as unknown as WalletManager,
+      {
+        setChain: vi.fn(),
+        getTokenPrice: vi.fn().mockResolvedValue(0.001),
+        getSellQuote: vi.fn().mockResolvedValue(createZeroXQuote('sell')),
+      } as unknown as ZeroXApi,
+      { saveBot: vi.fn().mockResolvedValue(undefined) } as unknown as JsonStorage,
+      'https://base.llamarpc.com',
+      false
+    );
+    await bot.init();
+    (bot as any).walletClient = walletClient;
+    (bot as any).publicClient = publicClient;
+    return bot;
+  };
+
+  it('should send capped EIP-1559 fees from recent blocks', async () => {
+    const bot = await createBot();
+
+    const result = await bot.liquidateAll();
+
+    expect(result.success).toBe(1);
+    const tx = walletClient.sendTransaction.mock.calls[0][0];
+    expect(tx.maxFeePerGas).toBe(parseGwei('1.5')); // 2 × 1 gwei + 0.1 tip, capped
+    expect(tx.maxPriorityFeePerGas).toBe(parseGwei('0.1'));
+    expect(tx.gasPrice).toBeUndefined();
+    expect(tx.nonce).toBe(7);
+    expect(instance.positions[0].pendingTx).toBeUndefined();
+  });
+
+  it('should speed up, then cancel a transaction that never mines', async () => {
+    instance.config.maxFeePerGasGwei = undefined;
+    const bot = await createBot();
+    const cancelHash = `0x${(3).toString(16).padStart(64, '0')}`;
+    publicClient.waitForTransactionReceipt
+      .mockRejectedValueOnce(timeout())
+      .mockRejectedValueOnce(timeout())
+      .mockResolvedValueOnce({ status: 'success', gasUsed: 21000n, effectiveGasPrice: parseGwei('1'), transactionHash: cancelHash });
+
+    const result = await bot.liquidateAll();
+
+    expect(result.failed).toBe(1);
+    const [original, speedUp, cancel] = walletClient.sendTransaction.mock.calls.map((c: any[]) => c[0]);
+    expect(speedUp.nonce).toBe(original.nonce);
+    expect(speedUp.data).toBe(original.data);
+    expect(speedUp.maxFeePerGas).toBeGreaterThanOrEqual(original.maxFeePerGas * 110n / 100n);
+    expect(cancel).toMatchObject({ to: instance.walletAddress, value: 0n, nonce: original.nonce });
+
+    const position = instance.positions[0];
+    expect(position.status).toBe('HOLDING');
+    expect(position.pendingTx).toBeUndefined();
+  });
+
+  it('should keep the position locked while the cancel is unmined', async () => {
+    const bot = await createBot();
+    publicClient.waitForTransactionReceipt.mockRejectedValue(timeout());
+
+    await bot.liquidateAll();
+
+    const position = instance.positions[0];
+    expect(position.pendingTx?.side).toBe('sell');
+    expect(position.pendingTx?.cancelHash).toBeDefined();
+    expect(GridCalculator.findSellPositions(instance.positions, 1)).toHaveLength(0);
+
+    // A second liquidation must not sell the same tokens again
+    await bot.liquidateAll();
+    expect(walletClient.sendTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should settle a buy left pending before a restart', async () => {
+    instance.positions[0] = createPosition({
+      id: 0,
+      status: 'EMPTY',
+      pendingTx: {
+        side: 'buy', nonce: 6, hashes: ['0xaaa', '0xbbb'], submittedAt: 0, lastBroadcastAt: 0,
+        maxFeePerGas: '2000000000', maxPriorityFeePerGas: '100000000', replacements: 1,
+        to: '0xExchange', data: '0x', value: '1000000000000000', gas: '240000',
+        amountIn: '1000000000000000', expectedOut: '1000000000000000000000',
+      },
+    });
+    expect(GridCalculator.findBuyPosition(instance.positions, instance.positions[0].buyMax)).toBeNull();
+    expect(GridCalculator.countActivePositions(instance.positions)).toBe(1);
+
+    const bot = await createBot();
+    publicClient.getTransactionReceipt = vi.fn(async ({ hash }: any) => {
+      if (hash !== '0xaaa') throw new Error('not found');
+      return { status: 'success', transactionHash: '0xaaa', gasUsed: 100000n, effectiveGasPrice: parseGwei('1') };
+    });
+    (bot as any).isRunning = true;
+    vi.spyOn(bot as any, 'checkBuys').mockResolvedValue(undefined);
+    vi.spyOn(bot as any, 'checkSells').mockResolvedValue(undefined);
+
+    await bot.tick();
+
+    const position = instance.positions[0];
+    expect(position.status).toBe('HOLDING');
+    expect(position.buyTxHash).toBe('0xaaa');
+    expect(position.tokensReceived).toBe('1000000000000000000000');
+    expect(position.pendingTx).toBeUndefined();
+    expect(instance.totalBuys).toBe(1);
+  });
+
+  it('should settle a volume buy left pending instead of sending the leg again', async () => {
+    instance.config = createGridConfig({ volumeMode: true, volumeBuysPerCycle: 3 });
+    instance.positions = [];
+    instance.volumePendingLeg = createPosition({
+      id: 0,
+      status: 'EMPTY',
+      pendingTx: {
+        side: 'buy', nonce: 7, hashes: ['0xaaa', '0xccc'], cancelHash: '0xccc', submittedAt: 0, lastBroadcastAt: Date.now(),
+        maxFeePerGas: '2000000000', maxPriorityFeePerGas: '100000000', replacements: 1,
+        to: '0xExchange', data: '0x', value: '1000000000000000', gas: '240000',
+        amountIn: '1000000000000000', expectedOut: '1000000000000000000000',
+      },
+    });
+    const bot = await createBot();
+    let mined = false;
+    publicClient.getTransactionReceipt = vi.fn(async ({ hash }: any) => {
+      if (!mined || hash !== '0xaaa') throw new Error('not found');
+      return { status: 'success', transactionHash: '0xaaa', gasUsed: 100000n, effectiveGasPrice: parseGwei('1') };
+    });
+    (bot as any).isRunning = true;
+    const nextLeg = vi.spyOn(bot as any, 'checkVolumeCycle');
+
+    // Still unmined after the cancel: no new leg goes out
+    await bot.tick();
+    expect(nextLeg).not.toHaveBeenCalled();
+    expect(walletClient.sendTransaction).not.toHaveBeenCalled();
+
+    // The original buy mined - its tokens join the cycle
+    mined = true;
+    await bot.tick();
+    expect(instance.volumePendingLeg).toBeUndefined();
+    expect(instance.volumeAccumulatedTokens).toBe('1000000000000000000000');
+    expect(instance.volumeBuysInCycle).toBe(1);
+    expect(instance.totalBuys).toBe(1);
+  });
+
+  it('should not bump past the fee cap', () => {
+    const config = createGridConfig({ maxFeePerGasGwei: 1 });
+    const fees = { maxFeePerGas: parseGwei('0.95'), maxPriorityFeePerGas: parseGwei('0.1') };
+
+    expect(FeePolicy.bump(fees, config)).toBeNull();
+    expect(FeePolicy.bump(fees, createGridConfig())!.maxFeePerGas).toBeGreaterThan(parseGwei('1.06'));
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parseEther } from 'viem';
+import { TradingBot } from '../../src/bot/TradingBot.js';
+import { PaperWallet } from '../../src/bot/PaperWallet.js';
+import { BotInstance } from '../../src/types/index.js';
+import { WalletManager } from '../../src/wallet/WalletManager.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { PnLTracker } from '../../src/analytics/PnLTracker.js';
+import { CsvExporter } from '../../src/analytics/CsvExporter.js';
+import { createBotInstance, createGridConfig, createPosition, createZeroXQuote } from '../utils/factories.js';
+
+describe('TradingBot Take-Profit Tiers', () => {
+  let instance: BotInstance;
+  let zeroXApi: ZeroXApi;
+  let pnLTracker: PnLTracker;
+
+  const TOKENS = '1000000000000000000000';
+
+  beforeEach(() => {
+    instance = createBotInstance({
+      config: createGridConfig({
+        moonBagEnabled: false,
+        takeProfitTiers: [
+          { percent: 30, profitPercent: 5 },
+          { percent: 40, profitPercent: 10 },
+          { percent: 30, profitPercent: 20 },
+        ],
+      }),
+      positions: [createPosition({
+        id: 0,
+        buyMin: 0.0009,
+        buyMax: 0.001,
+        sellPrice: 0.00105,
+        status: 'HOLDING',
+        tokensReceived: TOKENS,
+        ethCost: parseEther('0.001').toString(),
+        simulated: true,
+      })],
+      paperTrading: true,
+      paperLedger: { ...PaperWallet.create(1), tokenBalance: TOKENS },
+    });
+
+    zeroXApi = {
+      setChain: vi.fn(),
+      getTokenPrice: vi.fn(),
+      getSellQuote: vi.fn().mockResolvedValue(createZeroXQuote('sell')),
+      isProfitable: vi.fn().mockResolvedValue({
+        profitable: true,
+        quote: createZeroXQuote('sell'),
+        actualProfit: 30,
+      }),
+    } as unknown as ZeroXApi;
+
+    pnLTracker = {
+      recordBuy: vi.fn().mockResolvedValue(undefined),
+      recordSell: vi.fn().mockResolvedValue(undefined),
+    } as unknown as PnLTracker;
+  });
+
+  const createBot = async () => {
+    const bot = new TradingBot(
+      instance,
+      { getMainWalletClient: vi.fn(), getBotWalletClient: vi.fn() } as unknown as WalletManager,
+      zeroXApi,
+      { saveBot: vi.fn().mockResolvedValue(undefined) } as unknown as JsonStorage,
+      'https://base.llamarpc.com',
+      false,
+      pnLTracker
+    );
+    await bot.init();
+    (bot as any).publicClient = {};
+    vi.spyOn(bot as any, 'checkBuys').mockResolvedValue(undefined);
+    return bot;
+  };
+
+  const tickAt = async (bot: TradingBot, price: number) => {
+    vi.mocked(zeroXApi.getTokenPrice).mockResolvedValue(price);
+    await bot.tick();
+  };
+
+  it('should sell only the first tier and keep holding the rest', async () => {
+    const bot = await createBot();
+
+    await tickAt(bot, 0.00106);
+
+    const position = instance.positions[0];
+    expect(position.status).toBe('HOLDING');
+    expect(position.tokensRemaining).toBe(parseEther('700').toString());
+    expect(position.sellPrice).toBeCloseTo(0.0011, 12);
+    expect(instance.paperLedger!.tokenBalance).toBe(parseEther('700').toString());
+
+    // Profitability is judged against the tier's share of the cost
+    expect(zeroXApi.isProfitable).toHaveBeenCalledWith(
+      instance.tokenAddress, parseEther('300').toString(), parseEther('0.0003').toString(),
+      expect.any(Number), expect.any(String), expect.any(Boolean), expect.any(Number), expect.any(Number), expect.any(Boolean), undefined
+    );
+
+    const sellArgs = vi.mocked(pnLTracker.recordSell).mock.calls[0];
+    expect(sellArgs[2]).toBe(parseEther('300').toString());
+    expect(sellArgs[11]).toBe(1);
+    expect(sellArgs[12]).toBe(true);
+    expect(instance.totalSells).toBe(1);
+  });
+
+  it('should wait for the next tier target', async () => {
+    const bot = await createBot();
+
+    await tickAt(bot, 0.00106);
+    await tickAt(bot, 0.00107);
+
+    expect(instance.positions[0].tierFills).toHaveLength(1);
+    expect(pnLTracker.recordSell).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close with blended profit once the last tier fills', async () => {
+    const bot = await createBot();
+    const gas = 200000n * 1000000000n;
+
+    await tickAt(bot, 0.00106);
+    await tickAt(bot, 0.00111);
+    await tickAt(bot, 0.00121);
+
+    const position = instance.positions[0];
+    expect(position.status).toBe('SOLD');
+    expect(position.tierFills!.map(f => f.tier)).toEqual([1, 2, 3]);
+    expect(position.ethReceived).toBe((parseEther('0.0015') * 3n).toString());
+
+    const blended = parseEther('0.0015') * 3n - gas * 3n - parseEther('0.001');
+    expect(position.profitEth).toBe(blended.toString());
+    expect(instance.totalProfitEth).toBe(blended.toString());
+    expect(instance.totalSells).toBe(3);
+    expect(instance.paperLedger!.tokenBalance).toBe('0');
+
+    const lastSell = vi.mocked(pnLTracker.recordSell).mock.calls[2];
+    expect(lastSell[2]).toBe(parseEther('300').toString());
+    expect(lastSell[12]).toBe(false);
+  });
+
+  it('should export the tier of each partial sell', () => {
+    const csv = CsvExporter.exportToCsv([
+      {
+        id: '1', botId: 'b', botName: 'Bot', tokenSymbol: 'TKN', tokenAddress: '0x1',
+        action: 'sell', amount: '1', price: 1, ethValue: '1', gasCost: '0',
+        timestamp: 0, txHash: '0xabc', positionId: 0, tier: 2, partial: true,
+      },
+    ]);
+
+    const [headers, row] = csv.split('\n').map(line => line.split(','));
+    expect(row[headers.indexOf('TP Tier')]).toBe('2');
+    expect(row[headers.indexOf('Partial')]).toBe('yes');
+  });
+});
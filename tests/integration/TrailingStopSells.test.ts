@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TradingBot } from '../../src/bot/TradingBot.js';
+import { BotInstance } from '../../src/types/index.js';
+import { WalletManager } from '../../src/wallet/WalletManager.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { createBotInstance, createGridConfig, createPosition } from '../utils/factories.js';
+
+describe('TradingBot Trailing Stop', () => {
+  let instance: BotInstance;
+  let walletManager: WalletManager;
+  let zeroXApi: ZeroXApi;
+  let storage: JsonStorage;
+  let savedStates: Record<string, any>;
+
+  beforeEach(() => {
+    instance = createBotInstance({
+      chain: 'base',
+      config: createGridConfig({
+        moonBagEnabled: false,
+        takeProfitPercent: 50,
+        useTrailingStopLoss: true,
+        trailingStopPercent: 5,
+        trailingStopActivation: 3,
+      }),
+      positions: [
+        createPosition({
+          id: 0,
+          buyMin: 0.0009,
+          buyMax: 0.001,
+          takeProfitPercent: 50,
+          status: 'HOLDING',
+          tokensReceived: '1000000000000000000000',
+          ethCost: '1000000000000000',
+        }),
+      ],
+      currentPrice: 0.001,
+    });
+
+    savedStates = {};
+    walletManager = {
+      getMainWalletClient: vi.fn(),
+      getBotWalletClient: vi.fn(),
+    } as unknown as WalletManager;
+
+    zeroXApi = {
+      setChain: vi.fn(),
+      getTokenPrice: vi.fn(),
+      isProfitable: vi.fn().mockResolvedValue({ profitable: false, quote: null, actualProfit: 0 }),
+      getSellQuote: vi.fn().mockResolvedValue({
+        buyAmount: '1100000000000000',
+        sellAmount: '1000000000000000000000',
+        to: '0xExchange',
+        data: '0x',
+        value: '0',
+        gas: '200000',
+        gasPrice: '1000000000',
+      }),
+    } as unknown as ZeroXApi;
+
+    storage = {
+      saveBot: vi.fn().mockResolvedValue(undefined),
+      getBotTrailingStopState: vi.fn(async (botId: string) => savedStates[botId]),
+      saveBotTrailingStopState: vi.fn(async (botId: string, state: any) => {
+        savedStates[botId] = JSON.parse(JSON.stringify(state));
+      }),
+    } as unknown as JsonStorage;
+  });
+
+  const createRunningBot = async () => {
+    const bot = new TradingBot(instance, walletManager, zeroXApi, storage, 'https://base.llamarpc.com', false);
+    await bot.init();
+    (bot as any).walletClient = {
+      sendTransaction: vi.fn().mockResolvedValue('0x' + 'a'.repeat(64)),
+    };
+    (bot as any).publicClient = {
+      readContract: vi.fn().mockResolvedValue(10n ** 30n),
+      getTransactionCount: vi.fn().mockResolvedValue(0),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({
+        status: 'success',
+        gasUsed: 100000n,
+        effectiveGasPrice: 1000000000n,
+      }),
+    };
+    return bot;
+  };
+
+  const tickAt = async (bot: TradingBot, price: number) => {
+    vi.mocked(zeroXApi.getTokenPrice).mockResolvedValue(price);
+    await bot.tick();
+  };
+
+  it('should sell with a trailing-stop label when price falls back from the peak', async () => {
+    const bot = await createRunningBot();
+
+    await tickAt(bot, 0.0012); // +20%, activates and trails at 0.00114
+    expect(instance.positions[0].status).toBe('HOLDING');
+
+    await tickAt(bot, 0.0011);
+
+    expect(zeroXApi.getSellQuote).toHaveBeenCalled();
+    expect(instance.positions[0].status).toBe('SOLD');
+    expect(instance.positions[0].exitReason).toBe('trailing-stop');
+    expect(instance.totalSells).toBe(1);
+  });
+
+  it('should persist peak state and restore it after a restart', async () => {
+    const first = await createRunningBot();
+    await tickAt(first, 0.0012);
+
+    expect(savedStates[instance.id][0].highestPrice).toBe(0.0012);
+    expect(savedStates[instance.id][0].activated).toBe(true);
+
+    // Restart: new bot instance, price never revisits the peak
+    const second = await createRunningBot();
+    await tickAt(second, 0.0011);
+
+    expect(instance.positions[0].status).toBe('SOLD');
+    expect(instance.positions[0].exitReason).toBe('trailing-stop');
+  });
+
+  it('should clear trailing state once the position is sold', async () => {
+    const bot = await createRunningBot();
+    await tickAt(bot, 0.0012);
+    await tickAt(bot, 0.0011);
+
+    expect(savedStates[instance.id]).toEqual({});
+  });
+
+  it('should wait out the retry delay after a failed trailing stop sell', async () => {
+    const bot = await createRunningBot();
+    (bot as any).publicClient.waitForTransactionReceipt.mockResolvedValueOnce({
+      status: 'reverted',
+      gasUsed: 100000n,
+      effectiveGasPrice: 1000000000n,
+    });
+    await tickAt(bot, 0.0012);
+
+    await tickAt(bot, 0.0011);
+    await tickAt(bot, 0.0011);
+
+    expect(instance.positions[0].status).toBe('HOLDING');
+    expect(zeroXApi.getSellQuote).toHaveBeenCalledTimes(1);
+    expect((bot as any).walletClient.sendTransaction).toHaveBeenCalledTimes(1);
+
+    // Sold once the delay has passed
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 31 * 1000);
+    await tickAt(bot, 0.0011);
+    vi.restoreAllMocks();
+    expect(instance.positions[0].status).toBe('SOLD');
+  });
+
+  it('should not track positions when trailing is disabled', async () => {
+    instance.config.useTrailingStopLoss = false;
+    const bot = await createRunningBot();
+
+    await tickAt(bot, 0.0012);
+    await tickAt(bot, 0.0011);
+
+    expect(storage.saveBotTrailingStopState).not.toHaveBeenCalled();
+    expect(instance.positions[0].status).toBe('HOLDING');
+  });
+});
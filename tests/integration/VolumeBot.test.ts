@@ -70,6 +70,7 @@ describe('TradingBot Volume Mode', () => {
     } as unknown as WalletManager;
 
     mockZeroXApi = {
+      setChain: vi.fn(),
       getTokenPrice: vi.fn().mockResolvedValue(0.000001),
       getBuyQuote: vi.fn().mockResolvedValue({
         buyAmount: '1000000000000000000',
@@ -174,4 +175,92 @@ describe('TradingBot Volume Mode', () => {
     expect(volumeBot.volumeBuysInCycle).toBeDefined();
     expect(gridBot.volumeBuysInCycle).toBeUndefined();
   });
+
+  describe('volume cycle engine', () => {
+    const createRunningBot = async () => {
+      const bot = new TradingBot(
+        mockInstance,
+        mockWalletManager,
+        mockZeroXApi,
+        mockStorage,
+        'https://base.llamarpc.com',
+        false
+      );
+      await bot.init();
+
+      // Swap in fake clients so legs "confirm" without a chain
+      (bot as any).walletClient = {
+        sendTransaction: vi.fn().mockResolvedValue('0x' + 'a'.repeat(64)),
+      };
+      (bot as any).publicClient = {
+        getBalance: vi.fn().mockResolvedValue(10n ** 18n),
+        readContract: vi.fn().mockResolvedValue(10n ** 30n),
+        getTransactionCount: vi.fn().mockResolvedValue(0),
+        waitForTransactionReceipt: vi.fn().mockResolvedValue({
+          status: 'success',
+          gasUsed: 100000n,
+          effectiveGasPrice: 1000000000n,
+        }),
+      };
+      return bot;
+    };
+
+    it('should not generate a grid for volume bots', async () => {
+      await createRunningBot();
+      expect(mockInstance.positions).toHaveLength(0);
+    });
+
+    it('should buy N times and then sell the accumulated tokens once', async () => {
+      mockInstance.config.volumeBuyIntervalSeconds = 0;
+      const bot = await createRunningBot();
+
+      for (let i = 0; i < 3; i++) {
+        await bot.tick();
+      }
+
+      expect(mockInstance.volumeBuysInCycle).toBe(3);
+      expect(mockInstance.volumeAccumulatedTokens).toBe('3000000000000000000');
+      expect(mockInstance.volumeCostBasis).toBe('3000000000000000');
+      expect(mockInstance.totalBuys).toBe(3);
+
+      await bot.tick();
+
+      expect(mockZeroXApi.getSellQuote).toHaveBeenCalledWith(
+        mockInstance.tokenAddress,
+        '3000000000000000000',
+        mockInstance.walletAddress,
+        100,
+        undefined
+      );
+      expect(mockInstance.totalSells).toBe(1);
+      expect(mockInstance.volumeCycleCount).toBe(1);
+      expect(mockInstance.volumeBuysInCycle).toBe(0);
+      expect(mockInstance.volumeAccumulatedTokens).toBe('0');
+      expect(mockInstance.volumeCostBasis).toBe('0');
+    });
+
+    it('should space legs by volumeBuyIntervalSeconds', async () => {
+      mockInstance.config.volumeBuyIntervalSeconds = 60;
+      const bot = await createRunningBot();
+
+      await bot.tick();
+      await bot.tick();
+
+      expect(mockInstance.volumeBuysInCycle).toBe(1);
+      expect(mockZeroXApi.getBuyQuote).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resume a cycle from persisted state', async () => {
+      mockInstance.config.volumeBuyIntervalSeconds = 0;
+      mockInstance.volumeBuysInCycle = 3;
+      mockInstance.volumeAccumulatedTokens = '3000000000000000000';
+      mockInstance.volumeCostBasis = '3000000000000000';
+      const bot = await createRunningBot();
+
+      await bot.tick();
+
+      expect(mockZeroXApi.getBuyQuote).not.toHaveBeenCalled();
+      expect(mockInstance.volumeCycleCount).toBe(1);
+    });
+  });
 });
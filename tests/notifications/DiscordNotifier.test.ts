@@ -191,6 +191,15 @@ describe('DiscordNotifier', () => {
       expect(callBody.embeds[0].color).toBe(0x00ff00);
     });
 
+    it('should label trailing stop exits', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true });
+
+      await notifier.notifyProfit('TestBot', 'TEST', 4, '0.0001', 2, 'trailing-stop');
+
+      const callBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(callBody.embeds[0].title).toContain('trailing stop');
+    });
+
     it('should show negative profit in red', async () => {
       mockFetch.mockResolvedValueOnce({ ok: true });
 
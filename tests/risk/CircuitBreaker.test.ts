@@ -121,6 +121,16 @@ describe('CircuitBreaker', () => {
     });
   });
 
+  describe('Disabling', () => {
+    it('should lift an active halt when disabled', async () => {
+      await circuitBreaker.forceTrigger('Test');
+      circuitBreaker.updateConfig({ enabled: false });
+
+      expect((await circuitBreaker.check([])).triggered).toBe(false);
+      expect(circuitBreaker.getHaltMode()).toBe('none');
+    });
+  });
+
   describe('Status Report', () => {
     it('should provide status summary', () => {
       const status = circuitBreaker.getStatus();
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TokenSafety } from '../../src/risk/TokenSafety.js';
+import { TradingBot } from '../../src/bot/TradingBot.js';
+import { SwapProvider } from '../../src/api/SwapProvider.js';
+import { ZeroXApi } from '../../src/api/ZeroXApi.js';
+import { WalletManager } from '../../src/wallet/WalletManager.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { createBotInstance, createGridConfig, createPosition, createZeroXQuote } from '../utils/factories.js';
+
+const TOKEN = '0x1234567890123456789012345678901234567890';
+const WALLET = '0x9876543210987654321098765432109876543210';
+
+const ok = (result: bigint) => ({ status: 'success', result });
+const reverted = (message: string) => ({ status: 'failure', error: { shortMessage: message } });
+
+describe('TokenSafety', () => {
+  let storage: any;
+  let swapProvider: any;
+  let publicClient: any;
+
+  // Quotes: 1000 tokens for the buy, 0.001 ETH for the sell
+  const buyQuote = { ...createZeroXQuote('buy'), buyAmount: '1000000000000000000000' };
+  const sellQuote = { ...createZeroXQuote('sell'), buyAmount: '1000000000000000' };
+
+  const simulate = (tokensReceived: bigint, sell: any) => {
+    publicClient.simulateCalls
+      .mockResolvedValueOnce({ results: [ok(0n), ok(0n), ok(tokensReceived)] })
+      .mockResolvedValueOnce({ results: [ok(0n), ok(1n), ok(5n * 10n ** 17n), sell, ok(5n * 10n ** 17n + 950000000000000n)] });
+  };
+
+  beforeEach(() => {
+    storage = {
+      getTokenSafety: vi.fn().mockResolvedValue(undefined),
+      saveTokenSafety: vi.fn().mockResolvedValue(undefined),
+    };
+    swapProvider = {
+      name: '0x',
+      getBuyQuote: vi.fn().mockResolvedValue(buyQuote),
+      getSellQuote: vi.fn().mockResolvedValue(sellQuote),
+    };
+    publicClient = { simulateCalls: vi.fn() };
+  });
+
+  const create = () => new TokenSafety(
+    storage as unknown as JsonStorage,
+    publicClient,
+    swapProvider as unknown as SwapProvider
+  );
+
+  it('should measure buy and sell tax from a simulated round trip', async () => {
+    // 2% withheld on the buy, 5% on the sell
+    simulate(980000000000000000000n, ok(0n));
+
+    const report = await create().check(TOKEN, WALLET);
+
+    expect(report.status).toBe('sellable');
+    expect(report.buyTaxPercent).toBeCloseTo(2);
+    expect(report.sellTaxPercent).toBeCloseTo(5);
+    expect(report.roundTripTaxPercent).toBeCloseTo(6.9);
+    expect(swapProvider.getSellQuote).toHaveBeenCalledWith(TOKEN, '980000000000000000000', WALLET, 5000);
+
+    // The sell simulation runs from the bot's wallet with a balance override
+    const call = publicClient.simulateCalls.mock.calls[1][0];
+    expect(call.account).toBe(WALLET);
+    expect(call.stateOverrides[0].address).toBe(WALLET);
+    expect(call.calls[1].functionName).toBe('approve');
+    expect(storage.saveTokenSafety).toHaveBeenCalledWith(report);
+  });
+
+  it('should flag a token whose sell reverts as a honeypot', async () => {
+    simulate(1000000000000000000000n, reverted('TRANSFER_FROM_FAILED'));
+
+    const report = await create().check(TOKEN, WALLET);
+
+    expect(report.status).toBe('honeypot');
+    expect(report.reason).toContain('TRANSFER_FROM_FAILED');
+    expect(TokenSafety.evaluate(report).allowed).toBe(false);
+  });
+
+  it('should refuse taxes above the bot limit', async () => {
+    simulate(980000000000000000000n, ok(0n));
+    const report = await create().check(TOKEN, WALLET);
+
+    expect(TokenSafety.evaluate(report, 5).allowed).toBe(false);
+    expect(TokenSafety.evaluate(report, 5).reason).toContain('exceeds the 5% limit');
+    expect(TokenSafety.evaluate(report).allowed).toBe(true);
+  });
+
+  it('should allow but not cache when the RPC cannot simulate', async () => {
+    publicClient.simulateCalls.mockRejectedValue(new Error('the method eth_simulateV1 does not exist'));
+
+    const report = await create().check(TOKEN, WALLET);
+
+    expect(report.status).toBe('unknown');
+    expect(report.reason).toContain('eth_simulateV1');
+    expect(TokenSafety.evaluate(report).allowed).toBe(true);
+    expect(storage.saveTokenSafety).not.toHaveBeenCalled();
+  });
+
+  it('should use a fresh cached result instead of simulating', async () => {
+    const cached = {
+      chain: 'base', tokenAddress: TOKEN, status: 'honeypot', buyTaxPercent: null, sellTaxPercent: null,
+      roundTripTaxPercent: null, route: '0x', reason: 'Sell reverted', checkedAt: Date.now() - 60000,
+    };
+    storage.getTokenSafety.mockResolvedValue(cached);
+
+    expect(await create().check(TOKEN, WALLET)).toBe(cached);
+    expect(publicClient.simulateCalls).not.toHaveBeenCalled();
+
+    // Stale results are simulated again
+    cached.checkedAt = Date.now() - TokenSafety.CACHE_TTL_MS - 1;
+    simulate(1000000000000000000000n, ok(0n));
+    expect((await create().check(TOKEN, WALLET)).status).toBe('sellable');
+  });
+});
+
+describe('TradingBot token safety gate', () => {
+  const honeypot = {
+    chain: 'base', tokenAddress: TOKEN, status: 'honeypot', buyTaxPercent: 0, sellTaxPercent: null,
+    roundTripTaxPercent: null, route: '0x', reason: 'Sell reverted: TRADING_CLOSED', checkedAt: Date.now(),
+  };
+
+  const runCheckBuys = async (configOverrides = {}) => {
+    const storage = {
+      saveBot: vi.fn().mockResolvedValue(undefined),
+      getTokenSafety: vi.fn().mockResolvedValue(honeypot),
+    };
+    const bot = new TradingBot(
+      createBotInstance({
+        tokenAddress: TOKEN,
+        config: createGridConfig(configOverrides),
+        positions: [createPosition({ id: 0 })],
+      }),
+      { getMainWalletClient: vi.fn(), getBotWalletClient: vi.fn() } as unknown as WalletManager,
+      { setChain: vi.fn() } as unknown as ZeroXApi,
+      storage as unknown as JsonStorage,
+      'https://base.llamarpc.com',
+      false
+    );
+    const executeBuy = vi.spyOn(bot as any, 'executeBuy').mockResolvedValue({ success: false, error: 'test' });
+
+    await (bot as any).checkBuys(0.00045);
+    await (bot as any).checkBuys(0.00045);
+    return { executeBuy, storage };
+  };
+
+  it('should not arm the grid on a honeypot', async () => {
+    const { executeBuy, storage } = await runCheckBuys();
+
+    expect(executeBuy).not.toHaveBeenCalled();
+    // The refusal is remembered - no re-check every tick
+    expect(storage.getTokenSafety).toHaveBeenCalledTimes(1);
+  });
+
+  it('should buy without checking when the check is disabled', async () => {
+    const { executeBuy, storage } = await runCheckBuys({ tokenSafetyCheck: false, useFixedBuyAmount: true, buyAmount: 0.001 });
+
+    expect(executeBuy).toHaveBeenCalled();
+    expect(storage.getTokenSafety).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { maxUint256 } from 'viem';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ApprovalRegistry, KNOWN_SPENDERS } from '../../src/wallet/ApprovalRegistry.js';
+import { JsonStorage } from '../../src/storage/JsonStorage.js';
+import { createBotInstance } from '../utils/factories.js';
+
+const TOKEN = '0x1234567890123456789012345678901234567890';
+const SPENDER = '0x00000000000000000000000000000000000000aa';
+
+describe('ApprovalRegistry', () => {
+  let tempDir: string;
+  let storage: JsonStorage;
+  let registry: ApprovalRegistry;
+  let allowances: Map<string, bigint>;
+  let publicClient: any;
+  let wallets = 0;
+  let wallet: string;
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'approvals-test-'));
+    storage = new JsonStorage(join(tempDir, 'bots.json'), join(tempDir, 'trades.json'));
+    await storage.init();
+    registry = new ApprovalRegistry(storage, 'base');
+
+    // Fresh address per test - the nonce manager is shared across tests
+    wallet = `0x${(0xa0 + ++wallets).toString(16).padStart(40, '0')}`;
+    allowances = new Map();
+    publicClient = {
+      readContract: vi.fn(async ({ args }: any) => allowances.get(args[1].toLowerCase()) ?? 0n),
+      getTransactionCount: vi.fn().mockResolvedValue(3),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: 'success' }),
+    };
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should approve the exact amount or a bounded multiple of it', () => {
+    expect(ApprovalRegistry.approvalAmount(1000n, {})).toBe(1000n);
+    expect(ApprovalRegistry.approvalAmount(1000n, { approvalMode: 'capped' })).toBe(5000n);
+    expect(ApprovalRegistry.approvalAmount(1000n, { approvalMode: 'capped', approvalCapMultiple: 2.5 })).toBe(2500n);
+    expect(ApprovalRegistry.approvalAmount(1000n, { approvalMode: 'capped', approvalCapMultiple: 0.5 })).toBe(1000n);
+  });
+
+  it('should find open allowances and forget spent ones', async () => {
+    await registry.record({ walletAddress: wallet, tokenAddress: TOKEN, tokenSymbol: 'TEST', spender: SPENDER, amount: '1000' });
+    const router = KNOWN_SPENDERS.base[2].address;
+    allowances.set(router.toLowerCase(), maxUint256);
+    const bot = createBotInstance({ walletAddress: wallet, tokenAddress: TOKEN, chain: 'base' });
+
+    const candidates = await registry.candidates([bot]);
+    expect(candidates).toHaveLength(1 + KNOWN_SPENDERS.base.length);
+
+    const outstanding = await registry.outstanding(publicClient, candidates);
+    expect(outstanding).toHaveLength(1);
+    expect(outstanding[0].record.spender).toBe(router);
+    expect(outstanding[0].allowance).toBe(maxUint256);
+
+    // The recorded approval was spent, the discovered one is now recorded
+    const stored = await storage.getApprovals('base', wallet);
+    expect(stored.map(a => a.spender)).toEqual([router]);
+    expect(stored[0].amount).toBe(maxUint256.toString());
+  });
+
+  it('should revoke by approving zero and drop the record', async () => {
+    await registry.record({ walletAddress: wallet, tokenAddress: TOKEN, spender: SPENDER, amount: '1000', botId: 'bot-1' });
+    const [record] = await storage.getApprovals('base', wallet);
+    const walletClient = { writeContract: vi.fn().mockResolvedValue(`0x${'1'.padStart(64, '0')}`) };
+
+    await registry.revoke(walletClient, publicClient, record);
+
+    const call = walletClient.writeContract.mock.calls[0][0];
+    expect(call).toMatchObject({ address: TOKEN, functionName: 'approve', nonce: 3 });
+    expect(call.args).toEqual([SPENDER, 0n]);
+    expect(await storage.getApprovals('base', wallet)).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NonceManager } from '../../src/wallet/NonceManager.js';
+
+const WALLET = '0x9876543210987654321098765432109876543210';
+
+describe('NonceManager', () => {
+  let manager: NonceManager;
+  let counts: { latest: number; pending: number };
+  let publicClient: any;
+
+  beforeEach(() => {
+    manager = new NonceManager();
+    counts = { latest: 5, pending: 5 };
+    publicClient = {
+      getTransactionCount: vi.fn(async ({ blockTag }: any) => counts[blockTag as 'latest' | 'pending']),
+    };
+  });
+
+  const hash = (n: number) => `0x${n.toString(16).padStart(64, '0')}` as `0x${string}`;
+
+  it('should hand concurrent sends consecutive nonces', async () => {
+    const used: number[] = [];
+    const submit = async (nonce: number) => {
+      // The node hasn't seen earlier sends yet
+      await new Promise(resolve => setTimeout(resolve, 5));
+      used.push(nonce);
+      return hash(nonce);
+    };
+
+    await Promise.all([
+      manager.send('base', WALLET, publicClient, 'Bot A', submit),
+      manager.send('base', WALLET, publicClient, 'Bot B', submit),
+      manager.send('base', WALLET.toUpperCase().replace('0X', '0x'), publicClient, 'Bot C', submit),
+    ]);
+
+    expect(used).toEqual([5, 6, 7]);
+  });
+
+  it('should keep separate queues per chain', async () => {
+    const base = await manager.send('base', WALLET, publicClient, 'Bot A', async n => hash(n));
+    const eth = await manager.send('ethereum', WALLET, publicClient, 'Bot B', async n => hash(n));
+
+    expect(base).toBe(hash(5));
+    expect(eth).toBe(hash(5));
+  });
+
+  it('should resync and retry once on a nonce error', async () => {
+    await manager.send('base', WALLET, publicClient, 'Bot A', async n => hash(n));
+    counts = { latest: 9, pending: 9 }; // another process sent in between
+    const submit = vi.fn()
+      .mockRejectedValueOnce(new Error('nonce too low'))
+      .mockImplementation(async (n: number) => hash(n));
+
+    const txHash = await manager.send('base', WALLET, publicClient, 'Bot A', submit);
+
+    expect(txHash).toBe(hash(9));
+    expect(submit).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the queue moving after a failed send', async () => {
+    const failed = manager.send('base', WALLET, publicClient, 'Bot A', async () => {
+      throw new Error('insufficient funds');
+    });
+    const next = manager.send('base', WALLET, publicClient, 'Bot B', async n => hash(n));
+
+    await expect(failed).rejects.toThrow('insufficient funds');
+    expect(await next).toBe(hash(5));
+  });
+
+  it('should report a stuck head transaction', async () => {
+    await manager.send('base', WALLET, publicClient, 'Bot A', async n => hash(n));
+    await manager.send('base', WALLET, publicClient, 'Bot B', async n => hash(n));
+    counts = { latest: 5, pending: 7 };
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 4 * 60 * 1000);
+
+    const report = await manager.inspect('base', WALLET, publicClient);
+    vi.restoreAllMocks();
+
+    expect(report.stuck?.nonce).toBe(5);
+    expect(report.stuck?.label).toBe('Bot A');
+    expect(report.issues[0]).toContain('blocks 1 later transaction');
+  });
+
+  it('should report and refill a dropped nonce gap', async () => {
+    await manager.send('base', WALLET, publicClient, 'Bot A', async n => hash(n));
+    await manager.send('base', WALLET, publicClient, 'Bot A', async n => hash(n));
+    counts = { latest: 5, pending: 6 }; // nonce 6 was dropped from the mempool
+
+    const report = await manager.inspect('base', WALLET, publicClient);
+    expect(report.gaps).toEqual([6]);
+    expect(report.issues[0]).toContain('Nonce gap');
+
+    // Still fresh: keep going past it
+    expect(await manager.send('base', WALLET, publicClient, 'Bot A', async n => hash(n))).toBe(hash(7));
+
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 60 * 1000);
+    expect(await manager.send('base', WALLET, publicClient, 'Bot A', async n => hash(n))).toBe(hash(6));
+    vi.restoreAllMocks();
+  });
+
+  it('should not refill nonces still waiting on a private relay', async () => {
+    const notFound = Object.assign(new Error('Transaction not found'), { name: 'TransactionNotFoundError' });
+    publicClient.getTransaction = vi.fn().mockRejectedValue(notFound);
+    // The relay keeps nonce 5 out of the public mempool, so the node's pending count stays at 5
+    await manager.send('base', WALLET, publicClient, 'Bot A', async n => hash(n), true);
+
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 5 * 60 * 1000);
+    const report = await manager.inspect('base', WALLET, publicClient);
+    expect(report.gaps).toEqual([]);
+    expect(report.issues).toEqual([]);
+    expect(await manager.send('base', WALLET, publicClient, 'Bot B', async n => hash(n))).toBe(hash(6));
+    expect(publicClient.getTransaction).not.toHaveBeenCalled();
+
+    // Past the relay's window, a hash the node does know is still not dropped
+    vi.spyOn(Date, 'now').mockReturnValue(now + 20 * 60 * 1000);
+    publicClient.getTransaction.mockResolvedValueOnce({ hash: hash(5) });
+    expect(await manager.send('base', WALLET, publicClient, 'Bot B', async n => hash(n))).toBe(hash(7));
+    expect(publicClient.getTransaction).toHaveBeenCalledWith({ hash: hash(5) });
+
+    // Nowhere to be found: given up and refilled
+    expect(await manager.send('base', WALLET, publicClient, 'Bot B', async n => hash(n))).toBe(hash(5));
+    vi.restoreAllMocks();
+  });
+
+  it('should recognise nonce errors', () => {
+    expect(NonceManager.isNonceError(new Error('Nonce too low. Expected nonce to be 4'))).toBe(true);
+    expect(NonceManager.isNonceError({ shortMessage: 'replacement transaction underpriced' })).toBe(true);
+    expect(NonceManager.isNonceError(new Error('execution reverted'))).toBe(false);
+    // Already in the mempool - not a collision to retry with a new nonce
+    expect(NonceManager.isNonceError({ details: 'already known' })).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { base } from 'viem/chains';
+import { PrivateRelay } from '../../src/wallet/PrivateRelay.js';
+
+const RPC = 'https://rpc.example/';
+const RELAY = 'https://relay.example/';
+
+describe('PrivateRelay', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('should send raw transactions to the relay and everything else to the RPC', async () => {
+    const fetch = vi.fn(async (_url: string, init: any) => new Response(
+      JSON.stringify({ jsonrpc: '2.0', id: JSON.parse(init.body).id, result: '0x1' }),
+      { headers: { 'Content-Type': 'application/json' } }
+    ));
+    vi.stubGlobal('fetch', fetch);
+
+    const transport = PrivateRelay.transport(RPC, RELAY)({ chain: base });
+    await transport.request({ method: 'eth_sendRawTransaction', params: ['0x02f8'] });
+    await transport.request({ method: 'eth_getTransactionCount', params: ['0x0000000000000000000000000000000000000001', 'pending'] });
+
+    expect(fetch.mock.calls.map(([url]) => String(url))).toEqual([RELAY, RPC]);
+    expect(JSON.parse(fetch.mock.calls[0][1].body).method).toBe('eth_sendRawTransaction');
+  });
+
+  it('should prefer the saved relay over the environment', () => {
+    vi.stubEnv('ETH_PRIVATE_RPC_URL', 'https://env.example/');
+
+    expect(PrivateRelay.resolve('ethereum', { ethereum: RELAY })).toBe(RELAY);
+    expect(PrivateRelay.resolve('ethereum')).toBe('https://env.example/');
+    expect(PrivateRelay.resolve('base', { ethereum: RELAY })).toBeNull();
+    expect(PrivateRelay.label('https://relay.example/key/abc123')).toBe('relay.example');
+  });
+});